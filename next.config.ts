@@ -5,6 +5,8 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  // pdf.js loads its worker module at runtime, which bundling breaks
+  serverExternalPackages: ["pdfjs-dist"],
 };
 
 export default nextConfig;
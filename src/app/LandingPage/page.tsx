@@ -1,163 +1,273 @@
 "use client";
-import React, { useState, useCallback, useMemo } from "react";
+import React, { useState, useCallback, useEffect, useMemo } from "react";
 import {
   Upload,
   File,
   X,
   Loader2,
-  DollarSign,
   TrendingUp,
   Download,
   Eye,
   AlertCircle,
+  Clock,
+  Trash2,
   ChevronDown,
   ChevronUp,
-  Activity,
-  Target,
   Zap,
   Search,
-  Users,
-  Database,
   FileSpreadsheet,
   Brain,
   Settings,
  
 } from "lucide-react";
- import { v4 as uuidv4 } from "uuid";
+import type {
+  ComparisonReport,
+  DynamicReport,
+  FileJobStatus,
+  GenerateReportResponse,
+  JobStatus,
+  MetricComparison,
+  ProcessingMode,
+  ProcessingTime,
+  ReportJob,
+  ReportProfile,
+  ReportSummary,
+} from "@/lib/reportTypes";
+import type { PeriodDelta, TimeSeriesSection } from "@/lib/timeSeries";
+import type { ColumnProfile } from "@/lib/columnProfile";
+import {
+  parseQualityRules,
+  QualityAssessment,
+  QualityRule,
+} from "@/lib/qualityRules";
+import { InsightRule, parseInsightRules } from "@/lib/insightRules";
+import {
+  BudgetSettings,
+  DEFAULT_VARIANCE_THRESHOLD,
+} from "@/lib/budgetVariance";
+import type { FileInspection } from "@/lib/fileParser";
+import ReportCharts from "@/components/ReportCharts";
+import DataPreview from "@/components/DataPreview";
+import PivotBuilder from "@/components/PivotBuilder";
+import { acceptedFileTypes, MAX_SAMPLE_ROWS } from "@/lib/fileFormats";
+import {
+  DEFAULT_CURRENCY,
+  formatReportValue,
+  isReportValue,
+} from "@/lib/reportValues";
+import {
+  assignColumnRoles,
+  COLUMN_ROLES,
+  ColumnMapping,
+  isColumnRole,
+  rolesByColumn,
+  rolesForType,
+} from "@/lib/columnRoles";
+import { generatorFor, REPORT_GENERATORS } from "@/lib/generators";
 
 interface FileObject {
   id: string;
   file: File;
   name: string;
   size: number;
+  inspecting?: boolean;
+  inspection?: FileInspection;
+  selectedSheets?: string[];
+  // Roles the user set by hand; other columns keep their detected role
+  columnMapping?: ColumnMapping;
+  excludedColumns?: string[];
+  // Validation rules; the text is kept as typed while it fails to parse
+  qualityRules?: QualityRule[];
+  qualityRulesText?: string;
+  qualityRulesError?: string;
+  // Recommendation rules checked after the built-in ones, kept the same way
+  insightRules?: InsightRule[];
+  insightRulesText?: string;
+  insightRulesError?: string;
+  // Saved profile matching this file's headers, applied on upload
+  profile?: ReportProfile;
+  savingProfile?: boolean;
 }
 
-interface DynamicReport {
-  id: string;
-  fileName: string;
-  generatedAt: string;
-  reportType: string;
-  data: Record<string, any>;
-  summary: Record<string, any>;
-  dataInfo: {
-    rowsAnalyzed: number;
-    columnsAnalyzed: number;
-  };
-  metadata?: {
-    confidence?: number;
-    processingTime?: number;
-    dataQuality?: string;
-    suggestions?: string[];
-  };
+// Issues listed under the rules table before the rest are summarized
+const MAX_ISSUE_ROWS = 200;
+const QUALITY_RULES_EXAMPLE = `[
+  { "type": "required", "column": "SKU" },
+  { "type": "range", "column": "Quantity", "min": 0 },
+  { "type": "compare", "expression": "Cost <= Price", "weight": 2 }
+]`;
+
+const INSIGHT_RULES_EXAMPLE = `[
+  { "type": "concentration", "column": "region", "top": 1, "threshold": 0.4 },
+  { "type": "margin", "threshold": 0.2, "severity": "critical" },
+  { "type": "metric", "metric": "salesOverview.avgOrderValue", "operator": "<", "value": 50, "recommendation": "Bundle products to lift order value" }
+]`;
+
+function rulesText(rules?: unknown[]): string {
+  return rules?.length ? JSON.stringify(rules, null, 2) : "";
 }
 
-interface ReportTemplate {
-  type: string;
-  name: string;
-  icon: React.ComponentType<any>;
-  color: string;
-  sections: string[];
-  keyMetrics: string[];
+type ReportView = "report" | "data" | "pivot";
+
+const REPORT_VIEWS: { view: ReportView; label: string }[] = [
+  { view: "report", label: "Report" },
+  { view: "data", label: "Data" },
+  { view: "pivot", label: "Pivot" },
+];
+
+interface InspectFileResponse {
+  success: boolean;
+  error?: string;
+  files?: FileInspection[];
+}
+
+interface ReportHistoryResponse {
+  success: boolean;
+  error?: string;
+  reports?: ReportSummary[];
+  total?: number;
+}
+
+interface StoredReportResponse {
+  success: boolean;
+  error?: string;
+  report?: DynamicReport;
+}
+
+interface ProfileResponse {
+  success: boolean;
+  error?: string;
+  profile?: ReportProfile;
+}
+
+interface JobResponse {
+  success: boolean;
+  error?: string;
+  jobId?: string;
+  job?: ReportJob;
 }
 
 type UploadStatus = "idle" | "uploading" | "success" | "error";
 
-const REPORT_TEMPLATES: ReportTemplate[] = [
-  {
-    type: "financial",
-    name: "Financial Analysis",
-    icon: DollarSign,
-    color: "green",
-    sections: [
-      "executiveSummary",
-      "revenueAnalysis",
-      "costAnalysis",
-      "profitLoss",
-      "recommendations",
-    ],
-    keyMetrics: ["totalRevenue", "totalCosts", "netProfit", "profitMargin"],
-  },
-  {
-    type: "sales",
-    name: "Sales Performance",
-    icon: TrendingUp,
-    color: "blue",
-    sections: [
-      "salesOverview",
-      "topProducts",
-      "customerAnalysis",
-      "trends",
-      "opportunities",
-    ],
-    keyMetrics: [
-      "totalSales",
-      "avgOrderValue",
-      "conversionRate",
-      "customerCount",
-    ],
-  },
-  {
-    type: "inventory",
-    name: "Inventory Analysis",
-    icon: Database,
-    color: "purple",
-    sections: [
-      "stockLevels",
-      "turnoverAnalysis",
-      "reorderPoints",
-      "deadStock",
-      "recommendations",
-    ],
-    keyMetrics: ["totalItems", "stockValue", "turnoverRate", "outOfStock"],
-  },
-  {
-    type: "customer",
-    name: "Customer Insights",
-    icon: Users,
-    color: "orange",
-    sections: [
-      "demographics",
-      "behavior",
-      "segmentation",
-      "retention",
-      "recommendations",
-    ],
-    keyMetrics: [
-      "totalCustomers",
-      "avgLifetimeValue",
-      "churnRate",
-      "satisfaction",
-    ],
-  },
-  {
-    type: "marketing",
-    name: "Marketing Analytics",
-    icon: Target,
-    color: "pink",
-    sections: [
-      "campaignPerformance",
-      "channelAnalysis",
-      "roiAnalysis",
-      "audienceInsights",
-      "optimization",
-    ],
-    keyMetrics: ["totalReach", "engagement", "roi", "costPerAcquisition"],
-  },
-  {
-    type: "operational",
-    name: "Operations Report",
-    icon: Activity,
-    color: "indigo",
-    sections: [
-      "efficiency",
-      "productivity",
-      "quality",
-      "bottlenecks",
-      "improvements",
-    ],
-    keyMetrics: ["efficiency", "uptime", "errorRate", "throughput"],
-  },
+type ProfileSortKey =
+  | "column"
+  | "type"
+  | "typeConfidence"
+  | "nullRate"
+  | "distinct"
+  | "outliers";
+
+interface ProfileSort {
+  key: ProfileSortKey;
+  descending: boolean;
+}
+
+const PROCESSING_STAGES = ["parse", "detect", "generate", "assess"] as const;
+
+const ACTIVE_JOB_STATUSES: JobStatus[] = ["queued", "running"];
+// Used when the progress stream is unavailable
+const JOB_POLL_MS = 1000;
+// Runner-up report types offered as a switch beside the detected one
+const MAX_ALTERNATIVE_TYPES = 2;
+const PROFILE_HEADINGS: { key: ProfileSortKey; label: string }[] = [
+  { key: "column", label: "Column" },
+  { key: "type", label: "Type" },
+  { key: "typeConfidence", label: "Type fit" },
+  { key: "nullRate", label: "Nulls" },
+  { key: "distinct", label: "Distinct" },
+  { key: "outliers", label: "Outliers" },
 ];
+const FILE_STATUS_LABELS: Record<FileJobStatus, string> = {
+  queued: "Queued",
+  parsing: "Parsing",
+  analyzing: "Analyzing",
+  done: "Done",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+/* ----------   COLUMN PROFILE   ---------- */
+function profileSortValue(
+  profile: ColumnProfile,
+  key: ProfileSortKey
+): string | number {
+  if (key === "outliers") return profile.numeric?.outliers.iqr.count ?? -1;
+  return profile[key];
+}
+
+function sortProfile(
+  profile: ColumnProfile[],
+  sort: ProfileSort
+): ColumnProfile[] {
+  const direction = sort.descending ? -1 : 1;
+  return [...profile].sort((a, b) => {
+    const left = profileSortValue(a, sort.key);
+    const right = profileSortValue(b, sort.key);
+    const order =
+      typeof left === "number" && typeof right === "number"
+        ? left - right
+        : String(left).localeCompare(String(right));
+    return order * direction;
+  });
+}
+
+/* ----------   JOB PROGRESS   ---------- */
+// Follows a report job over server-sent events until it finishes, polling
+// instead if the stream cannot be opened or drops
+function followJob(
+  id: string,
+  onUpdate: (job: ReportJob) => void
+): Promise<ReportJob> {
+  return new Promise((resolve, reject) => {
+    const finish = (job: ReportJob) => {
+      onUpdate(job);
+      resolve(job);
+    };
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/jobs/${id}`);
+        const data: JobResponse = await response.json();
+        if (!data.success || !data.job) {
+          throw new Error(data.error || `HTTP ${response.status}`);
+        }
+        if (ACTIVE_JOB_STATUSES.includes(data.job.status)) {
+          onUpdate(data.job);
+          setTimeout(poll, JOB_POLL_MS);
+        } else {
+          finish(data.job);
+        }
+      } catch (err) {
+        reject(err);
+      }
+    };
+
+    const source = new EventSource(`/api/jobs/${id}/events`);
+    source.addEventListener("progress", (event) => {
+      onUpdate(JSON.parse((event as MessageEvent<string>).data));
+    });
+    source.addEventListener("done", (event) => {
+      source.close();
+      finish(JSON.parse((event as MessageEvent<string>).data));
+    });
+    source.onerror = () => {
+      source.close();
+      void poll();
+    };
+  });
+}
+
+type ExportFormat = "xlsx" | "json";
+
+const LOCALE_OPTIONS = ["en-US", "en-GB", "en-IN", "de-DE", "fr-FR", "ja-JP"];
+const CURRENCY_OPTIONS = ["USD", "EUR", "GBP", "INR", "JPY", "CAD", "AUD"];
+
+// Budget choices are sent as "file:<name>" or "sheet:<name>"
+function budgetChoice(source: string): BudgetSettings | null {
+  if (source.startsWith("file:")) return { file: source.slice(5) };
+  if (source.startsWith("sheet:")) return { sheet: source.slice(6) };
+  return null;
+}
 
 const DynamicReportDashboard: React.FC = () => {
   const [files, setFiles] = useState<FileObject[]>([]);
@@ -171,65 +281,58 @@ const DynamicReportDashboard: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState("");
   const [filterType, setFilterType] = useState<string>("all");
   const [showMetadata, setShowMetadata] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [locale, setLocale] = useState<string>(LOCALE_OPTIONS[0]);
+  const [currency, setCurrency] = useState<string>(DEFAULT_CURRENCY);
+  const [history, setHistory] = useState<ReportSummary[]>([]);
+  const [historyTotal, setHistoryTotal] = useState(0);
+  const [mode, setMode] = useState<ProcessingMode>("separate");
+  const [budgetSource, setBudgetSource] = useState("");
+  // Percent of budget within which a line counts as on budget
+  const [budgetThreshold, setBudgetThreshold] = useState(
+    String(DEFAULT_VARIANCE_THRESHOLD * 100)
+  );
+  const [comparison, setComparison] = useState<ComparisonReport | null>(null);
+  const [job, setJob] = useState<ReportJob | null>(null);
+  const [switchingType, setSwitchingType] = useState<string | null>(null);
+  // The generated report, the rows it was generated from, or a pivot of them
+  const [reportView, setReportView] = useState<ReportView>("report");
+  const [profileSort, setProfileSort] = useState<ProfileSort>({
+    key: "column",
+    descending: false,
+  });
 
   const activeReport = useMemo(() => reports[activeIdx], [reports, activeIdx]);
 
-  const detectReportType = (data: any): string => {
-    const dataStr = JSON.stringify(data).toLowerCase();
-
-    if (
-      dataStr.includes("revenue") ||
-      dataStr.includes("profit") ||
-      dataStr.includes("financial")
-    ) {
-      return "financial";
-    } else if (
-      dataStr.includes("sales") ||
-      dataStr.includes("orders") ||
-      dataStr.includes("customers")
-    ) {
-      return "sales";
-    } else if (
-      dataStr.includes("inventory") ||
-      dataStr.includes("stock") ||
-      dataStr.includes("products")
-    ) {
-      return "inventory";
-    } else if (
-      dataStr.includes("customer") ||
-      dataStr.includes("demographics") ||
-      dataStr.includes("behavior")
-    ) {
-      return "customer";
-    } else if (
-      dataStr.includes("marketing") ||
-      dataStr.includes("campaign") ||
-      dataStr.includes("advertising")
-    ) {
-      return "marketing";
-    } else if (
-      dataStr.includes("operations") ||
-      dataStr.includes("efficiency") ||
-      dataStr.includes("productivity")
-    ) {
-      return "operational";
-    }
-
-    return "general";
-  };
-
-  const getReportTemplate = (type: string): ReportTemplate => {
-    return (
-      REPORT_TEMPLATES.find((t) => t.type === type) || {
-        type: "general",
-        name: "General Analysis",
-        icon: FileSpreadsheet,
-        color: "gray",
-        sections: ["summary", "analysis", "insights", "recommendations"],
-        keyMetrics: ["totalRecords", "dataQuality", "completeness"],
-      }
+  // Another upload, or a sheet of a multi-sheet workbook, can be the budget
+  const budgetOptions = useMemo(() => {
+    const options: [string, string][] = [];
+    if (files.length > 1) {
+      files.forEach((f) => options.push([`file:${f.name}`, `File: ${f.name}`]));
+    }
+    const sheets = new Set(
+      files.flatMap((f) =>
+        f.inspection && f.inspection.sheets.length > 1
+          ? f.inspection.sheets
+              .filter((sheet) => !sheet.empty)
+              .map((sheet) => sheet.name)
+          : []
+      )
     );
-  };
+    sheets.forEach((name) => options.push([`sheet:${name}`, `Sheet: ${name}`]));
+    return options;
+  }, [files]);
+
+  // Null when no budget is chosen or the chosen one is no longer available
+  const budget = useMemo(() => {
+    const settings = budgetOptions.some(([value]) => value === budgetSource)
+      ? budgetChoice(budgetSource)
+      : null;
+    const threshold = parseFloat(budgetThreshold);
+    return settings && !isNaN(threshold)
+      ? { ...settings, threshold: threshold / 100 }
+      : settings;
+  }, [budgetOptions, budgetSource, budgetThreshold]);
 
   /* ----------   FILE HANDLERS   ---------- */
   const handleDrag = useCallback((e: React.DragEvent, dragState: boolean) => {
@@ -244,6 +347,62 @@ const DynamicReportDashboard: React.FC = () => {
     handleFiles(dropped);
   }, []);
 
+  // Fetches sheet names, dimensions and header previews so the user can
+  // pick which sheets to analyze before generating.
+  const inspectFiles = async (fileObjects: FileObject[]) => {
+    if (!fileObjects.length) return;
+
+    const formData = new FormData();
+    fileObjects.forEach((f) => formData.append("files", f.file));
+
+    try {
+      const response = await fetch("/api/inspect-file", {
+        method: "POST",
+        body: formData,
+      });
+      const data: InspectFileResponse = await response.json();
+      if (!response.ok || !data.success || !data.files) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+
+      const inspections = data.files;
+      setFiles((prev) =>
+        prev.map((f) => {
+          const index = fileObjects.findIndex((o) => o.id === f.id);
+          if (index === -1) return f;
+          const inspection = inspections[index];
+          const available = inspection.sheets
+            .filter((sheet) => !sheet.empty)
+            .map((sheet) => sheet.name);
+          const profile = inspection.profile;
+          const profileSheets = available.filter((name) =>
+            profile?.sheets.includes(name)
+          );
+          return {
+            ...f,
+            inspecting: false,
+            inspection,
+            selectedSheets: profileSheets.length ? profileSheets : available,
+            ...(profile
+              ? {
+                  profile,
+                  columnMapping: profile.columnMapping,
+                  excludedColumns: profile.excludedColumns,
+                  qualityRules: profile.qualityRules,
+                  qualityRulesText: rulesText(profile.qualityRules),
+                  insightRules: profile.insightRules,
+                  insightRulesText: rulesText(profile.insightRules),
+                }
+              : {}),
+          };
+        })
+      );
+    } catch (err) {
+      console.error("Failed to inspect files:", err);
+      setFiles((prev) => prev.map((f) => ({ ...f, inspecting: false })));
+    }
+  };
+
   const handleFiles = useCallback((newFiles: File[]) => {
     const valid = newFiles.filter((f) => f.size <= 50 * 1024 * 1024); // 50MB limit
     if (valid.length !== newFiles.length) {
@@ -251,15 +410,18 @@ const DynamicReportDashboard: React.FC = () => {
         `${newFiles.length - valid.length} file(s) exceeded size limit`
       );
     }
-    setFiles(
-      valid.map((f) => ({
-        id: crypto.randomUUID(),
-        file: f,
-        name: f.name,
-        size: f.size,
-      }))
-    );
+    const fileObjects = valid.map((f) => ({
+      id: crypto.randomUUID(),
+      file: f,
+      name: f.name,
+      size: f.size,
+      inspecting: true,
+    }));
+    setFiles(fileObjects);
+    inspectFiles(fileObjects);
     setReports([]);
+    setComparison(null);
+    setJob(null);
     setActiveIdx(0);
     setStatus("idle");
     if (valid.length === newFiles.length) {
@@ -271,6 +433,151 @@ const DynamicReportDashboard: React.FC = () => {
     setFiles((prev) => prev.filter((f) => f.id !== id));
   }, []);
 
+  const toggleSheet = useCallback((fileId: string, sheetName: string) => {
+    setFiles((prev) =>
+      prev.map((f) => {
+        if (f.id !== fileId) return f;
+        const selected = f.selectedSheets || [];
+        return {
+          ...f,
+          selectedSheets: selected.includes(sheetName)
+            ? selected.filter((name) => name !== sheetName)
+            : [...selected, sheetName],
+        };
+      })
+    );
+  }, []);
+
+  const setColumnRole = useCallback(
+    (fileId: string, column: string, role: string) => {
+      setFiles((prev) =>
+        prev.map((f) => {
+          if (f.id !== fileId) return f;
+          const mapping: ColumnMapping = { ...f.columnMapping };
+          if (role === "none" || isColumnRole(role)) {
+            mapping[column] = role;
+          } else {
+            delete mapping[column];
+          }
+          const excluded = (f.excludedColumns || []).filter(
+            (name) => name !== column
+          );
+          if (role === "exclude") excluded.push(column);
+          return { ...f, columnMapping: mapping, excludedColumns: excluded };
+        })
+      );
+    },
+    []
+  );
+
+  // Rules apply only once the text parses; until then the last valid rules
+  // stay in place and the error is shown under the editor
+  const setQualityRules = useCallback((fileId: string, text: string) => {
+    setFiles((prev) =>
+      prev.map((f) => {
+        if (f.id !== fileId) return f;
+        if (!text.trim()) {
+          return { ...f, qualityRules: [], qualityRulesText: text };
+        }
+        try {
+          return {
+            ...f,
+            qualityRules: parseQualityRules(JSON.parse(text)),
+            qualityRulesText: text,
+            qualityRulesError: undefined,
+          };
+        } catch (err) {
+          return {
+            ...f,
+            qualityRulesText: text,
+            qualityRulesError:
+              err instanceof Error ? err.message : "Invalid quality rules",
+          };
+        }
+      })
+    );
+  }, []);
+
+  const setInsightRules = useCallback((fileId: string, text: string) => {
+    setFiles((prev) =>
+      prev.map((f) => {
+        if (f.id !== fileId) return f;
+        if (!text.trim()) {
+          return { ...f, insightRules: [], insightRulesText: text };
+        }
+        try {
+          return {
+            ...f,
+            insightRules: parseInsightRules(JSON.parse(text)),
+            insightRulesText: text,
+            insightRulesError: undefined,
+          };
+        } catch (err) {
+          return {
+            ...f,
+            insightRulesText: text,
+            insightRulesError:
+              err instanceof Error ? err.message : "Invalid insight rules",
+          };
+        }
+      })
+    );
+  }, []);
+
+  // Saves the file's current sheets, roles and exclusions as a profile for
+  // its header set, updating the profile it already matched if any
+  const saveProfile = async (f: FileObject) => {
+    const sheet = f.inspection?.sheets.find(
+      (item) => !item.empty && (f.selectedSheets?.includes(item.name) ?? true)
+    );
+    if (!sheet) return;
+    const name =
+      f.profile?.name ||
+      window.prompt("Profile name", f.name.replace(/\.[^.]+$/, ""));
+    if (!name) return;
+
+    setFiles((prev) =>
+      prev.map((o) => (o.id === f.id ? { ...o, savingProfile: true } : o))
+    );
+    try {
+      const response = await fetch(
+        f.profile ? `/api/profiles/${f.profile.id}` : "/api/profiles",
+        {
+          method: f.profile ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name,
+            headers: sheet.headers,
+            reportType: selectedTemplate,
+            columnMapping: f.columnMapping || {},
+            sheets: f.selectedSheets || [],
+            excludedColumns: f.excludedColumns || [],
+            qualityRules: f.qualityRules || [],
+            insightRules: f.insightRules || [],
+          }),
+        }
+      );
+      const data: ProfileResponse = await response.json();
+      if (!response.ok || !data.profile) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+      const profile = data.profile;
+      setFiles((prev) =>
+        prev.map((o) =>
+          o.id === f.id ? { ...o, profile, savingProfile: false } : o
+        )
+      );
+    } catch (err) {
+      setErrorMsg(
+        err instanceof Error ? err.message : "Failed to save profile"
+      );
+      setStatus("error");
+      setFiles((prev) =>
+        prev.map((o) => (o.id === f.id ? { ...o, savingProfile: false } : o))
+      );
+    }
+  };
+
   const generateReports = async () => {
     if (!files.length) {
       setErrorMsg("Please select at least one file");
@@ -278,15 +585,89 @@ const DynamicReportDashboard: React.FC = () => {
       return;
     }
 
+    const withoutSheets = files.find(
+      (f) => f.inspection && f.selectedSheets && !f.selectedSheets.length
+    );
+    if (withoutSheets) {
+      setErrorMsg(`Select at least one sheet for ${withoutSheets.name}`);
+      setStatus("error");
+      return;
+    }
+
+    const invalidRules = files.find((f) => f.qualityRulesError);
+    if (invalidRules) {
+      setErrorMsg(`Fix the quality rules for ${invalidRules.name}`);
+      setStatus("error");
+      return;
+    }
+    const invalidInsights = files.find((f) => f.insightRulesError);
+    if (invalidInsights) {
+      setErrorMsg(`Fix the insight rules for ${invalidInsights.name}`);
+      setStatus("error");
+      return;
+    }
+
     setStatus("uploading");
     setErrorMsg("");
 
     const formData = new FormData();
     files.forEach((f) => formData.append("files", f.file));
 
+    const sheets: Record<string, string[]> = {};
+    files.forEach((f) => {
+      if (f.inspection && f.inspection.sheets.length > 1 && f.selectedSheets) {
+        sheets[f.name] = f.selectedSheets;
+      }
+    });
+    if (Object.keys(sheets).length > 0) {
+      formData.append("sheets", JSON.stringify(sheets));
+    }
+
+    // Files with a profile always send their settings, even when empty, so
+    // edits made here take precedence over the saved profile
+    const columnMapping: Record<string, ColumnMapping> = {};
+    const excludedColumns: Record<string, string[]> = {};
+    const qualityRules: Record<string, QualityRule[]> = {};
+    const insightRules: Record<string, InsightRule[]> = {};
+    files.forEach((f) => {
+      if (f.profile || Object.keys(f.columnMapping || {}).length > 0) {
+        columnMapping[f.name] = f.columnMapping || {};
+      }
+      if (f.profile || f.excludedColumns?.length) {
+        excludedColumns[f.name] = f.excludedColumns || [];
+      }
+      if (f.profile || f.qualityRules?.length) {
+        qualityRules[f.name] = f.qualityRules || [];
+      }
+      if (f.profile || f.insightRules?.length) {
+        insightRules[f.name] = f.insightRules || [];
+      }
+    });
+    if (Object.keys(columnMapping).length > 0) {
+      formData.append("columnMapping", JSON.stringify(columnMapping));
+    }
+    if (Object.keys(excludedColumns).length > 0) {
+      formData.append("excludedColumns", JSON.stringify(excludedColumns));
+    }
+    if (Object.keys(qualityRules).length > 0) {
+      formData.append("qualityRules", JSON.stringify(qualityRules));
+    }
+    if (Object.keys(insightRules).length > 0) {
+      formData.append("insightRules", JSON.stringify(insightRules));
+    }
+
     if (selectedTemplate !== "auto") {
       formData.append("reportType", selectedTemplate);
     }
+    if (mode !== "separate" && files.length > 1) {
+      formData.append("mode", mode);
+    }
+    if (budget) {
+      formData.append("budget", JSON.stringify(budget));
+    }
+    // Runs as a background job so large uploads report progress instead of
+    // holding the request open
+    formData.append("async", "true");
 
     try {
       const response = await fetch("/api/generate-report", {
@@ -299,30 +680,27 @@ const DynamicReportDashboard: React.FC = () => {
         throw new Error(errorData.error || `HTTP ${response.status}`);
       }
 
-      const data = await response.json();
-
-      if (data.success && data.reports) {
-        const dynamicReports: DynamicReport[] = data.reports.map(
-          (report: any) => ({
-            ...report,
-            id: uuidv4(),
-            reportType: detectReportType(report.data),
-            metadata: {
-              confidence: Math.random() * 0.3 + 0.7,
-              processingTime: Math.random() * 2000 + 500,
-              dataQuality: ["Excellent", "Good", "Fair"][
-                Math.floor(Math.random() * 3)
-              ],
-              suggestions: generateSuggestions(report.data),
-            },
-          })
-        );
+      const started: JobResponse = await response.json();
+      if (!started.success || !started.job) {
+        throw new Error(started.error || "Failed to start report generation");
+      }
+      setJob(started.job);
+
+      const finished = await followJob(started.job.id, setJob);
+      const data: GenerateReportResponse | undefined = finished.result;
 
-        setReports(dynamicReports);
+      if (data?.success && data.reports) {
+        // The server's DynamicReport (id, type, metadata) is authoritative
+        setReports(data.reports);
+        setComparison(data.comparison || null);
         setActiveIdx(0);
         setStatus("success");
+      } else if (finished.status === "cancelled") {
+        setStatus("idle");
       } else {
-        throw new Error(data.error || "Failed to generate reports");
+        throw new Error(
+          finished.error || data?.error || "Failed to generate reports"
+        );
       }
     } catch (err: any) {
       setStatus("error");
@@ -330,28 +708,110 @@ const DynamicReportDashboard: React.FC = () => {
     }
   };
 
-  const generateSuggestions = (data: any): string[] => {
-    const suggestions = [];
-    if (Object.keys(data).length > 10) {
-      suggestions.push("Consider focusing on key metrics for better insights");
+  // Regenerates the active report as another type from the same file and
+  // sheet, keeping the file's column settings, and swaps it in place
+  const switchReportType = async (reportType: string) => {
+    const report = activeReport;
+    const source = report && files.find((f) => f.name === report.fileName);
+    if (!report || !source) return;
+
+    const formData = new FormData();
+    formData.append("files", source.file);
+    formData.append("reportType", reportType);
+    if (report.sheetName) {
+      formData.append(
+        "sheets",
+        JSON.stringify({ [source.name]: [report.sheetName] })
+      );
+    }
+    if (source.columnMapping) {
+      formData.append(
+        "columnMapping",
+        JSON.stringify({ [source.name]: source.columnMapping })
+      );
+    }
+    if (source.excludedColumns) {
+      formData.append(
+        "excludedColumns",
+        JSON.stringify({ [source.name]: source.excludedColumns })
+      );
+    }
+    if (source.qualityRules) {
+      formData.append(
+        "qualityRules",
+        JSON.stringify({ [source.name]: source.qualityRules })
+      );
+    }
+    if (source.insightRules) {
+      formData.append(
+        "insightRules",
+        JSON.stringify({ [source.name]: source.insightRules })
+      );
+    }
+    // A sheet budget is read from the source file; a file budget goes along
+    const budgetFile =
+      budget?.file && files.find((f) => f.name === budget.file);
+    if (budget && (budgetFile || !budget.file)) {
+      if (budgetFile) formData.append("files", budgetFile.file);
+      formData.append("budget", JSON.stringify(budget));
+    }
+
+    setSwitchingType(reportType);
+    try {
+      const response = await fetch("/api/generate-report", {
+        method: "POST",
+        body: formData,
+      });
+      const data: GenerateReportResponse = await response.json();
+      const regenerated = data.reports?.[0];
+      if (!response.ok || !data.success || !regenerated) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+      setReports((prev) =>
+        prev.map((item) => (item.id === report.id ? regenerated : item))
+      );
+    } catch (err) {
+      setErrorMsg(
+        err instanceof Error ? err.message : "Failed to switch report type"
+      );
+      setStatus("error");
+    } finally {
+      setSwitchingType(null);
     }
-    if (data.error) {
-      suggestions.push("Improve data quality for better analysis");
+  };
+
+  // Progress arrives over the job's event stream, including the final state
+  const cancelJob = async () => {
+    if (!job) return;
+    try {
+      const response = await fetch(`/api/jobs/${job.id}`, {
+        method: "DELETE",
+      });
+      // 409 means the job finished before the cancel arrived
+      if (!response.ok && response.status !== 409) {
+        const data: JobResponse = await response.json().catch(() => ({
+          success: false,
+        }));
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+    } catch (err) {
+      console.error("Failed to cancel report job:", err);
     }
-    suggestions.push("Export this report for further analysis");
-    return suggestions;
   };
 
   const renderDynamicMetrics = () => {
     if (!activeReport?.summary) return null;
 
-    const template = getReportTemplate(activeReport.reportType);
+    const template = generatorFor(activeReport.reportType);
     const summary = activeReport.summary;
     const Icon = template.icon;
 
     const metrics = Object.entries(summary)
       .filter(
-        ([key, value]) => typeof value === "string" || typeof value === "number"
+        ([, value]) =>
+          typeof value === "string" ||
+          typeof value === "number" ||
+          isReportValue(value)
       )
       .slice(0, 4);
 
@@ -372,7 +832,7 @@ const DynamicReportDashboard: React.FC = () => {
                     {key.replace(/([A-Z])/g, " $1").trim()}
                   </p>
                   <p className={`text-2xl font-bold text-${color}-700`}>
-                    {typeof value === "number" ? value.toLocaleString() : value}
+                    {formatValue(value)}
                   </p>
                 </div>
                 <Icon className={`w-8 h-8 text-${color}-500`} />
@@ -384,6 +844,443 @@ const DynamicReportDashboard: React.FC = () => {
     );
   };
 
+  const formatPercent = (value: number | null | undefined) =>
+    value === null || value === undefined
+      ? "—"
+      : `${value > 0 ? "+" : ""}${value.toFixed(1)}%`;
+
+  const renderProcessingTime = (time: ProcessingTime | number | undefined) => {
+    if (time === undefined) return <p className="text-blue-600">N/A</p>;
+    const total = typeof time === "number" ? time : time.total;
+    return (
+      <>
+        <p className="text-blue-600">{(total / 1000).toFixed(1)}s</p>
+        {typeof time !== "number" && (
+          <p className="text-xs text-blue-500">
+            {PROCESSING_STAGES.map(
+              (stage) => `${stage} ${Math.round(time[stage])} ms`
+            ).join(" • ")}
+          </p>
+        )}
+      </>
+    );
+  };
+
+  const renderFileProgress = (f: FileObject, index: number) => {
+    const progress = job?.files[index];
+    if (!progress || progress.fileName !== f.name) return null;
+    const percent = Math.round(progress.progress * 100);
+    const barColor =
+      progress.status === "failed"
+        ? "bg-red-500"
+        : progress.status === "cancelled"
+        ? "bg-gray-400"
+        : progress.status === "done"
+        ? "bg-green-500"
+        : "bg-blue-500";
+    return (
+      <div className="mt-2">
+        <div className="flex justify-between text-xs text-gray-500 mb-1">
+          <span className="truncate">
+            {FILE_STATUS_LABELS[progress.status]}
+            {progress.status === "analyzing" &&
+              progress.sheetsTotal !== undefined &&
+              progress.sheetsTotal > 1 &&
+              ` ${progress.sheetsDone || 0}/${progress.sheetsTotal} sheets`}
+            {progress.error && ` • ${progress.error}`}
+          </span>
+          <span>{percent}%</span>
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-1.5">
+          <div
+            className={`h-1.5 rounded-full transition-all duration-300 ${barColor}`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  const formatDelta = (delta: PeriodDelta | null) =>
+    delta
+      ? `${delta.current} vs ${delta.previous}: ${formatPercent(
+          delta.changePercent
+        )}`
+      : "N/A";
+
+  const renderTimeSeries = (section: TimeSeriesSection) => (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Grouped by {section.granularity} on{" "}
+        <span className="font-medium">{section.dateColumn}</span> (
+        {section.range.start} to {section.range.end})
+        {section.rowsWithoutDates > 0 &&
+          ` • ${section.rowsWithoutDates} row(s) without a parseable date`}
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {section.series.map((series) => (
+          <div key={series.name} className="border-l-4 border-blue-200 pl-4">
+            <h5 className="font-medium text-gray-800 capitalize mb-1">
+              {series.name} ({series.trend})
+            </h5>
+            <p className="text-sm text-gray-600">
+              Overall change: {formatPercent(series.overallGrowth)}
+            </p>
+            <p className="text-sm text-gray-600">
+              Month over month: {formatDelta(series.monthOverMonth)}
+            </p>
+            <p className="text-sm text-gray-600">
+              Year over year: {formatDelta(series.yearOverYear)}
+            </p>
+            <p className="text-sm text-gray-600">
+              Best: {series.bestPeriod?.period ?? "N/A"} • Worst:{" "}
+              {series.worstPeriod?.period ?? "N/A"}
+            </p>
+          </div>
+        ))}
+      </div>
+      <div className="overflow-x-auto max-h-80">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-gray-700">
+                Period
+              </th>
+              {section.series.map((series) => (
+                <React.Fragment key={series.name}>
+                  <th className="px-3 py-2 text-right font-medium text-gray-700 capitalize">
+                    {series.name}
+                  </th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-700">
+                    Growth
+                  </th>
+                  <th className="px-3 py-2 text-right font-medium text-gray-700">
+                    Rolling avg
+                  </th>
+                </React.Fragment>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {(section.series[0]?.points || []).map((point, i) => (
+              <tr key={point.period} className="border-t">
+                <td className="px-3 py-1 text-gray-700">{point.period}</td>
+                {section.series.map((series) => {
+                  const current = series.points[i];
+                  return (
+                    <React.Fragment key={series.name}>
+                      <td className="px-3 py-1 text-right">
+                        {current?.value.toLocaleString()}
+                      </td>
+                      <td
+                        className={`px-3 py-1 text-right ${
+                          (current?.growth ?? 0) < 0
+                            ? "text-red-600"
+                            : "text-green-600"
+                        }`}
+                      >
+                        {formatPercent(current?.growth)}
+                      </td>
+                      <td className="px-3 py-1 text-right text-gray-500">
+                        {current?.rollingAverage !== null &&
+                        current?.rollingAverage !== undefined
+                          ? current.rollingAverage.toLocaleString(undefined, {
+                              maximumFractionDigits: 2,
+                            })
+                          : "—"}
+                      </td>
+                    </React.Fragment>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+
+  // Typed report values follow the selected locale and currency; null marks
+  // a metric the data could not support
+  const formatValue = (value: unknown): string => {
+    if (value === null || value === undefined) return "N/A";
+    if (isReportValue(value)) {
+      return formatReportValue(value, { locale, currency });
+    }
+    if (typeof value === "number") {
+      return value.toLocaleString(locale, { maximumFractionDigits: 2 });
+    }
+    return String(value);
+  };
+
+  const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !isReportValue(value);
+
+  const renderBasicStats = (stats: Record<string, Record<string, unknown>>) => (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            {[
+              "Column",
+              "Sum",
+              "Average",
+              "Min",
+              "Max",
+              "Count",
+              "Distinct",
+            ].map((heading) => (
+              <th
+                key={heading}
+                className={`px-3 py-2 font-medium text-gray-700 ${
+                  heading === "Column" ? "text-left" : "text-right"
+                }`}
+              >
+                {heading}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {Object.entries(stats).map(([column, stat]) => (
+            <tr key={column} className="border-t">
+              <td className="px-3 py-1 text-gray-700">{column}</td>
+              {["sum", "average", "min", "max", "count", "distinct"].map(
+                (field) => (
+                  <td key={field} className="px-3 py-1 text-right">
+                    {formatValue(stat?.[field])}
+                  </td>
+                )
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  const percent = (ratio: number) => `${(ratio * 100).toFixed(0)}%`;
+
+  const sortProfileBy = (key: ProfileSortKey) =>
+    setProfileSort((prev) => ({
+      key,
+      descending: prev.key === key ? !prev.descending : key !== "column",
+    }));
+
+  // The one-line summary of a column, with the full detail folded below it
+  const renderProfileDetail = (profile: ColumnProfile) => {
+    const { numeric, text, date } = profile;
+    if (numeric) {
+      const peak = Math.max(...numeric.histogram.map((bin) => bin.count), 1);
+      const outliers = numeric.outliers.iqr;
+      return (
+        <details>
+          <summary className="cursor-pointer">
+            {formatValue(numeric.min)} – {formatValue(numeric.max)} • median{" "}
+            {formatValue(numeric.median)} • mean {formatValue(numeric.mean)} ±{" "}
+            {formatValue(numeric.stdDev)}
+          </summary>
+          <div className="mt-2 space-y-2">
+            <p>
+              Q1 {formatValue(numeric.q1)} • Q3 {formatValue(numeric.q3)}
+            </p>
+            <div className="flex items-end h-12 space-x-0.5">
+              {numeric.histogram.map((bin) => (
+                <div
+                  key={bin.bin}
+                  title={`${bin.bin}: ${bin.count}`}
+                  className="flex-1 bg-blue-300"
+                  style={{ height: `${(bin.count / peak) * 100}%` }}
+                />
+              ))}
+            </div>
+            {outliers.count > 0 && (
+              <p>
+                Outside {formatValue(outliers.lower)} –{" "}
+                {formatValue(outliers.upper)}:{" "}
+                {outliers.rows
+                  .map((item) => `row ${item.row} (${formatValue(item.value)})`)
+                  .join(", ")}
+                {outliers.count > outliers.rows.length &&
+                  ` and ${outliers.count - outliers.rows.length} more`}
+              </p>
+            )}
+          </div>
+        </details>
+      );
+    }
+    if (date) {
+      return (
+        <details>
+          <summary className="cursor-pointer">
+            {date.min} → {date.max} ({date.spanDays} days)
+          </summary>
+          <div className="mt-2 space-y-1">
+            <p>Typical spacing: {date.medianIntervalDays} day(s)</p>
+            {date.gaps.map((gap) => (
+              <p key={gap.from}>
+                Gap: {gap.from} → {gap.to} ({gap.days} days)
+              </p>
+            ))}
+          </div>
+        </details>
+      );
+    }
+    if (text) {
+      return (
+        <details>
+          <summary className="cursor-pointer">
+            {text.topValues
+              .slice(0, 3)
+              .map((item) => `${item.value} (${item.count})`)
+              .join(", ")}
+          </summary>
+          <div className="mt-2 space-y-1">
+            {text.topValues.map((item) => (
+              <p key={item.value}>
+                {item.value}: {item.count} ({percent(item.share)})
+              </p>
+            ))}
+            <p>
+              Length {text.length.min}–{text.length.max}, average{" "}
+              {formatValue(text.length.average)}
+            </p>
+          </div>
+        </details>
+      );
+    }
+    return null;
+  };
+
+  const renderColumnProfile = (profile: ColumnProfile[]) => (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            {PROFILE_HEADINGS.map(({ key, label }) => (
+              <th
+                key={key}
+                className={`px-3 py-2 font-medium text-gray-700 ${
+                  key === "column" || key === "type"
+                    ? "text-left"
+                    : "text-right"
+                }`}
+              >
+                <button
+                  onClick={() => sortProfileBy(key)}
+                  className="inline-flex items-center hover:text-blue-600"
+                >
+                  {label}
+                  {profileSort.key === key &&
+                    (profileSort.descending ? (
+                      <ChevronDown className="w-3 h-3 ml-1" />
+                    ) : (
+                      <ChevronUp className="w-3 h-3 ml-1" />
+                    ))}
+                </button>
+              </th>
+            ))}
+            <th className="px-3 py-2 text-left font-medium text-gray-700">
+              Summary
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {sortProfile(profile, profileSort).map((column) => (
+            <tr key={column.column} className="border-t align-top">
+              <td className="px-3 py-1 text-gray-700">{column.column}</td>
+              <td className="px-3 py-1 capitalize">{column.type}</td>
+              <td className="px-3 py-1 text-right">
+                {percent(column.typeConfidence)}
+              </td>
+              <td className="px-3 py-1 text-right">
+                {percent(column.nullRate)}
+              </td>
+              <td className="px-3 py-1 text-right">
+                {formatValue(column.distinct)}
+              </td>
+              <td className="px-3 py-1 text-right">
+                {column.numeric
+                  ? `${column.numeric.outliers.iqr.count} / ${column.numeric.outliers.zScore.count}`
+                  : "–"}
+              </td>
+              <td className="px-3 py-1 text-gray-600">
+                {renderProfileDetail(column)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mt-2 text-xs text-gray-500">
+        Outliers: beyond 1.5 × IQR / more than 3 standard deviations from the
+        mean. Row numbers count data rows from 1.
+      </p>
+    </div>
+  );
+
+  const renderRecordTable = (records: Record<string, unknown>[]) => {
+    const headers = Array.from(
+      new Set(records.flatMap((record) => Object.keys(record)))
+    );
+    return (
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              {headers.map((header) => (
+                <th
+                  key={header}
+                  className="px-3 py-2 text-left font-medium text-gray-700 capitalize"
+                >
+                  {header.replace(/([A-Z])/g, " $1").trim()}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {records.map((record, i) => (
+              <tr key={i} className="border-t">
+                {headers.map((header) => (
+                  <td key={header} className="px-3 py-1 text-gray-700">
+                    {renderValue(record[header])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  // Values below a section: lists of records become tables, nested records
+  // become label/value pairs
+  const renderValue = (value: unknown): React.ReactNode => {
+    if (Array.isArray(value)) {
+      if (value.length > 0 && value.every(isRecord)) {
+        return renderRecordTable(value);
+      }
+      return value.map(formatValue).join(", ");
+    }
+    if (!isRecord(value)) return formatValue(value);
+
+    return (
+      <dl className="text-sm text-gray-600 grid grid-cols-[auto_1fr] gap-x-3">
+        {Object.entries(value).map(([label, item]) => (
+          <React.Fragment key={label}>
+            <dt className="capitalize text-gray-500">
+              {label.replace(/([A-Z])/g, " $1").trim()}
+            </dt>
+            <dd>{renderValue(item)}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    );
+  };
+
   const renderDynamicSection = (key: string, content: any, title?: string) => {
     if (!content) return null;
 
@@ -391,6 +1288,7 @@ const DynamicReportDashboard: React.FC = () => {
       title ||
       key.replace(/([A-Z])/g, " $1").replace(/^./, (str) => str.toUpperCase());
     const isOpen = !collapsed.has(key);
+    const { sampleRows, sampledSections } = activeReport?.dataInfo || {};
 
     return (
       <div className="bg-white border rounded-lg p-4 mb-4">
@@ -398,7 +1296,15 @@ const DynamicReportDashboard: React.FC = () => {
           onClick={() => toggle(key)}
           className="w-full flex items-center justify-between font-semibold text-left"
         >
-          <span className="text-lg">{sectionTitle}</span>
+          <span className="text-lg">
+            {sectionTitle}
+            {sampleRows && sampledSections?.includes(key) && (
+              <span className="ml-2 text-xs font-normal text-amber-700">
+                Row-level figures from the first {sampleRows.toLocaleString()}{" "}
+                rows
+              </span>
+            )}
+          </span>
           {isOpen ? (
             <ChevronUp className="w-5 h-5" />
           ) : (
@@ -408,7 +1314,21 @@ const DynamicReportDashboard: React.FC = () => {
 
         {isOpen && (
           <div className="mt-4">
-            {typeof content === "string" ? (
+            {key === "charts" ? (
+              <ReportCharts
+                charts={content}
+                locale={locale}
+                currency={currency}
+              />
+            ) : key === "timeSeries" ? (
+              renderTimeSeries(content)
+            ) : key === "basicStats" ? (
+              renderBasicStats(content)
+            ) : key === "columnProfile" && Array.isArray(content) ? (
+              renderColumnProfile(content)
+            ) : key === "dataQualityIssues" ? (
+              renderQualityIssues(content)
+            ) : typeof content === "string" ? (
               <p className="text-gray-700 whitespace-pre-wrap">{content}</p>
             ) : Array.isArray(content) ? (
               <ul className="space-y-2">
@@ -418,11 +1338,7 @@ const DynamicReportDashboard: React.FC = () => {
                     className="flex items-start space-x-2 text-sm text-gray-700"
                   >
                     <span className="w-2 h-2 bg-blue-500 rounded-full mt-2 flex-shrink-0" />
-                    <span>
-                      {typeof item === "object"
-                        ? JSON.stringify(item, null, 2)
-                        : item}
-                    </span>
+                    <span>{renderValue(item)}</span>
                   </li>
                 ))}
               </ul>
@@ -433,11 +1349,9 @@ const DynamicReportDashboard: React.FC = () => {
                     <h5 className="font-medium text-gray-800 capitalize mb-1">
                       {subKey.replace(/([A-Z])/g, " $1").trim()}
                     </h5>
-                    <p className="text-sm text-gray-600">
-                      {typeof subValue === "object"
-                        ? JSON.stringify(subValue, null, 2)
-                        : String(subValue)}
-                    </p>
+                    <div className="text-sm text-gray-600">
+                      {renderValue(subValue)}
+                    </div>
                   </div>
                 ))}
               </div>
@@ -450,10 +1364,45 @@ const DynamicReportDashboard: React.FC = () => {
     );
   };
 
+  // One-click switches to the next best detected types; only offered while
+  // the uploaded file is still at hand to regenerate from
+  const renderAlternativeTypes = () => {
+    const detection = activeReport?.metadata?.detection;
+    if (!detection || !files.some((f) => f.name === activeReport.fileName)) {
+      return null;
+    }
+    const alternatives = detection.scores
+      .filter(
+        (score) => score.score > 0 && score.type !== activeReport.reportType
+      )
+      .slice(0, MAX_ALTERNATIVE_TYPES);
+    if (alternatives.length === 0) return null;
+
+    return (
+      <div className="flex items-center space-x-2 text-xs text-gray-500">
+        <span>Also looks like:</span>
+        {alternatives.map((score) => (
+          <button
+            key={score.type}
+            onClick={() => switchReportType(score.type)}
+            disabled={switchingType !== null}
+            title={score.evidence.join("\n")}
+            className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 flex items-center"
+          >
+            {switchingType === score.type && (
+              <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+            )}
+            {generatorFor(score.type).name} ({(score.score * 100).toFixed(0)}%)
+          </button>
+        ))}
+      </div>
+    );
+  };
+
   const renderReportContent = () => {
     if (!activeReport) return null;
 
-    const template = getReportTemplate(activeReport.reportType);
+    const template = generatorFor(activeReport.reportType);
     const data = activeReport.data;
 
     return (
@@ -470,12 +1419,24 @@ const DynamicReportDashboard: React.FC = () => {
               {(activeReport.metadata.confidence * 100).toFixed(0)}% confidence
             </span>
           )}
+          {renderAlternativeTypes()}
         </div>
 
+        {/* Charts */}
+        {activeReport.charts &&
+          activeReport.charts.length > 0 &&
+          renderDynamicSection("charts", activeReport.charts)}
+
         {/* Dynamic Sections */}
         {Object.entries(data)
           .filter(([key]) => key !== "error" && key !== "rawContent")
-          .map(([key, value]) => renderDynamicSection(key, value))}
+          .map(([key, value]) =>
+            renderDynamicSection(
+              key,
+              value,
+              template.sections.find((section) => section.key === key)?.title
+            )
+          )}
       </div>
     );
   };
@@ -497,24 +1458,541 @@ const DynamicReportDashboard: React.FC = () => {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
   };
 
-  const exportReport = () => {
-    if (!activeReport) return;
-
-    const blob = new Blob([JSON.stringify(activeReport, null, 2)], {
-      type: "application/json",
-    });
+  const downloadBlob = (blob: Blob, fileName: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `${activeReport.fileName.replace(/[^a-z0-9]/gi, "_")}_${
-      activeReport.reportType
-    }_report.json`;
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
+  const exportReport = async (format: ExportFormat = "xlsx") => {
+    if (!activeReport) return;
+
+    const source = activeReport.sheetName
+      ? `${activeReport.fileName}_${activeReport.sheetName}`
+      : activeReport.fileName;
+    const baseName = `${source.replace(/[^a-z0-9]/gi, "_")}_${
+      activeReport.reportType
+    }_report`;
+
+    if (format === "json") {
+      const blob = new Blob([JSON.stringify(activeReport, null, 2)], {
+        type: "application/json",
+      });
+      downloadBlob(blob, `${baseName}.json`);
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const response = await fetch("/api/export-report", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ report: activeReport, currency }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `HTTP ${response.status}`);
+      }
+
+      downloadBlob(await response.blob(), `${baseName}.xlsx`);
+    } catch (err: any) {
+      setErrorMsg(err.message || "Failed to export report");
+      setStatus("error");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  /* ----------   COLUMN ROLES   ---------- */
+  // Detected roles for each sheet that will be analyzed, as the generator
+  // for the chosen (or detected) report type would assign them
+  const renderRoleEditor = (f: FileObject) => {
+    const sheets = (f.inspection?.sheets || []).filter(
+      (sheet) =>
+        !sheet.empty && (f.selectedSheets?.includes(sheet.name) ?? true)
+    );
+
+    return sheets.map((sheet) => {
+      const profileType =
+        f.profile && f.profile.reportType !== "auto"
+          ? f.profile.reportType
+          : undefined;
+      const reportType =
+        selectedTemplate !== "auto"
+          ? selectedTemplate
+          : profileType || sheet.detectedType || "general";
+      const roles = rolesForType(reportType);
+      if (roles.length === 0 || sheet.headers.length === 0) return null;
+      const detected = rolesByColumn(
+        assignColumnRoles(sheet.headers, reportType)
+      );
+
+      return (
+        <details
+          key={sheet.name}
+          className="mt-3 border-t border-gray-200 pt-2 text-sm"
+        >
+          <summary className="cursor-pointer font-medium text-gray-800">
+            Column roles{sheets.length > 1 && ` • ${sheet.name}`}
+            <span className="ml-2 text-xs font-normal text-gray-500">
+              {generatorFor(reportType).name}
+            </span>
+          </summary>
+          <div className="mt-2 space-y-1">
+            {sheet.headers.map((column) => (
+              <div
+                key={column}
+                className="flex items-center justify-between space-x-2"
+              >
+                <span className="text-gray-700 truncate">{column}</span>
+                <select
+                  value={
+                    f.excludedColumns?.includes(column)
+                      ? "exclude"
+                      : f.columnMapping?.[column] || ""
+                  }
+                  onChange={(e) => setColumnRole(f.id, column, e.target.value)}
+                  className="text-xs border border-gray-300 rounded px-1 py-0.5"
+                >
+                  <option value="">
+                    Auto (
+                    {detected[column]
+                      ? COLUMN_ROLES[detected[column]]
+                      : "no role"}
+                    )
+                  </option>
+                  {roles.map((role) => (
+                    <option key={role} value={role}>
+                      {COLUMN_ROLES[role]}
+                    </option>
+                  ))}
+                  <option value="none">No role</option>
+                  <option value="exclude">Exclude column</option>
+                </select>
+              </div>
+            ))}
+          </div>
+        </details>
+      );
+    });
+  };
+
+  /* ----------   QUALITY AND INSIGHT RULES   ---------- */
+  // A JSON list of validation rules; left empty, rules are inferred from
+  // the data
+  const renderQualityRulesEditor = (f: FileObject) => {
+    if (!f.inspection?.sheets.some((sheet) => !sheet.empty)) return null;
+
+    return (
+      <details className="mt-3 border-t border-gray-200 pt-2 text-sm">
+        <summary className="cursor-pointer font-medium text-gray-800">
+          Quality rules
+          <span className="ml-2 text-xs font-normal text-gray-500">
+            {f.qualityRules?.length
+              ? `${f.qualityRules.length} rule(s)`
+              : "Inferred from the data"}
+          </span>
+        </summary>
+        <textarea
+          value={f.qualityRulesText || ""}
+          onChange={(e) => setQualityRules(f.id, e.target.value)}
+          placeholder={QUALITY_RULES_EXAMPLE}
+          rows={6}
+          spellCheck={false}
+          className="mt-2 w-full font-mono text-xs border border-gray-300 rounded p-2"
+        />
+        <p className="text-xs text-gray-500">
+          Types: required, type, allowedValues, pattern, range, unique and
+          compare
+        </p>
+        {f.qualityRulesError && (
+          <p className="text-xs text-red-600">{f.qualityRulesError}</p>
+        )}
+      </details>
+    );
+  };
+
+  // A JSON list of recommendation rules, checked after the built-in ones; a
+  // rule reusing a built-in rule's id replaces it
+  const renderInsightRulesEditor = (f: FileObject) => {
+    if (!f.inspection?.sheets.some((sheet) => !sheet.empty)) return null;
+
+    return (
+      <details className="mt-3 border-t border-gray-200 pt-2 text-sm">
+        <summary className="cursor-pointer font-medium text-gray-800">
+          Insight rules
+          <span className="ml-2 text-xs font-normal text-gray-500">
+            {f.insightRules?.length
+              ? `${f.insightRules.length} rule(s) and the built-in rules`
+              : "Built-in rules only"}
+          </span>
+        </summary>
+        <textarea
+          value={f.insightRulesText || ""}
+          onChange={(e) => setInsightRules(f.id, e.target.value)}
+          placeholder={INSIGHT_RULES_EXAMPLE}
+          rows={6}
+          spellCheck={false}
+          className="mt-2 w-full font-mono text-xs border border-gray-300 rounded p-2"
+        />
+        <p className="text-xs text-gray-500">
+          Types: concentration, trend, margin, nullRate and metric. Severity is
+          critical, warning or info
+        </p>
+        {f.insightRulesError && (
+          <p className="text-xs text-red-600">{f.insightRulesError}</p>
+        )}
+      </details>
+    );
+  };
+
+  const renderQualityIssues = (quality: QualityAssessment) => (
+    <div className="space-y-4 text-sm">
+      <p className="text-gray-700">
+        Score <span className="font-semibold">{percent(quality.score)}</span> (
+        {quality.grade}) •{" "}
+        {quality.totalIssues === 0
+          ? "no issues found"
+          : `${quality.totalIssues} issue(s)`}
+        {quality.inferredRules && " • rules inferred from the data"}
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-gray-700">
+                Rule
+              </th>
+              <th className="px-3 py-2 text-right font-medium text-gray-700">
+                Weight
+              </th>
+              <th className="px-3 py-2 text-right font-medium text-gray-700">
+                Checked
+              </th>
+              <th className="px-3 py-2 text-right font-medium text-gray-700">
+                Violations
+              </th>
+              <th className="px-3 py-2 text-right font-medium text-gray-700">
+                Pass Rate
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {quality.rules.map((rule, index) => (
+              <tr key={index} className="border-t">
+                <td className="px-3 py-1 text-gray-700">{rule.rule}</td>
+                <td className="px-3 py-1 text-right">{rule.weight}</td>
+                <td className="px-3 py-1 text-right">{rule.checked}</td>
+                <td
+                  className={`px-3 py-1 text-right ${
+                    rule.violations > 0 ? "text-red-600" : ""
+                  }`}
+                >
+                  {rule.violations}
+                </td>
+                <td className="px-3 py-1 text-right">
+                  {percent(rule.passRate)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {quality.issues.length > 0 && (
+        <details>
+          <summary className="cursor-pointer font-medium text-gray-800">
+            Issues
+          </summary>
+          <div className="mt-2 overflow-x-auto">
+            <table className="min-w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  {["Sheet", "Row", "Column", "Rule", "Value", "Message"].map(
+                    (heading) => (
+                      <th
+                        key={heading}
+                        className="px-3 py-2 text-left font-medium text-gray-700"
+                      >
+                        {heading}
+                      </th>
+                    )
+                  )}
+                </tr>
+              </thead>
+              <tbody>
+                {quality.issues.slice(0, MAX_ISSUE_ROWS).map((issue, index) => (
+                  <tr key={index} className="border-t">
+                    <td className="px-3 py-1">{issue.sheet ?? "—"}</td>
+                    <td className="px-3 py-1">
+                      {issue.sourceRow ?? issue.row ?? "—"}
+                    </td>
+                    <td className="px-3 py-1">{issue.column}</td>
+                    <td className="px-3 py-1 text-gray-600">{issue.rule}</td>
+                    <td className="px-3 py-1">
+                      {issue.value === undefined || issue.value === null
+                        ? "—"
+                        : String(issue.value)}
+                    </td>
+                    <td className="px-3 py-1 text-gray-600">{issue.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {quality.totalIssues > MAX_ISSUE_ROWS && (
+              <p className="mt-2 text-xs text-gray-500">
+                Showing {MAX_ISSUE_ROWS} of {quality.totalIssues} issues; the
+                workbook export lists{" "}
+                {quality.issues.length < quality.totalIssues
+                  ? `the first ${quality.issues.length}`
+                  : "all of them"}
+                .
+              </p>
+            )}
+          </div>
+        </details>
+      )}
+    </div>
+  );
+
+  /* ----------   PERIOD COMPARISON   ---------- */
+  const renderChange = (metric: MetricComparison, index: number) => {
+    const change = metric.changes[index];
+    if (!change) return null;
+    const percent = metric.percentChanges[index];
+    const color =
+      change.value > 0
+        ? "text-green-600"
+        : change.value < 0
+        ? "text-red-600"
+        : "text-gray-500";
+    return (
+      <span className={`block text-xs ${color}`}>
+        {change.value > 0 ? "+" : ""}
+        {formatValue(change)} (
+        {percent ? formatPercent(percent.value * 100) : "—"})
+      </span>
+    );
+  };
+
+  const renderComparisonTable = (
+    metrics: MetricComparison[],
+    report: ComparisonReport
+  ) => (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200 text-left text-gray-600">
+            <th className="py-2 pr-4">Metric</th>
+            {report.periods.map((period) => (
+              <th key={period.reportId} className="py-2 pr-4">
+                {period.label}
+                {period.range && (
+                  <span className="block text-xs font-normal text-gray-400">
+                    {period.range.start} – {period.range.end}
+                  </span>
+                )}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {metrics.map((metric) => (
+            <tr key={metric.key} className="border-b border-gray-100">
+              <td className="py-2 pr-4">
+                <span className="capitalize text-gray-800">
+                  {metric.name.replace(/([A-Z])/g, " $1").trim()}
+                </span>
+                <span className="block text-xs text-gray-400">
+                  {metric.group.replace(/([A-Z])/g, " $1").trim()}
+                </span>
+              </td>
+              {metric.values.map((value, index) => (
+                <td key={index} className="py-2 pr-4 align-top">
+                  <span className="font-medium text-gray-900">
+                    {formatValue(value)}
+                  </span>
+                  {renderChange(metric, index)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  const renderEntityList = (title: string, items: string[], total: number) =>
+    total > 0 && (
+      <p className="text-xs text-gray-600">
+        <span className="font-medium">
+          {title} ({total}):
+        </span>{" "}
+        {items.join(", ")}
+        {total > items.length && ` and ${total - items.length} more`}
+      </p>
+    );
+
+  // Side-by-side view of the periods, oldest first
+  const renderComparison = (report: ComparisonReport) => (
+    <div className="mb-8 border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-gray-900 flex items-center">
+          <TrendingUp className="w-5 h-5 mr-2 text-blue-600" />
+          Period Comparison
+        </h3>
+        <span className="text-sm text-gray-500 capitalize">
+          {report.reportType} • {report.periods.length} periods
+        </span>
+      </div>
+
+      {renderComparisonTable(report.metrics, report)}
+
+      {report.entities.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
+          {report.entities.map((entity) => (
+            <div key={entity.role} className="bg-gray-50 rounded-lg p-3">
+              <h4 className="font-semibold text-gray-800 mb-1">
+                {COLUMN_ROLES[entity.role]}
+                <span className="ml-2 text-xs font-normal text-gray-500">
+                  {entity.column}: {entity.counts.join(" → ")}
+                </span>
+              </h4>
+              {entity.changes.map((change) => (
+                <div key={`${change.from}-${change.to}`} className="mt-2">
+                  <p className="text-xs text-gray-500">
+                    {change.from} → {change.to}
+                  </p>
+                  {renderEntityList("New", change.added, change.addedCount)}
+                  {renderEntityList(
+                    "Disappeared",
+                    change.removed,
+                    change.removedCount
+                  )}
+                  {change.addedCount === 0 && change.removedCount === 0 && (
+                    <p className="text-xs text-gray-600">No changes</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {report.schemaDrift.length > 0 && (
+        <div className="mt-6">
+          <h4 className="font-semibold text-gray-800 mb-1">Schema Drift</h4>
+          {report.schemaDrift.map((drift) => (
+            <p
+              key={`${drift.from}-${drift.to}`}
+              className="text-sm text-gray-600"
+            >
+              {drift.from} → {drift.to}:
+              {drift.addedColumns.length > 0 &&
+                ` added ${drift.addedColumns.join(", ")}`}
+              {drift.addedColumns.length > 0 &&
+                drift.removedColumns.length > 0 &&
+                ";"}
+              {drift.removedColumns.length > 0 &&
+                ` removed ${drift.removedColumns.join(", ")}`}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {report.columnStats.length > 0 && (
+        <details className="mt-6">
+          <summary className="cursor-pointer font-semibold text-gray-800">
+            Column Statistics
+          </summary>
+          <div className="mt-2">
+            {renderComparisonTable(report.columnStats, report)}
+          </div>
+        </details>
+      )}
+
+      {report.excluded.length > 0 && (
+        <div className="mt-4 text-xs text-gray-500">
+          Not compared:{" "}
+          {report.excluded
+            .map((item) => `${item.label} (${item.reason})`)
+            .join("; ")}
+        </div>
+      )}
+    </div>
+  );
+
+  /* ----------   REPORT HISTORY   ---------- */
+  // Stored reports matching the same search and type filter as the batch
+  const loadHistory = useCallback(async () => {
+    const params = new URLSearchParams();
+    if (searchTerm.trim()) params.set("search", searchTerm.trim());
+    if (filterType !== "all") params.set("type", filterType);
+
+    try {
+      const response = await fetch(`/api/reports?${params}`);
+      const data: ReportHistoryResponse = await response.json();
+      if (!response.ok || !data.success || !data.reports) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+      setHistory(data.reports);
+      setHistoryTotal(data.total ?? data.reports.length);
+    } catch (err) {
+      console.error("Failed to load report history:", err);
+    }
+  }, [searchTerm, filterType]);
+
+  useEffect(() => {
+    const timer = setTimeout(loadHistory, 300);
+    return () => clearTimeout(timer);
+  }, [loadHistory, reports]);
+
+  const openStoredReport = async (id: string) => {
+    const loadedIndex = reports.findIndex((r) => r.id === id);
+    if (loadedIndex !== -1) {
+      setActiveIdx(loadedIndex);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/reports/${id}`);
+      const data: StoredReportResponse = await response.json();
+      if (!response.ok || !data.report) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+      const report = data.report;
+      setReports((prev) => [...prev, report]);
+      setActiveIdx(reports.length);
+    } catch (err) {
+      setErrorMsg(err instanceof Error ? err.message : "Failed to open report");
+      setStatus("error");
+    }
+  };
+
+  const deleteStoredReport = async (id: string) => {
+    try {
+      const response = await fetch(`/api/reports/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+      setHistory((prev) => prev.filter((summary) => summary.id !== id));
+      setHistoryTotal((prev) => Math.max(prev - 1, 0));
+    } catch (err) {
+      setErrorMsg(
+        err instanceof Error ? err.message : "Failed to delete report"
+      );
+      setStatus("error");
+    }
+  };
+
   /* ----------   FILTERS   ---------- */
   const filteredReports = useMemo(() => {
     return reports.filter((report) => {
@@ -527,6 +2005,13 @@ const DynamicReportDashboard: React.FC = () => {
     });
   }, [reports, searchTerm, filterType]);
 
+  // Stored reports not already open in the sidebar
+  const pastReports = useMemo(
+    () =>
+      history.filter((summary) => !reports.some((r) => r.id === summary.id)),
+    [history, reports]
+  );
+
   /* ----------   MAIN RENDER   ---------- */
   return (
     <div className="max-w-7xl mx-auto p-6">
@@ -560,14 +2045,14 @@ const DynamicReportDashboard: React.FC = () => {
               <Zap className="w-4 h-4 mx-auto mb-1" />
               Auto Detect
             </button>
-            {REPORT_TEMPLATES.map((template) => {
+            {REPORT_GENERATORS.map((template) => {
               const Icon = template.icon;
               return (
                 <button
-                  key={template.type}
-                  onClick={() => setSelectedTemplate(template.type)}
+                  key={template.id}
+                  onClick={() => setSelectedTemplate(template.id)}
                   className={`p-3 rounded-lg border text-sm font-medium transition-colors ${
-                    selectedTemplate === template.type
+                    selectedTemplate === template.id
                       ? `bg-${template.color}-100 border-${template.color}-300 text-${template.color}-800`
                       : "bg-gray-50 border-gray-200 text-gray-700 hover:bg-gray-100"
                   }`}
@@ -594,7 +2079,7 @@ const DynamicReportDashboard: React.FC = () => {
           <input
             type="file"
             multiple
-            accept=".csv,.xlsx,.xls,.json,.txt,.pdf"
+            accept={acceptedFileTypes()}
             onChange={(e) => handleFiles(Array.from(e.target.files || []))}
             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
           />
@@ -603,7 +2088,10 @@ const DynamicReportDashboard: React.FC = () => {
             Drop your data files here or click to browse
           </h3>
           <p className="text-sm text-gray-500">
-            Supports CSV, Excel, JSON, TXT, and more • Up to 50MB per file
+            Supports CSV, TSV, Excel, OpenDocument, JSON, text and PDF tables •
+            Up to 50MB per file • Totals cover every row; rankings, trends and
+            quality checks use the first {MAX_SAMPLE_ROWS.toLocaleString()} rows
+            per sheet
           </p>
         </div>
 
@@ -614,34 +2102,165 @@ const DynamicReportDashboard: React.FC = () => {
               Selected Files ({files.length})
             </h3>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-              {files.map((f) => (
-                <div
-                  key={f.id}
-                  className="flex items-center justify-between bg-gray-50 p-3 rounded-lg"
-                >
-                  <div className="flex items-center space-x-3">
-                    <File className="w-5 h-5 text-gray-400" />
-                    <div>
-                      <p className="text-sm font-medium text-gray-900 truncate">
-                        {f.name}
-                      </p>
-                      <p className="text-xs text-gray-500">
-                        {formatBytes(f.size)}
-                      </p>
+              {files.map((f, index) => (
+                <div key={f.id} className="bg-gray-50 p-3 rounded-lg">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-3">
+                      <File className="w-5 h-5 text-gray-400" />
+                      <div>
+                        <p className="text-sm font-medium text-gray-900 truncate">
+                          {f.name}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {formatBytes(f.size)}
+                          {f.inspecting && " • Inspecting..."}
+                          {f.inspection?.error && ` • ${f.inspection.error}`}
+                          {f.profile && ` • Profile: ${f.profile.name}`}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      {f.inspection?.sheets.some((sheet) => !sheet.empty) && (
+                        <button
+                          onClick={() => saveProfile(f)}
+                          disabled={f.savingProfile}
+                          className="px-2 py-1 text-xs text-blue-600 hover:bg-blue-50 rounded transition-colors disabled:opacity-50"
+                        >
+                          {f.savingProfile
+                            ? "Saving..."
+                            : f.profile
+                            ? "Update profile"
+                            : "Save profile"}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => removeFile(f.id)}
+                        className="p-1 hover:bg-gray-200 rounded-full transition-colors"
+                      >
+                        <X className="w-4 h-4 text-gray-500" />
+                      </button>
                     </div>
                   </div>
-                  <button
-                    onClick={() => removeFile(f.id)}
-                    className="p-1 hover:bg-gray-200 rounded-full transition-colors"
-                  >
-                    <X className="w-4 h-4 text-gray-500" />
-                  </button>
+
+                  {renderFileProgress(f, index)}
+
+                  {/* Sheet Picker */}
+                  {f.inspection && f.inspection.sheets.length > 1 && (
+                    <div className="mt-3 space-y-2 border-t border-gray-200 pt-2">
+                      {f.inspection.sheets.map((sheet) => (
+                        <label
+                          key={sheet.name}
+                          className={`flex items-start space-x-2 text-sm ${
+                            sheet.empty ? "opacity-50" : "cursor-pointer"
+                          }`}
+                        >
+                          <input
+                            type="checkbox"
+                            className="mt-1"
+                            disabled={sheet.empty}
+                            checked={
+                              f.selectedSheets?.includes(sheet.name) ?? false
+                            }
+                            onChange={() => toggleSheet(f.id, sheet.name)}
+                          />
+                          <div className="min-w-0">
+                            <p className="font-medium text-gray-800">
+                              {sheet.name}
+                              <span className="ml-2 text-xs font-normal text-gray-500">
+                                {sheet.empty
+                                  ? "Empty"
+                                  : `${sheet.rowCount} rows × ${sheet.columnCount} columns`}
+                              </span>
+                            </p>
+                            {sheet.headers.length > 0 && (
+                              <p className="text-xs text-gray-500 truncate">
+                                {sheet.headers.slice(0, 6).join(", ")}
+                                {sheet.headers.length > 6 && ", …"}
+                              </p>
+                            )}
+                          </div>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+
+                  {/* Column Roles */}
+                  {renderRoleEditor(f)}
+
+                  {/* Quality Rules */}
+                  {renderQualityRulesEditor(f)}
+
+                  {/* Insight Rules */}
+                  {renderInsightRulesEditor(f)}
                 </div>
               ))}
             </div>
           </div>
         )}
 
+        {/* Processing Mode */}
+        {files.length > 1 && (
+          <div className="mt-6 flex items-center space-x-2">
+            <span className="text-sm font-medium text-gray-700">
+              Multiple files:
+            </span>
+            {(
+              [
+                ["separate", "Separate reports"],
+                ["compare", "Compare periods"],
+                ["consolidate", "Consolidate into one"],
+              ] as [ProcessingMode, string][]
+            ).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => setMode(value)}
+                className={`px-3 py-1 rounded-lg border text-sm transition-colors ${
+                  mode === value
+                    ? "bg-blue-100 border-blue-300 text-blue-800"
+                    : "bg-gray-50 border-gray-200 text-gray-700 hover:bg-gray-100"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Budget */}
+        {budgetOptions.length > 0 && (
+          <div className="mt-4 flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium text-gray-700">
+              Budget for financial reports:
+            </span>
+            <select
+              value={budget ? budgetSource : ""}
+              onChange={(e) => setBudgetSource(e.target.value)}
+              className="px-3 py-1 border border-gray-200 rounded-lg text-sm"
+            >
+              <option value="">None</option>
+              {budgetOptions.map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            {budget && (
+              <label className="flex items-center space-x-1 text-sm text-gray-700">
+                <span>Flag variances over</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={budgetThreshold}
+                  onChange={(e) => setBudgetThreshold(e.target.value)}
+                  className="w-20 px-2 py-1 border border-gray-200 rounded-lg text-sm"
+                />
+                <span>%</span>
+              </label>
+            )}
+          </div>
+        )}
+
         <div className="mt-6 flex items-center justify-between">
           <div className="flex items-center space-x-2">
             {status === "error" && errorMsg && (
@@ -655,32 +2274,53 @@ const DynamicReportDashboard: React.FC = () => {
                 ✓ Generated {reports.length} intelligent report(s)
               </span>
             )}
+            {status === "success" &&
+              mode === "compare" &&
+              reports.length > 1 &&
+              !comparison && (
+                <span className="text-sm text-gray-500">
+                  No files share a layout to compare
+                </span>
+              )}
+          </div>
+          <div className="flex items-center space-x-3">
+            {status === "uploading" &&
+              job &&
+              ACTIVE_JOB_STATUSES.includes(job.status) && (
+                <button
+                  onClick={cancelJob}
+                  className="flex items-center space-x-1 px-4 py-3 rounded-lg font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors"
+                >
+                  <X className="w-4 h-4" />
+                  <span>Cancel</span>
+                </button>
+              )}
+            <button
+              onClick={generateReports}
+              disabled={!files.length || status === "uploading"}
+              className={`flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-all duration-200 ${
+                status === "uploading"
+                  ? "bg-gray-400 cursor-not-allowed text-white"
+                  : !files.length
+                  ? "bg-gray-300 cursor-not-allowed text-gray-500"
+                  : "bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white shadow-lg hover:shadow-xl"
+              }`}
+            >
+              {status === "uploading" && (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              )}
+              <Brain className="w-5 h-5" />
+              <span>
+                {status === "uploading"
+                  ? "Analyzing Data..."
+                  : "Generate Smart Reports"}
+              </span>
+            </button>
           </div>
-          <button
-            onClick={generateReports}
-            disabled={!files.length || status === "uploading"}
-            className={`flex items-center space-x-2 px-6 py-3 rounded-lg font-medium transition-all duration-200 ${
-              status === "uploading"
-                ? "bg-gray-400 cursor-not-allowed text-white"
-                : !files.length
-                ? "bg-gray-300 cursor-not-allowed text-gray-500"
-                : "bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white shadow-lg hover:shadow-xl"
-            }`}
-          >
-            {status === "uploading" && (
-              <Loader2 className="w-5 h-5 animate-spin" />
-            )}
-            <Brain className="w-5 h-5" />
-            <span>
-              {status === "uploading"
-                ? "Analyzing Data..."
-                : "Generate Smart Reports"}
-            </span>
-          </button>
         </div>
 
         {/* Reports Section */}
-        {reports.length > 0 && (
+        {(reports.length > 0 || historyTotal > 0) && (
           <div className="mt-8">
             {/* Reports Header with Filters */}
             <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6 space-y-4 md:space-y-0">
@@ -708,8 +2348,8 @@ const DynamicReportDashboard: React.FC = () => {
                   className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
                   <option value="all">All Types</option>
-                  {REPORT_TEMPLATES.map((template) => (
-                    <option key={template.type} value={template.type}>
+                  {REPORT_GENERATORS.map((template) => (
+                    <option key={template.id} value={template.id}>
                       {template.name}
                     </option>
                   ))}
@@ -729,12 +2369,15 @@ const DynamicReportDashboard: React.FC = () => {
               </div>
             </div>
 
+            {/* Period Comparison */}
+            {comparison && renderComparison(comparison)}
+
             <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
               {/* Reports Sidebar */}
               <div className="lg:col-span-1">
                 <div className="space-y-2 max-h-96 overflow-y-auto">
                   {filteredReports.map((report, i) => {
-                    const template = getReportTemplate(report.reportType);
+                    const template = generatorFor(report.reportType);
                     const Icon = template.icon;
                     const originalIndex = reports.findIndex(
                       (r) => r.id === report.id
@@ -758,6 +2401,11 @@ const DynamicReportDashboard: React.FC = () => {
                             <p className="font-medium text-sm truncate">
                               {report.fileName}
                             </p>
+                            {report.sheetName && (
+                              <p className="text-xs text-gray-600 truncate">
+                                Sheet: {report.sheetName}
+                              </p>
+                            )}
                             <p className="text-xs text-gray-500 capitalize">
                               {report.reportType}
                             </p>
@@ -784,10 +2432,72 @@ const DynamicReportDashboard: React.FC = () => {
                     );
                   })}
                 </div>
+
+                {/* Report History */}
+                {pastReports.length > 0 && (
+                  <div className="mt-6">
+                    <h4 className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+                      <Clock className="w-4 h-4" />
+                      <span>History</span>
+                    </h4>
+                    <div className="space-y-2 max-h-96 overflow-y-auto">
+                      {pastReports.map((summary) => {
+                        const template = generatorFor(summary.reportType);
+                        const Icon = template.icon;
+
+                        return (
+                          <div
+                            key={summary.id}
+                            className="flex items-start p-3 rounded-lg bg-gray-50 hover:bg-gray-100 border border-gray-200"
+                          >
+                            <button
+                              onClick={() => openStoredReport(summary.id)}
+                              className="flex flex-1 items-start space-x-3 text-left min-w-0"
+                            >
+                              <Icon
+                                className={`w-5 h-5 mt-0.5 text-${template.color}-600`}
+                              />
+                              <div className="flex-1 min-w-0">
+                                <p className="font-medium text-sm truncate">
+                                  {summary.fileName}
+                                </p>
+                                {summary.sheetName && (
+                                  <p className="text-xs text-gray-600 truncate">
+                                    Sheet: {summary.sheetName}
+                                  </p>
+                                )}
+                                <p className="text-xs text-gray-500 capitalize">
+                                  {summary.reportType}
+                                </p>
+                                <p className="text-xs text-gray-400">
+                                  {new Date(summary.generatedAt).toLocaleString(
+                                    locale
+                                  )}
+                                </p>
+                              </div>
+                            </button>
+                            <button
+                              onClick={() => deleteStoredReport(summary.id)}
+                              className="p-1 hover:bg-gray-200 rounded-full transition-colors"
+                              title="Delete from history"
+                            >
+                              <Trash2 className="w-4 h-4 text-gray-500" />
+                            </button>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
               </div>
 
               {/* Main Report Content */}
               <div className="lg:col-span-3">
+                {!activeReport && (
+                  <p className="text-sm text-gray-500">
+                    Select a report from the history to reopen it.
+                  </p>
+                )}
                 {activeReport && (
                   <>
                     {/* Report Header */}
@@ -795,16 +2505,48 @@ const DynamicReportDashboard: React.FC = () => {
                       <div>
                         <h3 className="text-2xl font-bold text-gray-900">
                           {activeReport.fileName}
+                          {activeReport.sheetName && (
+                            <span className="ml-2 text-lg font-medium text-gray-500">
+                              / {activeReport.sheetName}
+                            </span>
+                          )}
                         </h3>
                         <p className="text-sm text-gray-500 mt-1">
-                          {getReportTemplate(activeReport.reportType).name} •
+                          {generatorFor(activeReport.reportType).name} •
                           Generated{" "}
                           {new Date(activeReport.generatedAt).toLocaleString()}{" "}
-                          •{activeReport.dataInfo.rowsAnalyzed} rows,{" "}
-                          {activeReport.dataInfo.columnsAnalyzed} columns
+                          •{activeReport.dataInfo.rowsAnalyzed} rows
+                          {activeReport.dataInfo.sampleRows
+                            ? ` (${activeReport.dataInfo.sampleRows} sampled)`
+                            : ""}
+                          , {activeReport.dataInfo.columnsAnalyzed} columns
                         </p>
                       </div>
                       <div className="flex space-x-2">
+                        <select
+                          value={locale}
+                          onChange={(e) => setLocale(e.target.value)}
+                          aria-label="Number format locale"
+                          className="px-2 py-2 bg-gray-100 rounded-lg text-sm"
+                        >
+                          {LOCALE_OPTIONS.map((option) => (
+                            <option key={option} value={option}>
+                              {option}
+                            </option>
+                          ))}
+                        </select>
+                        <select
+                          value={currency}
+                          onChange={(e) => setCurrency(e.target.value)}
+                          aria-label="Currency"
+                          className="px-2 py-2 bg-gray-100 rounded-lg text-sm"
+                        >
+                          {CURRENCY_OPTIONS.map((option) => (
+                            <option key={option} value={option}>
+                              {option}
+                            </option>
+                          ))}
+                        </select>
                         <button
                           onClick={() => setShowMetadata(!showMetadata)}
                           className="flex items-center space-x-1 px-3 py-2 bg-gray-100 rounded-lg hover:bg-gray-200 text-sm"
@@ -813,11 +2555,25 @@ const DynamicReportDashboard: React.FC = () => {
                           <span>Metadata</span>
                         </button>
                         <button
-                          onClick={exportReport}
-                          className="flex items-center space-x-1 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm"
+                          onClick={() => exportReport("json")}
+                          className="flex items-center space-x-1 px-3 py-2 bg-gray-100 rounded-lg hover:bg-gray-200 text-sm"
                         >
                           <Download className="w-4 h-4" />
-                          <span>Export</span>
+                          <span>JSON</span>
+                        </button>
+                        <button
+                          onClick={() => exportReport("xlsx")}
+                          disabled={
+                            isExporting || activeReport.reportType === "error"
+                          }
+                          className="flex items-center space-x-1 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm disabled:bg-gray-400 disabled:cursor-not-allowed"
+                        >
+                          {isExporting ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <FileSpreadsheet className="w-4 h-4" />
+                          )}
+                          <span>Export Excel</span>
                         </button>
                       </div>
                     </div>
@@ -848,14 +2604,9 @@ const DynamicReportDashboard: React.FC = () => {
                             <span className="text-blue-700 font-medium">
                               Processing Time:
                             </span>
-                            <p className="text-blue-600">
-                              {activeReport?.metadata?.processingTime !==
-                              undefined
-                                ? `${(
-                                    activeReport.metadata.processingTime / 1000
-                                  ).toFixed(1)}s`
-                                : "N/A"}
-                            </p>
+                            {renderProcessingTime(
+                              activeReport.metadata.processingTime
+                            )}
                           </div>
                           <div>
                             <span className="text-blue-700 font-medium">
@@ -895,14 +2646,204 @@ const DynamicReportDashboard: React.FC = () => {
                               </ul>
                             </div>
                           )}
+                        {activeReport.metadata.detection && (
+                          <div className="mt-4">
+                            <span className="text-blue-700 font-medium">
+                              Detection Scores
+                              {activeReport.metadata.detection.requestedType !==
+                                "auto" &&
+                                ` (type chosen manually: ${activeReport.metadata.detection.requestedType})`}
+                              {activeReport.metadata.detection.requestedType ===
+                                "auto" &&
+                                activeReport.metadata.detection.detectedType ===
+                                  "general" &&
+                                activeReport.metadata.detection.threshold !==
+                                  undefined &&
+                                ` (no type reached ${(
+                                  activeReport.metadata.detection.threshold *
+                                  100
+                                ).toFixed(0)}%)`}
+                              :
+                            </span>
+                            <div className="mt-2 space-y-2">
+                              {activeReport.metadata.detection.scores.map(
+                                (score) => (
+                                  <div
+                                    key={score.type}
+                                    className="text-sm text-blue-600"
+                                  >
+                                    <div className="flex items-center justify-between">
+                                      <span
+                                        className={`capitalize ${
+                                          score.type ===
+                                          activeReport.metadata?.detection
+                                            ?.detectedType
+                                            ? "font-semibold"
+                                            : ""
+                                        }`}
+                                      >
+                                        {score.type}
+                                      </span>
+                                      <span>
+                                        {(score.score * 100).toFixed(0)}%
+                                      </span>
+                                    </div>
+                                    <div className="h-1.5 bg-blue-100 rounded-full mt-1">
+                                      <div
+                                        className="h-1.5 bg-blue-400 rounded-full"
+                                        style={{
+                                          width: `${Math.round(
+                                            score.score * 100
+                                          )}%`,
+                                        }}
+                                      />
+                                    </div>
+                                    {/* Reports saved before detection
+                                        recorded evidence have none */}
+                                    {score.evidence?.length > 0 && (
+                                      <p className="text-xs text-blue-500 mt-1">
+                                        Matched: {score.evidence.join("; ")}
+                                      </p>
+                                    )}
+                                  </div>
+                                )
+                              )}
+                            </div>
+                          </div>
+                        )}
+                        {activeReport.metadata.profile && (
+                          <div className="mt-4">
+                            <span className="text-blue-700 font-medium">
+                              Profile:
+                            </span>
+                            <span className="ml-2 text-blue-600">
+                              {activeReport.metadata.profile.name}
+                            </span>
+                          </div>
+                        )}
+                        {activeReport.metadata.sources && (
+                          <div className="mt-4">
+                            <span className="text-blue-700 font-medium">
+                              Sources:
+                            </span>
+                            <ul className="text-sm text-blue-600 mt-1 space-y-1">
+                              {activeReport.metadata.sources.map((source) => (
+                                <li
+                                  key={`${source.fileName}-${source.sheetName}`}
+                                >
+                                  • {source.fileName}
+                                  {source.sheetName && ` / ${source.sheetName}`}
+                                  : {source.rows} rows
+                                  {source.sampledRows !== undefined &&
+                                    ` (${source.sampledRows} sampled)`}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                        {activeReport.metadata.columnRoles && (
+                          <div className="mt-4">
+                            <span className="text-blue-700 font-medium">
+                              Column Roles:
+                            </span>
+                            <ul className="text-sm text-blue-600 mt-1 space-y-1">
+                              {Object.entries(
+                                activeReport.metadata.columnRoles
+                              ).map(([column, role]) => (
+                                <li key={column}>
+                                  • {column}: {COLUMN_ROLES[role]}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                        {activeReport.metadata.layout && (
+                          <div className="mt-4">
+                            <span className="text-blue-700 font-medium">
+                              Table Region:
+                            </span>
+                            <p className="text-sm text-blue-600 mt-1">
+                              {activeReport.metadata.layout.dataRange} (header
+                              row{" "}
+                              {activeReport.metadata.layout.headerRows.join(
+                                ", "
+                              )}
+                              )
+                            </p>
+                            {activeReport.metadata.layout.skippedRows.length >
+                              0 && (
+                              <ul className="text-sm text-blue-600 mt-1 space-y-1">
+                                {activeReport.metadata.layout.skippedRows.map(
+                                  (skipped) => (
+                                    <li key={skipped.row}>
+                                      • Skipped row {skipped.row} (
+                                      {skipped.reason}): {skipped.text}
+                                    </li>
+                                  )
+                                )}
+                              </ul>
+                            )}
+                            {activeReport.metadata.layout.emptyColumns.length >
+                              0 && (
+                              <p className="text-sm text-blue-600 mt-1">
+                                Ignored empty columns:{" "}
+                                {activeReport.metadata.layout.emptyColumns.join(
+                                  ", "
+                                )}
+                              </p>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {/* Report / Data Tabs */}
+                    {activeReport.reportType !== "error" && (
+                      <div className="flex space-x-1 border-b border-gray-200 mb-4">
+                        {REPORT_VIEWS.map(({ view, label }) => (
+                          <button
+                            key={view}
+                            onClick={() => setReportView(view)}
+                            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+                              reportView === view
+                                ? "border-blue-500 text-blue-600"
+                                : "border-transparent text-gray-500 hover:text-gray-700"
+                            }`}
+                          >
+                            {label}
+                          </button>
+                        ))}
                       </div>
                     )}
 
                     {/* Dynamic Report Content */}
-                    {renderReportContent()}
+                    {reportView === "data" &&
+                    activeReport.reportType !== "error" ? (
+                      <DataPreview
+                        key={activeReport.id}
+                        reportId={activeReport.id}
+                        locale={locale}
+                      />
+                    ) : reportView === "pivot" &&
+                      activeReport.reportType !== "error" ? (
+                      <PivotBuilder
+                        key={activeReport.id}
+                        report={activeReport}
+                        locale={locale}
+                        onSaved={(saved) =>
+                          setReports((prev) =>
+                            prev.map((item) =>
+                              item.id === saved.id ? saved : item
+                            )
+                          )
+                        }
+                      />
+                    ) : (
+                      renderReportContent()
+                    )}
 
                     {/* Error Display */}
-                    {activeReport.data.error && (
+                    {typeof activeReport.data.error === "string" && (
                       <div className="bg-red-50 border border-red-200 rounded-lg p-4 mt-4">
                         <h4 className="font-semibold text-red-800 mb-2 flex items-center">
                           <AlertCircle className="w-5 h-5 mr-2" />
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  buildReportWorkbook,
+  workbookFileName,
+  XLSX_MIME_TYPE,
+} from "@/lib/reportWorkbook";
+import { DynamicReport } from "@/lib/reportTypes";
+import { DEFAULT_CURRENCY, isCurrencyCode } from "@/lib/reportValues";
+
+/* ----------   MAIN API HANDLER   ---------- */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body = await request.json().catch(() => null);
+    const report: DynamicReport | undefined = body?.report;
+    const currency: string =
+      typeof body?.currency === "string" ? body.currency : DEFAULT_CURRENCY;
+
+    if (!report || !report.data || !report.fileName) {
+      return NextResponse.json(
+        { success: false, error: "No report provided" },
+        { status: 400 }
+      );
+    }
+
+    if (report.reportType === "error") {
+      return NextResponse.json(
+        { success: false, error: "Cannot export a failed report" },
+        { status: 400 }
+      );
+    }
+
+    if (!isCurrencyCode(currency)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown currency: ${currency}` },
+        { status: 400 }
+      );
+    }
+
+    const buffer = await buildReportWorkbook(report, currency);
+    const fileName = workbookFileName(report);
+
+    console.log(`Exported ${report.fileName} as ${fileName}`);
+    return new NextResponse(new Uint8Array(buffer), {
+      status: 200,
+      headers: {
+        "Content-Type": XLSX_MIME_TYPE,
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Content-Length": String(buffer.length),
+      },
+    });
+  } catch (error) {
+    console.error("Error in report export API:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Internal server error";
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: errorMessage,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,924 +1,510 @@
 import { NextRequest, NextResponse } from "next/server";
 import { v4 as uuidv4 } from "uuid";
-import * as Papa from "papaparse";
-import * as XLSX from "xlsx";
-
-interface DynamicReport {
-  id: string;
-  fileName: string;
-  generatedAt: string;
-  reportType: string;
-  data: Record<string, any>;
-  summary: Record<string, any>;
-  dataInfo: {
-    rowsAnalyzed: number;
-    columnsAnalyzed: number;
-  };
-  metadata?: {
-    confidence: number;
-    processingTime: number;
-    dataQuality: string;
-    suggestions: string[];
-  };
-}
+import {
+  DynamicReport,
+  GenerateReportResponse,
+  ProcessingMode,
+  ReportDetection,
+  ReportProfile,
+  TableLayout,
+} from "@/lib/reportTypes";
+import { isWorkbookFile, ParsedSheet, parseFile } from "@/lib/fileParser";
+import { MAX_SAMPLE_ROWS, supportedExtensions } from "@/lib/fileFormats";
+import { TableTotals } from "@/lib/aggregates";
+import { findMatchingProfile } from "@/lib/profileStore";
+import { getReportRepository } from "@/lib/reportStore";
+import { buildDataset } from "@/lib/dataPreview";
+import { getJobQueue, JobContext } from "@/lib/jobQueue";
+import { compareReports, ComparisonInput } from "@/lib/reportComparison";
+import {
+  alignColumnMapping,
+  capSourceRows,
+  consolidatedFileName,
+  consolidateRows,
+  ConsolidationInput,
+  SOURCE_COLUMN,
+  sourceName,
+} from "@/lib/consolidation";
+import { DETECTION_THRESHOLD, ReportTypeDetector } from "@/lib/reportDetection";
+import {
+  assessQuality,
+  parseQualityRules,
+  QualityRule,
+  QualityRuleError,
+} from "@/lib/qualityRules";
+import {
+  BudgetError,
+  BudgetSettings,
+  compareToBudget,
+  parseBudgetSettings,
+} from "@/lib/budgetVariance";
+import {
+  evaluateInsights,
+  InsightRule,
+  InsightRuleError,
+  parseInsightRules,
+} from "@/lib/insightRules";
+import { GeneratedReport, generatorFor, reportTypeIds } from "@/lib/generators";
+import { toNumber } from "@/lib/generators/shared";
+import {
+  assignColumnRoles,
+  ColumnAssignment,
+  ColumnMapping,
+  isColumnRole,
+  rolesByColumn,
+} from "@/lib/columnRoles";
+import {
+  countValue,
+  isReportValue,
+  percentValue,
+  ReportValue,
+} from "@/lib/reportValues";
 
-interface ReportAnalyzer {
-  detectType: (data: any[], columns: string[]) => string;
-  generateReport: (
-    data: any[],
-    fileName: string,
-    reportType?: string
-  ) => Promise<DynamicReport>;
-}
-
-interface StatInfo {
-  sum: number;
-  average: number;
-  min: number;
-  max: number;
-  count: number;
+/* ----------   UTILITY FUNCTIONS   ---------- */
+const PROCESSING_MODES: ProcessingMode[] = [
+  "separate",
+  "compare",
+  "consolidate",
+];
+
+function parseMode(value: FormDataEntryValue | null): ProcessingMode | null {
+  if (!value) return "separate";
+  return PROCESSING_MODES.find((mode) => mode === value) || null;
 }
 
-
-class ReportTypeDetector {
-  static detectReportType(data: any[], columns: string[]): string {
-    const columnStr = columns.join(" ").toLowerCase();
-    const dataStr = JSON.stringify(data.slice(0, 5)).toLowerCase();
-    const combined = columnStr + " " + dataStr;
-
-   
-    if (this.hasFinancialIndicators(combined)) return "financial";
-
-    
-    if (this.hasSalesIndicators(combined)) return "sales";
-
-   
-    if (this.hasInventoryIndicators(combined)) return "inventory";
-
-    
-    if (this.hasCustomerIndicators(combined)) return "customer";
-
-   
-    if (this.hasMarketingIndicators(combined)) return "marketing";
-
-   
-    if (this.hasOperationalIndicators(combined)) return "operational";
-
-    return "general";
-  }
-
-  private static hasFinancialIndicators(text: string): boolean {
-    const financialKeywords = [
-      "revenue",
-      "income",
-      "profit",
-      "loss",
-      "expense",
-      "cost",
-      "balance",
-      "asset",
-      "liability",
-      "equity",
-      "cash",
-      "flow",
-      "budget",
-      "financial",
-    ];
-    return financialKeywords.some((keyword) => text.includes(keyword));
-  }
-
-  private static hasSalesIndicators(text: string): boolean {
-    const salesKeywords = [
-      "sales",
-      "order",
-      "purchase",
-      "transaction",
-      "customer",
-      "product",
-      "quantity",
-      "price",
-      "discount",
-      "commission",
-      "deal",
-      "lead",
-    ];
-    return salesKeywords.some((keyword) => text.includes(keyword));
-  }
-
-  private static hasInventoryIndicators(text: string): boolean {
-    const inventoryKeywords = [
-      "inventory",
-      "stock",
-      "warehouse",
-      "sku",
-      "product",
-      "quantity",
-      "reorder",
-      "supplier",
-      "vendor",
-      "shipment",
-      "item",
-    ];
-    return inventoryKeywords.some((keyword) => text.includes(keyword));
-  }
-
-  private static hasCustomerIndicators(text: string): boolean {
-    const customerKeywords = [
-      "customer",
-      "client",
-      "user",
-      "demographic",
-      "age",
-      "gender",
-      "location",
-      "segment",
-      "behavior",
-      "retention",
-      "churn",
-    ];
-    return customerKeywords.some((keyword) => text.includes(keyword));
-  }
-
-  private static hasMarketingIndicators(text: string): boolean {
-    const marketingKeywords = [
-      "campaign",
-      "advertisement",
-      "marketing",
-      "impression",
-      "click",
-      "conversion",
-      "roi",
-      "ctr",
-      "engagement",
-      "reach",
-      "audience",
-    ];
-    return marketingKeywords.some((keyword) => text.includes(keyword));
-  }
-
-  private static hasOperationalIndicators(text: string): boolean {
-    const operationalKeywords = [
-      "efficiency",
-      "productivity",
-      "performance",
-      "quality",
-      "process",
-      "operation",
-      "throughput",
-      "downtime",
-      "utilization",
-      "metric",
-    ];
-    return operationalKeywords.some((keyword) => text.includes(keyword));
+// The `sheets` and `excludedColumns` form fields are either a JSON array of
+// names applied to every file, or a JSON object mapping file name to names.
+function parseNameLists(
+  value: FormDataEntryValue | null
+): Record<string, string[]> | string[] | null {
+  if (!value || typeof value !== "string" || !value.trim()) return null;
+
+  const parsed = JSON.parse(value);
+  const isNameList = (list: unknown): list is string[] =>
+    Array.isArray(list) && list.every((name) => typeof name === "string");
+
+  if (isNameList(parsed)) return parsed;
+  if (
+    parsed &&
+    typeof parsed === "object" &&
+    Object.values(parsed).every(isNameList)
+  ) {
+    return parsed as Record<string, string[]>;
   }
+  throw new Error("Invalid name list");
 }
 
-/* ----------   REPORT GENERATORS   ---------- */
-class FinancialReportGenerator {
-  static async generate(data: any[], fileName: string): Promise<any> {
-    const columns = Object.keys(data[0] || {});
-    const stats = this.calculateFinancialStats(data);
-
-    // Identify financial columns
-    const revenueColumns = columns.filter((col) =>
-      /revenue|income|sales|earnings/i.test(col)
-    );
-    const expenseColumns = columns.filter((col) =>
-      /expense|cost|expenditure|spend/i.test(col)
-    );
-    const profitColumns = columns.filter((col) =>
-      /profit|net|margin/i.test(col)
-    );
-
-    const totalRevenue = this.sumColumns(data, revenueColumns);
-    const totalExpenses = this.sumColumns(data, expenseColumns);
-    const netProfit = totalRevenue - totalExpenses;
-    const profitMargin =
-      totalRevenue > 0 ? (netProfit / totalRevenue) * 100 : 0;
-
-    return {
-      executiveSummary: `Financial analysis of ${fileName} shows ${
-        totalRevenue > 0
-          ? `total revenue of $${totalRevenue.toLocaleString()}`
-          : "revenue data not clearly identified"
-      }, ${
-        totalExpenses > 0
-          ? `expenses of $${totalExpenses.toLocaleString()}`
-          : "expense data not clearly identified"
-      }, and ${
-        netProfit !== 0
-          ? `net profit of $${netProfit.toLocaleString()}`
-          : "profit calculation requires revenue and expense identification"
-      }.`,
-
-      revenueAnalysis: {
-        totalRevenue: `$${totalRevenue.toLocaleString()}`,
-        breakdown:
-          revenueColumns.length > 0
-            ? `Revenue sources: ${revenueColumns.join(", ")}`
-            : "Revenue sources not clearly identified",
-        trends: this.analyzeTrends(data, revenueColumns, "revenue"),
-      },
-
-      costAnalysis: {
-        totalCosts: `$${totalExpenses.toLocaleString()}`,
-        majorCategories:
-          expenseColumns.length > 0
-            ? expenseColumns.join(", ")
-            : "Expense categories not clearly identified",
-        trends: this.analyzeTrends(data, expenseColumns, "expenses"),
-      },
-
-      profitLoss: {
-        netProfit: `$${netProfit.toLocaleString()}`,
-        profitMargin: `${profitMargin.toFixed(2)}%`,
-        comparison:
-          netProfit > 0
-            ? "Profitable operations"
-            : netProfit < 0
-            ? "Operating at a loss"
-            : "Break-even performance",
-      },
-
-      keyMetrics: {
-        grossMargin: `${profitMargin.toFixed(2)}%`,
-        totalTransactions: data.length,
-        avgTransactionValue:
-          totalRevenue > 0
-            ? `$${(totalRevenue / data.length).toFixed(2)}`
-            : "N/A",
-      },
-
-      recommendations: this.generateFinancialRecommendations(
-        totalRevenue,
-        totalExpenses,
-        profitMargin
-      ),
-
-      riskFactors: this.identifyFinancialRisks(data, profitMargin),
-
-      opportunities: this.identifyFinancialOpportunities(data, stats),
-
-      basicStats: stats,
-    };
-  }
-
-  private static sumColumns(data: any[], columns: string[]): number {
-    return data.reduce((total, row) => {
-      return (
-        total +
-        columns.reduce((colSum, col) => {
-          const value = this.parseNumericValue(row[col]);
-          return colSum + (isNaN(value) ? 0 : value);
-        }, 0)
-      );
-    }, 0);
-  }
-
-  private static parseNumericValue(value: any): number {
-    if (typeof value === "number") return value;
-    if (typeof value === "string") {
-      const cleaned = value.replace(/[,$%]/g, "");
-      return parseFloat(cleaned);
-    }
-    return 0;
-  }
-
-  private static analyzeTrends(
-    data: any[],
-    columns: string[],
-    type: string
-  ): string {
-    if (columns.length === 0) return `No clear ${type} trends identifiable`;
-
-    // Simple trend analysis
-    const firstHalf = data.slice(0, Math.floor(data.length / 2));
-    const secondHalf = data.slice(Math.floor(data.length / 2));
-
-    const firstHalfSum = this.sumColumns(firstHalf, columns);
-    const secondHalfSum = this.sumColumns(secondHalf, columns);
-
-    if (secondHalfSum > firstHalfSum) {
-      return `${type} showing upward trend in recent period`;
-    } else if (secondHalfSum < firstHalfSum) {
-      return `${type} showing downward trend in recent period`;
-    } else {
-      return `${type} remaining relatively stable`;
-    }
-  }
-
-  private static generateFinancialRecommendations(
-    revenue: number,
-    expenses: number,
-    margin: number
-  ): string[] {
-    const recommendations = [];
-
-    if (margin < 10) {
-      recommendations.push(
-        "Focus on cost reduction strategies to improve profit margins"
-      );
-    }
-    if (revenue === 0) {
-      recommendations.push("Implement revenue tracking and categorization");
-    }
-    if (expenses > revenue) {
-      recommendations.push("Urgent review of expense management required");
-    }
-
-    recommendations.push("Establish regular financial reporting cadence");
-    recommendations.push(
-      "Consider implementing budgeting and forecasting processes"
-    );
-
-    return recommendations;
-  }
-
-  private static identifyFinancialRisks(data: any[], margin: number): string[] {
-    const risks = [];
-
-    if (margin < 0) risks.push("Operating losses pose sustainability risk");
-    if (margin < 5)
-      risks.push("Low profit margins indicate financial vulnerability");
-    if (data.length < 10)
-      risks.push(
-        "Limited data sample may not represent full financial picture"
-      );
-
-    return risks;
-  }
-
-  private static identifyFinancialOpportunities(
-    data: any[],
-    stats: Record<string, StatInfo>
-  ): string[] {
-    const opportunities = [];
-
-    opportunities.push(
-      "Analyze high-performing revenue streams for scaling opportunities"
-    );
-    opportunities.push(
-      "Implement cost optimization in largest expense categories"
-    );
-    opportunities.push("Develop predictive financial modeling capabilities");
-
-    return opportunities;
-  }
-
-  private static calculateFinancialStats(
-    data: any[]
-  ): Record<string, StatInfo> {
-    const numericColumns: Record<string, number[]> = {};
-
-    data.forEach((row) => {
-      Object.keys(row).forEach((key) => {
-        const numValue = this.parseNumericValue(row[key]);
-        if (!isNaN(numValue) && isFinite(numValue)) {
-          if (!numericColumns[key]) numericColumns[key] = [];
-          numericColumns[key].push(numValue);
-        }
-      });
-    });
-
-    const stats: Record<string, StatInfo> = {};
-    Object.keys(numericColumns).forEach((key) => {
-      const values = numericColumns[key];
-      if (values.length > 0) {
-        const sum = values.reduce((a, b) => a + b, 0);
-        stats[key] = {
-          sum,
-          average: sum / values.length,
-          min: Math.min(...values),
-          max: Math.max(...values),
-          count: values.length,
-        };
-      }
-    });
-
-    return stats;
-  }
+function namesForFile(
+  selection: Record<string, string[]> | string[] | null,
+  fileName: string
+): string[] | undefined {
+  if (!selection) return undefined;
+  return Array.isArray(selection) ? selection : selection[fileName];
 }
 
-class SalesReportGenerator {
-  static async generate(data: any[], fileName: string): Promise<any> {
-    const columns = Object.keys(data[0] || {});
-    const stats = this.calculateSalesStats(data);
-
-    // Identify sales-related columns
-    const salesColumns = columns.filter((col) =>
-      /sales|revenue|amount|total|price/i.test(col)
-    );
-    const quantityColumns = columns.filter((col) =>
-      /quantity|qty|units|count/i.test(col)
-    );
-    const customerColumns = columns.filter((col) =>
-      /customer|client|user|buyer/i.test(col)
-    );
-    const productColumns = columns.filter((col) =>
-      /product|item|sku|name/i.test(col)
+// The `columnMapping` form field is either a JSON object of column name to
+// role applied to every file, or a JSON object mapping file name to such an
+// object. A role of "none" keeps a column out of auto-detection.
+function parseColumnMapping(
+  value: FormDataEntryValue | null
+): Record<string, ColumnMapping> | ColumnMapping | null {
+  if (!value || typeof value !== "string" || !value.trim()) return null;
+
+  const parsed = JSON.parse(value);
+  const isMapping = (mapping: unknown): mapping is ColumnMapping =>
+    Boolean(mapping) &&
+    typeof mapping === "object" &&
+    !Array.isArray(mapping) &&
+    Object.values(mapping as object).every(
+      (role) => role === "none" || isColumnRole(role)
     );
 
-    const totalSales = this.sumColumns(data, salesColumns);
-    const totalQuantity = this.sumColumns(data, quantityColumns);
-    const uniqueCustomers = this.countUnique(data, customerColumns);
-    const uniqueProducts = this.countUnique(data, productColumns);
-    const avgOrderValue =
-      totalSales > 0 && data.length > 0 ? totalSales / data.length : 0;
-
-    return {
-      executiveSummary: `Sales analysis of ${fileName} reveals ${
-        data.length
-      } transactions with total sales of $${totalSales.toLocaleString()}, ${uniqueCustomers} unique customers, and ${uniqueProducts} unique products.`,
-
-      salesOverview: {
-        totalSales: `$${totalSales.toLocaleString()}`,
-        totalTransactions: data.length,
-        avgOrderValue: `$${avgOrderValue.toFixed(2)}`,
-        totalQuantity: totalQuantity.toLocaleString(),
-      },
-
-      customerAnalysis: {
-        uniqueCustomers: uniqueCustomers.toLocaleString(),
-        avgCustomerValue:
-          uniqueCustomers > 0
-            ? `$${(totalSales / uniqueCustomers).toFixed(2)}`
-            : "N/A",
-        repeatCustomerRate: this.calculateRepeatRate(data, customerColumns),
-      },
-
-      productAnalysis: {
-        uniqueProducts: uniqueProducts.toLocaleString(),
-        topProducts: this.getTopProducts(data, productColumns, salesColumns),
-        avgProductPrice:
-          uniqueProducts > 0
-            ? `$${(totalSales / totalQuantity).toFixed(2)}`
-            : "N/A",
-      },
-
-      trends: this.analyzeSalesTrends(data, salesColumns),
-
-      recommendations: this.generateSalesRecommendations(data, stats),
-
-      opportunities: [
-        "Focus on high-value customer segments",
-        "Optimize product mix based on performance",
-        "Implement upselling strategies for top customers",
-      ],
-
-      basicStats: stats,
-    };
-  }
-
-  private static sumColumns(data: any[], columns: string[]): number {
-    return data.reduce((total, row) => {
-      return (
-        total +
-        columns.reduce((colSum, col) => {
-          const value = parseFloat(String(row[col]).replace(/[,$]/g, ""));
-          return colSum + (isNaN(value) ? 0 : value);
-        }, 0)
-      );
-    }, 0);
-  }
-
-  private static countUnique(data: any[], columns: string[]): number {
-    const unique = new Set();
-    data.forEach((row) => {
-      columns.forEach((col) => {
-        if (row[col]) unique.add(row[col]);
-      });
-    });
-    return unique.size;
-  }
-
-  private static calculateRepeatRate(
-    data: any[],
-    customerColumns: string[]
-  ): string {
-    if (customerColumns.length === 0) return "N/A";
-
-    const customerCounts = new Map();
-    data.forEach((row) => {
-      customerColumns.forEach((col) => {
-        if (row[col]) {
-          customerCounts.set(row[col], (customerCounts.get(row[col]) || 0) + 1);
-        }
-      });
-    });
-
-    const repeatCustomers = Array.from(customerCounts.values()).filter(
-      (count) => count > 1
-    ).length;
-    const totalCustomers = customerCounts.size;
-
-    return totalCustomers > 0
-      ? `${((repeatCustomers / totalCustomers) * 100).toFixed(1)}%`
-      : "N/A";
-  }
-
-  private static getTopProducts(
-    data: any[],
-    productColumns: string[],
-    salesColumns: string[]
-  ): string {
-    if (productColumns.length === 0) return "Product data not identified";
-
-    const productSales = new Map();
-    data.forEach((row) => {
-      productColumns.forEach((productCol) => {
-        if (row[productCol]) {
-          const sales = salesColumns.reduce((sum, salesCol) => {
-            const value = parseFloat(
-              String(row[salesCol]).replace(/[,$]/g, "")
-            );
-            return sum + (isNaN(value) ? 0 : value);
-          }, 0);
-          productSales.set(
-            row[productCol],
-            (productSales.get(row[productCol]) || 0) + sales
-          );
-        }
-      });
-    });
-
-    const sortedProducts = Array.from(productSales.entries())
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 3);
-
-    return sortedProducts
-      .map(([product, sales]) => `${product}: $${sales.toLocaleString()}`)
-      .join(", ");
-  }
-
-  private static analyzeSalesTrends(
-    data: any[],
-    salesColumns: string[]
-  ): string {
-    // Simple trend analysis
-    const firstHalf = data.slice(0, Math.floor(data.length / 2));
-    const secondHalf = data.slice(Math.floor(data.length / 2));
-
-    const firstHalfSales = this.sumColumns(firstHalf, salesColumns);
-    const secondHalfSales = this.sumColumns(secondHalf, salesColumns);
-
-    if (secondHalfSales > firstHalfSales * 1.1) {
-      return "Strong upward sales trend observed";
-    } else if (secondHalfSales < firstHalfSales * 0.9) {
-      return "Declining sales trend requires attention";
-    } else {
-      return "Sales performance relatively stable";
-    }
-  }
-
-  private static generateSalesRecommendations(
-    data: any[],
-    stats: Record<string, StatInfo>
-  ): string[] {
-    return [
-      "Implement customer segmentation for targeted marketing",
-      "Analyze seasonal patterns for inventory planning",
-      "Develop loyalty programs to increase repeat purchases",
-      "Focus on high-margin products for revenue optimization",
-    ];
-  }
-
-  private static calculateSalesStats(data: any[]): Record<string, StatInfo> {
-    const numericColumns: Record<string, number[]> = {};
-
-    data.forEach((row) => {
-      Object.keys(row).forEach((key) => {
-        let value = row[key];
-        if (typeof value === "string") {
-          value = value.replace(/[,$%]/g, "");
-        }
-        const numValue = parseFloat(value);
-        if (!isNaN(numValue) && isFinite(numValue)) {
-          if (!numericColumns[key]) numericColumns[key] = [];
-          numericColumns[key].push(numValue);
-        }
-      });
-    });
-
-    const stats: Record<string, StatInfo> = {};
-    Object.keys(numericColumns).forEach((key) => {
-      const values = numericColumns[key];
-      if (values.length > 0) {
-        const sum = values.reduce((a, b) => a + b, 0);
-        stats[key] = {
-          sum,
-          average: sum / values.length,
-          min: Math.min(...values),
-          max: Math.max(...values),
-          count: values.length,
-        };
-      }
-    });
-
-    return stats;
+  if (isMapping(parsed)) return parsed;
+  if (
+    parsed &&
+    typeof parsed === "object" &&
+    !Array.isArray(parsed) &&
+    Object.values(parsed).every(isMapping)
+  ) {
+    return parsed as Record<string, ColumnMapping>;
   }
+  throw new Error("Invalid column mapping");
 }
 
-class GeneralReportGenerator {
-  static async generate(data: any[], fileName: string): Promise<any> {
-    const columns = Object.keys(data[0] || {});
-    const stats = this.calculateBasicStats(data);
-
-    return {
-      executiveSummary: `General analysis of ${fileName} containing ${
-        data.length
-      } records across ${
-        columns.length
-      } columns. Data types include ${this.identifyDataTypes(data).join(
-        ", "
-      )}.`,
-
-      dataOverview: {
-        totalRecords: data.length,
-        totalColumns: columns.length,
-        dataTypes: this.identifyDataTypes(data),
-        completeness: this.calculateCompleteness(data),
-      },
-
-      columnAnalysis: this.analyzeColumns(data, stats),
-
-      dataQuality: this.assessDataQuality(data),
-
-      insights: this.generateGeneralInsights(data, stats),
-
-      recommendations: [
-        "Consider data standardization for better analysis",
-        "Implement data validation rules",
-        "Add meaningful column descriptions",
-        "Regular data quality assessments recommended",
-      ],
-
-      basicStats: stats,
-    };
-  }
-
-  private static identifyDataTypes(data: any[]): string[] {
-    if (data.length === 0) return [];
-
-    const sample = data[0];
-    const types = new Set<string>();
-
-    Object.values(sample).forEach((value) => {
-      if (typeof value === "number") types.add("numeric");
-      else if (typeof value === "string") {
-        if (!isNaN(Date.parse(value))) types.add("date");
-        else if (!isNaN(parseFloat(value))) types.add("numeric");
-        else types.add("text");
-      } else if (typeof value === "boolean") types.add("boolean");
-    });
-
-    return Array.from(types);
-  }
-
-  private static calculateCompleteness(data: any[]): string {
-    const totalCells = data.length * Object.keys(data[0] || {}).length;
-    const filledCells = data.reduce((sum, row) => {
-      return (
-        sum +
-        Object.values(row).filter(
-          (value) => value !== null && value !== undefined && value !== ""
-        ).length
-      );
-    }, 0);
-
-    return `${((filledCells / totalCells) * 100).toFixed(1)}%`;
-  }
-
-  private static analyzeColumns(
-    data: any[],
-    stats: Record<string, StatInfo>
-  ): Record<string, any> {
-    const analysis: Record<string, any> = {};
-
-    Object.keys(data[0] || {}).forEach((column) => {
-      const values = data
-        .map((row) => row[column])
-        .filter((v) => v !== null && v !== undefined);
-
-      analysis[column] = {
-        dataType: this.inferColumnType(values),
-        completeness: `${((values.length / data.length) * 100).toFixed(1)}%`,
-        uniqueValues: new Set(values).size,
-        statistics: stats[column] || null,
-      };
-    });
-
-    return analysis;
-  }
-
-  private static inferColumnType(values: any[]): string {
-    if (values.length === 0) return "empty";
-
-    const sample = values[0];
-    if (typeof sample === "number") return "numeric";
-    if (typeof sample === "boolean") return "boolean";
-
-    // Check for dates
-    if (typeof sample === "string" && !isNaN(Date.parse(sample))) return "date";
-
-    // Check for numeric strings
-    if (
-      typeof sample === "string" &&
-      !isNaN(parseFloat(sample.replace(/[,$%]/g, "")))
-    )
-      return "numeric";
+function mappingForFile(
+  mapping: Record<string, ColumnMapping> | ColumnMapping | null,
+  fileName: string
+): ColumnMapping | undefined {
+  if (!mapping) return undefined;
+  const perFile = Object.values(mapping).some(
+    (entry) => typeof entry === "object"
+  );
+  return perFile
+    ? (mapping as Record<string, ColumnMapping>)[fileName]
+    : (mapping as ColumnMapping);
+}
 
-    return "text";
+// The `qualityRules` and `insightRules` form fields are either a JSON list
+// of rules applied to every file, or a JSON object mapping file name to such
+// a list
+function parseRuleField<T>(
+  value: FormDataEntryValue | null,
+  parseRules: (rules: unknown) => T[]
+): Record<string, T[]> | T[] | null {
+  if (!value || typeof value !== "string" || !value.trim()) return null;
+
+  const parsed: unknown = JSON.parse(value);
+  // Anything but an object goes to the parser, which rejects non-lists
+  if (Array.isArray(parsed) || !parsed || typeof parsed !== "object") {
+    return parseRules(parsed);
   }
+  return Object.fromEntries(
+    Object.entries(parsed).map(([fileName, rules]) => [
+      fileName,
+      parseRules(rules),
+    ])
+  );
+}
 
-  private static assessDataQuality(data: any[]): Record<string, any> {
-    const columns = Object.keys(data[0] || {});
-    const totalCells = data.length * columns.length;
+function rulesForFile<T>(
+  rules: Record<string, T[]> | T[] | null,
+  fileName: string
+): T[] | undefined {
+  if (!rules) return undefined;
+  return Array.isArray(rules) ? rules : rules[fileName];
+}
 
-    let missingValues = 0;
-    let duplicateRows = 0;
+// Workbook sheets are always named; other files only when they hold more
+// than one table, such as a JSON document with several arrays
+function sheetNameFor(
+  fileName: string,
+  sheets: ParsedSheet[],
+  sheet: ParsedSheet
+): string | undefined {
+  return isWorkbookFile(fileName) || sheets.length > 1 ? sheet.name : undefined;
+}
 
-    // Count missing values
-    data.forEach((row) => {
-      columns.forEach((col) => {
-        if (row[col] === null || row[col] === undefined || row[col] === "") {
-          missingValues++;
-        }
-      });
-    });
+function withoutColumns(
+  rows: Record<string, unknown>[],
+  columns: string[]
+): Record<string, unknown>[] {
+  if (columns.length === 0) return rows;
+  return rows.map((row) => {
+    const kept = { ...row };
+    columns.forEach((col) => delete kept[col]);
+    return kept;
+  });
+}
 
-    // Count duplicate rows (simplified)
-    const uniqueRows = new Set(data.map((row) => JSON.stringify(row)));
-    duplicateRows = data.length - uniqueRows.size;
+// A profile's sheet selection only applies when the request names no sheets,
+// and is ignored if none of its sheets exist any more
+function selectProfileSheets(
+  sheets: ParsedSheet[],
+  profile: ReportProfile | null
+): ParsedSheet[] {
+  if (!profile || profile.sheets.length === 0) return sheets;
+  const selected = sheets.filter((sheet) =>
+    profile.sheets.includes(sheet.name)
+  );
+  return selected.length > 0 ? selected : sheets;
+}
 
-    return {
-      missingValueRate: `${((missingValues / totalCells) * 100).toFixed(1)}%`,
-      duplicateRows: duplicateRows,
-      overallQuality:
-        missingValues < totalCells * 0.1
-          ? "Good"
-          : missingValues < totalCells * 0.3
-          ? "Fair"
-          : "Poor",
-    };
+// Headline metrics of a section, such as salesOverview.totalSales
+function headlineMetrics(section: unknown): Record<string, ReportValue> {
+  const metrics: Record<string, ReportValue> = {};
+  if (!section || typeof section !== "object" || Array.isArray(section)) {
+    return metrics;
   }
+  Object.entries(section).forEach(([key, value]) => {
+    if (isReportValue(value)) metrics[key] = value;
+  });
+  return metrics;
+}
 
-  private static generateGeneralInsights(
-    data: any[],
-    stats: Record<string, StatInfo>
-  ): string[] {
-    const insights = [];
+// A consolidated report gains a sourceBreakdown section, and each section
+// with headline metrics a `bySource` table of the same metrics computed on
+// every source's rows alone. A source whose rows were all sampled away
+// still gets its totals.
+async function addSourceBreakdowns(
+  reportData: Record<string, unknown>,
+  reportType: string,
+  data: Record<string, unknown>[],
+  sourceLabel: string,
+  roles: ColumnAssignment,
+  totals: TableTotals,
+  sourceTotals: Map<string, TableTotals>
+): Promise<void> {
+  const groups = new Map<string, Record<string, unknown>[]>();
+  sourceTotals.forEach((_, source) => groups.set(source, []));
+  data.forEach((row) => {
+    const source = String(row[SOURCE_COLUMN]);
+    const rows = groups.get(source);
+    if (rows) rows.push(row);
+    else groups.set(source, [row]);
+  });
 
-    insights.push(
-      `Dataset contains ${data.length} records with ${
-        Object.keys(data[0] || {}).length
-      } attributes`
+  const perSource: {
+    source: string;
+    rows: number;
+    sections: Record<string, unknown>;
+  }[] = [];
+  for (const [source, rows] of Array.from(groups.entries())) {
+    const groupTotals =
+      sourceTotals.get(source) || TableTotals.fromRows(rows, toNumber);
+    const { reportData: sections } = await runGenerator(
+      reportType,
+      rows,
+      `${sourceLabel} [${source}]`,
+      roles,
+      groupTotals
     );
-
-    const numericColumns = Object.keys(stats);
-    if (numericColumns.length > 0) {
-      insights.push(
-        `${numericColumns.length} numeric columns identified for statistical analysis`
-      );
-    }
-
-    const completeness = this.calculateCompleteness(data);
-    insights.push(`Data completeness: ${completeness}`);
-
-    return insights;
+    perSource.push({ source, rows: groupTotals.rowCount, sections });
   }
 
-  private static calculateBasicStats(data: any[]): Record<string, StatInfo> {
-    const numericColumns: Record<string, number[]> = {};
-
-    data.forEach((row) => {
-      Object.keys(row).forEach((key) => {
-        let value = row[key];
-        if (typeof value === "string") {
-          value = value.replace(/[,$%]/g, "");
-        }
-        const numValue = parseFloat(value);
-        if (!isNaN(numValue) && isFinite(numValue)) {
-          if (!numericColumns[key]) numericColumns[key] = [];
-          numericColumns[key].push(numValue);
-        }
-      });
-    });
+  Object.entries(reportData).forEach(([key, section]) => {
+    if (key === "basicStats" || key === "timeSeries") return;
+    if (Object.keys(headlineMetrics(section)).length === 0) return;
+    const breakdown = perSource.map(({ source, sections }) => ({
+      source,
+      ...headlineMetrics(sections[key]),
+    }));
+    (section as Record<string, unknown>).bySource = breakdown;
+  });
 
-    const stats: Record<string, StatInfo> = {};
-    Object.keys(numericColumns).forEach((key) => {
-      const values = numericColumns[key];
-      if (values.length > 0) {
-        const sum = values.reduce((a, b) => a + b, 0);
-        stats[key] = {
-          sum,
-          average: sum / values.length,
-          min: Math.min(...values),
-          max: Math.max(...values),
-          count: values.length,
-        };
-      }
-    });
+  reportData.sourceBreakdown = perSource.map(({ source, rows }) => ({
+    source,
+    rows: countValue(rows),
+    share: percentValue(rows / totals.rowCount),
+  }));
+}
 
-    return stats;
-  }
+// Runs the generator for a report type; unknown types fall back to general
+async function runGenerator(
+  reportType: string,
+  data: Record<string, unknown>[],
+  sourceLabel: string,
+  roles: ColumnAssignment,
+  totals: TableTotals,
+  rowNumbers?: number[]
+): Promise<{ reportType: string; reportData: GeneratedReport }> {
+  const generator = generatorFor(reportType);
+  return {
+    reportType: generator.id,
+    reportData: await generator.generate(
+      data,
+      sourceLabel,
+      roles,
+      totals,
+      rowNumbers
+    ),
+  };
 }
 
-/* ----------   UTILITY FUNCTIONS   ---------- */
-async function parseFile(file: File): Promise<any[]> {
-  const buffer = await file.arrayBuffer();
-  const extension = file.name.split(".").pop()?.toLowerCase();
+// Sections every report type builds row by row, so from the sampled rows
+const SAMPLED_SECTIONS = [
+  "timeSeries",
+  "budgetVariance",
+  "dataQualityIssues",
+  "recommendedActions",
+];
+
+// Budget rows compared with a financial report's rows
+interface BudgetInput {
+  rows: Record<string, unknown>[];
+  source: string;
+  settings: BudgetSettings;
+}
 
-  try {
-    if (extension === "csv") {
-      const text = new TextDecoder().decode(buffer);
-      const result = Papa.parse(text, {
-        header: true,
-        dynamicTyping: true,
-        skipEmptyLines: true,
-        transformHeader: (header) => header.trim(),
-      });
-      return result.data;
-    } else if (extension === "xlsx" || extension === "xls") {
-      const workbook = XLSX.read(buffer, { type: "array" });
-      const sheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[sheetName];
-      return XLSX.utils.sheet_to_json(worksheet, { defval: "" });
-    } else {
-      throw new Error(`Unsupported file format: ${extension}`);
-    }
-  } catch (error) {
-    console.error("Error parsing file:", error);
-    throw new Error(
-      `Failed to parse file: ${
-        error instanceof Error ? error.message : "Unknown error"
-      }`
-    );
-  }
+interface ReportOptions {
+  sheetName?: string;
+  layout?: TableLayout;
+  columnMapping?: ColumnMapping;
+  // Inferred from the data when none are given
+  qualityRules?: QualityRule[];
+  // Checked after the built-in recommendation rules
+  insightRules?: InsightRule[];
+  budget?: BudgetInput;
+  // Counts and column totals over every source row, when the rows passed
+  // in are only the first of them; taken from the rows when omitted
+  totals?: TableTotals;
+  // Each consolidated source's totals, by its SOURCE_COLUMN value
+  sourceTotals?: Map<string, TableTotals>;
+  // Each row's number in its source, so quality issues point at it
+  rowNumbers?: number[];
+  profile?: ReportProfile | null;
+  // Milliseconds spent parsing the source, counted in the report's timings
+  parseTime?: number;
 }
 
 async function generateDynamicReport(
   data: any[],
   fileName: string,
-  preferredType: string
+  preferredType: string,
+  options: ReportOptions = {}
 ): Promise<DynamicReport> {
+  const {
+    sheetName,
+    layout,
+    columnMapping,
+    qualityRules,
+    insightRules,
+    budget,
+    totals = TableTotals.fromRows(data, toNumber),
+    sourceTotals = new Map<string, TableTotals>(),
+    rowNumbers,
+    profile,
+    parseTime = 0,
+  } = options;
   const startTime = Date.now();
+  const sourceLabel = sheetName ? `${fileName} (${sheetName})` : fileName;
 
-  // Detect report type if not specified or if 'auto'
+  // Detect report type if not specified or if 'auto'. The source column of
+  // a consolidated upload only holds file names, so it is left out.
   const columns = Object.keys(data[0] || {});
+  const consolidated = columns.includes(SOURCE_COLUMN);
+  const detectionData = consolidated
+    ? withoutColumns(data, [SOURCE_COLUMN])
+    : data;
+  const detectionColumns = columns.filter((col) => col !== SOURCE_COLUMN);
+  const scores = ReportTypeDetector.scoreReportTypes(
+    detectionData,
+    detectionColumns
+  );
   const detectedType =
     preferredType === "auto"
-      ? ReportTypeDetector.detectReportType(data, columns)
+      ? ReportTypeDetector.bestType(scores)
       : preferredType;
-
-  let reportData: any;
-  let reportType = detectedType;
-
-  // Generate report based on type
-  switch (detectedType) {
-    case "financial":
-      reportData = await FinancialReportGenerator.generate(data, fileName);
-      break;
-    case "sales":
-      reportData = await SalesReportGenerator.generate(data, fileName);
-      break;
-    case "inventory":
-    case "customer":
-    case "marketing":
-    case "operational":
-      // For now, use general report generator for these types
-      // You can implement specific generators later
-      reportData = await GeneralReportGenerator.generate(data, fileName);
-      reportType = "general";
-      break;
-    default:
-      reportData = await GeneralReportGenerator.generate(data, fileName);
-      reportType = "general";
+  const detection: ReportDetection = {
+    requestedType: preferredType,
+    detectedType,
+    scores,
+    threshold: DETECTION_THRESHOLD,
+  };
+  const roles = assignColumnRoles(
+    columns,
+    detectedType,
+    consolidated ? { ...columnMapping, [SOURCE_COLUMN]: "none" } : columnMapping
+  );
+  const columnRoles = rolesByColumn(roles);
+  const detectTime = Date.now() - startTime;
+
+  const generateStart = Date.now();
+  const { reportType, reportData } = await runGenerator(
+    detectedType,
+    data,
+    sourceLabel,
+    roles,
+    totals,
+    rowNumbers
+  );
+  if (consolidated) {
+    await addSourceBreakdowns(
+      reportData,
+      reportType,
+      data,
+      sourceLabel,
+      roles,
+      totals,
+      sourceTotals
+    );
   }
-
-  const processingTime = Date.now() - startTime;
+  // Why a requested budget comparison is missing, shown with the suggestions
+  const budgetNotes: string[] = [];
+  if (budget && reportType !== "financial") {
+    budgetNotes.push("Budget comparisons are only made for financial reports");
+  } else if (budget) {
+    try {
+      reportData.budgetVariance = compareToBudget(
+        data,
+        budget.rows,
+        budget.settings,
+        roles,
+        budget.source
+      );
+    } catch (err) {
+      if (!(err instanceof BudgetError)) throw err;
+      budgetNotes.push(`Budget comparison skipped: ${err.message}`);
+    }
+  }
+  const generateTime = Date.now() - generateStart;
+
+  const assessStart = Date.now();
+  const confidence = calculateConfidence(data, columns, reportType, roles);
+  const quality = assessQuality(data, qualityRules, {
+    sheet: sheetName,
+    ...(consolidated ? { sheetColumn: SOURCE_COLUMN } : {}),
+    ...(rowNumbers ? { rowNumbers } : {}),
+  });
+  const sampled = totals.rowCount > data.length;
+  const suggestions = [
+    ...(sampled
+      ? [
+          `Totals and column stats cover all ${totals.rowCount.toLocaleString()} rows; rankings, trends and quality checks cover the first ${data.length.toLocaleString()}`,
+        ]
+      : []),
+    ...generateSuggestions(data, reportType, reportData),
+    ...budgetNotes,
+  ];
+
+  // Charts travel beside the report sections rather than inside them
+  const { charts, ...sections } = reportData;
+  const recommendedActions = evaluateInsights(
+    { rows: data, roles, report: { ...sections, dataQualityIssues: quality } },
+    insightRules
+  );
+  const assessTime = Date.now() - assessStart;
+  const reportSections = {
+    ...sections,
+    dataQualityIssues: quality,
+    recommendedActions,
+  };
+  const sampledSections = sampled
+    ? Array.from(
+        new Set([
+          ...generatorFor(reportType)
+            .sections.filter((section) => section.sampled)
+            .map((section) => section.key),
+          ...SAMPLED_SECTIONS,
+        ])
+      ).filter((key) => key in reportSections)
+    : [];
 
   // Create the dynamic report
   const report: DynamicReport = {
     id: uuidv4(),
     fileName,
+    ...(sheetName ? { sheetName } : {}),
     generatedAt: new Date().toISOString(),
     reportType,
-    data: reportData,
+    data: reportSections,
+    ...(charts?.length ? { charts } : {}),
     summary: {
-      totalRecords: data.length,
+      totalRecords: totals.rowCount,
       totalColumns: columns.length,
       reportType: reportType,
       keyInsights: reportData.executiveSummary || "No summary available",
     },
     dataInfo: {
-      rowsAnalyzed: data.length,
+      rowsAnalyzed: totals.rowCount,
       columnsAnalyzed: columns.length,
+      ...(sampled ? { sampleRows: data.length, sampledSections } : {}),
     },
     metadata: {
-      confidence: calculateConfidence(data, columns, reportType),
-      processingTime,
-      dataQuality: assessOverallDataQuality(data),
-      suggestions: generateSuggestions(data, reportType),
+      confidence,
+      processingTime: {
+        total: parseTime + Date.now() - startTime,
+        parse: parseTime,
+        detect: detectTime,
+        generate: generateTime,
+        assess: assessTime,
+      },
+      dataQuality: quality.grade,
+      qualityScore: quality.score,
+      suggestions,
+      detection,
+      ...(layout ? { layout } : {}),
+      ...(Object.keys(columnRoles).length ? { columnRoles } : {}),
+      ...(profile ? { profile: { id: profile.id, name: profile.name } } : {}),
     },
   };
 
@@ -928,7 +514,8 @@ async function generateDynamicReport(
 function calculateConfidence(
   data: any[],
   columns: string[],
-  reportType: string
+  reportType: string,
+  roles: ColumnAssignment
 ): number {
   let confidence = 0.5; // Base confidence
 
@@ -936,56 +523,26 @@ function calculateConfidence(
   if (data.length > 100) confidence += 0.2;
   if (data.length > 1000) confidence += 0.1;
 
-  // Increase confidence based on column relevance
-  const relevantColumns = getRelevantColumns(columns, reportType);
-  if (relevantColumns.length > 0) {
-    confidence += (relevantColumns.length / columns.length) * 0.3;
+  // Increase confidence by the share of columns the generator put to use
+  const assigned = Object.keys(rolesByColumn(roles)).length;
+  if (columns.length > 0) {
+    confidence += (assigned / columns.length) * 0.3;
   }
 
-  return Math.min(confidence, 1.0);
-}
-
-function getRelevantColumns(columns: string[], reportType: string): string[] {
-  const lowerColumns = columns.map((col) => col.toLowerCase());
-
-  switch (reportType) {
-    case "financial":
-      return lowerColumns.filter((col) =>
-        /revenue|income|profit|expense|cost|balance|asset|liability/.test(col)
-      );
-    case "sales":
-      return lowerColumns.filter((col) =>
-        /sales|order|purchase|customer|product|quantity|price/.test(col)
-      );
-    default:
-      return [];
-  }
-}
-
-function assessOverallDataQuality(data: any[]): string {
-  if (data.length === 0) return "Poor";
+  // Lower it for every role the generator needs but found no column for
+  const missingRequired = generatorFor(reportType).columnRoles.filter(
+    (rule) => rule.required && !roles[rule.role]?.length
+  );
+  confidence -= missingRequired.length * 0.1;
 
-  const columns = Object.keys(data[0] || {});
-  const totalCells = data.length * columns.length;
-
-  let missingValues = 0;
-  data.forEach((row) => {
-    columns.forEach((col) => {
-      if (row[col] === null || row[col] === undefined || row[col] === "") {
-        missingValues++;
-      }
-    });
-  });
-
-  const completeness = (totalCells - missingValues) / totalCells;
-
-  if (completeness >= 0.9) return "Excellent";
-  if (completeness >= 0.7) return "Good";
-  if (completeness >= 0.5) return "Fair";
-  return "Poor";
+  return Math.max(0, Math.min(confidence, 1.0));
 }
 
-function generateSuggestions(data: any[], reportType: string): string[] {
+function generateSuggestions(
+  data: any[],
+  reportType: string,
+  reportData: GeneratedReport
+): string[] {
   const suggestions = [];
 
   // General suggestions
@@ -996,19 +553,7 @@ function generateSuggestions(data: any[], reportType: string): string[] {
   }
 
   // Type-specific suggestions
-  switch (reportType) {
-    case "financial":
-      suggestions.push("Add date columns for time-series analysis");
-      suggestions.push("Include budget vs actual comparisons");
-      break;
-    case "sales":
-      suggestions.push("Include customer acquisition cost data");
-      suggestions.push("Add seasonal trend indicators");
-      break;
-    default:
-      suggestions.push("Consider adding metadata for better categorization");
-      suggestions.push("Implement data validation rules");
-  }
+  suggestions.push(...generatorFor(reportType).suggestions(data, reportData));
 
   return suggestions;
 }
@@ -1038,17 +583,371 @@ function createErrorReport(
     },
     metadata: {
       confidence: 0,
-      processingTime: 0,
+      processingTime: { total: 0, parse: 0, detect: 0, generate: 0, assess: 0 },
       dataQuality: "Poor",
       suggestions: ["Fix data format issues", "Ensure file is not corrupted"],
     },
   };
 }
 
-/* ----------   MAIN API HANDLER   ---------- */
-export async function POST(request: NextRequest): Promise<NextResponse> {
+/* ----------   UPLOAD PROCESSING   ---------- */
+// The budget upload's named sheet, or its first
+async function loadBudget(
+  file: File,
+  settings: BudgetSettings
+): Promise<BudgetInput> {
+  const sheets = await parseFile(
+    file,
+    settings.sheet ? { sheets: [settings.sheet] } : {}
+  );
+  const sheet = settings.sheet
+    ? sheets.find((item) => item.name === settings.sheet)
+    : sheets[0];
+  if (!sheet) {
+    throw new BudgetError(
+      settings.sheet
+        ? `No budget sheet ${settings.sheet} in ${file.name}`
+        : `No budget data in ${file.name}`
+    );
+  }
+  return {
+    rows: sheet.rows,
+    source: settings.sheet ? `${file.name} (${sheet.name})` : file.name,
+    settings,
+  };
+}
+
+interface UploadOptions {
+  preferredReportType: string;
+  mode: ProcessingMode;
+  sheetSelection: Record<string, string[]> | string[] | null;
+  excludedColumns: Record<string, string[]> | string[] | null;
+  columnMapping: Record<string, ColumnMapping> | ColumnMapping | null;
+  qualityRules: Record<string, QualityRule[]> | QualityRule[] | null;
+  insightRules: Record<string, InsightRule[]> | InsightRule[] | null;
+  budget: BudgetSettings | null;
+}
+
+// Synchronous requests have nobody to report progress to
+const NO_PROGRESS: JobContext = {
+  signal: new AbortController().signal,
+  updateFile: () => undefined,
+};
+
+// Keeps the analyzed rows beside the report for the data preview
+async function saveToHistory(
+  report: DynamicReport,
+  rows: Record<string, unknown>[],
+  rowNumbers?: number[]
+): Promise<void> {
+  // History is best-effort; a storage failure still returns the report
+  try {
+    await getReportRepository().save(report, buildDataset(rows, rowNumbers));
+  } catch (storeError) {
+    console.error(`Failed to store report ${report.id}:`, storeError);
+  }
+}
+
+/**
+ * Parses and analyzes every uploaded file, reporting per-file progress to
+ * `context`. Once `context.signal` aborts, the remaining sheets are skipped
+ * and the reports finished so far are returned.
+ */
+async function processFiles(
+  files: File[],
+  options: UploadOptions,
+  context: JobContext
+): Promise<GenerateReportResponse> {
   const startTime = Date.now();
+  const {
+    preferredReportType,
+    mode,
+    sheetSelection,
+    excludedColumns,
+    columnMapping,
+    qualityRules,
+    insightRules,
+    budget,
+  } = options;
+  const { signal, updateFile } = context;
+
+  console.log(
+    `Processing ${files.length} file(s) with report type preference: ${preferredReportType}`
+  );
+  const reports: DynamicReport[] = [];
+  // Reports with the rows behind them, kept only for comparison mode
+  const comparisonInputs: ComparisonInput[] = [];
+  // Sheets and settings gathered for a single consolidated report
+  let consolidationInputs: ConsolidationInput[] = [];
+  const consolidationMappings: ColumnMapping[] = [];
+  let consolidationRules: QualityRule[] | undefined;
+  let consolidationInsights: InsightRule[] | undefined;
+  let consolidationBudget: BudgetInput | undefined;
+  const consolidatedFiles: number[] = [];
+  let consolidatedType = preferredReportType;
+  let consolidationParseTime = 0;
+
+  // A budget file is compared with every report and gets none of its own
+  const budgetFile = budget?.file
+    ? files.find((file) => file.name === budget.file)
+    : undefined;
+  let sharedBudget: BudgetInput | undefined;
+  if (budget && budgetFile) {
+    try {
+      sharedBudget = await loadBudget(budgetFile, budget);
+    } catch (budgetError) {
+      return {
+        success: false,
+        error:
+          budgetError instanceof Error
+            ? budgetError.message
+            : "Failed to read the budget",
+      };
+    }
+  }
+
+  // Process each file, one report per non-empty sheet
+  for (const [index, file] of files.entries()) {
+    if (signal.aborted) break;
+    if (file === budgetFile) {
+      updateFile(index, { status: "done" });
+      continue;
+    }
+    try {
+      console.log(`Processing: ${file.name}`);
+      updateFile(index, { status: "parsing" });
+
+      // Parse the file; a budget sheet is read alongside the selected ones
+      // and kept out of the reports
+      const requestedSheets = namesForFile(sheetSelection, file.name);
+      const budgetSheet = budget && !budgetFile ? budget.sheet : undefined;
+      const parseStart = Date.now();
+      const allSheets = await parseFile(file, {
+        sheets:
+          requestedSheets && budgetSheet
+            ? [...requestedSheets, budgetSheet]
+            : requestedSheets,
+      });
+      const parseTime = Date.now() - parseStart;
+      const budgetParsed = budgetSheet
+        ? allSheets.find((sheet) => sheet.name === budgetSheet)
+        : undefined;
+      const parsed = allSheets.filter((sheet) => sheet !== budgetParsed);
+      const fileBudget =
+        budget && budgetParsed
+          ? {
+              rows: budgetParsed.rows,
+              source: `${file.name} (${budgetParsed.name})`,
+              settings: budget,
+            }
+          : sharedBudget;
+
+      // A saved profile for this layout fills in whatever the request
+      // leaves unset
+      const profile = await findMatchingProfile(
+        parsed.map((sheet) => sheet.columns)
+      );
+      const sheets = requestedSheets
+        ? parsed
+        : selectProfileSheets(parsed, profile);
+      const reportType =
+        preferredReportType === "auto" && profile
+          ? profile.reportType
+          : preferredReportType;
+      const mapping =
+        mappingForFile(columnMapping, file.name) || profile?.columnMapping;
+      const rules =
+        rulesForFile(qualityRules, file.name) || profile?.qualityRules;
+      const insights =
+        rulesForFile(insightRules, file.name) || profile?.insightRules;
+      const excluded =
+        namesForFile(excludedColumns, file.name) ||
+        profile?.excludedColumns ||
+        [];
+      if (profile) {
+        console.log(`Applying profile ${profile.name} to ${file.name}`);
+      }
 
+      if (sheets.length === 0) {
+        console.warn(`No data found in file: ${file.name}`);
+        reports.push(createErrorReport(file.name, "No data found in file"));
+        updateFile(index, { status: "failed", error: "No data found in file" });
+        continue;
+      }
+
+      if (mode === "consolidate") {
+        // The consolidated rows share one MAX_SAMPLE_ROWS sample, split
+        // between the sheets by their size; totals cover every row
+        sheets.forEach((sheet) => {
+          const sheetName = sheetNameFor(file.name, sheets, sheet);
+          consolidationInputs = capSourceRows(
+            [
+              ...consolidationInputs,
+              {
+                fileName: file.name,
+                ...(sheetName ? { sheetName } : {}),
+                rows: withoutColumns(sheet.rows, excluded),
+                rowNumbers: sheet.rowNumbers,
+                columns: sheet.columns.filter(
+                  (column) => !excluded.includes(column)
+                ),
+                totals: sheet.totals.without(excluded),
+              },
+            ],
+            MAX_SAMPLE_ROWS
+          );
+        });
+        if (mapping) consolidationMappings.push(mapping);
+        // Rows from every file are checked against the first file's rules
+        consolidationRules = consolidationRules || rules;
+        consolidationInsights = consolidationInsights || insights;
+        consolidationBudget = consolidationBudget || fileBudget;
+        consolidationParseTime += parseTime;
+        if (consolidatedType === "auto") consolidatedType = reportType;
+        consolidatedFiles.push(index);
+        updateFile(index, { status: "analyzing" });
+        continue;
+      }
+
+      updateFile(index, {
+        status: "analyzing",
+        sheetsTotal: sheets.length,
+        sheetsDone: 0,
+      });
+      for (const [sheetIndex, sheet] of sheets.entries()) {
+        if (signal.aborted) break;
+        const rows = withoutColumns(sheet.rows, excluded);
+        // Generate the dynamic report
+        const report = await generateDynamicReport(
+          rows,
+          file.name,
+          reportType,
+          {
+            sheetName: sheetNameFor(file.name, sheets, sheet),
+            layout: sheet.layout,
+            columnMapping: mapping,
+            qualityRules: rules,
+            insightRules: insights,
+            budget: fileBudget,
+            totals: sheet.totals.without(excluded),
+            rowNumbers: sheet.rowNumbers,
+            profile,
+            parseTime,
+          }
+        );
+        reports.push(report);
+        if (mode === "compare") comparisonInputs.push({ report, rows });
+        await saveToHistory(report, rows, sheet.rowNumbers);
+        updateFile(index, { sheetsDone: sheetIndex + 1 });
+
+        console.log(
+          `Successfully processed: ${file.name} [${sheet.name}] as ${report.reportType} report`
+        );
+      }
+      if (!signal.aborted) updateFile(index, { status: "done" });
+    } catch (fileError) {
+      console.error(`Error processing file ${file.name}:`, fileError);
+      const errorMessage =
+        fileError instanceof Error ? fileError.message : "Unknown error";
+      reports.push(createErrorReport(file.name, errorMessage));
+      updateFile(index, { status: "failed", error: errorMessage });
+    }
+  }
+
+  // Consolidated report first, followed by any files that failed to parse
+  if (consolidationInputs.length > 0 && !signal.aborted) {
+    const consolidated = consolidateRows(consolidationInputs);
+    const report = await generateDynamicReport(
+      consolidated.rows,
+      consolidatedFileName(consolidationInputs.map((input) => input.fileName)),
+      consolidatedType,
+      {
+        columnMapping: alignColumnMapping(
+          consolidationMappings,
+          consolidated.columns
+        ),
+        qualityRules: consolidationRules,
+        insightRules: consolidationInsights,
+        budget: consolidationBudget,
+        totals: consolidated.totals,
+        sourceTotals: consolidated.sourceTotals,
+        rowNumbers: consolidated.rowNumbers,
+        parseTime: consolidationParseTime,
+      }
+    );
+    if (report.metadata) {
+      report.metadata.sources = consolidated.sources;
+      const cut = consolidated.sources.filter(
+        (source) => source.sampledRows !== undefined
+      );
+      if (cut.length > 0) {
+        report.metadata.suggestions.push(
+          `Row-level sections only saw the first rows of ${cut
+            .map(
+              (source) =>
+                `${sourceName(
+                  source
+                )} (${source.sampledRows?.toLocaleString()} of ${source.rows.toLocaleString()})`
+            )
+            .join(", ")}`
+        );
+      }
+    }
+    reports.unshift(report);
+    await saveToHistory(report, consolidated.rows, consolidated.rowNumbers);
+    consolidatedFiles.forEach((index) => updateFile(index, { status: "done" }));
+    console.log(
+      `Consolidated ${consolidated.sources.length} sheet(s) into a ${report.reportType} report`
+    );
+  }
+
+  const processingTime = Date.now() - startTime;
+
+  if (reports.length === 0) {
+    return {
+      success: false,
+      error: signal.aborted
+        ? "Cancelled before any file was processed"
+        : "No files could be processed successfully",
+    };
+  }
+
+  const comparison =
+    mode === "compare" ? compareReports(comparisonInputs) : null;
+  if (mode === "compare") {
+    console.log(
+      comparison
+        ? `Compared ${comparison.periods.length} period(s)`
+        : "No compatible files to compare"
+    );
+  }
+
+  console.log(`Report generation completed in ${processingTime}ms`);
+  return {
+    success: true,
+    message: signal.aborted
+      ? `Cancelled after processing ${reports.length} report(s)`
+      : mode === "compare" && !comparison
+      ? `Successfully processed ${reports.length} file(s), but fewer than two share a compatible schema to compare`
+      : mode === "consolidate" && consolidationInputs.length > 0
+      ? `Consolidated ${consolidationInputs.length} sheet(s) from ${files.length} file(s) into one report`
+      : `Successfully processed ${reports.length} file(s)`,
+    reports,
+    ...(comparison ? { comparison } : {}),
+    metadata: {
+      totalFiles: files.length,
+      successfulReports: reports.filter((r) => r.reportType !== "error").length,
+      failedReports: reports.filter((r) => r.reportType === "error").length,
+      totalProcessingTime: processingTime,
+      timestamp: new Date().toISOString(),
+    },
+  };
+}
+
+/* ----------   MAIN API HANDLER   ---------- */
+// Send async=true to get a job id back straight away and follow progress
+// through /api/jobs/:id and /api/jobs/:id/events
+export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
     console.log("Starting dynamic report generation...");
 
@@ -1064,70 +963,145 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       );
     }
 
-    console.log(
-      `Processing ${files.length} file(s) with report type preference: ${preferredReportType}`
-    );
-    const reports: DynamicReport[] = [];
+    const mode = parseMode(formData.get("mode"));
+    if (!mode) {
+      return NextResponse.json(
+        { success: false, error: "Invalid mode" },
+        { status: 400 }
+      );
+    }
+    if (mode === "compare" && files.length < 2) {
+      return NextResponse.json(
+        { success: false, error: "Comparison mode needs at least two files" },
+        { status: 400 }
+      );
+    }
 
-    // Process each file
-    for (const file of files) {
-      try {
-        console.log(`Processing: ${file.name}`);
+    let sheetSelection: Record<string, string[]> | string[] | null;
+    try {
+      sheetSelection = parseNameLists(formData.get("sheets"));
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "Invalid sheets selection" },
+        { status: 400 }
+      );
+    }
 
-        // Parse the file
-        const parsedData = await parseFile(file);
+    let excludedColumns: Record<string, string[]> | string[] | null;
+    try {
+      excludedColumns = parseNameLists(formData.get("excludedColumns"));
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "Invalid excluded columns" },
+        { status: 400 }
+      );
+    }
 
-        if (!parsedData || parsedData.length === 0) {
-          console.warn(`No data found in file: ${file.name}`);
-          reports.push(createErrorReport(file.name, "No data found in file"));
-          continue;
-        }
+    let columnMapping: Record<string, ColumnMapping> | ColumnMapping | null;
+    try {
+      columnMapping = parseColumnMapping(formData.get("columnMapping"));
+    } catch {
+      return NextResponse.json(
+        { success: false, error: "Invalid column mapping" },
+        { status: 400 }
+      );
+    }
 
-        // Generate the dynamic report
-        const report = await generateDynamicReport(
-          parsedData,
-          file.name,
-          preferredReportType
-        );
-        reports.push(report);
+    let qualityRules: Record<string, QualityRule[]> | QualityRule[] | null;
+    try {
+      qualityRules = parseRuleField(
+        formData.get("qualityRules"),
+        parseQualityRules
+      );
+    } catch (err) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            err instanceof QualityRuleError
+              ? `Invalid quality rules: ${err.message}`
+              : "Invalid quality rules",
+        },
+        { status: 400 }
+      );
+    }
 
-        console.log(
-          `Successfully processed: ${file.name} as ${report.reportType} report`
+    let insightRules: Record<string, InsightRule[]> | InsightRule[] | null;
+    try {
+      insightRules = parseRuleField(
+        formData.get("insightRules"),
+        parseInsightRules
+      );
+    } catch (err) {
+      return NextResponse.json(
+        {
+          success: false,
+          error:
+            err instanceof InsightRuleError
+              ? `Invalid insight rules: ${err.message}`
+              : "Invalid insight rules",
+        },
+        { status: 400 }
+      );
+    }
+
+    let budget: BudgetSettings | null = null;
+    const budgetField = formData.get("budget");
+    if (typeof budgetField === "string" && budgetField.trim()) {
+      try {
+        budget = parseBudgetSettings(JSON.parse(budgetField));
+      } catch (err) {
+        return NextResponse.json(
+          {
+            success: false,
+            error:
+              err instanceof BudgetError
+                ? `Invalid budget: ${err.message}`
+                : "Invalid budget",
+          },
+          { status: 400 }
+        );
+      }
+      const budgetFile = budget.file;
+      if (budgetFile && !files.some((file) => file.name === budgetFile)) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Budget file ${budgetFile} was not uploaded`,
+          },
+          { status: 400 }
         );
-      } catch (fileError) {
-        console.error(`Error processing file ${file.name}:`, fileError);
-        const errorMessage =
-          fileError instanceof Error ? fileError.message : "Unknown error";
-        reports.push(createErrorReport(file.name, errorMessage));
       }
     }
 
-    const processingTime = Date.now() - startTime;
+    const options: UploadOptions = {
+      preferredReportType,
+      mode,
+      sheetSelection,
+      excludedColumns,
+      columnMapping,
+      qualityRules,
+      insightRules,
+      budget,
+    };
 
-    if (reports.length === 0) {
+    if (formData.get("async") === "true") {
+      const job = getJobQueue().enqueue(
+        files.map((file) => file.name),
+        mode,
+        (context) => processFiles(files, options, context)
+      );
+      console.log(`Queued report job ${job.id} for ${files.length} file(s)`);
       return NextResponse.json(
-        { success: false, error: "No files could be processed successfully" },
-        { status: 400 }
+        { success: true, jobId: job.id, job },
+        { status: 202, headers: { Location: `/api/jobs/${job.id}` } }
       );
     }
 
-    // Return successful response
-    const response = {
-      success: true,
-      message: `Successfully processed ${reports.length} file(s)`,
-      reports,
-      metadata: {
-        totalFiles: files.length,
-        successfulReports: reports.filter((r) => r.reportType !== "error")
-          .length,
-        failedReports: reports.filter((r) => r.reportType === "error").length,
-        totalProcessingTime: processingTime,
-        timestamp: new Date().toISOString(),
-      },
-    };
-
-    console.log(`Report generation completed in ${processingTime}ms`);
-    return NextResponse.json(response, { status: 200 });
+    const response = await processFiles(files, options, NO_PROGRESS);
+    return NextResponse.json(response, {
+      status: response.success ? 200 : 400,
+    });
   } catch (error) {
     console.error("Error in report generation API:", error);
     const errorMessage =
@@ -1150,16 +1124,8 @@ export async function GET(): Promise<NextResponse> {
     status: "healthy",
     service: "Dynamic Report Generator API",
     version: "1.0.0",
-    supportedFormats: ["csv", "xlsx", "xls"],
-    reportTypes: [
-      "financial",
-      "sales",
-      "inventory",
-      "customer",
-      "marketing",
-      "operational",
-      "general",
-    ],
+    supportedFormats: supportedExtensions(),
+    reportTypes: reportTypeIds(),
     timestamp: new Date().toISOString(),
   });
 }
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { FileInspection, inspectFile } from "@/lib/fileParser";
+import { ReportTypeDetector } from "@/lib/reportDetection";
+import { findMatchingProfile } from "@/lib/profileStore";
+
+/* ----------   HELPERS   ---------- */
+function withDetectedTypes(inspection: FileInspection): FileInspection {
+  return {
+    ...inspection,
+    sheets: inspection.sheets.map((sheet) =>
+      sheet.empty
+        ? sheet
+        : {
+            ...sheet,
+            detectedType: ReportTypeDetector.detectReportType(
+              sheet.preview,
+              sheet.headers
+            ),
+          }
+    ),
+  };
+}
+
+async function withProfile(
+  inspection: FileInspection
+): Promise<FileInspection> {
+  const profile = await findMatchingProfile(
+    inspection.sheets
+      .filter((sheet) => !sheet.empty)
+      .map((sheet) => sheet.headers)
+  );
+  return profile ? { ...inspection, profile } : inspection;
+}
+
+/* ----------   MAIN API HANDLER   ---------- */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const formData = await request.formData();
+    const files = formData.getAll("files") as File[];
+
+    if (!files || files.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "No files provided" },
+        { status: 400 }
+      );
+    }
+
+    const inspections: FileInspection[] = [];
+    for (const file of files) {
+      try {
+        inspections.push(
+          await withProfile(withDetectedTypes(await inspectFile(file)))
+        );
+      } catch (fileError) {
+        console.error(`Error inspecting file ${file.name}:`, fileError);
+        inspections.push({
+          fileName: file.name,
+          format: file.name.split(".").pop()?.toLowerCase() || "",
+          sheets: [],
+          error:
+            fileError instanceof Error ? fileError.message : "Unknown error",
+        });
+      }
+    }
+
+    return NextResponse.json({ success: true, files: inspections });
+  } catch (error) {
+    console.error("Error in file inspection API:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Internal server error";
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: errorMessage,
+        timestamp: new Date().toISOString(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJobQueue, isJobFinished } from "@/lib/jobQueue";
+import { ReportJob } from "@/lib/reportTypes";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Comment lines keep proxies from closing a quiet stream
+const HEARTBEAT_MS = 15000;
+
+/* ----------   HELPERS   ---------- */
+const encoder = new TextEncoder();
+
+function serverEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/* ----------   API HANDLERS   ---------- */
+/**
+ * Server-sent events for one job: a `progress` event with the whole job on
+ * every change, then a `done` event carrying the result, after which the
+ * stream closes.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<Response> {
+  const { id } = await params;
+  const queue = getJobQueue();
+  const job = queue.get(id);
+  if (!job) {
+    return NextResponse.json(
+      { success: false, error: `Job not found: ${id}` },
+      { status: 404 }
+    );
+  }
+
+  let stop: () => void = () => undefined;
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (current: ReportJob) => {
+        if (closed) return;
+        const finished = isJobFinished(current.status);
+        controller.enqueue(
+          serverEvent(finished ? "done" : "progress", current)
+        );
+        if (finished) {
+          stop();
+          controller.close();
+        }
+      };
+
+      const unsubscribe = queue.subscribe(id, send);
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(": heartbeat\n\n"));
+      }, HEARTBEAT_MS);
+      stop = () => {
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+      request.signal.addEventListener("abort", stop);
+
+      send(job);
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJobQueue, isJobFinished } from "@/lib/jobQueue";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/* ----------   HELPERS   ---------- */
+function notFound(id: string): NextResponse {
+  return NextResponse.json(
+    { success: false, error: `Job not found: ${id}` },
+    { status: 404 }
+  );
+}
+
+/* ----------   API HANDLERS   ---------- */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const { id } = await params;
+  const job = getJobQueue().get(id);
+  if (!job) return notFound(id);
+  return NextResponse.json({ success: true, job });
+}
+
+// Cancels the job; reports finished before the cancel are kept in its result
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const { id } = await params;
+  const queue = getJobQueue();
+  const existing = queue.get(id);
+  if (!existing) return notFound(id);
+  if (isJobFinished(existing.status)) {
+    return NextResponse.json(
+      { success: false, error: `Job already ${existing.status}` },
+      { status: 409 }
+    );
+  }
+
+  const job = queue.cancel(id);
+  console.log(`Cancelling report job ${id}`);
+  return NextResponse.json({ success: true, job });
+}
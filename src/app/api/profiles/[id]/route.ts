@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getProfileRepository,
+  headerFingerprint,
+  parseProfileInput,
+  ProfileValidationError,
+} from "@/lib/profileStore";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/* ----------   HELPERS   ---------- */
+function notFound(id: string): NextResponse {
+  return NextResponse.json(
+    { success: false, error: `Profile not found: ${id}` },
+    { status: 404 }
+  );
+}
+
+function serverError(error: unknown): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error",
+    },
+    { status: 500 }
+  );
+}
+
+/* ----------   API HANDLERS   ---------- */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const { id } = await params;
+  try {
+    const profile = await getProfileRepository().get(id);
+    if (!profile) return notFound(id);
+    return NextResponse.json({ success: true, profile });
+  } catch (error) {
+    console.error(`Error reading profile ${id}:`, error);
+    return serverError(error);
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const { id } = await params;
+  try {
+    const body = await request.json().catch(() => null);
+    const input = parseProfileInput(body);
+    const repository = getProfileRepository();
+
+    const existing = await repository.findByFingerprint(
+      headerFingerprint(input.headers)
+    );
+    if (existing && existing.id !== id) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Profile "${existing.name}" already covers these headers`,
+          profile: existing,
+        },
+        { status: 409 }
+      );
+    }
+
+    const profile = await repository.update(id, input);
+    if (!profile) return notFound(id);
+    console.log(`Updated profile ${profile.name} (${profile.id})`);
+    return NextResponse.json({ success: true, profile });
+  } catch (error) {
+    if (error instanceof ProfileValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error(`Error updating profile ${id}:`, error);
+    return serverError(error);
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const { id } = await params;
+  try {
+    const deleted = await getProfileRepository().delete(id);
+    if (!deleted) return notFound(id);
+    console.log(`Deleted profile ${id}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error(`Error deleting profile ${id}:`, error);
+    return serverError(error);
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getProfileRepository,
+  headerFingerprint,
+  parseProfileInput,
+  ProfileValidationError,
+} from "@/lib/profileStore";
+
+/* ----------   API HANDLERS   ---------- */
+// Lists saved profiles, or only the one matching ?fingerprint=
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const repository = getProfileRepository();
+    const fingerprint = request.nextUrl.searchParams.get("fingerprint");
+
+    if (fingerprint) {
+      const profile = await repository.findByFingerprint(fingerprint);
+      return NextResponse.json({
+        success: true,
+        profiles: profile ? [profile] : [],
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      profiles: await repository.list(),
+    });
+  } catch (error) {
+    console.error("Error listing profiles:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body = await request.json().catch(() => null);
+    const input = parseProfileInput(body);
+    const repository = getProfileRepository();
+
+    // One profile per header set, so a matching upload is never ambiguous
+    const existing = await repository.findByFingerprint(
+      headerFingerprint(input.headers)
+    );
+    if (existing) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Profile "${existing.name}" already covers these headers`,
+          profile: existing,
+        },
+        { status: 409 }
+      );
+    }
+
+    const profile = await repository.create(input);
+    console.log(`Saved profile ${profile.name} (${profile.id})`);
+    return NextResponse.json({ success: true, profile }, { status: 201 });
+  } catch (error) {
+    if (error instanceof ProfileValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error("Error saving profile:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  buildReportWorkbook,
+  workbookFileName,
+  XLSX_MIME_TYPE,
+} from "@/lib/reportWorkbook";
+import { getReportRepository } from "@/lib/reportStore";
+import { DEFAULT_CURRENCY, isCurrencyCode } from "@/lib/reportValues";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/* ----------   MAIN API HANDLER   ---------- */
+// Re-downloads a stored report as a workbook, in ?currency= (default USD)
+export async function GET(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const { id } = await params;
+  try {
+    const currency =
+      request.nextUrl.searchParams.get("currency") || DEFAULT_CURRENCY;
+    if (!isCurrencyCode(currency)) {
+      return NextResponse.json(
+        { success: false, error: `Unknown currency: ${currency}` },
+        { status: 400 }
+      );
+    }
+
+    const report = await getReportRepository().get(id);
+    if (!report) {
+      return NextResponse.json(
+        { success: false, error: `Report not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    const buffer = await buildReportWorkbook(report, currency);
+    const fileName = workbookFileName(report);
+
+    console.log(`Re-exported report ${id} as ${fileName}`);
+    return new NextResponse(new Uint8Array(buffer), {
+      status: 200,
+      headers: {
+        "Content-Type": XLSX_MIME_TYPE,
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Content-Length": String(buffer.length),
+      },
+    });
+  } catch (error) {
+    console.error(`Error exporting report ${id}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
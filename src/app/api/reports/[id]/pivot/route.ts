@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getReportRepository } from "@/lib/reportStore";
+import {
+  buildPivot,
+  parsePivotSpec,
+  PivotSpecError,
+  pivotFields,
+} from "@/lib/pivot";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/* ----------   HELPERS   ---------- */
+function notFound(error: string): NextResponse {
+  return NextResponse.json({ success: false, error }, { status: 404 });
+}
+
+function serverError(error: unknown): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error",
+    },
+    { status: 500 }
+  );
+}
+
+/* ----------   API HANDLERS   ---------- */
+// The fields a pivot over the report's rows can use, with their most
+// frequent values for filters
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const { id } = await params;
+  try {
+    const dataset = await getReportRepository().getDataset(id);
+    if (!dataset) return notFound(`No stored rows for report ${id}`);
+    return NextResponse.json({ success: true, fields: pivotFields(dataset) });
+  } catch (error) {
+    console.error(`Error reading pivot fields of report ${id}:`, error);
+    return serverError(error);
+  }
+}
+
+// Builds a pivot from a JSON body of rows, columns, measures and filters.
+// With `save` and a `name` the pivot is also kept with the report, which
+// exports it as a workbook sheet, and the updated report is returned.
+export async function POST(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const { id } = await params;
+  try {
+    const repository = getReportRepository();
+    const [report, dataset] = await Promise.all([
+      repository.get(id),
+      repository.getDataset(id),
+    ]);
+    if (!report) return notFound(`Report not found: ${id}`);
+    if (!dataset) return notFound(`No stored rows for report ${id}`);
+
+    const body = await request.json().catch(() => null);
+    const spec = parsePivotSpec(
+      body,
+      dataset.columns.map((column) => column.name)
+    );
+    const pivot = buildPivot(dataset.rows, spec);
+
+    if (!body.save) return NextResponse.json({ success: true, pivot });
+
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) {
+      return NextResponse.json(
+        { success: false, error: "A saved pivot needs a name" },
+        { status: 400 }
+      );
+    }
+    const saved = { name, createdAt: new Date().toISOString(), table: pivot };
+    const updated = await repository.update(id, (current) => ({
+      ...current,
+      pivots: [
+        ...(current.pivots || []).filter((item) => item.name !== name),
+        saved,
+      ],
+    }));
+    if (!updated) return notFound(`Report not found: ${id}`);
+    console.log(`Saved pivot ${name} to report ${id}`);
+    return NextResponse.json({ success: true, pivot, report: updated });
+  } catch (error) {
+    if (error instanceof PivotSpecError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error(`Error building pivot for report ${id}:`, error);
+    return serverError(error);
+  }
+}
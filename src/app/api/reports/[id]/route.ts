@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getReportRepository } from "@/lib/reportStore";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/* ----------   HELPERS   ---------- */
+function notFound(id: string): NextResponse {
+  return NextResponse.json(
+    { success: false, error: `Report not found: ${id}` },
+    { status: 404 }
+  );
+}
+
+function serverError(error: unknown): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error",
+    },
+    { status: 500 }
+  );
+}
+
+/* ----------   API HANDLERS   ---------- */
+export async function GET(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const { id } = await params;
+  try {
+    const report = await getReportRepository().get(id);
+    if (!report) return notFound(id);
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error(`Error reading report ${id}:`, error);
+    return serverError(error);
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const { id } = await params;
+  try {
+    const deleted = await getReportRepository().delete(id);
+    if (!deleted) return notFound(id);
+    console.log(`Deleted report ${id}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error(`Error deleting report ${id}:`, error);
+    return serverError(error);
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getReportRepository } from "@/lib/reportStore";
+import {
+  parsePreviewQuery,
+  PreviewQueryError,
+  queryDataset,
+} from "@/lib/dataPreview";
+import type { QualityAssessment } from "@/lib/qualityRules";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/* ----------   MAIN API HANDLER   ---------- */
+// One page of the rows a stored report was generated from, for the data
+// preview: ?page=&pageSize=&sort=&order=asc|desc&filter.<column>=
+export async function GET(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse> {
+  const { id } = await params;
+  try {
+    const repository = getReportRepository();
+    const [report, dataset] = await Promise.all([
+      repository.get(id),
+      repository.getDataset(id),
+    ]);
+    if (!report) {
+      return NextResponse.json(
+        { success: false, error: `Report not found: ${id}` },
+        { status: 404 }
+      );
+    }
+    if (!dataset) {
+      return NextResponse.json(
+        { success: false, error: `No stored rows for report ${id}` },
+        { status: 404 }
+      );
+    }
+
+    const quality = report.data.dataQualityIssues as
+      | QualityAssessment
+      | undefined;
+    const page = queryDataset(
+      dataset,
+      parsePreviewQuery(request.nextUrl.searchParams),
+      quality?.issues
+    );
+    return NextResponse.json({ success: true, ...page });
+  } catch (error) {
+    if (error instanceof PreviewQueryError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error(`Error reading rows of report ${id}:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
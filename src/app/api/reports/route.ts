@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getReportRepository } from "@/lib/reportStore";
+
+const DEFAULT_LIMIT = 100;
+
+/* ----------   MAIN API HANDLER   ---------- */
+// Stored report summaries, newest first, filtered by ?search= and ?type=
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const params = request.nextUrl.searchParams;
+    const limit = Number(params.get("limit")) || DEFAULT_LIMIT;
+    const repository = getReportRepository();
+
+    const reports = await repository.list({
+      search: params.get("search") || undefined,
+      type: params.get("type") || undefined,
+      limit,
+    });
+
+    return NextResponse.json({
+      success: true,
+      reports,
+      total: await repository.count(),
+    });
+  } catch (error) {
+    console.error("Error listing reports:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,293 @@
+"use client";
+import React, { useEffect, useRef, useState } from "react";
+import { ChevronDown, ChevronUp, Loader2 } from "lucide-react";
+import {
+  DEFAULT_PAGE_SIZE,
+  FILTER_PARAM_PREFIX,
+  PreviewPage,
+} from "@/lib/dataPreview";
+
+interface PreviewResponse extends Partial<PreviewPage> {
+  success: boolean;
+  error?: string;
+}
+
+interface SortState {
+  column: string;
+  descending: boolean;
+}
+
+// Only the rows in view (plus a margin) are rendered, at a fixed height
+const ROW_HEIGHT = 32;
+const VIEWPORT_HEIGHT = 480;
+const OVERSCAN_ROWS = 8;
+const PAGE_SIZES = [DEFAULT_PAGE_SIZE, 250, 500];
+// Filters are sent once typing pauses
+const FILTER_DELAY_MS = 300;
+
+/* ----------   FORMATTING   ---------- */
+function formatCell(value: unknown, locale?: string): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") {
+    return value.toLocaleString(locale, { maximumFractionDigits: 4 });
+  }
+  return String(value);
+}
+
+function previewUrl(
+  reportId: string,
+  page: number,
+  pageSize: number,
+  sort: SortState | null,
+  filters: Record<string, string>
+): string {
+  const params = new URLSearchParams({
+    page: String(page),
+    pageSize: String(pageSize),
+  });
+  if (sort) {
+    params.set("sort", sort.column);
+    params.set("order", sort.descending ? "desc" : "asc");
+  }
+  Object.entries(filters).forEach(([column, filter]) => {
+    if (filter.trim()) params.set(`${FILTER_PARAM_PREFIX}${column}`, filter);
+  });
+  return `/api/reports/${reportId}/rows?${params}`;
+}
+
+/* ----------   COMPONENT   ---------- */
+// The rows a report was generated from, a page at a time, with the cells
+// that failed data-quality checks highlighted
+export default function DataPreview({
+  reportId,
+  locale,
+}: {
+  reportId: string;
+  locale?: string;
+}) {
+  const [data, setData] = useState<PreviewPage | null>(null);
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(DEFAULT_PAGE_SIZE);
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [filterInputs, setFilterInputs] = useState<Record<string, string>>({});
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [scrollTop, setScrollTop] = useState(0);
+  const viewport = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const changed = JSON.stringify(filterInputs) !== JSON.stringify(filters);
+      if (!changed) return;
+      setFilters(filterInputs);
+      setPage(1);
+    }, FILTER_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [filterInputs, filters]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    fetch(previewUrl(reportId, page, pageSize, sort, filters), {
+      signal: controller.signal,
+    })
+      .then(async (response) => {
+        const result: PreviewResponse = await response.json();
+        if (!response.ok || !result.success || !result.rows) {
+          throw new Error(result.error || `HTTP ${response.status}`);
+        }
+        setData(result as PreviewPage);
+        setError("");
+        viewport.current?.scrollTo({ top: 0 });
+        setScrollTop(0);
+        setLoading(false);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : "Failed to load rows");
+        setLoading(false);
+      });
+    return () => controller.abort();
+  }, [reportId, page, pageSize, sort, filters]);
+
+  // Ascending, then descending, then back to the stored order
+  const sortBy = (column: string) => {
+    setSort((prev) =>
+      prev?.column !== column
+        ? { column, descending: false }
+        : prev.descending
+        ? null
+        : { column, descending: true }
+    );
+    setPage(1);
+  };
+
+  if (error && !data) {
+    return <p className="text-sm text-gray-500">{error}</p>;
+  }
+  if (!data) {
+    return (
+      <p className="text-sm text-gray-500 flex items-center">
+        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        Loading rows...
+      </p>
+    );
+  }
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const last = Math.min(
+    data.rows.length,
+    Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN_ROWS
+  );
+  const visible = data.rows.slice(first, last);
+  const start = (data.page - 1) * data.pageSize;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div
+        ref={viewport}
+        className="overflow-auto border rounded"
+        style={{ maxHeight: VIEWPORT_HEIGHT }}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <table className="min-w-full">
+          <thead className="bg-gray-50 sticky top-0 z-10">
+            <tr>
+              <th className="px-2 py-2 text-right font-medium text-gray-500">
+                #
+              </th>
+              {data.columns.map((column) => (
+                <th
+                  key={column.name}
+                  className="px-2 py-2 text-left font-medium text-gray-700 align-top"
+                >
+                  <button
+                    onClick={() => sortBy(column.name)}
+                    className="inline-flex items-center whitespace-nowrap hover:text-blue-600"
+                  >
+                    {column.name}
+                    {sort?.column === column.name &&
+                      (sort.descending ? (
+                        <ChevronDown className="w-3 h-3 ml-1" />
+                      ) : (
+                        <ChevronUp className="w-3 h-3 ml-1" />
+                      ))}
+                  </button>
+                  <span className="block text-xs font-normal text-gray-400">
+                    {column.type}
+                  </span>
+                  <input
+                    value={filterInputs[column.name] || ""}
+                    onChange={(e) =>
+                      setFilterInputs((prev) => ({
+                        ...prev,
+                        [column.name]: e.target.value,
+                      }))
+                    }
+                    placeholder={
+                      column.type === "numeric" ? "e.g. >= 100" : "Filter"
+                    }
+                    className="mt-1 w-full min-w-[6rem] text-xs font-normal border border-gray-300 rounded px-1 py-0.5"
+                  />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {first > 0 && (
+              <tr style={{ height: first * ROW_HEIGHT }}>
+                <td colSpan={data.columns.length + 1} />
+              </tr>
+            )}
+            {visible.map((row) => (
+              <tr
+                key={row.row}
+                className="border-t"
+                style={{ height: ROW_HEIGHT }}
+              >
+                <td
+                  className={`px-2 text-right text-xs ${
+                    row.rowIssues ? "bg-red-100 text-red-700" : "text-gray-400"
+                  }`}
+                  title={row.rowIssues?.join("\n")}
+                >
+                  {row.sourceRow ?? row.row}
+                </td>
+                {data.columns.map((column) => {
+                  const issues = row.issues?.[column.name];
+                  return (
+                    <td
+                      key={column.name}
+                      title={issues?.join("\n")}
+                      className={`px-2 whitespace-nowrap ${
+                        issues ? "bg-red-50 text-red-700" : "text-gray-700"
+                      } ${column.type === "numeric" ? "text-right" : ""}`}
+                    >
+                      {formatCell(row.values[column.name], locale)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+            {last < data.rows.length && (
+              <tr style={{ height: (data.rows.length - last) * ROW_HEIGHT }}>
+                <td colSpan={data.columns.length + 1} />
+              </tr>
+            )}
+          </tbody>
+        </table>
+        {data.rows.length === 0 && (
+          <p className="p-3 text-gray-500">No rows match the filters.</p>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-gray-600">
+        <span className="flex items-center">
+          {loading && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+          {data.matchingRows === 0
+            ? "No rows"
+            : `Rows ${start + 1}–${start + data.rows.length} of ${
+                data.matchingRows
+              }`}
+          {data.matchingRows !== data.totalRows &&
+            ` (filtered from ${data.totalRows})`}
+          {error && <span className="ml-2 text-red-600">{error}</span>}
+        </span>
+        <div className="flex items-center space-x-2">
+          <select
+            value={pageSize}
+            onChange={(e) => {
+              setPageSize(Number(e.target.value));
+              setPage(1);
+            }}
+            className="border border-gray-300 rounded px-1 py-0.5"
+          >
+            {PAGE_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size} per page
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => setPage(data.page - 1)}
+            disabled={data.page <= 1}
+            className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span>
+            Page {data.page} of {data.totalPages}
+          </span>
+          <button
+            onClick={() => setPage(data.page + 1)}
+            disabled={data.page >= data.totalPages}
+            className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,433 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { Loader2, X } from "lucide-react";
+import {
+  DATE_GROUPINGS,
+  DateGrouping,
+  flattenPivot,
+  PIVOT_AGGREGATES,
+  PivotAggregate,
+  PivotDimension,
+  PivotField,
+  PivotFilter,
+  PivotMeasure,
+  PivotTable,
+} from "@/lib/pivot";
+import type { DynamicReport } from "@/lib/reportTypes";
+
+interface FieldsResponse {
+  success: boolean;
+  error?: string;
+  fields?: PivotField[];
+}
+
+interface PivotResponse {
+  success: boolean;
+  error?: string;
+  pivot?: PivotTable;
+  report?: DynamicReport;
+}
+
+type Zone = "rows" | "columns" | "measures" | "filters";
+
+// What a drag carries: a field from the list, or an entry moved out of a zone
+interface DragPayload {
+  column: string;
+  from?: { zone: Zone; index: number };
+}
+
+const ZONES: { zone: Zone; label: string; hint: string }[] = [
+  { zone: "rows", label: "Rows", hint: "Group rows by" },
+  { zone: "columns", label: "Columns", hint: "Spread across columns by" },
+  { zone: "measures", label: "Values", hint: "Aggregate" },
+  { zone: "filters", label: "Filters", hint: "Keep only" },
+];
+
+/* ----------   HELPERS   ---------- */
+function formatCell(value: string | number | null, locale?: string): string {
+  if (value === null) return "";
+  if (typeof value === "number") {
+    return value.toLocaleString(locale, { maximumFractionDigits: 2 });
+  }
+  return value;
+}
+
+/* ----------   COMPONENT   ---------- */
+// Drag fields into rows, columns, values and filters; the pivot is rebuilt
+// on the server after every change and can be saved into the workbook
+export default function PivotBuilder({
+  report,
+  locale,
+  onSaved,
+}: {
+  report: DynamicReport;
+  locale?: string;
+  onSaved: (report: DynamicReport) => void;
+}) {
+  const [fields, setFields] = useState<PivotField[]>([]);
+  const [rows, setRows] = useState<PivotDimension[]>([]);
+  const [columns, setColumns] = useState<PivotDimension[]>([]);
+  const [measures, setMeasures] = useState<PivotMeasure[]>([]);
+  const [filters, setFilters] = useState<PivotFilter[]>([]);
+  const [pivot, setPivot] = useState<PivotTable | null>(null);
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/reports/${report.id}/pivot`)
+      .then(async (response) => {
+        const data: FieldsResponse = await response.json();
+        if (!response.ok || !data.success || !data.fields) {
+          throw new Error(data.error || `HTTP ${response.status}`);
+        }
+        setFields(data.fields);
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to load fields")
+      );
+  }, [report.id]);
+
+  // Filters with nothing ticked keep every row, so they are left out
+  const spec = {
+    rows,
+    columns,
+    measures,
+    filters: filters.filter((filter) => filter.values.length > 0),
+  };
+  const specKey = JSON.stringify(spec);
+  const hasMeasures = measures.length > 0;
+
+  useEffect(() => {
+    if (!hasMeasures) {
+      setPivot(null);
+      return;
+    }
+    const controller = new AbortController();
+    setLoading(true);
+    fetch(`/api/reports/${report.id}/pivot`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: specKey,
+      signal: controller.signal,
+    })
+      .then(async (response) => {
+        const data: PivotResponse = await response.json();
+        if (!response.ok || !data.success || !data.pivot) {
+          throw new Error(data.error || `HTTP ${response.status}`);
+        }
+        setPivot(data.pivot);
+        setError("");
+        setLoading(false);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : "Failed to build pivot");
+        setLoading(false);
+      });
+    return () => controller.abort();
+  }, [report.id, specKey, hasMeasures]);
+
+  const fieldType = (column: string) =>
+    fields.find((field) => field.name === column)?.type;
+
+  const entriesOf = (zone: Zone): { column: string }[] =>
+    zone === "rows"
+      ? rows
+      : zone === "columns"
+      ? columns
+      : zone === "measures"
+      ? measures
+      : filters;
+
+  const removeEntry = (zone: Zone, index: number) => {
+    const without = <T,>(list: T[]) => list.filter((_, i) => i !== index);
+    if (zone === "rows") setRows(without);
+    if (zone === "columns") setColumns(without);
+    if (zone === "measures") setMeasures(without);
+    if (zone === "filters") setFilters(without);
+  };
+
+  // Dates group by month and numbers are summed until changed
+  const addEntry = (zone: Zone, column: string) => {
+    const type = fieldType(column);
+    if (zone === "measures") {
+      const aggregate: PivotAggregate = type === "numeric" ? "sum" : "count";
+      setMeasures((prev) => [...prev, { column, aggregate }]);
+      return;
+    }
+    if (zone === "filters") {
+      setFilters((prev) => [...prev, { column, values: [] }]);
+      return;
+    }
+    const dimension: PivotDimension =
+      type === "date" ? { column, dateGroup: "month" } : { column };
+    if (zone === "rows") setRows((prev) => [...prev, dimension]);
+    else setColumns((prev) => [...prev, dimension]);
+  };
+
+  const drop = (zone: Zone, e: React.DragEvent) => {
+    e.preventDefault();
+    const payload: DragPayload = JSON.parse(
+      e.dataTransfer.getData("application/json") || "null"
+    );
+    if (!payload || payload.from?.zone === zone) return;
+    // Rows, columns and filters hold a field once; values may repeat it
+    if (
+      zone !== "measures" &&
+      entriesOf(zone).some((entry) => entry.column === payload.column)
+    ) {
+      return;
+    }
+    if (payload.from) removeEntry(payload.from.zone, payload.from.index);
+    addEntry(zone, payload.column);
+  };
+
+  const startDrag = (e: React.DragEvent, payload: DragPayload) =>
+    e.dataTransfer.setData("application/json", JSON.stringify(payload));
+
+  const setDateGroup = (zone: Zone, index: number, value: string) => {
+    const update = (list: PivotDimension[]) =>
+      list.map((dimension, i) =>
+        i !== index
+          ? dimension
+          : value
+          ? { column: dimension.column, dateGroup: value as DateGrouping }
+          : { column: dimension.column }
+      );
+    if (zone === "rows") setRows(update);
+    else setColumns(update);
+  };
+
+  const toggleFilterValue = (index: number, value: string) =>
+    setFilters((prev) =>
+      prev.map((filter, i) =>
+        i !== index
+          ? filter
+          : {
+              ...filter,
+              values: filter.values.includes(value)
+                ? filter.values.filter((item) => item !== value)
+                : [...filter.values, value],
+            }
+      )
+    );
+
+  const savePivot = async () => {
+    const name = window.prompt("Pivot name", "Pivot");
+    if (!name) return;
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/reports/${report.id}/pivot`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...spec, save: true, name }),
+      });
+      const data: PivotResponse = await response.json();
+      if (!response.ok || !data.success || !data.report) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+      onSaved(data.report);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save pivot");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /* ----------   RENDERING   ---------- */
+  const renderEntry = (zone: Zone, index: number) => {
+    const column = entriesOf(zone)[index].column;
+    return (
+      <div
+        key={`${column}-${index}`}
+        draggable
+        onDragStart={(e) => startDrag(e, { column, from: { zone, index } })}
+        className="bg-white border border-gray-300 rounded px-2 py-1 text-xs cursor-move"
+      >
+        <div className="flex items-center justify-between space-x-1">
+          <span className="font-medium truncate">{column}</span>
+          <button
+            onClick={() => removeEntry(zone, index)}
+            className="text-gray-400 hover:text-gray-700"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+        {zone === "measures" && (
+          <select
+            value={measures[index].aggregate}
+            onChange={(e) =>
+              setMeasures((prev) =>
+                prev.map((measure, i) =>
+                  i === index
+                    ? {
+                        ...measure,
+                        aggregate: e.target.value as PivotAggregate,
+                      }
+                    : measure
+                )
+              )
+            }
+            className="mt-1 w-full border border-gray-300 rounded"
+          >
+            {Object.entries(PIVOT_AGGREGATES).map(([aggregate, label]) => (
+              <option key={aggregate} value={aggregate}>
+                {label}
+              </option>
+            ))}
+          </select>
+        )}
+        {(zone === "rows" || zone === "columns") &&
+          fieldType(column) === "date" && (
+            <select
+              value={(zone === "rows" ? rows : columns)[index].dateGroup || ""}
+              onChange={(e) => setDateGroup(zone, index, e.target.value)}
+              className="mt-1 w-full border border-gray-300 rounded"
+            >
+              <option value="">Exact value</option>
+              {DATE_GROUPINGS.map((grouping) => (
+                <option key={grouping} value={grouping}>
+                  By {grouping}
+                </option>
+              ))}
+            </select>
+          )}
+        {zone === "filters" && (
+          <div className="mt-1 max-h-32 overflow-y-auto space-y-0.5">
+            {fields
+              .find((field) => field.name === column)
+              ?.values.map((value) => (
+                <label key={value} className="flex items-center space-x-1">
+                  <input
+                    type="checkbox"
+                    checked={filters[index].values.includes(value)}
+                    onChange={() => toggleFilterValue(index, value)}
+                  />
+                  <span className="truncate">{value}</span>
+                </label>
+              ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderResult = () => {
+    if (!pivot) {
+      return (
+        <p className="text-sm text-gray-500">
+          Drag a field into Values to build the pivot.
+        </p>
+      );
+    }
+    const grid = flattenPivot(pivot);
+    const keyColumns = pivot.spec.rows.length;
+    return (
+      <div className="overflow-auto max-h-[32rem] border rounded">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              {grid.headers.map((header, index) => (
+                <th
+                  key={index}
+                  className={`px-3 py-2 font-medium text-gray-700 whitespace-nowrap ${
+                    index < keyColumns ? "text-left" : "text-right"
+                  }`}
+                >
+                  {header}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {grid.rows.map((row, rowIndex) => (
+              <tr
+                key={rowIndex}
+                className={`border-t ${
+                  row.kind === "subtotal"
+                    ? "bg-gray-50 font-medium"
+                    : row.kind === "total"
+                    ? "border-t-2 border-gray-400 font-semibold"
+                    : ""
+                }`}
+              >
+                {row.cells.map((cell, index) => (
+                  <td
+                    key={index}
+                    className={`px-3 py-1 whitespace-nowrap ${
+                      index < keyColumns ? "text-gray-700" : "text-right"
+                    }`}
+                  >
+                    {formatCell(cell, locale)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+        <div className="border rounded p-2 bg-gray-50">
+          <p className="font-medium text-gray-800 mb-2">Fields</p>
+          <div className="space-y-1 max-h-64 overflow-y-auto">
+            {fields.map((field) => (
+              <div
+                key={field.name}
+                draggable
+                onDragStart={(e) => startDrag(e, { column: field.name })}
+                className="bg-white border border-gray-200 rounded px-2 py-1 text-xs cursor-move flex justify-between"
+              >
+                <span className="truncate">{field.name}</span>
+                <span className="text-gray-400 ml-1">{field.type}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+        {ZONES.map(({ zone, label, hint }) => (
+          <div
+            key={zone}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => drop(zone, e)}
+            className="border-2 border-dashed border-gray-300 rounded p-2 min-h-[6rem]"
+          >
+            <p className="font-medium text-gray-800">{label}</p>
+            <p className="text-xs text-gray-400 mb-2">{hint}</p>
+            <div className="space-y-1">
+              {entriesOf(zone).map((_, index) => renderEntry(zone, index))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="flex items-center text-xs text-gray-600">
+          {loading && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+          {pivot && `${pivot.sourceRows} row(s) aggregated`}
+          {error && <span className="ml-2 text-red-600">{error}</span>}
+        </span>
+        <div className="flex items-center space-x-2 text-xs text-gray-500">
+          {report.pivots?.length ? (
+            <span>
+              In workbook: {report.pivots.map((saved) => saved.name).join(", ")}
+            </span>
+          ) : null}
+          <button
+            onClick={savePivot}
+            disabled={!pivot || saving}
+            className="px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Add to workbook"}
+          </button>
+        </div>
+      </div>
+
+      {renderResult()}
+    </div>
+  );
+}
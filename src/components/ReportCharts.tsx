@@ -0,0 +1,175 @@
+"use client";
+import React from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import type { ChartSpec, ChartValueFormat } from "@/lib/reportCharts";
+import { currencySymbol, DEFAULT_CURRENCY } from "@/lib/reportValues";
+
+interface NumberDisplay {
+  locale?: string;
+  currency: string;
+}
+
+const COLORS = [
+  "#3b82f6",
+  "#10b981",
+  "#f59e0b",
+  "#ef4444",
+  "#8b5cf6",
+  "#06b6d4",
+];
+
+/* ----------   FORMATTING   ---------- */
+function formatValue(
+  value: unknown,
+  format: ChartValueFormat,
+  display: NumberDisplay
+): string {
+  if (typeof value !== "number") return String(value ?? "");
+  if (format === "currency") {
+    return value.toLocaleString(display.locale, {
+      style: "currency",
+      currency: display.currency,
+      maximumFractionDigits: 0,
+    });
+  }
+  if (format === "percent") return `${value.toFixed(1)}%`;
+  return value.toLocaleString(display.locale, { maximumFractionDigits: 2 });
+}
+
+function formatAxisValue(
+  value: unknown,
+  format: ChartValueFormat,
+  display: NumberDisplay
+): string {
+  if (typeof value !== "number") return String(value ?? "");
+  const compact = value.toLocaleString(display.locale, {
+    notation: "compact",
+    maximumFractionDigits: 1,
+  });
+  if (format === "currency") {
+    return `${currencySymbol(display.currency, display.locale)}${compact}`;
+  }
+  if (format === "percent") return `${compact}%`;
+  return compact;
+}
+
+/* ----------   CHART RENDERING   ---------- */
+// ResponsiveContainer sizes its direct child, so this returns the chart
+// element itself rather than a wrapping component
+function renderChart(chart: ChartSpec, display: NumberDisplay) {
+  const formatTooltip = (value: unknown) =>
+    formatValue(value, chart.valueFormat, display);
+  const formatTick = (value: unknown) =>
+    formatAxisValue(value, chart.valueFormat, display);
+
+  switch (chart.kind) {
+    case "pie":
+      return (
+        <PieChart>
+          <Pie
+            data={chart.data}
+            dataKey={chart.series[0].key}
+            nameKey={chart.xKey}
+            outerRadius="75%"
+            label
+          >
+            {chart.data.map((_, index) => (
+              <Cell key={index} fill={COLORS[index % COLORS.length]} />
+            ))}
+          </Pie>
+          <Tooltip formatter={formatTooltip} />
+          <Legend />
+        </PieChart>
+      );
+    case "line":
+      return (
+        <LineChart data={chart.data}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey={chart.xKey} tick={{ fontSize: 12 }} />
+          <YAxis tickFormatter={formatTick} tick={{ fontSize: 12 }} />
+          <Tooltip formatter={formatTooltip} />
+          <Legend />
+          {chart.series.map((series, index) => (
+            <Line
+              key={series.key}
+              type="monotone"
+              dataKey={series.key}
+              name={series.label}
+              stroke={COLORS[index % COLORS.length]}
+              dot={false}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      );
+    default:
+      // Bars and histograms; histogram bins sit flush against each other
+      return (
+        <BarChart
+          data={chart.data}
+          barCategoryGap={chart.kind === "histogram" ? 1 : "10%"}
+        >
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey={chart.xKey} tick={{ fontSize: 12 }} />
+          <YAxis tickFormatter={formatTick} tick={{ fontSize: 12 }} />
+          <Tooltip formatter={formatTooltip} />
+          {chart.series.map((series, index) => (
+            <Bar
+              key={series.key}
+              dataKey={series.key}
+              name={series.label}
+              fill={COLORS[index % COLORS.length]}
+            />
+          ))}
+        </BarChart>
+      );
+  }
+}
+
+export default function ReportCharts({
+  charts,
+  locale,
+  currency = DEFAULT_CURRENCY,
+}: {
+  charts: ChartSpec[];
+  locale?: string;
+  currency?: string;
+}) {
+  if (charts.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      {charts.map((chart) => (
+        <div key={chart.id} className="border rounded-lg p-4">
+          <h5 className="font-medium text-gray-800 mb-3">
+            {chart.title}
+            {chart.sampled && (
+              <span className="ml-2 text-xs font-normal text-amber-700">
+                sampled rows
+              </span>
+            )}
+          </h5>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              {renderChart(chart, { locale, currency })}
+            </ResponsiveContainer>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+/* ----------   TYPES   ---------- */
+export interface ColumnStats {
+  sum: number;
+  average: number;
+  min: number;
+  max: number;
+  count: number;
+  // Exact below DISTINCT_SAMPLE distinct values, estimated above it
+  distinct: number;
+}
+
+// Hashes kept by the distinct estimator; its error is about 1/sqrt(k)
+const DISTINCT_SAMPLE = 256;
+// Distinct values of any kind are headline figures (unique customers,
+// products), so their sketch keeps more hashes: exact up to this many
+const VALUE_SAMPLE = 4096;
+const HASH_RANGE = 2 ** 32;
+
+/* ----------   HELPERS   ---------- */
+// FNV-1a with a murmur3 finalizer, so short similar keys ("1", "2", ...)
+// still spread evenly over the 32-bit range
+function hashKey(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+/* ----------   ACCUMULATORS   ---------- */
+/**
+ * Counts distinct values in bounded memory by keeping only the smallest
+ * hashes seen (a k-minimum-values sketch).
+ */
+export class DistinctEstimator {
+  // Sorted ascending, at most `size` entries
+  private hashes: number[] = [];
+
+  constructor(private readonly size = DISTINCT_SAMPLE) {}
+
+  add(key: string): void {
+    this.addHash(hashKey(key));
+  }
+
+  // The sketch of the union of both inputs, as if one had seen every key
+  merge(other: DistinctEstimator): void {
+    other.hashes.forEach((hash) => this.addHash(hash));
+  }
+
+  estimate(): number {
+    const { hashes, size } = this;
+    if (hashes.length < size) return hashes.length;
+    return Math.round(((size - 1) * HASH_RANGE) / (hashes[size - 1] + 1));
+  }
+
+  private addHash(hash: number): void {
+    const { hashes, size } = this;
+    if (hashes.length === size && hash >= hashes[size - 1]) return;
+
+    let low = 0;
+    let high = hashes.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (hashes[middle] < hash) low = middle + 1;
+      else high = middle;
+    }
+    if (hashes[low] === hash) return;
+    hashes.splice(low, 0, hash);
+    if (hashes.length > size) hashes.pop();
+  }
+}
+
+/**
+ * Sum, min, max, count and distinct count of a numeric column in a single
+ * pass. Unlike Math.min(...values) it never holds the values themselves, so
+ * it can take every row of a source as the rows stream past.
+ */
+export class NumericAccumulator {
+  private count = 0;
+  private sum = 0;
+  private min = Infinity;
+  private max = -Infinity;
+  private distinct = new DistinctEstimator();
+
+  add(value: number): void {
+    this.count++;
+    this.sum += value;
+    if (value < this.min) this.min = value;
+    if (value > this.max) this.max = value;
+    this.distinct.add(String(value));
+  }
+
+  merge(other: NumericAccumulator): void {
+    this.count += other.count;
+    this.sum += other.sum;
+    this.min = Math.min(this.min, other.min);
+    this.max = Math.max(this.max, other.max);
+    this.distinct.merge(other.distinct);
+  }
+
+  result(): ColumnStats {
+    return {
+      sum: this.sum,
+      average: this.count ? this.sum / this.count : 0,
+      min: this.min,
+      max: this.max,
+      count: this.count,
+      distinct: this.distinct.estimate(),
+    };
+  }
+}
+
+/**
+ * Running totals of one column: stats of the cells `toNumber` reads as
+ * numbers, and the distinct non-blank values of any kind.
+ */
+export class ColumnAccumulator {
+  private readonly numbers = new NumericAccumulator();
+  readonly values = new DistinctEstimator(VALUE_SAMPLE);
+  // Non-blank cells
+  filled = 0;
+
+  constructor(private readonly toNumber: (value: unknown) => number) {}
+
+  add(value: unknown): void {
+    if (value === null || value === undefined) return;
+    const text = String(value).trim();
+    if (text === "") return;
+    this.filled++;
+    this.values.add(text);
+    const number = this.toNumber(value);
+    if (isFinite(number)) this.numbers.add(number);
+  }
+
+  merge(other: ColumnAccumulator): void {
+    this.filled += other.filled;
+    this.numbers.merge(other.numbers);
+    this.values.merge(other.values);
+  }
+
+  // Null when no cell held a number
+  stats(): ColumnStats | null {
+    const stats = this.numbers.result();
+    return stats.count > 0 ? stats : null;
+  }
+}
+
+/**
+ * Row count and column totals of a whole table. They are gathered as rows
+ * stream in, so they cover every row of the source even when only the
+ * first rows are kept for row-level analysis.
+ */
+export class TableTotals {
+  private readonly columns = new Map<string, ColumnAccumulator>();
+
+  constructor(
+    private readonly toNumber: (value: unknown) => number,
+    public rowCount = 0
+  ) {}
+
+  static fromRows(
+    rows: Record<string, unknown>[],
+    toNumber: (value: unknown) => number
+  ): TableTotals {
+    const totals = new TableTotals(toNumber);
+    rows.forEach((row) => totals.addRow(row));
+    return totals;
+  }
+
+  addRow(row: Record<string, unknown>): void {
+    this.rowCount++;
+    Object.keys(row).forEach((name) => this.column(name).add(row[name]));
+  }
+
+  // The named column's accumulator, created empty on first use
+  column(name: string): ColumnAccumulator {
+    let column = this.columns.get(name);
+    if (!column) {
+      column = new ColumnAccumulator(this.toNumber);
+      this.columns.set(name, column);
+    }
+    return column;
+  }
+
+  // Adds another table's rows, matching columns by name
+  merge(other: TableTotals): void {
+    this.rowCount += other.rowCount;
+    other.columns.forEach((column, name) => this.column(name).merge(column));
+  }
+
+  // A copy with its columns renamed; those renamed to undefined are dropped
+  renamed(rename: (name: string) => string | undefined): TableTotals {
+    const totals = new TableTotals(this.toNumber, this.rowCount);
+    this.columns.forEach((column, name) => {
+      const renamed = rename(name);
+      if (renamed !== undefined) totals.column(renamed).merge(column);
+    });
+    return totals;
+  }
+
+  // A copy without the named columns
+  without(names: string[]): TableTotals {
+    return this.renamed((name) => (names.includes(name) ? undefined : name));
+  }
+
+  sum(name?: string): number {
+    return (name && this.columns.get(name)?.stats()?.sum) || 0;
+  }
+
+  sumOf(names: string[]): number {
+    return names.reduce((total, name) => total + this.sum(name), 0);
+  }
+
+  average(name?: string): number | null {
+    const stats = name ? this.columns.get(name)?.stats() : null;
+    return stats ? stats.average : null;
+  }
+
+  filled(name: string): number {
+    return this.columns.get(name)?.filled || 0;
+  }
+
+  // Distinct values across the named columns together
+  distinct(names: string[]): number {
+    const union = new DistinctEstimator(VALUE_SAMPLE);
+    names.forEach((name) => {
+      const column = this.columns.get(name);
+      if (column) union.merge(column.values);
+    });
+    return union.estimate();
+  }
+
+  /** Stats of every column holding a number, in column order. */
+  stats(): Record<string, ColumnStats> {
+    const stats: Record<string, ColumnStats> = {};
+    this.columns.forEach((column, name) => {
+      const result = column.stats();
+      if (result) stats[name] = result;
+    });
+    return stats;
+  }
+}
@@ -0,0 +1,464 @@
+import { isEmptyValue, valueKind } from "@/lib/columnProfile";
+import type { ColumnAssignment } from "@/lib/columnRoles";
+import { parseLooseNumber } from "@/lib/generators/shared";
+import {
+  countValue,
+  currencyValue,
+  percentValue,
+  ReportValue,
+} from "@/lib/reportValues";
+import {
+  DateColumnInfo,
+  detectDateColumns,
+  parseDateValue,
+  periodOf,
+} from "@/lib/timeSeries";
+
+/* ----------   TYPES   ---------- */
+export type BudgetPeriod = "month" | "quarter" | "year";
+
+/**
+ * Where the budget comes from and how it is compared. With only `sheet`,
+ * each uploaded workbook's sheet of that name is its budget; with `file`,
+ * that upload (or its `sheet`) is the budget for every report. Columns are
+ * detected when not given.
+ */
+export interface BudgetSettings {
+  file?: string;
+  sheet?: string;
+  // Variances within this share of the budget count as on budget
+  threshold?: number;
+  period?: BudgetPeriod;
+  accountColumn?: string;
+  periodColumn?: string;
+  actualColumn?: string;
+  budgetColumn?: string;
+}
+
+export type VarianceStatus =
+  | "Favorable"
+  | "Unfavorable"
+  | "On budget"
+  | "Unbudgeted";
+
+// Actual over budget is favorable for revenue lines, unfavorable for costs
+export type LineKind = "Revenue" | "Expense";
+
+export interface VarianceLine {
+  account?: string;
+  period?: string;
+  // Only when more than one amount column is compared
+  measure?: string;
+  kind: LineKind;
+  actual: ReportValue;
+  budget: ReportValue;
+  variance: ReportValue;
+  variancePercent: ReportValue | null;
+  status: VarianceStatus;
+}
+
+export interface VarianceTotal {
+  kind: LineKind;
+  actual: ReportValue;
+  budget: ReportValue;
+  variance: ReportValue;
+  variancePercent: ReportValue | null;
+  status: VarianceStatus;
+}
+
+export interface BudgetVarianceSection {
+  source: string;
+  matchedOn: string;
+  threshold: ReportValue;
+  favorableLines: ReportValue;
+  unfavorableLines: ReportValue;
+  onBudgetLines: ReportValue;
+  unbudgetedLines: ReportValue;
+  totals: VarianceTotal[];
+  lines: VarianceLine[];
+}
+
+export class BudgetError extends Error {}
+
+interface AmountPair {
+  actual: string;
+  budget: string;
+}
+
+interface Matching {
+  account?: { actual: string; budget: string };
+  period?: { actual: DateColumnInfo; budget: DateColumnInfo };
+}
+
+export const DEFAULT_VARIANCE_THRESHOLD = 0.05;
+const BUDGET_PERIODS: BudgetPeriod[] = ["month", "quarter", "year"];
+const SETTING_COLUMNS = [
+  "accountColumn",
+  "periodColumn",
+  "actualColumn",
+  "budgetColumn",
+] as const;
+// Lines listed in a report; totals still cover every line
+const MAX_LINES = 5000;
+const NUMERIC_SHARE = 0.8;
+const SAMPLE_SIZE = 200;
+
+const ACCOUNT_PATTERN =
+  /account|ledger|gl[\s_]*code|cost[\s_]*cent(er|re)|category|department|line[\s_]*item/i;
+const BUDGET_PATTERN = /budget|plan|target|forecast/i;
+const ACTUAL_PATTERN = /actual/i;
+const AMOUNT_PATTERN = /amount|value|total|balance/i;
+const REVENUE_PATTERN = /revenue|income|sales|turnover/i;
+const EXPENSE_PATTERN = /expense|cost|spend|expenditure|overhead/i;
+
+/* ----------   VALIDATION   ---------- */
+function isName(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+/** Validates the budget settings sent with a request. */
+export function parseBudgetSettings(value: unknown): BudgetSettings {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new BudgetError("Budget settings must be an object");
+  }
+  const settings = value as Record<string, unknown>;
+  const { file, sheet, threshold, period } = settings;
+  if (file !== undefined && !isName(file)) {
+    throw new BudgetError("file must be a file name");
+  }
+  if (sheet !== undefined && !isName(sheet)) {
+    throw new BudgetError("sheet must be a sheet name");
+  }
+  if (file === undefined && sheet === undefined) {
+    throw new BudgetError("Name the budget file, sheet or both");
+  }
+  if (
+    threshold !== undefined &&
+    (typeof threshold !== "number" || !(threshold >= 0) || !isFinite(threshold))
+  ) {
+    throw new BudgetError("threshold must be a non-negative number");
+  }
+  if (
+    period !== undefined &&
+    !BUDGET_PERIODS.includes(period as BudgetPeriod)
+  ) {
+    throw new BudgetError(`period must be one of ${BUDGET_PERIODS.join(", ")}`);
+  }
+  SETTING_COLUMNS.forEach((key) => {
+    if (settings[key] !== undefined && !isName(settings[key])) {
+      throw new BudgetError(`${key} must be a column name`);
+    }
+  });
+  return settings as BudgetSettings;
+}
+
+/* ----------   COLUMN MATCHING   ---------- */
+function columnsOf(rows: Record<string, unknown>[]): string[] {
+  return Object.keys(rows[0] || {});
+}
+
+function findColumn(columns: string[], name: string): string | undefined {
+  if (columns.includes(name)) return name;
+  const wanted = name.trim().toLowerCase();
+  return columns.find((column) => column.trim().toLowerCase() === wanted);
+}
+
+function isNumericColumn(
+  rows: Record<string, unknown>[],
+  column: string
+): boolean {
+  const values = rows
+    .slice(0, SAMPLE_SIZE)
+    .map((row) => row[column])
+    .filter((value) => !isEmptyValue(value));
+  return (
+    values.length > 0 &&
+    values.filter((value) => valueKind(value) === "number").length /
+      values.length >=
+      NUMERIC_SHARE
+  );
+}
+
+function requireColumn(
+  rows: Record<string, unknown>[],
+  name: string,
+  side: string
+): string {
+  const column = findColumn(columnsOf(rows), name);
+  if (!column) throw new BudgetError(`No column ${name} in the ${side}`);
+  return column;
+}
+
+function matchAccounts(
+  actualRows: Record<string, unknown>[],
+  budgetRows: Record<string, unknown>[],
+  settings: BudgetSettings,
+  roles: ColumnAssignment
+): Matching["account"] {
+  if (settings.accountColumn) {
+    return {
+      actual: requireColumn(actualRows, settings.accountColumn, "actuals"),
+      budget: requireColumn(budgetRows, settings.accountColumn, "budget"),
+    };
+  }
+  const actualColumns = columnsOf(actualRows);
+  const budgetColumns = columnsOf(budgetRows);
+  const candidates = [
+    ...(roles.category || []),
+    ...actualColumns.filter((column) => ACCOUNT_PATTERN.test(column)),
+  ];
+  for (const actual of candidates) {
+    if (isNumericColumn(actualRows, actual)) continue;
+    const budget =
+      findColumn(budgetColumns, actual) ||
+      budgetColumns.find(
+        (column) =>
+          ACCOUNT_PATTERN.test(column) && !isNumericColumn(budgetRows, column)
+      );
+    if (budget) return { actual, budget };
+  }
+  return undefined;
+}
+
+function matchPeriods(
+  actualRows: Record<string, unknown>[],
+  budgetRows: Record<string, unknown>[],
+  settings: BudgetSettings
+): Matching["period"] {
+  const dateColumn = (rows: Record<string, unknown>[], side: string) => {
+    const detected = detectDateColumns(rows);
+    if (!settings.periodColumn) return detected[0];
+    const column = requireColumn(rows, settings.periodColumn, side);
+    return (
+      detected.find((info) => info.column === column) || {
+        column,
+        parseRate: 0,
+        allowSerial: true,
+        dayFirst: true,
+      }
+    );
+  };
+  const actual = dateColumn(actualRows, "actuals");
+  const budget = dateColumn(budgetRows, "budget");
+  return actual && budget ? { actual, budget } : undefined;
+}
+
+function matchAmounts(
+  actualRows: Record<string, unknown>[],
+  budgetRows: Record<string, unknown>[],
+  settings: BudgetSettings,
+  roles: ColumnAssignment,
+  used: string[]
+): AmountPair[] {
+  const actualColumns = columnsOf(actualRows).filter(
+    (column) => !used.includes(column) && isNumericColumn(actualRows, column)
+  );
+  const budgetColumns = columnsOf(budgetRows).filter(
+    (column) => !used.includes(column) && isNumericColumn(budgetRows, column)
+  );
+
+  if (settings.actualColumn || settings.budgetColumn) {
+    const budget = settings.budgetColumn
+      ? requireColumn(budgetRows, settings.budgetColumn, "budget")
+      : budgetColumns.find((column) => BUDGET_PATTERN.test(column)) ||
+        budgetColumns[0];
+    const actual = settings.actualColumn
+      ? requireColumn(actualRows, settings.actualColumn, "actuals")
+      : (budget && findColumn(actualColumns, budget)) ||
+        actualColumns.find((column) => ACTUAL_PATTERN.test(column)) ||
+        actualColumns.find((column) => AMOUNT_PATTERN.test(column));
+    if (!actual || !budget) {
+      throw new BudgetError("Could not tell which columns hold the amounts");
+    }
+    return [{ actual, budget }];
+  }
+
+  // Amount columns both sides share by name, e.g. Revenue and Expenses
+  const shared = actualColumns
+    .map((actual) => ({ actual, budget: findColumn(budgetColumns, actual) }))
+    .filter((pair): pair is AmountPair => pair.budget !== undefined);
+  if (shared.length > 0) return shared;
+
+  const budget =
+    budgetColumns.find((column) => BUDGET_PATTERN.test(column)) ||
+    (budgetColumns.length === 1 ? budgetColumns[0] : undefined);
+  const actual =
+    actualColumns.find((column) => ACTUAL_PATTERN.test(column)) ||
+    actualColumns.find((column) => AMOUNT_PATTERN.test(column)) ||
+    (roles.revenue?.length === 1 && !roles.cost?.length
+      ? roles.revenue[0]
+      : undefined) ||
+    (roles.cost?.length === 1 && !roles.revenue?.length
+      ? roles.cost[0]
+      : undefined);
+  if (!budget) throw new BudgetError("The budget has no amount column");
+  if (!actual) {
+    throw new BudgetError(`No actuals column to compare with ${budget}`);
+  }
+  return [{ actual, budget }];
+}
+
+/* ----------   HELPERS   ---------- */
+function periodKey(date: Date, period: BudgetPeriod): string {
+  return period === "year"
+    ? String(date.getUTCFullYear())
+    : periodOf(date, period);
+}
+
+function amount(value: unknown): number {
+  const parsed = parseLooseNumber(value);
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+function lineKind(
+  account: string | undefined,
+  pair: AmountPair,
+  roles: ColumnAssignment
+): LineKind {
+  if (account && REVENUE_PATTERN.test(account)) return "Revenue";
+  if (account && EXPENSE_PATTERN.test(account)) return "Expense";
+  if (roles.revenue?.includes(pair.actual)) return "Revenue";
+  if (roles.cost?.includes(pair.actual)) return "Expense";
+  return REVENUE_PATTERN.test(pair.actual) ? "Revenue" : "Expense";
+}
+
+function varianceStatus(
+  kind: LineKind,
+  actual: number,
+  budget: number,
+  threshold: number
+): VarianceStatus {
+  if (budget === 0) return actual === 0 ? "On budget" : "Unbudgeted";
+  const share = (actual - budget) / Math.abs(budget);
+  if (Math.abs(share) < threshold) return "On budget";
+  return share > 0 === (kind === "Revenue") ? "Favorable" : "Unfavorable";
+}
+
+function varianceFields(
+  kind: LineKind,
+  actual: number,
+  budget: number,
+  threshold: number
+) {
+  return {
+    actual: currencyValue(actual),
+    budget: currencyValue(budget),
+    variance: currencyValue(actual - budget),
+    variancePercent:
+      budget === 0 ? null : percentValue((actual - budget) / Math.abs(budget)),
+    status: varianceStatus(kind, actual, budget, threshold),
+  };
+}
+
+/* ----------   PUBLIC API   ---------- */
+/**
+ * Compares actuals with a budget line by line, matching rows on account
+ * and period where both sides have them (totals only when neither does),
+ * and sums each side per line.
+ * Throws a BudgetError when the two cannot be matched.
+ */
+export function compareToBudget(
+  actualRows: Record<string, unknown>[],
+  budgetRows: Record<string, unknown>[],
+  settings: BudgetSettings,
+  roles: ColumnAssignment,
+  source: string
+): BudgetVarianceSection {
+  if (budgetRows.length === 0) throw new BudgetError("The budget is empty");
+  const threshold = settings.threshold ?? DEFAULT_VARIANCE_THRESHOLD;
+  const period = settings.period || "month";
+
+  const account = matchAccounts(actualRows, budgetRows, settings, roles);
+  const periods = matchPeriods(actualRows, budgetRows, settings);
+  const used = [
+    account?.actual,
+    account?.budget,
+    periods?.actual.column,
+    periods?.budget.column,
+  ].filter((column): column is string => Boolean(column));
+  const pairs = matchAmounts(actualRows, budgetRows, settings, roles, used);
+
+  // Line key to [actual, budget], in first-seen order
+  const lines = new Map<
+    string,
+    { account?: string; period?: string; pair: AmountPair; sums: number[] }
+  >();
+  const collect = (
+    rows: Record<string, unknown>[],
+    side: "actual" | "budget"
+  ) => {
+    const accountColumn = account?.[side];
+    const dateColumn = periods?.[side];
+    rows.forEach((row) => {
+      const accountName =
+        accountColumn && !isEmptyValue(row[accountColumn])
+          ? String(row[accountColumn]).trim()
+          : undefined;
+      const date = dateColumn
+        ? parseDateValue(row[dateColumn.column], dateColumn)
+        : null;
+      if ((accountColumn && !accountName) || (dateColumn && !date)) return;
+      const periodName = date ? periodKey(date, period) : undefined;
+
+      pairs.forEach((pair) => {
+        const key = JSON.stringify([accountName, periodName, pair.actual]);
+        const line = lines.get(key) || {
+          account: accountName,
+          period: periodName,
+          pair,
+          sums: [0, 0],
+        };
+        line.sums[side === "actual" ? 0 : 1] += amount(row[pair[side]]);
+        lines.set(key, line);
+      });
+    });
+  };
+  collect(actualRows, "actual");
+  collect(budgetRows, "budget");
+
+  const varianceLines: VarianceLine[] = Array.from(lines.values())
+    .sort(
+      (a, b) =>
+        (a.account || "").localeCompare(b.account || "") ||
+        (a.period || "").localeCompare(b.period || "")
+    )
+    .map(({ account: accountName, period: periodName, pair, sums }) => {
+      const kind = lineKind(accountName, pair, roles);
+      return {
+        ...(accountName !== undefined ? { account: accountName } : {}),
+        ...(periodName !== undefined ? { period: periodName } : {}),
+        ...(pairs.length > 1 ? { measure: pair.actual } : {}),
+        kind,
+        ...varianceFields(kind, sums[0], sums[1], threshold),
+      };
+    });
+
+  const totals = (["Revenue", "Expense"] as LineKind[]).flatMap((kind) => {
+    const members = varianceLines.filter((line) => line.kind === kind);
+    if (members.length === 0) return [];
+    const actual = members.reduce((sum, line) => sum + line.actual.value, 0);
+    const budget = members.reduce((sum, line) => sum + line.budget.value, 0);
+    return [{ kind, ...varianceFields(kind, actual, budget, threshold) }];
+  });
+  const count = (status: VarianceStatus) =>
+    countValue(varianceLines.filter((line) => line.status === status).length);
+
+  const matchedOn = [
+    account ? `account (${account.actual})` : null,
+    periods ? `${period} (${periods.actual.column})` : null,
+  ]
+    .filter(Boolean)
+    .join(" and ");
+
+  return {
+    source,
+    matchedOn: matchedOn || "totals only",
+    threshold: percentValue(threshold),
+    favorableLines: count("Favorable"),
+    unfavorableLines: count("Unfavorable"),
+    onBudgetLines: count("On budget"),
+    unbudgetedLines: count("Unbudgeted"),
+    totals,
+    lines: varianceLines.slice(0, MAX_LINES),
+  };
+}
@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { profileColumns } from "@/lib/columnProfile";
+
+describe("profileColumns", () => {
+  it("reports outliers at their source rows", () => {
+    const rows = [10, 11, 12, 10, 11, 12, 10, 500].map((Amount) => ({
+      Amount,
+    }));
+    const rowNumbers = rows.map((_, index) => index + 4);
+    const [amount] = profileColumns(rows, rowNumbers);
+    expect(amount.numeric?.outliers.iqr.rows).toEqual([
+      { row: 11, value: 500 },
+    ]);
+  });
+});
@@ -0,0 +1,352 @@
+import { HistogramBin, histogramBins } from "@/lib/reportCharts";
+import { detectDateColumns, parseDateValue } from "@/lib/timeSeries";
+
+/* ----------   TYPES   ---------- */
+export type ValueKind = "number" | "date" | "boolean" | "text" | "empty";
+
+export type ProfileType =
+  | "numeric"
+  | "date"
+  | "boolean"
+  | "categorical"
+  | "text"
+  | "empty";
+
+export interface ValueCount {
+  value: string;
+  count: number;
+  // Of the non-empty values
+  share: number;
+}
+
+export interface OutlierRow {
+  // 1-based row in the source sheet, or position among the analyzed rows
+  // when the source rows are unknown
+  row: number;
+  value: number;
+}
+
+export interface OutlierSet {
+  // Values outside [lower, upper] are outliers
+  lower: number;
+  upper: number;
+  count: number;
+  // The first MAX_OUTLIER_ROWS, in row order
+  rows: OutlierRow[];
+}
+
+export interface NumericProfile {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  q1: number;
+  q3: number;
+  stdDev: number;
+  histogram: HistogramBin[];
+  outliers: {
+    iqr: OutlierSet;
+    zScore: OutlierSet;
+  };
+}
+
+export interface TextProfile {
+  topValues: ValueCount[];
+  length: { min: number; max: number; average: number };
+}
+
+export interface DateGap {
+  from: string;
+  to: string;
+  days: number;
+}
+
+export interface DateProfile {
+  // ISO days
+  min: string;
+  max: string;
+  spanDays: number;
+  // Typical spacing of consecutive distinct dates
+  medianIntervalDays: number;
+  // Longest intervals well above the typical spacing, longest first
+  gaps: DateGap[];
+}
+
+export interface ColumnProfile {
+  column: string;
+  type: ProfileType;
+  // Share of the non-empty values that fit the type
+  typeConfidence: number;
+  count: number;
+  nullCount: number;
+  nullRate: number;
+  distinct: number;
+  numeric?: NumericProfile;
+  text?: TextProfile;
+  date?: DateProfile;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOP_VALUES = 10;
+const MAX_OUTLIER_ROWS = 20;
+const MAX_GAPS = 5;
+// Tukey's fences and the usual z-score cut-off
+const IQR_FENCE = 1.5;
+const Z_SCORE_LIMIT = 3;
+// An interval this many times the median spacing counts as a gap
+const GAP_FACTOR = 2;
+// Text columns with at most this many distinct values, repeated on average
+// at least twice, are categorical
+const CATEGORICAL_MAX_DISTINCT = 20;
+const NUMBER_TEXT_PATTERN = /^[-+]?[$€£¥]?\s*(\d{1,3}(,\d{3})+|\d*)(\.\d+)?%?$/;
+const BOOLEAN_TEXT_PATTERN = /^(true|false|yes|no|y|n)$/i;
+
+/* ----------   VALUE KINDS   ---------- */
+export function isEmptyValue(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    (typeof value === "string" && value.trim() === "")
+  );
+}
+
+/**
+ * The kind of a non-empty cell. Date strings are left as text: whether a
+ * column holds dates is decided per column by time-series detection, which
+ * also knows when a number is an Excel date serial.
+ */
+export function valueKind(value: unknown): Exclude<ValueKind, "empty"> {
+  if (value instanceof Date) return "date";
+  if (typeof value === "number") return "number";
+  if (typeof value === "boolean") return "boolean";
+  const text = String(value).trim();
+  if (BOOLEAN_TEXT_PATTERN.test(text)) return "boolean";
+  if (/\d/.test(text) && NUMBER_TEXT_PATTERN.test(text)) return "number";
+  return "text";
+}
+
+/* ----------   HELPERS   ---------- */
+function numberOf(value: unknown): number {
+  if (typeof value === "number") return value;
+  return parseFloat(String(value).replace(/[,$€£¥%\s]/g, ""));
+}
+
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Linear interpolation between the closest ranks
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function outlierSet(
+  values: { row: number; value: number }[],
+  lower: number,
+  upper: number
+): OutlierSet {
+  const outside = values.filter(({ value }) => value < lower || value > upper);
+  return {
+    lower,
+    upper,
+    count: outside.length,
+    rows: outside.slice(0, MAX_OUTLIER_ROWS),
+  };
+}
+
+function profileNumbers(
+  values: { row: number; value: number }[]
+): NumericProfile {
+  const sorted = values.map(({ value }) => value).sort((a, b) => a - b);
+  const count = sorted.length;
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / count;
+  const variance =
+    count > 1
+      ? sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+        (count - 1)
+      : 0;
+  const stdDev = Math.sqrt(variance);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const iqr = q3 - q1;
+
+  return {
+    min: sorted[0],
+    max: sorted[count - 1],
+    mean,
+    median: quantile(sorted, 0.5),
+    q1,
+    q3,
+    stdDev,
+    histogram: histogramBins(sorted),
+    outliers: {
+      iqr: outlierSet(values, q1 - IQR_FENCE * iqr, q3 + IQR_FENCE * iqr),
+      zScore: outlierSet(
+        values,
+        mean - Z_SCORE_LIMIT * stdDev,
+        mean + Z_SCORE_LIMIT * stdDev
+      ),
+    },
+  };
+}
+
+function profileText(values: string[]): TextProfile {
+  const counts = new Map<string, number>();
+  let minLength = Infinity;
+  let maxLength = 0;
+  let totalLength = 0;
+  values.forEach((value) => {
+    counts.set(value, (counts.get(value) || 0) + 1);
+    minLength = Math.min(minLength, value.length);
+    maxLength = Math.max(maxLength, value.length);
+    totalLength += value.length;
+  });
+
+  return {
+    topValues: Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, TOP_VALUES)
+      .map(([value, count]) => ({
+        value,
+        count,
+        share: count / values.length,
+      })),
+    length: {
+      min: values.length ? minLength : 0,
+      max: maxLength,
+      average: values.length ? totalLength / values.length : 0,
+    },
+  };
+}
+
+function profileDates(dates: Date[]): DateProfile {
+  const days = Array.from(
+    new Set(dates.map((date) => Math.floor(date.getTime() / DAY_MS)))
+  ).sort((a, b) => a - b);
+  const intervals = days.slice(1).map((day, index) => ({
+    from: days[index],
+    to: day,
+    days: day - days[index],
+  }));
+  const medianInterval = intervals.length
+    ? quantile(
+        intervals.map((interval) => interval.days).sort((a, b) => a - b),
+        0.5
+      )
+    : 0;
+  const toIso = (day: number) => isoDay(new Date(day * DAY_MS));
+
+  return {
+    min: toIso(days[0]),
+    max: toIso(days[days.length - 1]),
+    spanDays: days[days.length - 1] - days[0],
+    medianIntervalDays: medianInterval,
+    gaps: intervals
+      .filter(
+        (interval) => interval.days > Math.max(GAP_FACTOR * medianInterval, 1)
+      )
+      .sort((a, b) => b.days - a.days || a.from - b.from)
+      .slice(0, MAX_GAPS)
+      .map((interval) => ({
+        from: toIso(interval.from),
+        to: toIso(interval.to),
+        days: interval.days,
+      })),
+  };
+}
+
+/* ----------   PUBLIC API   ---------- */
+/**
+ * Profiles every column of the rows: its detected type and how many of the
+ * values fit it, null rate and distinct count, plus distribution, quartiles
+ * and outliers for numbers, frequent values and lengths for text, and
+ * range and gaps for dates. Values that do not fit the column's type are
+ * left out of the type-specific statistics. Outliers cite `rowNumbers`
+ * when given, so they match the rows quality issues point at.
+ */
+export function profileColumns(
+  rows: Record<string, unknown>[],
+  rowNumbers?: number[]
+): ColumnProfile[] {
+  const columns = Object.keys(rows[0] || {});
+  const dateColumns = new Map(
+    detectDateColumns(rows).map((info) => [info.column, info])
+  );
+
+  return columns.map((column): ColumnProfile => {
+    const cells = rows
+      .map((row, index) => ({
+        row: rowNumbers?.[index] ?? index + 1,
+        value: row[column],
+      }))
+      .filter(({ value }) => !isEmptyValue(value));
+    const texts = cells.map(({ value }) =>
+      value instanceof Date ? isoDay(value) : String(value).trim()
+    );
+    const distinct = new Set(texts).size;
+    const base = {
+      column,
+      count: rows.length,
+      nullCount: rows.length - cells.length,
+      nullRate: rows.length ? (rows.length - cells.length) / rows.length : 0,
+      distinct,
+    };
+    if (cells.length === 0) {
+      return { ...base, type: "empty", typeConfidence: 1 };
+    }
+
+    const dateInfo = dateColumns.get(column);
+    if (dateInfo) {
+      const dates = cells
+        .map(({ value }) =>
+          parseDateValue(value, {
+            allowSerial: dateInfo.allowSerial,
+            dayFirst: dateInfo.dayFirst,
+          })
+        )
+        .filter((date): date is Date => date !== null);
+      return {
+        ...base,
+        type: "date",
+        typeConfidence: dates.length / cells.length,
+        date: profileDates(dates),
+      };
+    }
+
+    const kinds = new Map<ValueKind, number>();
+    cells.forEach(({ value }) => {
+      const kind = valueKind(value);
+      kinds.set(kind, (kinds.get(kind) || 0) + 1);
+    });
+    const [kind, fitting] = Array.from(kinds.entries()).sort(
+      (a, b) => b[1] - a[1]
+    )[0];
+    const typeConfidence = fitting / cells.length;
+
+    if (kind === "number") {
+      const numbers = cells
+        .filter(({ value }) => valueKind(value) === "number")
+        .map(({ row, value }) => ({ row, value: numberOf(value) }))
+        .filter(({ value }) => isFinite(value));
+      return {
+        ...base,
+        type: "numeric",
+        typeConfidence,
+        numeric: profileNumbers(numbers),
+      };
+    }
+
+    const categorical =
+      distinct <= CATEGORICAL_MAX_DISTINCT && distinct * 2 <= cells.length;
+    return {
+      ...base,
+      type:
+        kind === "boolean" ? "boolean" : categorical ? "categorical" : "text",
+      typeConfidence,
+      text: profileText(texts),
+    };
+  });
+}
@@ -0,0 +1,117 @@
+import { getGenerator } from "@/lib/generators";
+
+/* ----------   TYPES   ---------- */
+// Semantic roles a generator looks for, with the label shown in the UI
+export const COLUMN_ROLES = {
+  revenue: "Revenue / sales amount",
+  cost: "Cost / spend",
+  profit: "Profit",
+  quantity: "Quantity",
+  unitsSold: "Units sold",
+  unitCost: "Unit cost",
+  reorderLevel: "Reorder level",
+  lastMovement: "Last movement date",
+  product: "Product / item",
+  customer: "Customer",
+  category: "Category",
+  location: "Location",
+  age: "Age",
+  gender: "Gender",
+  segment: "Segment",
+  orders: "Order count",
+  status: "Status / churn flag",
+  satisfaction: "Satisfaction",
+  campaign: "Campaign",
+  channel: "Channel",
+  impressions: "Impressions",
+  clicks: "Clicks",
+  conversions: "Conversions",
+  audience: "Audience",
+  process: "Process / team",
+  output: "Output",
+  target: "Target / capacity",
+  downtime: "Downtime",
+  uptime: "Uptime",
+  cycleTime: "Cycle time",
+  hours: "Hours",
+  errors: "Errors / defects",
+  efficiency: "Efficiency",
+} as const;
+
+export type ColumnRole = keyof typeof COLUMN_ROLES;
+
+// Column name to role; "none" keeps a column out of every role
+export type ColumnMapping = Record<string, ColumnRole | "none">;
+
+// Role to the columns filling it, in column order
+export type ColumnAssignment = Partial<Record<ColumnRole, string[]>>;
+
+export interface RoleRule {
+  role: ColumnRole;
+  // Tried in order; the first pattern matching any free column wins
+  patterns: RegExp[];
+  // Take every matching column instead of only the first
+  multiple?: boolean;
+  // The report is much weaker without this role; lowers confidence
+  required?: boolean;
+}
+
+/* ----------   PUBLIC API   ---------- */
+export function isColumnRole(value: unknown): value is ColumnRole {
+  return typeof value === "string" && value in COLUMN_ROLES;
+}
+
+/** Roles the given report type's generator understands, in rule order. */
+export function rolesForType(reportType: string): ColumnRole[] {
+  return (getGenerator(reportType)?.columnRoles || []).map((rule) => rule.role);
+}
+
+/**
+ * Assigns columns to the roles of a report type. Columns named in the
+ * mapping take the role given there and are never auto-assigned; a role
+ * with at least one mapped column skips auto-detection entirely.
+ */
+export function assignColumnRoles(
+  columns: string[],
+  reportType: string,
+  mapping: ColumnMapping = {}
+): ColumnAssignment {
+  const assignment: ColumnAssignment = {};
+  const claimed = new Set<string>();
+
+  columns.forEach((col) => {
+    const role = mapping[col];
+    if (!role) return;
+    claimed.add(col);
+    if (role !== "none") assignment[role] = [...(assignment[role] || []), col];
+  });
+
+  (getGenerator(reportType)?.columnRoles || []).forEach((rule) => {
+    if (assignment[rule.role]) return;
+    for (const pattern of rule.patterns) {
+      const matches = columns.filter(
+        (col) => !claimed.has(col) && pattern.test(col)
+      );
+      if (matches.length === 0) continue;
+      const picked = rule.multiple ? matches : matches.slice(0, 1);
+      picked.forEach((col) => claimed.add(col));
+      assignment[rule.role] = picked;
+      break;
+    }
+  });
+
+  return assignment;
+}
+
+/** Inverts an assignment into column name to role. */
+export function rolesByColumn(
+  assignment: ColumnAssignment
+): Record<string, ColumnRole> {
+  const byColumn: Record<string, ColumnRole> = {};
+  (Object.keys(assignment) as ColumnRole[]).forEach((role) => {
+    assignment[role]?.forEach((col) => {
+      byColumn[col] = role;
+    });
+  });
+  return byColumn;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { TableTotals } from "@/lib/aggregates";
+import {
+  capSourceRows,
+  consolidateRows,
+  SOURCE_COLUMN,
+} from "@/lib/consolidation";
+import { toNumber } from "@/lib/generators/shared";
+
+describe("consolidateRows", () => {
+  it("labels each sheet of a workbook as its own source", () => {
+    const { rows } = consolidateRows([
+      { fileName: "sales.xlsx", sheetName: "Q1", rows: [{ Sales: 1 }] },
+      { fileName: "sales.xlsx", sheetName: "Q2", rows: [{ Sales: 2 }] },
+      { fileName: "extra.csv", rows: [{ sales: 3 }] },
+    ]);
+    expect(rows.map((row) => row[SOURCE_COLUMN])).toEqual([
+      "sales.xlsx (Q1)",
+      "sales.xlsx (Q2)",
+      "extra.csv",
+    ]);
+    expect(rows.map((row) => row.Sales)).toEqual([1, 2, 3]);
+  });
+});
+
+describe("capSourceRows", () => {
+  it("cuts each source in proportion to its full row count", () => {
+    const rows = (count: number) =>
+      Array.from({ length: count }, (_, index) => ({ Sales: index }));
+    const totals = (count: number) =>
+      TableTotals.fromRows(rows(count), toNumber);
+    const capped = capSourceRows(
+      [
+        { fileName: "big.csv", rows: rows(80), totals: totals(300) },
+        { fileName: "small.csv", rows: rows(60), totals: totals(60) },
+      ],
+      90
+    );
+    expect(capped.map((input) => input.rows.length)).toEqual([75, 15]);
+
+    const { sources, totals: combined } = consolidateRows(capped);
+    expect(sources).toEqual([
+      { fileName: "big.csv", rows: 300, sampledRows: 75 },
+      { fileName: "small.csv", rows: 60, sampledRows: 15 },
+    ]);
+    expect(combined.rowCount).toBe(360);
+  });
+});
@@ -0,0 +1,179 @@
+import { ColumnMapping } from "@/lib/columnRoles";
+import { ReportSource } from "@/lib/reportTypes";
+import { TableTotals } from "@/lib/aggregates";
+import { toNumber } from "@/lib/generators/shared";
+
+/* ----------   TYPES   ---------- */
+export interface ConsolidationInput {
+  fileName: string;
+  sheetName?: string;
+  // The source's first rows, or all of them
+  rows: Record<string, unknown>[];
+  // Row numbers in the source sheet; positions in `rows` when omitted
+  rowNumbers?: number[];
+  // Header names; the keys of the first row when omitted
+  columns?: string[];
+  // Totals over every row of the source; taken from `rows` when omitted
+  totals?: TableTotals;
+}
+
+export interface ConsolidatedData {
+  rows: Record<string, unknown>[];
+  // Each row's number in its own source
+  rowNumbers: number[];
+  // Aligned column names, without the source column
+  columns: string[];
+  sources: ReportSource[];
+  // Totals over every row of every source, on the aligned columns
+  totals: TableTotals;
+  // The totals of each source, by its SOURCE_COLUMN value
+  sourceTotals: Map<string, TableTotals>;
+}
+
+// Added to every consolidated row; generators break their sections down by it
+export const SOURCE_COLUMN = "__source";
+
+/* ----------   HELPERS   ---------- */
+// "Net Sales", "net_sales" and " NET-SALES " all align to one column
+function normalizeHeader(header: string): string {
+  return header
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]+/g, " ");
+}
+
+function alignedName(
+  columns: Map<string, string>,
+  header: string
+): string | undefined {
+  return columns.get(normalizeHeader(header));
+}
+
+/* ----------   PUBLIC API   ---------- */
+/** The value of SOURCE_COLUMN, so sheets of one workbook stay apart. */
+export function sourceName(source: {
+  fileName: string;
+  sheetName?: string;
+}): string {
+  return source.sheetName
+    ? `${source.fileName} (${source.sheetName})`
+    : source.fileName;
+}
+
+/**
+ * Trims the inputs' rows to `limit` in all, each source keeping a share of
+ * the limit in proportion to its full row count. Applied as every input is
+ * added, so no more than one source's rows are held beyond the limit.
+ */
+export function capSourceRows(
+  inputs: ConsolidationInput[],
+  limit: number
+): ConsolidationInput[] {
+  const kept = inputs.reduce((sum, input) => sum + input.rows.length, 0);
+  if (kept <= limit) return inputs;
+
+  const rowCounts = inputs.map(
+    (input) => input.totals?.rowCount ?? input.rows.length
+  );
+  const total = rowCounts.reduce((sum, count) => sum + count, 0);
+  return inputs.map((input, index) => {
+    const share = Math.floor((limit * rowCounts[index]) / total);
+    if (input.rows.length <= share) return input;
+    return {
+      ...input,
+      rows: input.rows.slice(0, share),
+      rowNumbers: input.rowNumbers?.slice(0, share),
+    };
+  });
+}
+
+/**
+ * Unions the rows of several files or sheets into one table. Columns are
+ * aligned by normalized header name, keeping the first spelling seen, and
+ * rows missing a column get a blank value like any other empty cell.
+ */
+export function consolidateRows(
+  inputs: ConsolidationInput[]
+): ConsolidatedData {
+  const aligned = new Map<string, string>();
+  inputs.forEach((input) => {
+    (input.columns || Object.keys(input.rows[0] || {})).forEach((header) => {
+      const key = normalizeHeader(header);
+      if (header !== SOURCE_COLUMN && !aligned.has(key)) {
+        aligned.set(key, header);
+      }
+    });
+  });
+  const columns = Array.from(aligned.values());
+
+  const rows = inputs.flatMap((input) =>
+    input.rows.map((row) => {
+      const record: Record<string, unknown> = {};
+      columns.forEach((column) => {
+        record[column] = "";
+      });
+      Object.entries(row).forEach(([header, value]) => {
+        const column = alignedName(aligned, header);
+        if (column && (record[column] === "" || record[column] === undefined)) {
+          record[column] = value;
+        }
+      });
+      record[SOURCE_COLUMN] = sourceName(input);
+      return record;
+    })
+  );
+
+  const totals = new TableTotals(toNumber);
+  const sourceTotals = new Map<string, TableTotals>();
+  const sources = inputs.map((input) => {
+    const inputTotals = (
+      input.totals || TableTotals.fromRows(input.rows, toNumber)
+    ).renamed((header) => alignedName(aligned, header));
+    totals.merge(inputTotals);
+    sourceTotals.set(sourceName(input), inputTotals);
+    return {
+      fileName: input.fileName,
+      ...(input.sheetName ? { sheetName: input.sheetName } : {}),
+      rows: inputTotals.rowCount,
+      ...(input.rows.length < inputTotals.rowCount
+        ? { sampledRows: input.rows.length }
+        : {}),
+    };
+  });
+
+  return {
+    rows,
+    rowNumbers: inputs.flatMap((input) =>
+      input.rows.map((_, index) => input.rowNumbers?.[index] ?? index + 1)
+    ),
+    columns,
+    sources,
+    totals,
+    sourceTotals,
+  };
+}
+
+/** Merges per-file column mappings onto the aligned column names. */
+export function alignColumnMapping(
+  mappings: ColumnMapping[],
+  columns: string[]
+): ColumnMapping {
+  const aligned = new Map(
+    columns.map((column) => [normalizeHeader(column), column])
+  );
+  const merged: ColumnMapping = {};
+  mappings.forEach((mapping) => {
+    Object.entries(mapping).forEach(([header, role]) => {
+      const column = alignedName(aligned, header);
+      if (column && !(column in merged)) merged[column] = role;
+    });
+  });
+  return merged;
+}
+
+/** A readable name for the consolidated report, listing a few sources. */
+export function consolidatedFileName(fileNames: string[]): string {
+  const unique = Array.from(new Set(fileNames));
+  if (unique.length <= 3) return unique.join(" + ");
+  return `${unique.slice(0, 2).join(" + ")} + ${unique.length - 2} more`;
+}
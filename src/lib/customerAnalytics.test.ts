@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { analyzeCustomers } from "@/lib/customerAnalytics";
+
+describe("analyzeCustomers", () => {
+  it("counts customers with more than one order as repeat customers", () => {
+    const analytics = analyzeCustomers(
+      [
+        { Customer: "A", Date: "2024-01-05", Sales: 10 },
+        { Customer: "A", Date: "2024-01-05", Sales: 15 },
+        { Customer: "B", Date: "2024-01-02", Sales: 20 },
+        { Customer: "B", Date: "2024-01-12", Sales: 30 },
+        { Customer: "C", Date: "2024-01-08", Sales: 40 },
+      ],
+      { customer: ["Customer"], revenue: ["Sales"] }
+    );
+    expect(analytics?.lifetime.repeatCustomers).toBe(2);
+    // Only B bought on two different days
+    expect(analytics?.lifetime.avgDaysBetweenPurchases).toBe(10);
+  });
+});
@@ -0,0 +1,380 @@
+import { isEmptyValue } from "@/lib/columnProfile";
+import { parseLooseNumber } from "@/lib/generators/shared";
+import { detectDateColumns, parseDateValue, periodOf } from "@/lib/timeSeries";
+
+/* ----------   TYPES   ---------- */
+export interface CustomerColumns {
+  customer: string[];
+  revenue: string[];
+}
+
+// Recency, frequency and monetary value of one customer, each scored 1-5
+// against the other customers (5 is best)
+export interface RfmScore {
+  customer: string;
+  firstPurchase: string;
+  lastPurchase: string;
+  recencyDays: number;
+  frequency: number;
+  monetary: number;
+  recencyScore: number;
+  frequencyScore: number;
+  monetaryScore: number;
+  segment: RfmSegment;
+}
+
+export type RfmSegment =
+  | "Champions"
+  | "Loyal Customers"
+  | "New Customers"
+  | "Potential Loyalists"
+  | "At Risk"
+  | "Hibernating"
+  | "Lost";
+
+export interface SegmentSummary {
+  segment: RfmSegment;
+  customers: number;
+  revenue: number;
+  avgRecencyDays: number;
+  avgOrders: number;
+  action: string;
+}
+
+// Customers acquired in a month and the share of them buying again in each
+// later month; null where the month is past the end of the data
+export interface Cohort {
+  cohort: string;
+  customers: number;
+  retention: (number | null)[];
+}
+
+export interface CustomerLifetime {
+  customers: number;
+  orders: number;
+  revenue: number;
+  avgOrderValue: number;
+  avgOrderFrequency: number;
+  repeatCustomers: number;
+  avgDaysBetweenPurchases: number | null;
+  avgLifespanMonths: number;
+  avgMonthlyValue: number;
+  historicalClv: number;
+}
+
+export interface CustomerAnalytics {
+  dateColumn: string;
+  asOf: string;
+  // Rows left out for lacking a customer or a readable date
+  skippedRows: number;
+  lifetime: CustomerLifetime;
+  customers: RfmScore[];
+  segments: SegmentSummary[];
+  cohorts: Cohort[];
+}
+
+interface CustomerHistory {
+  customer: string;
+  dates: Date[];
+  revenue: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_DAYS = 30.44;
+const SCORE_BANDS = 5;
+// The most recent cohorts, and months after acquisition, that are tracked
+const MAX_COHORTS = 24;
+const MAX_COHORT_MONTHS = 12;
+
+// Checked in order; the first matching rule names the segment. "fm" is the
+// rounded mean of the frequency and monetary scores.
+const SEGMENT_RULES: {
+  segment: RfmSegment;
+  action: string;
+  matches: (r: number, f: number, fm: number) => boolean;
+}[] = [
+  {
+    segment: "Champions",
+    action: "Reward them and ask for referrals",
+    matches: (r, _f, fm) => r >= 4 && fm >= 4,
+  },
+  {
+    segment: "Loyal Customers",
+    action: "Offer loyalty perks and upsell higher-value products",
+    matches: (r, _f, fm) => r >= 3 && fm >= 3,
+  },
+  {
+    segment: "New Customers",
+    action: "Onboard them and encourage a second purchase",
+    matches: (r, f) => r >= 4 && f === 1,
+  },
+  {
+    segment: "Potential Loyalists",
+    action: "Recommend related products to build the habit",
+    matches: (r) => r >= 3,
+  },
+  {
+    segment: "At Risk",
+    action: "Win them back with personalised offers",
+    matches: (r, _f, fm) => fm >= 3,
+  },
+  {
+    segment: "Hibernating",
+    action: "Re-engage with limited-time promotions",
+    matches: (r) => r === 2,
+  },
+  {
+    segment: "Lost",
+    action: "Survey or reactivate only if cheap to reach",
+    matches: () => true,
+  },
+];
+
+/* ----------   HELPERS   ---------- */
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function average(values: number[]): number {
+  return values.length === 0
+    ? 0
+    : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function monthIndex(date: Date): number {
+  return date.getUTCFullYear() * 12 + date.getUTCMonth();
+}
+
+// 1-5 by the share of customers with a worse value, so ties share a score
+function quantileScores(values: number[], higherIsBetter: boolean): number[] {
+  const sorted = [...values].sort((a, b) => a - b);
+  const countBelow = (value: number) => {
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (sorted[mid] < value) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  };
+  const countAbove = (value: number) => {
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (sorted[mid] <= value) low = mid + 1;
+      else high = mid;
+    }
+    return sorted.length - low;
+  };
+  return values.map((value) => {
+    const worse = higherIsBetter ? countBelow(value) : countAbove(value);
+    return 1 + Math.floor((SCORE_BANDS * worse) / values.length);
+  });
+}
+
+function segmentRule(r: number, f: number, m: number) {
+  const fm = Math.round((f + m) / 2);
+  return (
+    SEGMENT_RULES.find((rule) => rule.matches(r, f, fm)) ||
+    SEGMENT_RULES[SEGMENT_RULES.length - 1]
+  );
+}
+
+function customerKey(
+  row: Record<string, unknown>,
+  columns: string[]
+): string | null {
+  const column = columns.find((name) => !isEmptyValue(row[name]));
+  return column ? String(row[column]).trim() : null;
+}
+
+function rowRevenue(row: Record<string, unknown>, columns: string[]): number {
+  return columns.reduce((sum, column) => {
+    const value = parseLooseNumber(row[column]);
+    return sum + (isNaN(value) ? 0 : value);
+  }, 0);
+}
+
+/* ----------   ANALYSES   ---------- */
+function scoreCustomers(histories: CustomerHistory[], asOf: Date): RfmScore[] {
+  const recency = histories.map(({ dates }) =>
+    Math.floor((asOf.getTime() - dates[dates.length - 1].getTime()) / DAY_MS)
+  );
+  const recencyScores = quantileScores(recency, false);
+  const frequencyScores = quantileScores(
+    histories.map(({ dates }) => dates.length),
+    true
+  );
+  const monetaryScores = quantileScores(
+    histories.map(({ revenue }) => revenue),
+    true
+  );
+
+  return histories.map((history, index) => {
+    const r = recencyScores[index];
+    const f = frequencyScores[index];
+    const m = monetaryScores[index];
+    return {
+      customer: history.customer,
+      firstPurchase: isoDay(history.dates[0]),
+      lastPurchase: isoDay(history.dates[history.dates.length - 1]),
+      recencyDays: recency[index],
+      frequency: history.dates.length,
+      monetary: history.revenue,
+      recencyScore: r,
+      frequencyScore: f,
+      monetaryScore: m,
+      segment: segmentRule(r, f, m).segment,
+    };
+  });
+}
+
+function summarizeSegments(scores: RfmScore[]): SegmentSummary[] {
+  return SEGMENT_RULES.map(({ segment, action }) => {
+    const members = scores.filter((score) => score.segment === segment);
+    return {
+      segment,
+      customers: members.length,
+      revenue: members.reduce((sum, score) => sum + score.monetary, 0),
+      avgRecencyDays: average(members.map((score) => score.recencyDays)),
+      avgOrders: average(members.map((score) => score.frequency)),
+      action,
+    };
+  }).filter((summary) => summary.customers > 0);
+}
+
+function buildCohorts(histories: CustomerHistory[], asOf: Date): Cohort[] {
+  const lastMonth = monthIndex(asOf);
+  const cohorts = new Map<
+    string,
+    { start: number; customers: number; active: number[] }
+  >();
+
+  histories.forEach(({ dates }) => {
+    const start = monthIndex(dates[0]);
+    const label = periodOf(dates[0], "month");
+    const cohort = cohorts.get(label) || {
+      start,
+      customers: 0,
+      active: new Array(MAX_COHORT_MONTHS + 1).fill(0),
+    };
+    cohort.customers++;
+    new Set(dates.map((date) => monthIndex(date) - start)).forEach((offset) => {
+      if (offset <= MAX_COHORT_MONTHS) cohort.active[offset]++;
+    });
+    cohorts.set(label, cohort);
+  });
+
+  return Array.from(cohorts.entries())
+    .sort((a, b) => a[1].start - b[1].start)
+    .slice(-MAX_COHORTS)
+    .map(([cohort, { start, customers, active }]) => ({
+      cohort,
+      customers,
+      retention: active.map((count, offset) =>
+        start + offset > lastMonth ? null : count / customers
+      ),
+    }));
+}
+
+// Historical lifetime value: what a customer has been worth per month of
+// their lifespan, times the average lifespan. A customer whose purchases all
+// fall within one month counts as a one-month lifespan.
+function measureLifetime(histories: CustomerHistory[]): CustomerLifetime {
+  const orders = histories.reduce((sum, { dates }) => sum + dates.length, 0);
+  const revenue = histories.reduce((sum, history) => sum + history.revenue, 0);
+
+  // A repeat customer has more than one order, as in the sales repeat rate;
+  // the gap between purchases only counts customers who bought on two days
+  const repeat = histories.filter(({ dates }) => dates.length > 1);
+  const gaps = repeat.flatMap(({ dates }) => {
+    const distinctDays = new Set(dates.map(isoDay)).size;
+    const span = dates[dates.length - 1].getTime() - dates[0].getTime();
+    return distinctDays > 1 ? [span / DAY_MS / (distinctDays - 1)] : [];
+  });
+
+  const lifespans = histories.map(
+    ({ dates }) =>
+      (dates[dates.length - 1].getTime() - dates[0].getTime()) /
+        DAY_MS /
+        MONTH_DAYS +
+      1
+  );
+  const avgLifespanMonths = average(lifespans);
+  const avgMonthlyValue = average(
+    histories.map((history, index) => history.revenue / lifespans[index])
+  );
+
+  return {
+    customers: histories.length,
+    orders,
+    revenue,
+    avgOrderValue: orders > 0 ? revenue / orders : 0,
+    avgOrderFrequency: histories.length > 0 ? orders / histories.length : 0,
+    repeatCustomers: repeat.length,
+    avgDaysBetweenPurchases: gaps.length > 0 ? average(gaps) : null,
+    avgLifespanMonths,
+    avgMonthlyValue,
+    historicalClv: avgMonthlyValue * avgLifespanMonths,
+  };
+}
+
+/* ----------   PUBLIC API   ---------- */
+/**
+ * RFM scores and segments, monthly acquisition cohorts and lifetime value
+ * for the customers in the data, treating each row as one order. Returns
+ * null without a customer column or a usable date column.
+ */
+export function analyzeCustomers(
+  data: Record<string, unknown>[],
+  columns: CustomerColumns
+): CustomerAnalytics | null {
+  if (columns.customer.length === 0) return null;
+  const dateColumn = detectDateColumns(data)[0];
+  if (!dateColumn) return null;
+
+  const byCustomer = new Map<string, CustomerHistory>();
+  let skippedRows = 0;
+  data.forEach((row) => {
+    const customer = customerKey(row, columns.customer);
+    const date = parseDateValue(row[dateColumn.column], dateColumn);
+    if (!customer || !date) {
+      skippedRows++;
+      return;
+    }
+    const history = byCustomer.get(customer) || {
+      customer,
+      dates: [],
+      revenue: 0,
+    };
+    history.dates.push(date);
+    history.revenue += rowRevenue(row, columns.revenue);
+    byCustomer.set(customer, history);
+  });
+  if (byCustomer.size === 0) return null;
+
+  const histories = Array.from(byCustomer.values());
+  histories.forEach(({ dates }) =>
+    dates.sort((a, b) => a.getTime() - b.getTime())
+  );
+  const asOf = new Date(
+    histories.reduce(
+      (latest, { dates }) =>
+        Math.max(latest, dates[dates.length - 1].getTime()),
+      -Infinity
+    )
+  );
+  const customers = scoreCustomers(histories, asOf);
+
+  return {
+    dateColumn: dateColumn.column,
+    asOf: isoDay(asOf),
+    skippedRows,
+    lifetime: measureLifetime(histories),
+    customers,
+    segments: summarizeSegments(customers),
+    cohorts: buildCohorts(histories, asOf),
+  };
+}
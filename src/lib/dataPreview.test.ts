@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { buildDataset, queryDataset } from "@/lib/dataPreview";
+
+const query = { page: 1, pageSize: 10, filters: {} };
+
+describe("queryDataset", () => {
+  it("sorts and shows Excel serial dates as dates", () => {
+    const dataset = buildDataset([
+      { "Order Date": 45300, Sales: 1 },
+      { "Order Date": 45292, Sales: 2 },
+      { "Order Date": 45310, Sales: 3 },
+    ]);
+    const page = queryDataset(dataset, { ...query, sort: "Order Date" });
+    expect(page.rows.map((row) => row.values["Order Date"])).toEqual([
+      "2024-01-01",
+      "2024-01-09",
+      "2024-01-19",
+    ]);
+  });
+
+  it("sorts dd/mm/yyyy strings day first", () => {
+    const dataset = buildDataset([
+      { Date: "02/03/2024" },
+      { Date: "25/01/2024" },
+      { Date: "10/02/2024" },
+    ]);
+    const page = queryDataset(dataset, { ...query, sort: "Date" });
+    expect(page.rows.map((row) => row.values.Date)).toEqual([
+      "25/01/2024",
+      "10/02/2024",
+      "02/03/2024",
+    ]);
+  });
+});
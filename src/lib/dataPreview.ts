@@ -0,0 +1,320 @@
+import { isEmptyValue, ProfileType, profileColumns } from "@/lib/columnProfile";
+import type { QualityIssue } from "@/lib/qualityRules";
+import {
+  DateColumnInfo,
+  detectDateColumns,
+  parseDateValue,
+} from "@/lib/timeSeries";
+
+/* ----------   TYPES   ---------- */
+export interface PreviewColumn {
+  name: string;
+  type: ProfileType;
+}
+
+// The rows a report was generated from, stored beside it
+export interface ReportDataset {
+  columns: PreviewColumn[];
+  rows: Record<string, unknown>[];
+  // Each row's number in its source sheet or file
+  rowNumbers?: number[];
+}
+
+export interface PreviewQuery {
+  // 1-based
+  page: number;
+  pageSize: number;
+  sort?: string;
+  descending?: boolean;
+  // Column name to filter text; see matchesFilter
+  filters: Record<string, string>;
+}
+
+export interface PreviewRow {
+  // 1-based position among the analyzed rows, as in quality issues
+  row: number;
+  // Row number in the source sheet or file, when stored
+  sourceRow?: number;
+  values: Record<string, unknown>;
+  // Column name to the data-quality messages for that cell
+  issues?: Record<string, string[]>;
+  // Messages about the whole row, such as duplicates
+  rowIssues?: string[];
+}
+
+export interface PreviewPage {
+  columns: PreviewColumn[];
+  rows: PreviewRow[];
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  // Rows left after filtering, and before
+  matchingRows: number;
+  totalRows: number;
+}
+
+// Thrown for query strings that cannot be applied to the dataset
+export class PreviewQueryError extends Error {}
+
+export const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+// Query parameters starting with this filter the named column
+export const FILTER_PARAM_PREFIX = "filter.";
+const NUMBER_FILTER_PATTERN = /^(<=|>=|!=|<|>|=)\s*(-?\d+(\.\d+)?)$/;
+
+/* ----------   HELPERS   ---------- */
+function positiveInteger(value: string | null, fallback: number): number {
+  if (value === null || value === "") return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new PreviewQueryError(`Expected a positive whole number: ${value}`);
+  }
+  return number;
+}
+
+function cellText(value: unknown): string {
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return isEmptyValue(value) ? "" : String(value).trim();
+}
+
+function cellNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  return parseFloat(cellText(value).replace(/[,$€£¥%\s]/g, ""));
+}
+
+function cellDate(value: unknown, dateInfo?: DateColumnInfo): number {
+  return parseDateValue(value, dateInfo)?.getTime() ?? NaN;
+}
+
+// Excel serial numbers in a date column read as dates; other cells as stored
+function displayValue(value: unknown, dateInfo?: DateColumnInfo): unknown {
+  if (typeof value !== "number" || !dateInfo?.allowSerial) return value;
+  const date = parseDateValue(value, dateInfo);
+  return date ? cellText(date) : value;
+}
+
+// How each date column's cells were detected, as time-series analysis does
+function dateColumnInfo(dataset: ReportDataset): Map<string, DateColumnInfo> {
+  const dateColumns = new Set(
+    dataset.columns
+      .filter((column) => column.type === "date")
+      .map((column) => column.name)
+  );
+  return new Map(
+    detectDateColumns(dataset.rows)
+      .filter((info) => dateColumns.has(info.column))
+      .map((info) => [info.column, info])
+  );
+}
+
+// Numeric columns take comparisons such as ">= 100"; anything else is a
+// case-insensitive substring match on the cell text
+function matchesFilter(
+  value: unknown,
+  filter: string,
+  type: ProfileType
+): boolean {
+  const comparison =
+    type === "numeric" ? filter.match(NUMBER_FILTER_PATTERN) : null;
+  if (comparison) {
+    const number = cellNumber(value);
+    if (isNaN(number)) return false;
+    const target = parseFloat(comparison[2]);
+    switch (comparison[1]) {
+      case "<":
+        return number < target;
+      case "<=":
+        return number <= target;
+      case ">":
+        return number > target;
+      case ">=":
+        return number >= target;
+      case "!=":
+        return number !== target;
+      default:
+        return number === target;
+    }
+  }
+  return cellText(value).toLowerCase().includes(filter.toLowerCase());
+}
+
+// Empty cells sort last in either direction
+function sortRows(
+  rows: PreviewRow[],
+  column: PreviewColumn,
+  descending: boolean,
+  dateInfo?: DateColumnInfo
+): PreviewRow[] {
+  const key =
+    column.type === "numeric"
+      ? cellNumber
+      : column.type === "date"
+      ? (value: unknown) => cellDate(value, dateInfo)
+      : null;
+  const direction = descending ? -1 : 1;
+
+  return rows
+    .map((row) => {
+      const value = row.values[column.name];
+      const sortKey = key ? key(value) : cellText(value);
+      const empty =
+        isEmptyValue(value) || (typeof sortKey === "number" && isNaN(sortKey));
+      return { row, sortKey, empty };
+    })
+    .sort((a, b) => {
+      if (a.empty || b.empty) return Number(a.empty) - Number(b.empty);
+      const order =
+        typeof a.sortKey === "number" && typeof b.sortKey === "number"
+          ? a.sortKey - b.sortKey
+          : String(a.sortKey).localeCompare(String(b.sortKey), undefined, {
+              numeric: true,
+            });
+      return order * direction || a.row.row - b.row.row;
+    })
+    .map(({ row }) => row);
+}
+
+/* ----------   PUBLIC API   ---------- */
+/** The dataset to store with a report, typed by its column profile. */
+export function buildDataset(
+  rows: Record<string, unknown>[],
+  rowNumbers?: number[]
+): ReportDataset {
+  return {
+    columns: profileColumns(rows).map((column) => ({
+      name: column.column,
+      type: column.type,
+    })),
+    rows,
+    ...(rowNumbers ? { rowNumbers } : {}),
+  };
+}
+
+/**
+ * Reads `page`, `pageSize`, `sort`, `order` (asc or desc) and one
+ * `filter.<column>` parameter per filtered column.
+ */
+export function parsePreviewQuery(params: URLSearchParams): PreviewQuery {
+  const order = params.get("order");
+  if (order && order !== "asc" && order !== "desc") {
+    throw new PreviewQueryError(`Unknown sort order: ${order}`);
+  }
+  const filters: Record<string, string> = {};
+  params.forEach((value, key) => {
+    if (key.startsWith(FILTER_PARAM_PREFIX) && value.trim()) {
+      filters[key.slice(FILTER_PARAM_PREFIX.length)] = value.trim();
+    }
+  });
+
+  return {
+    page: positiveInteger(params.get("page"), 1),
+    pageSize: Math.min(
+      positiveInteger(params.get("pageSize"), DEFAULT_PAGE_SIZE),
+      MAX_PAGE_SIZE
+    ),
+    ...(params.get("sort") ? { sort: params.get("sort")! } : {}),
+    descending: order === "desc",
+    filters,
+  };
+}
+
+/**
+ * Filters, sorts and pages the dataset, attaching each row's data-quality
+ * issues. Issues beyond those kept in the report are not highlighted.
+ */
+export function queryDataset(
+  dataset: ReportDataset,
+  query: PreviewQuery,
+  issues: QualityIssue[] = []
+): PreviewPage {
+  const columns = new Map(
+    dataset.columns.map((column) => [column.name, column])
+  );
+  const unknown = [query.sort, ...Object.keys(query.filters)].find(
+    (name) => name !== undefined && !columns.has(name)
+  );
+  if (unknown !== undefined) {
+    throw new PreviewQueryError(`Unknown column: ${unknown}`);
+  }
+
+  const dateColumns = dateColumnInfo(dataset);
+
+  let rows: PreviewRow[] = dataset.rows.map((values, index) => ({
+    row: index + 1,
+    ...(dataset.rowNumbers ? { sourceRow: dataset.rowNumbers[index] } : {}),
+    values,
+  }));
+  Object.entries(query.filters).forEach(([name, filter]) => {
+    const column = columns.get(name)!;
+    const dateInfo = dateColumns.get(name);
+    rows = rows.filter((row) =>
+      matchesFilter(
+        displayValue(row.values[name], dateInfo),
+        filter,
+        column.type
+      )
+    );
+  });
+  if (query.sort) {
+    rows = sortRows(
+      rows,
+      columns.get(query.sort)!,
+      Boolean(query.descending),
+      dateColumns.get(query.sort)
+    );
+  }
+
+  const totalPages = Math.max(1, Math.ceil(rows.length / query.pageSize));
+  const page = Math.min(query.page, totalPages);
+  const start = (page - 1) * query.pageSize;
+
+  const issuesByRow = new Map<number, QualityIssue[]>();
+  issues.forEach((issue) => {
+    if (issue.row === null) return;
+    issuesByRow.set(issue.row, [...(issuesByRow.get(issue.row) || []), issue]);
+  });
+  const serialColumns = Array.from(dateColumns.values()).filter(
+    (info) => info.allowSerial
+  );
+
+  return {
+    columns: dataset.columns,
+    rows: rows.slice(start, start + query.pageSize).map((entry) => {
+      const row = serialColumns.length
+        ? {
+            ...entry,
+            values: {
+              ...entry.values,
+              ...Object.fromEntries(
+                serialColumns.map((info) => [
+                  info.column,
+                  displayValue(entry.values[info.column], info),
+                ])
+              ),
+            },
+          }
+        : entry;
+      const rowIssues = issuesByRow.get(row.row);
+      if (!rowIssues) return row;
+      const cells: Record<string, string[]> = {};
+      const whole: string[] = [];
+      rowIssues.forEach((issue) => {
+        if (columns.has(issue.column)) {
+          cells[issue.column] = [...(cells[issue.column] || []), issue.message];
+        } else {
+          whole.push(`${issue.rule}: ${issue.message}`);
+        }
+      });
+      return {
+        ...row,
+        ...(Object.keys(cells).length ? { issues: cells } : {}),
+        ...(whole.length ? { rowIssues: whole } : {}),
+      };
+    }),
+    page,
+    pageSize: query.pageSize,
+    totalPages,
+    matchingRows: rows.length,
+    totalRows: dataset.rows.length,
+  };
+}
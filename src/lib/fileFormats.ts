@@ -0,0 +1,59 @@
+/* ----------   TYPES   ---------- */
+export type FileFormatId = "delimited" | "workbook" | "json" | "pdf";
+
+export interface FileFormatInfo {
+  id: FileFormatId;
+  label: string;
+  // Lowercase, without the leading dot
+  extensions: string[];
+}
+
+// Data rows kept per sheet or table for the row-level sections (rankings,
+// time series, quality checks) and the stored dataset, which keeps memory
+// bounded. Later rows still count toward the totals and column stats.
+export const MAX_SAMPLE_ROWS = 100_000;
+
+/* ----------   FORMAT REGISTRY   ---------- */
+// Upload formats and the extensions that select them. The parsers for each
+// format are registered in fileParser; this list stays free of them so the
+// browser can build its file picker from it.
+export const FILE_FORMATS: FileFormatInfo[] = [
+  {
+    id: "delimited",
+    label: "CSV, TSV and delimited text",
+    extensions: ["csv", "tsv", "txt"],
+  },
+  {
+    id: "workbook",
+    label: "Excel and OpenDocument spreadsheets",
+    extensions: ["xlsx", "xls", "ods"],
+  },
+  {
+    id: "json",
+    label: "JSON and JSON Lines",
+    extensions: ["json", "jsonl", "ndjson"],
+  },
+  { id: "pdf", label: "PDF tables (text-based)", extensions: ["pdf"] },
+];
+
+/* ----------   PUBLIC API   ---------- */
+export function fileExtension(fileName: string): string {
+  return fileName.split(".").pop()?.toLowerCase() || "";
+}
+
+export function formatForFile(fileName: string): FileFormatInfo | undefined {
+  const extension = fileExtension(fileName);
+  return FILE_FORMATS.find((format) => format.extensions.includes(extension));
+}
+
+/** Every supported extension, in registry order. */
+export function supportedExtensions(): string[] {
+  return FILE_FORMATS.flatMap((format) => format.extensions);
+}
+
+/** The `accept` attribute for a file input, e.g. ".csv,.tsv,.txt,...". */
+export function acceptedFileTypes(): string {
+  return supportedExtensions()
+    .map((extension) => `.${extension}`)
+    .join(",");
+}
@@ -0,0 +1,49 @@
+import ExcelJS from "exceljs";
+import { describe, expect, it } from "vitest";
+import { MAX_SAMPLE_ROWS } from "@/lib/fileFormats";
+import { parseFile } from "@/lib/fileParser";
+
+describe("parseFile", () => {
+  it("totals every row but keeps only the sample", async () => {
+    const rowCount = MAX_SAMPLE_ROWS + 5;
+    const lines = ["Region,Sales"];
+    for (let index = 0; index < rowCount; index++) {
+      lines.push(`${index % 2 ? "North" : "South"},2`);
+    }
+    const [sheet] = await parseFile(new File([lines.join("\n")], "big.csv"));
+
+    expect(sheet.rows).toHaveLength(MAX_SAMPLE_ROWS);
+    expect(sheet.rowCount).toBe(rowCount);
+    expect(sheet.totals.rowCount).toBe(rowCount);
+    expect(sheet.totals.sum("Sales")).toBe(rowCount * 2);
+    expect(sheet.totals.distinct(["Region"])).toBe(2);
+  });
+
+  it("streams workbook sheets with their merged headers", async () => {
+    const workbook = new ExcelJS.Workbook();
+    const summary = workbook.addWorksheet("Summary");
+    summary.addRow(["Note"]);
+    summary.addRow(["Quarterly figures"]);
+    const data = workbook.addWorksheet("Data");
+    data.addRow(["Quarterly sales"]);
+    data.addRow([]);
+    data.addRow(["Region", "Sales", null]);
+    data.addRow(["", "Q1", "Q2"]);
+    data.addRow(["North", 10, 20]);
+    data.addRow(["South", 30, 40]);
+    data.mergeCells("B3:C3");
+    const buffer = await workbook.xlsx.writeBuffer();
+
+    const sheets = await parseFile(new File([buffer], "sales.xlsx"));
+    expect(sheets.map((sheet) => sheet.name)).toEqual(["Summary", "Data"]);
+
+    const sheet = sheets[1];
+    expect(sheet.columns).toEqual(["Region", "Sales Q1", "Sales Q2"]);
+    expect(sheet.rows).toEqual([
+      { Region: "North", "Sales Q1": 10, "Sales Q2": 20 },
+      { Region: "South", "Sales Q1": 30, "Sales Q2": 40 },
+    ]);
+    expect(sheet.rowNumbers).toEqual([5, 6]);
+    expect(sheet.totals.sum("Sales Q2")).toBe(60);
+  });
+});
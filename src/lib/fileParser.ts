@@ -0,0 +1,963 @@
+import * as Papa from "papaparse";
+// Reads every workbook format; exports are written with ExcelJS instead, see
+// reportWorkbook
+import * as XLSX from "xlsx";
+import ExcelJS from "exceljs";
+import JSZip from "jszip";
+import { Readable } from "stream";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import { ReportProfile, SkippedRow, TableLayout } from "@/lib/reportTypes";
+import {
+  fileExtension,
+  FileFormatId,
+  formatForFile,
+  MAX_SAMPLE_ROWS,
+} from "@/lib/fileFormats";
+import { ColumnAccumulator, TableTotals } from "@/lib/aggregates";
+import { toNumber } from "@/lib/generators/shared";
+import { jsonTables, parseJsonText } from "@/lib/jsonTable";
+import { readPdfRows } from "@/lib/pdfTable";
+
+/* ----------   TYPES   ---------- */
+export interface ParsedSheet {
+  name: string;
+  columns: string[];
+  // The first MAX_SAMPLE_ROWS data rows, for row-level analysis
+  rows: Record<string, unknown>[];
+  // Data rows in the table; more than rows.length past MAX_SAMPLE_ROWS
+  rowCount: number;
+  // Row count and column totals over every data row, sampled or not
+  totals: TableTotals;
+  // 1-based row of each row in the sheet or file, as shown to the user
+  rowNumbers: number[];
+  layout: TableLayout;
+}
+
+export interface SheetInspection {
+  name: string;
+  rowCount: number;
+  columnCount: number;
+  range: string;
+  headers: string[];
+  preview: Record<string, unknown>[];
+  empty: boolean;
+  // Report type the preview suggests, so the UI can propose column roles
+  detectedType?: string;
+}
+
+export interface FileInspection {
+  fileName: string;
+  format: string;
+  sheets: SheetInspection[];
+  // Saved profile whose header set matches one of the sheets
+  profile?: ReportProfile;
+  error?: string;
+}
+
+export interface ParseOptions {
+  // Restrict a workbook to these sheets; all non-empty sheets when omitted
+  sheets?: string[];
+}
+
+const PREVIEW_ROWS = 5;
+// Title blocks above the header row rarely run longer than this
+const HEADER_SCAN_ROWS = 20;
+const TOTAL_ROW_PATTERN =
+  /^(grand\s+|sub[\s-]?)?totals?(\s*[:\-–]|\s+for\b|$)/i;
+const NOTE_ROW_PATTERN = /^(notes?\b|source\b|\*)/i;
+// Candidates when sniffing the delimiter of a text file
+const SNIFFED_DELIMITERS = [",", "\t", ";", "|"];
+
+/* ----------   HELPERS   ---------- */
+function baseName(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, "");
+}
+
+function isBlank(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    (typeof value === "string" && value.trim() === "")
+  );
+}
+
+function filledValues(row: unknown[]): unknown[] {
+  return row.filter((value) => !isBlank(value));
+}
+
+function rowText(row: unknown[]): string {
+  const values = filledValues(row).map((value) => String(value).trim());
+  return Array.from(new Set(values)).join(" ").slice(0, 80);
+}
+
+/* ----------   TABLE REGION DETECTION   ---------- */
+interface TableRegion {
+  columns: string[];
+  rows: Record<string, unknown>[];
+  // Data rows in the table, which can exceed rows.length under a row limit
+  rowCount: number;
+  totals: TableTotals;
+  // 1-based sheet row of each kept row
+  rowNumbers: number[];
+  layout: TableLayout;
+}
+
+interface TrailingRow {
+  cells: unknown[];
+  index: number;
+  reason: SkippedRow["reason"];
+}
+
+function isHeaderLike(row: unknown[], minPopulated: number): boolean {
+  const values = filledValues(row);
+  const distinct = new Set(values.map((value) => String(value).trim())).size;
+  const text = values.filter((value) => typeof value === "string").length;
+  return (
+    values.length >= minPopulated &&
+    distinct >= Math.min(2, minPopulated) &&
+    text >= values.length / 2
+  );
+}
+
+// A header row continues onto the next row when one of its cells is merged
+// across columns (a group heading) or down into the row below
+function continuesHeader(merges: XLSX.Range[], index: number): boolean {
+  return merges.some(
+    (merge) =>
+      merge.s.r <= index &&
+      merge.e.r >= index &&
+      (merge.e.c > merge.s.c || merge.e.r > index)
+  );
+}
+
+function isTotalRow(row: unknown[]): boolean {
+  const label = filledValues(row)[0];
+  return typeof label === "string" && TOTAL_ROW_PATTERN.test(label.trim());
+}
+
+function isNoteRow(row: unknown[], afterBlankRow: boolean): boolean {
+  const values = filledValues(row);
+  const distinct = new Set(values.map((value) => String(value).trim()));
+  if (distinct.size !== 1 || typeof values[0] !== "string") return false;
+  return NOTE_ROW_PATTERN.test(values[0].trim()) || afterBlankRow;
+}
+
+/**
+ * Finds the table inside a sheet while its rows stream past: skips title
+ * and spacer rows above the header, joins multi-row headers into composite
+ * names, drops trailing total and note rows, and ignores columns with no
+ * values. Only the first HEADER_SCAN_ROWS rows are held back to find the
+ * header; after that just the current run of total and note rows waits,
+ * since those are dropped only when no data row follows them. Every data
+ * row feeds the column totals, including rows past the row limit.
+ */
+class TableBuilder {
+  private readonly layout: TableLayout;
+  // Data rows seen, including any past rowLimit
+  private rowCount = 0;
+
+  private nextIndex = 0;
+  private width = 0;
+  // Rows held until the header is found; null afterwards
+  private scan: unknown[][] | null = [];
+  private maxPopulated = 0;
+  private headerStart = -1;
+  private headerEnd = -1;
+  private headerCells: unknown[][] = [];
+  // Kept rows stay raw cells until the non-empty columns are known
+  private dataRows: unknown[][] = [];
+  private rowNumbers: number[] = [];
+  private lastDataIndex = -1;
+  private trailing: TrailingRow[] = [];
+  private afterBlankRow = false;
+  private filledColumns: boolean[] = [];
+  private columnTotals: ColumnAccumulator[] = [];
+
+  constructor(
+    private readonly originRow: number,
+    private readonly originColumn: number,
+    private readonly merges: XLSX.Range[] = [],
+    // Rows kept for the result; later rows are only counted
+    private readonly rowLimit = Infinity
+  ) {
+    this.layout = {
+      dataRange: "",
+      headerRows: [],
+      blankRows: 0,
+      skippedRows: [],
+      emptyColumns: [],
+      mergedCells: merges.length,
+    };
+  }
+
+  push(cells: unknown[]): void {
+    const index = this.nextIndex++;
+    this.width = Math.max(this.width, cells.length);
+    if (!this.scan) {
+      this.addBodyRow(cells, index);
+      return;
+    }
+    this.scan.push(cells);
+    this.maxPopulated = Math.max(this.maxPopulated, filledValues(cells).length);
+    if (this.scan.length >= HEADER_SCAN_ROWS && this.maxPopulated > 0) {
+      this.findHeader();
+    }
+  }
+
+  finish(): TableRegion {
+    if (this.scan) {
+      if (this.maxPopulated === 0) {
+        return {
+          columns: [],
+          rows: [],
+          rowCount: 0,
+          totals: new TableTotals(toNumber),
+          rowNumbers: [],
+          layout: this.layout,
+        };
+      }
+      this.findHeader();
+    }
+    const { layout } = this;
+
+    // Totals, footnotes and spacer rows at the bottom are not data
+    this.trailing.forEach((row) =>
+      layout.skippedRows.push({
+        row: this.rowNumber(row.index),
+        reason: row.reason,
+        text: rowText(row.cells),
+      })
+    );
+    this.trailing = [];
+
+    const kept: number[] = [];
+    for (let column = 0; column < this.width; column++) {
+      if (this.filledColumns[column]) {
+        kept.push(column);
+      } else {
+        layout.emptyColumns.push(this.columnLetter(column));
+      }
+    }
+
+    const seen = new Map<string, number>();
+    const columns = kept.map((column) => {
+      const parts: string[] = [];
+      this.headerCells.forEach((cells) => {
+        const value = cells[column];
+        const part = isBlank(value) ? "" : String(value).trim();
+        if (part && parts[parts.length - 1] !== part) parts.push(part);
+      });
+      const name = parts.join(" ") || `Column ${this.columnLetter(column)}`;
+      const count = (seen.get(name) || 0) + 1;
+      seen.set(name, count);
+      return count > 1 ? `${name} (${count})` : name;
+    });
+
+    const totals = new TableTotals(toNumber, this.rowCount);
+    kept.forEach((column, index) => {
+      const accumulator = this.columnTotals[column];
+      if (accumulator) totals.column(columns[index]).merge(accumulator);
+    });
+    this.columnTotals = [];
+
+    // Each raw row is released as its record is built
+    const rows: Record<string, unknown>[] = new Array(this.dataRows.length);
+    this.dataRows.forEach((cells, i) => {
+      const record: Record<string, unknown> = {};
+      kept.forEach((column, index) => {
+        record[columns[index]] =
+          cells[column] === undefined ? "" : cells[column];
+      });
+      rows[i] = record;
+      this.dataRows[i] = [];
+    });
+    this.dataRows = [];
+
+    for (let i = this.headerStart; i <= this.headerEnd; i++) {
+      layout.headerRows.push(this.rowNumber(i));
+    }
+    const dataEnd = Math.max(this.lastDataIndex, this.headerEnd);
+    layout.dataRange = XLSX.utils.encode_range({
+      s: {
+        r: this.originRow + this.headerStart,
+        c: this.originColumn + kept[0],
+      },
+      e: {
+        r: this.originRow + dataEnd,
+        c: this.originColumn + kept[kept.length - 1],
+      },
+    });
+
+    return {
+      columns,
+      rows,
+      rowCount: this.rowCount,
+      totals,
+      rowNumbers: this.rowNumbers,
+      layout,
+    };
+  }
+
+  private rowNumber(index: number): number {
+    return this.originRow + index + 1;
+  }
+
+  private columnLetter(index: number): string {
+    return XLSX.utils.encode_col(this.originColumn + index);
+  }
+
+  // Header: the first row, near the top, that is about as wide as the table
+  // and mostly text. Single-cell titles and full-width merged banners fail
+  // the width and distinct-value checks.
+  private findHeader(): void {
+    const scan = this.scan || [];
+    this.scan = null;
+
+    const minPopulated = Math.max(1, Math.ceil(this.maxPopulated / 2));
+    let headerStart = scan.findIndex(
+      (row, i) => i < HEADER_SCAN_ROWS && isHeaderLike(row, minPopulated)
+    );
+    if (headerStart < 0) {
+      headerStart = scan.findIndex(
+        (row) => filledValues(row).length >= minPopulated
+      );
+    }
+
+    let headerEnd = headerStart;
+    while (
+      headerEnd + 1 < scan.length &&
+      continuesHeader(this.merges, headerEnd) &&
+      isHeaderLike(scan[headerEnd + 1], minPopulated)
+    ) {
+      headerEnd++;
+    }
+    this.headerStart = headerStart;
+    this.headerEnd = headerEnd;
+
+    for (let i = 0; i < headerStart; i++) {
+      if (filledValues(scan[i]).length === 0) {
+        this.layout.blankRows++;
+      } else {
+        this.layout.skippedRows.push({
+          row: this.rowNumber(i),
+          reason: "title",
+          text: rowText(scan[i]),
+        });
+      }
+    }
+
+    this.headerCells = scan.slice(headerStart, headerEnd + 1);
+    this.headerCells.forEach((cells) => this.markFilled(cells));
+    this.afterBlankRow = false;
+    for (let i = headerEnd + 1; i < scan.length; i++) {
+      this.addBodyRow(scan[i], i);
+    }
+  }
+
+  private addBodyRow(cells: unknown[], index: number): void {
+    if (filledValues(cells).length === 0) {
+      this.layout.blankRows++;
+      this.afterBlankRow = true;
+      return;
+    }
+
+    const reason: SkippedRow["reason"] | null = isTotalRow(cells)
+      ? "total"
+      : this.maxPopulated > 1 && isNoteRow(cells, this.afterBlankRow)
+      ? "note"
+      : null;
+    this.afterBlankRow = false;
+    if (reason) {
+      this.trailing.push({ cells, index, reason });
+      return;
+    }
+
+    // A data row below them puts held totals and notes back in the table
+    this.trailing.forEach((row) => this.keepRow(row.cells, row.index));
+    this.trailing = [];
+    this.keepRow(cells, index);
+  }
+
+  private keepRow(cells: unknown[], index: number): void {
+    this.markFilled(cells);
+    this.rowCount++;
+    cells.forEach((value, column) => {
+      let accumulator = this.columnTotals[column];
+      if (!accumulator) {
+        accumulator = new ColumnAccumulator(toNumber);
+        this.columnTotals[column] = accumulator;
+      }
+      accumulator.add(value);
+    });
+    this.lastDataIndex = index;
+    if (this.dataRows.length < this.rowLimit) {
+      this.dataRows.push(cells);
+      this.rowNumbers.push(this.rowNumber(index));
+    }
+  }
+
+  private markFilled(cells: unknown[]): void {
+    cells.forEach((value, column) => {
+      if (!isBlank(value)) this.filledColumns[column] = true;
+    });
+  }
+}
+
+/* ----------   ROW SOURCES   ---------- */
+function stripBom(row: unknown[]): void {
+  if (typeof row[0] === "string") row[0] = row[0].replace(/^\uFEFF/, "");
+}
+
+// Decodes and parses the file as it is read, so neither the whole text nor
+// a grid of every row is held in memory. TSV is always tab-separated; for
+// other text the delimiter is sniffed from the first rows.
+function readDelimitedTable(
+  file: File,
+  rowLimit?: number
+): Promise<TableRegion> {
+  const builder = new TableBuilder(0, 0, [], rowLimit);
+  const stream = Readable.fromWeb(file.stream() as WebReadableStream);
+  stream.setEncoding("utf8");
+
+  return new Promise((resolve, reject) => {
+    // Streamed input already ends the last row at a final line break, so
+    // no empty row follows it
+    let first = true;
+    Papa.parse<unknown[]>(stream, {
+      delimiter: fileExtension(file.name) === "tsv" ? "\t" : "",
+      delimitersToGuess: SNIFFED_DELIMITERS,
+      dynamicTyping: true,
+      skipEmptyLines: false,
+      step: (results) => {
+        if (first) stripBom(results.data);
+        first = false;
+        builder.push(results.data);
+      },
+      complete: () => resolve(builder.finish()),
+      error: (error: Error) => reject(error),
+    });
+  });
+}
+
+// Walks the worksheet one row at a time instead of converting it to a
+// grid of every row first
+function readWorksheetTable(
+  worksheet: XLSX.WorkSheet,
+  rowLimit?: number
+): TableRegion {
+  const ref = worksheet["!ref"];
+  if (!ref) return new TableBuilder(0, 0).finish();
+
+  const range = XLSX.utils.decode_range(ref);
+  const merges = (worksheet["!merges"] || []).map((merge) => ({
+    s: { r: merge.s.r - range.s.r, c: merge.s.c - range.s.c },
+    e: { r: merge.e.r - range.s.r, c: merge.e.c - range.s.c },
+  }));
+  const builder = new TableBuilder(range.s.r, range.s.c, merges, rowLimit);
+
+  // A merged range only stores its value in the top-left cell. Labels are
+  // copied across the range so grouped headers and row labels reach every
+  // cell they cover; merged numbers stay put so they are not counted twice.
+  const labels = merges.flatMap((merge) => {
+    const cell =
+      worksheet[
+        XLSX.utils.encode_cell({
+          r: merge.s.r + range.s.r,
+          c: merge.s.c + range.s.c,
+        })
+      ];
+    const value = cell?.v;
+    return typeof value === "string" && !isBlank(value)
+      ? [{ merge, value }]
+      : [];
+  });
+
+  const columnLetters: string[] = [];
+  for (let column = range.s.c; column <= range.e.c; column++) {
+    columnLetters.push(XLSX.utils.encode_col(column));
+  }
+
+  for (let row = range.s.r; row <= range.e.r; row++) {
+    const rowLabel = XLSX.utils.encode_row(row);
+    const cells: unknown[] = columnLetters.map((letter) => {
+      const cell: XLSX.CellObject | undefined = worksheet[letter + rowLabel];
+      if (!cell || cell.t === "z" || cell.t === "e") return "";
+      return cell.v === undefined || cell.v === null ? "" : cell.v;
+    });
+    const index = row - range.s.r;
+    labels.forEach(({ merge, value }) => {
+      if (index < merge.s.r || index > merge.e.r) return;
+      for (let column = merge.s.c; column <= merge.e.c; column++) {
+        cells[column] = value;
+      }
+    });
+    builder.push(cells);
+  }
+
+  return builder.finish();
+}
+
+// Top-left cell of a worksheet's used range and its merged ranges, which
+// the streaming reader does not report
+interface WorksheetOutline {
+  name: string;
+  sheetId: number;
+  relationId: string;
+  origin: XLSX.CellAddress;
+  merges: XLSX.Range[];
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  amp: "&",
+};
+// Kept from the end of one chunk when scanning sheet XML, so an element
+// split across two chunks is still found
+const SCAN_OVERLAP = 256;
+const DIMENSION_PATTERN = /<(?:\w+:)?dimension\b[^>]*?\bref="([A-Z]+\d+)/;
+const MERGE_PATTERN =
+  /<(?:\w+:)?mergeCell\b[^>]*?\bref="([A-Z]+\d+:[A-Z]+\d+)"/g;
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] !== "#") return XML_ENTITIES[name] ?? entity;
+    return String.fromCodePoint(
+      name[1].toLowerCase() === "x"
+        ? parseInt(name.slice(2), 16)
+        : parseInt(name.slice(1), 10)
+    );
+  });
+}
+
+function xmlAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:]+)="([^"]*)"/g)) {
+    attributes[match[1]] = decodeXml(match[2]);
+  }
+  return attributes;
+}
+
+// Streams one worksheet's XML for its <dimension> and <mergeCell>
+// elements. The merges sit after the sheet data, so this is a second pass
+// over the sheet, but nothing besides the merged ranges is kept.
+async function scanWorksheet(
+  entry: JSZip.JSZipObject
+): Promise<Pick<WorksheetOutline, "origin" | "merges">> {
+  let origin: XLSX.CellAddress | null = null;
+  const merges: XLSX.Range[] = [];
+  const decoder = new TextDecoder();
+  let text = "";
+
+  const stream = new Readable().wrap(entry.nodeStream("nodebuffer"));
+  for await (const chunk of stream) {
+    text += decoder.decode(chunk, { stream: true });
+    if (!origin) {
+      const dimension = DIMENSION_PATTERN.exec(text);
+      if (dimension) origin = XLSX.utils.decode_cell(dimension[1]);
+    }
+    let scanned = 0;
+    for (const match of text.matchAll(MERGE_PATTERN)) {
+      merges.push(XLSX.utils.decode_range(match[1]));
+      scanned = (match.index ?? 0) + match[0].length;
+    }
+    text = text.slice(Math.max(scanned, text.length - SCAN_OVERLAP));
+  }
+  return { origin: origin || { r: 0, c: 0 }, merges };
+}
+
+// The worksheets in workbook order, from xl/workbook.xml and its
+// relationships; chart sheets and other non-grid sheets are left out
+async function readWorksheetOutlines(zip: JSZip): Promise<WorksheetOutline[]> {
+  const workbook = await zip.file("xl/workbook.xml")?.async("string");
+  const relationships = await zip
+    .file("xl/_rels/workbook.xml.rels")
+    ?.async("string");
+  if (!workbook || !relationships) {
+    throw new Error("Not an Excel workbook: xl/workbook.xml is missing");
+  }
+
+  const targets = new Map<string, string>();
+  for (const match of relationships.matchAll(
+    /<(?:\w+:)?Relationship\b[^>]*>/g
+  )) {
+    const { Id, Target } = xmlAttributes(match[0]);
+    if (!Id || !Target) continue;
+    targets.set(Id, Target.startsWith("/") ? Target.slice(1) : `xl/${Target}`);
+  }
+
+  const outlines: WorksheetOutline[] = [];
+  for (const match of workbook.matchAll(/<(?:\w+:)?sheet\b[^>]*>/g)) {
+    const attributes = xmlAttributes(match[0]);
+    const id = Object.keys(attributes).find((key) => key.endsWith(":id"));
+    const relationId = id ? attributes[id] : "";
+    const path = targets.get(relationId);
+    const entry = path?.includes("/worksheets/") ? zip.file(path) : null;
+    if (!attributes.name || !entry) continue;
+    outlines.push({
+      name: attributes.name,
+      sheetId: Number(attributes.sheetId),
+      relationId,
+      ...(await scanWorksheet(entry)),
+    });
+  }
+  return outlines;
+}
+
+// Formulas give their cached result and rich text its plain text; error
+// cells read as blank, as they do through SheetJS
+function streamedCellValue(value: ExcelJS.CellValue | undefined): unknown {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return isNaN(value) ? "" : value;
+  if (typeof value !== "object" || value instanceof Date) return value;
+  if ("error" in value) return "";
+  if ("richText" in value) {
+    return value.richText.map((run) => run.text).join("");
+  }
+  if ("result" in value) return streamedCellValue(value.result);
+  if ("text" in value) return value.text;
+  return "";
+}
+
+async function readStreamedWorksheet(
+  worksheet: ExcelJS.stream.xlsx.WorksheetReader,
+  outline: WorksheetOutline,
+  rowLimit: number
+): Promise<TableRegion> {
+  const { origin } = outline;
+  const merges = outline.merges.map((merge) => ({
+    s: { r: merge.s.r - origin.r, c: merge.s.c - origin.c },
+    e: { r: merge.e.r - origin.r, c: merge.e.c - origin.c },
+  }));
+  const builder = new TableBuilder(origin.r, origin.c, merges, rowLimit);
+
+  // As with SheetJS, merged labels are copied across the range they cover.
+  // A range's value arrives with its top row, so each label is picked up
+  // there and applied until the range's last row has passed.
+  const pending = [...merges].sort((a, b) => a.s.r - b.s.r);
+  let nextMerge = 0;
+  let labels: { merge: XLSX.Range; value: string }[] = [];
+  let nextIndex = 0;
+  const push = (cells: unknown[]) => {
+    const index = nextIndex++;
+    while (nextMerge < pending.length && pending[nextMerge].s.r <= index) {
+      const merge = pending[nextMerge++];
+      const value = cells[merge.s.c];
+      if (typeof value === "string" && !isBlank(value)) {
+        labels.push({ merge, value });
+      }
+    }
+    labels = labels.filter(({ merge }) => merge.e.r >= index);
+    labels.forEach(({ merge, value }) => {
+      for (let column = merge.s.c; column <= merge.e.c; column++) {
+        cells[column] = value;
+      }
+    });
+    builder.push(cells);
+  };
+
+  for await (const row of worksheet) {
+    const index = row.number - 1 - origin.r;
+    if (index < 0) continue;
+    // Rows with no cells are left out of the XML
+    while (nextIndex < index) push([]);
+    const values = row.values as ExcelJS.CellValue[];
+    const cells: unknown[] = [];
+    for (let column = origin.c + 1; column < values.length; column++) {
+      cells.push(streamedCellValue(values[column]));
+    }
+    push(cells);
+  }
+  return builder.finish();
+}
+
+// Streams .xlsx sheets row by row out of the zipped XML, so only the kept
+// rows and the running totals are held, however long the sheet is
+async function readXlsxTables(
+  file: File,
+  options: ParseOptions,
+  rowLimit: number
+): Promise<{ name: string; region: TableRegion }[]> {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const outlines = await readWorksheetOutlines(zip);
+  const selected = selectSheets(
+    outlines.map((outline) => outline.name),
+    options
+  );
+
+  const regions = new Map<string, TableRegion>();
+  const reader = new ExcelJS.stream.xlsx.WorkbookReader(
+    Readable.fromWeb(file.stream() as WebReadableStream),
+    {
+      worksheets: "emit",
+      sharedStrings: "cache",
+      hyperlinks: "ignore",
+      styles: "ignore",
+      entries: "ignore",
+    }
+  );
+  // The reader names sheets from xl/workbook.xml, which may come after the
+  // worksheets in the zip; it would then fail on the first sheet, so it is
+  // given the sheet list read above up front
+  Object.assign(reader, {
+    model: {
+      sheets: outlines.map((outline) => ({
+        id: outline.sheetId,
+        name: outline.name,
+        rId: outline.relationId,
+      })),
+    },
+  });
+  for await (const worksheet of reader) {
+    // The reader names each sheet from the workbook, but its typings omit it
+    const { name } = worksheet as unknown as { name: string };
+    const outline = outlines.find((candidate) => candidate.name === name);
+    if (!outline || !selected.includes(name)) continue;
+    regions.set(
+      name,
+      await readStreamedWorksheet(worksheet, outline, rowLimit)
+    );
+  }
+
+  // The zip stores sheets in any order; report them in workbook order
+  return selected.flatMap((name) => {
+    const region = regions.get(name);
+    return region ? [{ name, region }] : [];
+  });
+}
+
+// One table per array of records in the document, header row first, so
+// JSON goes through the same region detection as a sheet
+async function readJsonTables(
+  file: File,
+  rowLimit?: number
+): Promise<{ name: string; region: TableRegion }[]> {
+  const tables = jsonTables(parseJsonText(await file.text()));
+  return tables.map((table) => {
+    const builder = new TableBuilder(0, 0, [], rowLimit);
+    builder.push(table.columns);
+    table.rows.forEach((row) =>
+      builder.push(
+        table.columns.map((column) =>
+          row[column] === undefined ? "" : row[column]
+        )
+      )
+    );
+    const region = builder.finish();
+    return {
+      name: table.path || baseName(file.name),
+      // Records are numbered from 1, without the header row the builder saw
+      region: {
+        ...region,
+        rowNumbers: region.rowNumbers.map((row) => row - 1),
+      },
+    };
+  });
+}
+
+async function readPdfTable(
+  file: File,
+  rowLimit?: number
+): Promise<TableRegion> {
+  const rows = await readPdfRows(new Uint8Array(await file.arrayBuffer()));
+  if (rows.length === 0) {
+    throw new Error(
+      "No text found in PDF; scanned documents need OCR before upload"
+    );
+  }
+  const builder = new TableBuilder(0, 0, [], rowLimit);
+  rows.forEach((cells) => builder.push(cells));
+  return builder.finish();
+}
+
+/* ----------   FORMAT READERS   ---------- */
+interface FormatReader {
+  parse(file: File, options: ParseOptions): Promise<ParsedSheet[]>;
+  inspect(file: File): Promise<SheetInspection[]>;
+}
+
+function toSheet(name: string, region: TableRegion): ParsedSheet {
+  const { columns, rows, rowCount, totals, rowNumbers, layout } = region;
+  return { name, columns, rows, rowCount, totals, rowNumbers, layout };
+}
+
+// Read with `sheetRows`, a worksheet keeps its real extent in !fullref. Rows
+// past the header there are counted, blank or not, as SheetJS has not read
+// them.
+function worksheetRowCount(
+  worksheet: XLSX.WorkSheet,
+  region: TableRegion
+): number {
+  const fullRef = worksheet["!fullref"];
+  const headerEnd = region.layout.headerRows.slice(-1)[0];
+  if (!fullRef || fullRef === worksheet["!ref"] || !headerEnd) {
+    return region.rowCount;
+  }
+  const range = XLSX.utils.decode_range(fullRef);
+  return Math.max(range.e.r + 1 - headerEnd, region.rowCount);
+}
+
+function toInspection(
+  name: string,
+  region: TableRegion,
+  rowCount = region.rowCount,
+  range = ""
+): SheetInspection {
+  return {
+    name,
+    rowCount,
+    columnCount: region.columns.length,
+    range,
+    headers: region.columns,
+    preview: region.rows,
+    empty: region.rowCount === 0,
+  };
+}
+
+// The sheets to read, in file order; throws when a requested one is missing
+function selectSheets(available: string[], options: ParseOptions): string[] {
+  const requested = options.sheets?.length ? options.sheets : null;
+  if (!requested) return available;
+  const missing = requested.filter((name) => !available.includes(name));
+  if (missing.length > 0) {
+    throw new Error(`Sheet(s) not found: ${missing.join(", ")}`);
+  }
+  return available.filter((name) => requested.includes(name));
+}
+
+const READERS: Record<FileFormatId, FormatReader> = {
+  delimited: {
+    async parse(file) {
+      const region = await readDelimitedTable(file, MAX_SAMPLE_ROWS);
+      return [toSheet(baseName(file.name), region)];
+    },
+    // Every row is counted but only the preview rows are kept
+    async inspect(file) {
+      const region = await readDelimitedTable(file, PREVIEW_ROWS);
+      return [toInspection(baseName(file.name), region)];
+    },
+  },
+
+  workbook: {
+    async parse(file, options) {
+      if (fileExtension(file.name) === "xlsx") {
+        const tables = await readXlsxTables(file, options, MAX_SAMPLE_ROWS);
+        return tables.map((table) => toSheet(table.name, table.region));
+      }
+      // SheetJS reads .xls and .ods whole; an .xls sheet holds at most
+      // 65,536 rows, and every row still reaches the totals
+      const workbook = XLSX.read(await file.arrayBuffer(), { type: "array" });
+      return selectSheets(workbook.SheetNames, options).map((name) =>
+        toSheet(
+          name,
+          readWorksheetTable(workbook.Sheets[name], MAX_SAMPLE_ROWS)
+        )
+      );
+    },
+    async inspect(file) {
+      // sheetRows caps parsing; the real extent is kept in !fullref
+      const workbook = XLSX.read(await file.arrayBuffer(), {
+        type: "array",
+        sheetRows: HEADER_SCAN_ROWS + PREVIEW_ROWS,
+      });
+      return workbook.SheetNames.map((name) => {
+        const worksheet = workbook.Sheets[name];
+        const fullRef = worksheet["!fullref"] || worksheet["!ref"];
+        const region = readWorksheetTable(worksheet, PREVIEW_ROWS);
+        return toInspection(
+          name,
+          region,
+          worksheetRowCount(worksheet, region),
+          fullRef || ""
+        );
+      });
+    },
+  },
+
+  json: {
+    async parse(file, options) {
+      const tables = await readJsonTables(file, MAX_SAMPLE_ROWS);
+      const names = selectSheets(
+        tables.map((table) => table.name),
+        options
+      );
+      return tables
+        .filter((table) => names.includes(table.name))
+        .map((table) => toSheet(table.name, table.region));
+    },
+    async inspect(file) {
+      const tables = await readJsonTables(file, PREVIEW_ROWS);
+      return tables.map((table) => toInspection(table.name, table.region));
+    },
+  },
+
+  pdf: {
+    async parse(file) {
+      const region = await readPdfTable(file, MAX_SAMPLE_ROWS);
+      return [toSheet(baseName(file.name), region)];
+    },
+    async inspect(file) {
+      const region = await readPdfTable(file, PREVIEW_ROWS);
+      return [toInspection(baseName(file.name), region)];
+    },
+  },
+};
+
+/* ----------   PUBLIC API   ---------- */
+/** Workbook formats, whose sheets carry their own names. */
+export function isWorkbookFile(fileName: string): boolean {
+  return formatForFile(fileName)?.id === "workbook";
+}
+
+/**
+ * Parses every table in a file: each sheet of a workbook, each array of
+ * records in a JSON document, or the single table of a delimited file or
+ * PDF. Locates the table region in each and drops tables with no data rows.
+ */
+export async function parseFile(
+  file: File,
+  options: ParseOptions = {}
+): Promise<ParsedSheet[]> {
+  const format = formatForFile(file.name);
+
+  try {
+    if (!format) {
+      throw new Error(`Unsupported file format: ${fileExtension(file.name)}`);
+    }
+    const sheets = await READERS[format.id].parse(file, options);
+    return sheets.filter((sheet) => sheet.rows.length > 0);
+  } catch (error) {
+    console.error("Error parsing file:", error);
+    throw new Error(
+      `Failed to parse file: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+}
+
+/**
+ * Lightweight look at a file's sheets: names, dimensions and the first few
+ * rows, without materializing every row.
+ */
+export async function inspectFile(file: File): Promise<FileInspection> {
+  const extension = fileExtension(file.name);
+  const format = formatForFile(file.name);
+
+  if (!format) {
+    return {
+      fileName: file.name,
+      format: extension,
+      sheets: [],
+      error: `Unsupported file format: ${extension}`,
+    };
+  }
+
+  return {
+    fileName: file.name,
+    format: extension,
+    sheets: await READERS[format.id].inspect(file),
+  };
+}
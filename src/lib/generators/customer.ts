@@ -0,0 +1,443 @@
+import { Users } from "lucide-react";
+import {
+  countValue,
+  currencyValue,
+  numberValue,
+  percentValue,
+  ReportValue,
+} from "@/lib/reportValues";
+import type { ColumnAssignment } from "@/lib/columnRoles";
+import type { TableTotals } from "@/lib/aggregates";
+import {
+  amountText,
+  buildColumnCharts,
+  countValues,
+  groupTotals,
+  GroupTotals,
+  isTruthyFlag,
+  signalScorer,
+  shareOf,
+  toNumber,
+} from "@/lib/generators/shared";
+import type { GeneratedReport, ReportGenerator } from "@/lib/generators/types";
+
+interface CustomerSegment {
+  customers: ReportValue;
+  share: ReportValue | null;
+  totalValue?: ReportValue;
+  shareOfValue?: ReportValue | null;
+}
+
+/* ----------   GENERATOR   ---------- */
+class CustomerReportGenerator {
+  static async generate(
+    data: Record<string, unknown>[],
+    fileName: string,
+    roles: ColumnAssignment,
+    totals: TableTotals
+  ): Promise<GeneratedReport> {
+    const stats = totals.stats();
+
+    const customerColumn = roles.customer?.[0];
+    const ageColumn = roles.age?.[0];
+    const genderColumn = roles.gender?.[0];
+    const locationColumn = roles.location?.[0];
+    const segmentColumn = roles.segment?.[0];
+    const spendColumn = roles.revenue?.[0];
+    const ordersColumn = roles.orders?.[0];
+    const churnColumn = roles.status?.[0];
+    const satisfactionColumn = roles.satisfaction?.[0];
+
+    const customerRows = customerColumn
+      ? groupTotals(data, customerColumn, [spendColumn, ordersColumn])
+      : data.map((row, index) => ({
+          key: `Row ${index + 2}`,
+          rows: 1,
+          totals: {
+            [spendColumn || ""]: toNumber(row[spendColumn || ""]) || 0,
+            [ordersColumn || ""]: toNumber(row[ordersColumn || ""]) || 0,
+          },
+        }));
+    const totalCustomers = customerColumn
+      ? totals.distinct([customerColumn])
+      : totals.rowCount;
+    const totalSpend = totals.sum(spendColumn);
+    const avgLifetimeValue =
+      totalCustomers > 0 && spendColumn ? totalSpend / totalCustomers : 0;
+    const churn = this.calculateChurn(
+      data,
+      customerRows,
+      churnColumn,
+      ordersColumn
+    );
+    const satisfaction = totals.average(satisfactionColumn);
+
+    return {
+      executiveSummary: `Customer analysis of ${fileName} covers ${totalCustomers.toLocaleString()} customers${
+        spendColumn
+          ? ` with an average lifetime value of ${amountText(avgLifetimeValue)}`
+          : ""
+      }. ${
+        churn.rate !== null
+          ? `Churn rate is ${(churn.rate * 100).toFixed(1)}%.`
+          : "Churn could not be determined from the available columns."
+      }`,
+
+      demographics: {
+        totalCustomers: countValue(totalCustomers),
+        ageProfile: ageColumn
+          ? this.describeAges(data, ageColumn)
+          : "Age data not identified",
+        genderSplit: genderColumn
+          ? this.describeDistribution(data, genderColumn, data.length)
+          : "Gender data not identified",
+        topLocations: locationColumn
+          ? this.describeDistribution(data, locationColumn, data.length)
+          : "Location data not identified",
+      },
+
+      behavior: {
+        avgLifetimeValue: spendColumn ? currencyValue(avgLifetimeValue) : null,
+        avgOrdersPerCustomer:
+          totalCustomers > 0
+            ? numberValue(
+                (ordersColumn ? totals.sum(ordersColumn) : totals.rowCount) /
+                  totalCustomers
+              )
+            : null,
+        topCustomers: spendColumn
+          ? this.topCustomers(customerRows, spendColumn)
+          : "Spend data not identified",
+        satisfaction: satisfaction !== null ? numberValue(satisfaction) : null,
+      },
+
+      segmentation: segmentColumn
+        ? this.segmentByColumn(data, segmentColumn, spendColumn)
+        : this.segmentByValue(customerRows, spendColumn),
+
+      retention: {
+        churnRate: churn.rate !== null ? percentValue(churn.rate) : null,
+        retentionRate:
+          churn.rate !== null ? percentValue(1 - churn.rate) : null,
+        churnedCustomers: countValue(churn.churned),
+        basis: churn.basis,
+      },
+
+      recommendations: this.generateCustomerRecommendations(
+        churn.rate,
+        satisfaction,
+        Boolean(spendColumn)
+      ),
+
+      basicStats: stats,
+
+      charts: buildColumnCharts(data, stats, totals.rowCount > data.length),
+    };
+  }
+
+  private static calculateChurn(
+    data: Record<string, unknown>[],
+    customerRows: GroupTotals[],
+    churnColumn?: string,
+    ordersColumn?: string
+  ): { rate: number | null; churned: number; basis: string } {
+    if (churnColumn) {
+      const isActiveColumn = /active|retained/i.test(churnColumn);
+      const churned = data.filter((row) => {
+        const flag = isTruthyFlag(row[churnColumn]);
+        const raw = String(row[churnColumn] ?? "").trim();
+        // "Active" columns flag the opposite of churn
+        if (isActiveColumn && !/inactive/i.test(raw))
+          return raw !== "" && !flag;
+        return flag;
+      }).length;
+      return {
+        rate: data.length > 0 ? churned / data.length : null,
+        churned,
+        basis: `Derived from ${churnColumn}`,
+      };
+    }
+
+    if (
+      customerRows.length > 0 &&
+      (ordersColumn || customerRows.some((c) => c.rows > 1))
+    ) {
+      const churned = customerRows.filter((customer) =>
+        ordersColumn
+          ? (customer.totals[ordersColumn] || 0) <= 1
+          : customer.rows <= 1
+      ).length;
+      return {
+        rate: churned / customerRows.length,
+        churned,
+        basis: "Customers with a single purchase treated as churned",
+      };
+    }
+
+    return { rate: null, churned: 0, basis: "No churn or order history data" };
+  }
+
+  private static topCustomers(
+    customerRows: GroupTotals[],
+    spendColumn: string
+  ): Record<string, ReportValue> {
+    const top: Record<string, ReportValue> = {};
+    [...customerRows]
+      .sort(
+        (a, b) => (b.totals[spendColumn] || 0) - (a.totals[spendColumn] || 0)
+      )
+      .slice(0, 3)
+      .forEach((customer) => {
+        top[customer.key] = currencyValue(customer.totals[spendColumn] || 0);
+      });
+    return top;
+  }
+
+  private static describeAges(
+    data: Record<string, unknown>[],
+    ageColumn: string
+  ): Record<string, ReportValue | Record<string, ReportValue | null>> | string {
+    const bands: Record<string, number> = {
+      "<25": 0,
+      "25-34": 0,
+      "35-44": 0,
+      "45-54": 0,
+      "55+": 0,
+    };
+    const ages = data
+      .map((row) => toNumber(row[ageColumn]))
+      .filter((age) => !isNaN(age) && age > 0);
+    if (ages.length === 0) return "Age data not numeric";
+
+    ages.forEach((age) => {
+      if (age < 25) bands["<25"]++;
+      else if (age < 35) bands["25-34"]++;
+      else if (age < 45) bands["35-44"]++;
+      else if (age < 55) bands["45-54"]++;
+      else bands["55+"]++;
+    });
+
+    const average = ages.reduce((a, b) => a + b, 0) / ages.length;
+    const shares: Record<string, ReportValue | null> = {};
+    Object.entries(bands)
+      .filter(([, count]) => count > 0)
+      .forEach(([band, count]) => {
+        shares[band] = shareOf(count, ages.length);
+      });
+    return { averageAge: numberValue(average), ageBands: shares };
+  }
+
+  private static describeDistribution(
+    data: Record<string, unknown>[],
+    column: string,
+    total: number
+  ): Record<string, ReportValue | null> {
+    const shares: Record<string, ReportValue | null> = {};
+    countValues(data, column)
+      .slice(0, 5)
+      .forEach(([value, count]) => {
+        shares[value] = shareOf(count, total);
+      });
+    return shares;
+  }
+
+  private static segmentByColumn(
+    data: Record<string, unknown>[],
+    segmentColumn: string,
+    spendColumn?: string
+  ): Record<string, CustomerSegment> {
+    const segments: Record<string, CustomerSegment> = {};
+    groupTotals(data, segmentColumn, [spendColumn])
+      .sort((a, b) => b.rows - a.rows)
+      .slice(0, 8)
+      .forEach((group) => {
+        segments[group.key] = {
+          customers: countValue(group.rows),
+          share: shareOf(group.rows, data.length),
+          ...(spendColumn
+            ? { totalValue: currencyValue(group.totals[spendColumn] || 0) }
+            : {}),
+        };
+      });
+    return segments;
+  }
+
+  private static segmentByValue(
+    customerRows: GroupTotals[],
+    spendColumn?: string
+  ): Record<string, CustomerSegment> | string {
+    if (!spendColumn || customerRows.length === 0) {
+      return "Segment or spend data not identified";
+    }
+
+    const sorted = [...customerRows].sort(
+      (a, b) => (b.totals[spendColumn] || 0) - (a.totals[spendColumn] || 0)
+    );
+    const total = sorted.reduce(
+      (sum, c) => sum + (c.totals[spendColumn] || 0),
+      0
+    );
+    const topCut = Math.max(1, Math.ceil(sorted.length * 0.2));
+    const midCut = Math.max(topCut, Math.ceil(sorted.length * 0.5));
+    const tiers: [string, GroupTotals[]][] = [
+      ["highValue", sorted.slice(0, topCut)],
+      ["midValue", sorted.slice(topCut, midCut)],
+      ["lowValue", sorted.slice(midCut)],
+    ];
+
+    const segments: Record<string, CustomerSegment> = {};
+    tiers.forEach(([name, members]) => {
+      const value = members.reduce(
+        (sum, c) => sum + (c.totals[spendColumn] || 0),
+        0
+      );
+      segments[name] = {
+        customers: countValue(members.length),
+        share: shareOf(members.length, sorted.length),
+        totalValue: currencyValue(value),
+        shareOfValue: shareOf(value, total),
+      };
+    });
+    return segments;
+  }
+
+  private static generateCustomerRecommendations(
+    churnRate: number | null,
+    satisfaction: number | null,
+    hasSpendData: boolean
+  ): string[] {
+    const recommendations = [];
+
+    if (churnRate !== null && churnRate > 0.2) {
+      recommendations.push(
+        "Churn exceeds 20%; launch win-back and onboarding programs"
+      );
+    }
+    if (churnRate === null) {
+      recommendations.push("Track customer status to measure churn");
+    }
+    if (satisfaction !== null && satisfaction < 3.5) {
+      recommendations.push(
+        "Satisfaction scores are low; investigate top complaint drivers"
+      );
+    }
+    if (!hasSpendData) {
+      recommendations.push(
+        "Add spend data to estimate customer lifetime value"
+      );
+    }
+
+    recommendations.push("Tailor engagement to the highest-value segments");
+
+    return recommendations;
+  }
+}
+
+/* ----------   REGISTRATION   ---------- */
+export const customerGenerator: ReportGenerator = {
+  id: "customer",
+  name: "Customer Insights",
+  color: "orange",
+  icon: Users,
+  detect: signalScorer([
+    {
+      label: "customer id",
+      pattern: /customer|client|member|user/i,
+      weight: 3,
+      cardinality: "high",
+    },
+    {
+      label: "age",
+      pattern: /(^|[\s_])age($|[\s_])|birth|dob/i,
+      weight: 2,
+      kind: "number",
+    },
+    {
+      label: "gender",
+      pattern: /gender|sex/i,
+      weight: 2,
+      kind: "text",
+      cardinality: "low",
+    },
+    {
+      label: "segment",
+      pattern: /segment|tier|loyalty|persona/i,
+      weight: 2,
+      kind: "text",
+      cardinality: "low",
+    },
+    {
+      label: "status",
+      pattern: /status|churn|active/i,
+      weight: 2,
+      cardinality: "low",
+    },
+    {
+      label: "lifetime value",
+      pattern: /lifetime|ltv|clv|tenure|signup|joined/i,
+      weight: 2,
+    },
+    {
+      label: "satisfaction",
+      pattern: /satisfaction|nps|csat|rating/i,
+      weight: 2,
+      kind: "number",
+    },
+    {
+      label: "location",
+      pattern: /country|city|region|state/i,
+      weight: 1,
+      kind: "text",
+      cardinality: "low",
+    },
+    {
+      label: "orders",
+      pattern: /orders|purchases|visits/i,
+      weight: 1,
+      kind: "number",
+    },
+  ]),
+  columnRoles: [
+    {
+      role: "customer",
+      required: true,
+      patterns: [
+        /(customer|client|user|member|account)[\s_]*(id|no|number|code)/i,
+        /customer|client|user|member|account|email/i,
+      ],
+    },
+    { role: "age", patterns: [/\bage\b|^age/i] },
+    { role: "gender", patterns: [/gender|sex/i] },
+    {
+      role: "location",
+      patterns: [/city|state|country|region|location|province/i],
+    },
+    { role: "segment", patterns: [/segment|tier|plan|level|type/i] },
+    {
+      role: "revenue",
+      patterns: [/lifetime|ltv|spend|revenue|amount|total|value|purchase/i],
+    },
+    {
+      role: "orders",
+      patterns: [/orders|purchases|transactions|frequency|visits/i],
+    },
+    { role: "status", patterns: [/churn|status|active|cancel|retained/i] },
+    {
+      role: "satisfaction",
+      patterns: [/satisfaction|nps|csat|rating|score/i],
+    },
+  ],
+  sections: [
+    { key: "demographics", title: "Demographics", sampled: true },
+    { key: "behavior", title: "Behavior", sampled: true },
+    { key: "segmentation", title: "Segmentation", sampled: true },
+    { key: "retention", title: "Retention", sampled: true },
+    { key: "recommendations", title: "Recommendations", sampled: true },
+  ],
+  suggestions: () => [
+    "Include customer status to measure churn",
+    "Add signup and last purchase dates for retention",
+  ],
+  generate: (data, sourceLabel, roles, totals) =>
+    CustomerReportGenerator.generate(data, sourceLabel, roles, totals),
+};
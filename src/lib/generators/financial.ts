@@ -0,0 +1,302 @@
+import { DollarSign } from "lucide-react";
+import { countValue, currencyValue, percentValue } from "@/lib/reportValues";
+import { ChartSpec, pieChart, timeSeriesChart } from "@/lib/reportCharts";
+import {
+  buildTimeSeries,
+  describeTrend,
+  detectDateColumns,
+  TimeSeriesSection,
+} from "@/lib/timeSeries";
+import type { ColumnStats, TableTotals } from "@/lib/aggregates";
+import type { ColumnAssignment } from "@/lib/columnRoles";
+import {
+  amountText,
+  buildColumnCharts,
+  signalScorer,
+} from "@/lib/generators/shared";
+import type { GeneratedReport, ReportGenerator } from "@/lib/generators/types";
+
+/* ----------   GENERATOR   ---------- */
+class FinancialReportGenerator {
+  static async generate(
+    data: Record<string, unknown>[],
+    fileName: string,
+    roles: ColumnAssignment,
+    totals: TableTotals
+  ): Promise<GeneratedReport> {
+    const stats = totals.stats();
+    const sampled = totals.rowCount > data.length;
+
+    const revenueColumns = roles.revenue || [];
+    const expenseColumns = roles.cost || [];
+
+    const totalRevenue = totals.sumOf(revenueColumns);
+    const totalExpenses = totals.sumOf(expenseColumns);
+    const netProfit = totalRevenue - totalExpenses;
+    const profitMargin =
+      totalRevenue > 0 ? (netProfit / totalRevenue) * 100 : 0;
+    const timeSeries = buildTimeSeries(data, {
+      revenue: revenueColumns,
+      expenses: expenseColumns,
+    });
+
+    return {
+      executiveSummary: `Financial analysis of ${fileName} shows ${
+        totalRevenue > 0
+          ? `total revenue of ${amountText(totalRevenue)}`
+          : "revenue data not clearly identified"
+      }, ${
+        totalExpenses > 0
+          ? `expenses of ${amountText(totalExpenses)}`
+          : "expense data not clearly identified"
+      }, and ${
+        netProfit !== 0
+          ? `net profit of ${amountText(netProfit)}`
+          : "profit calculation requires revenue and expense identification"
+      }.`,
+
+      revenueAnalysis: {
+        totalRevenue: currencyValue(totalRevenue),
+        breakdown:
+          revenueColumns.length > 0
+            ? `Revenue sources: ${revenueColumns.join(", ")}`
+            : "Revenue sources not clearly identified",
+        trends: this.analyzeTrends(data, revenueColumns, "revenue", timeSeries),
+      },
+
+      costAnalysis: {
+        totalCosts: currencyValue(totalExpenses),
+        majorCategories:
+          expenseColumns.length > 0
+            ? expenseColumns.join(", ")
+            : "Expense categories not clearly identified",
+        trends: this.analyzeTrends(
+          data,
+          expenseColumns,
+          "expenses",
+          timeSeries
+        ),
+      },
+
+      profitLoss: {
+        netProfit: currencyValue(netProfit),
+        profitMargin: percentValue(profitMargin / 100),
+        comparison:
+          netProfit > 0
+            ? "Profitable operations"
+            : netProfit < 0
+            ? "Operating at a loss"
+            : "Break-even performance",
+      },
+
+      keyMetrics: {
+        grossMargin: percentValue(profitMargin / 100),
+        totalTransactions: countValue(totals.rowCount),
+        avgTransactionValue:
+          totalRevenue > 0
+            ? currencyValue(totalRevenue / totals.rowCount)
+            : null,
+      },
+
+      riskFactors: this.identifyFinancialRisks(totals.rowCount, profitMargin),
+
+      ...(timeSeries ? { timeSeries } : {}),
+
+      basicStats: stats,
+
+      charts: this.buildCharts(
+        data,
+        stats,
+        totalRevenue,
+        totalExpenses,
+        timeSeries,
+        sampled
+      ),
+    };
+  }
+
+  private static buildCharts(
+    data: Record<string, unknown>[],
+    stats: Record<string, ColumnStats>,
+    totalRevenue: number,
+    totalExpenses: number,
+    timeSeries: TimeSeriesSection | null,
+    sampled: boolean
+  ): ChartSpec[] {
+    const charts: ChartSpec[] = [];
+    const profitLoss = pieChart(
+      "Revenue vs Expenses",
+      [
+        { label: "Revenue", value: totalRevenue },
+        { label: "Expenses", value: totalExpenses },
+      ],
+      "currency"
+    );
+    if (profitLoss) charts.push(profitLoss);
+    if (timeSeries) {
+      const chart = timeSeriesChart(
+        "Revenue and Expenses Over Time",
+        timeSeries,
+        "currency"
+      );
+      charts.push(sampled ? { ...chart, sampled } : chart);
+    }
+    return [...charts, ...buildColumnCharts(data, stats, sampled)];
+  }
+
+  private static sumColumns(
+    data: Record<string, unknown>[],
+    columns: string[]
+  ): number {
+    return data.reduce((total, row) => {
+      return (
+        total +
+        columns.reduce((colSum, col) => {
+          const value = this.parseNumericValue(row[col]);
+          return colSum + (isNaN(value) ? 0 : value);
+        }, 0)
+      );
+    }, 0);
+  }
+
+  private static parseNumericValue(value: unknown): number {
+    if (typeof value === "number") return value;
+    if (typeof value === "string") {
+      const cleaned = value.replace(/[,$%]/g, "");
+      return parseFloat(cleaned);
+    }
+    return 0;
+  }
+
+  private static analyzeTrends(
+    data: Record<string, unknown>[],
+    columns: string[],
+    type: string,
+    timeSeries: TimeSeriesSection | null
+  ): string {
+    if (columns.length === 0) return `No clear ${type} trends identifiable`;
+
+    const measure = timeSeries?.series.find((series) => series.name === type);
+    if (timeSeries && measure) return describeTrend(timeSeries, measure);
+
+    // Without a date column, fall back to comparing halves in row order
+    const firstHalf = data.slice(0, Math.floor(data.length / 2));
+    const secondHalf = data.slice(Math.floor(data.length / 2));
+
+    const firstHalfSum = this.sumColumns(firstHalf, columns);
+    const secondHalfSum = this.sumColumns(secondHalf, columns);
+
+    if (secondHalfSum > firstHalfSum) {
+      return `${type} showing upward trend in recent period`;
+    } else if (secondHalfSum < firstHalfSum) {
+      return `${type} showing downward trend in recent period`;
+    } else {
+      return `${type} remaining relatively stable`;
+    }
+  }
+
+  private static identifyFinancialRisks(
+    rowCount: number,
+    margin: number
+  ): string[] {
+    const risks = [];
+
+    if (margin < 0) risks.push("Operating losses pose sustainability risk");
+    if (margin < 5)
+      risks.push("Low profit margins indicate financial vulnerability");
+    if (rowCount < 10)
+      risks.push(
+        "Limited data sample may not represent full financial picture"
+      );
+
+    return risks;
+  }
+}
+
+/* ----------   REGISTRATION   ---------- */
+export const financialGenerator: ReportGenerator = {
+  id: "financial",
+  name: "Financial Analysis",
+  color: "green",
+  icon: DollarSign,
+  detect: signalScorer([
+    {
+      label: "revenue",
+      pattern: /revenue|income|turnover|net[\s_]*sales/i,
+      weight: 3,
+      kind: "number",
+    },
+    {
+      label: "expenses",
+      pattern: /expense|cost|spend|expenditure|overhead/i,
+      weight: 3,
+      kind: "number",
+    },
+    {
+      label: "profit",
+      pattern: /profit|margin|ebitda|earnings/i,
+      weight: 3,
+      kind: "number",
+    },
+    {
+      label: "balances",
+      pattern: /balance|asset|liabilit|equity|cash/i,
+      weight: 2,
+      kind: "number",
+    },
+    {
+      label: "budget",
+      pattern: /budget|forecast|variance|actual/i,
+      weight: 2,
+      kind: "number",
+    },
+    {
+      label: "account",
+      pattern: /account|ledger|gl[\s_]*code|cost[\s_]*cent(er|re)/i,
+      weight: 2,
+      kind: "text",
+      cardinality: "low",
+    },
+    {
+      label: "period",
+      pattern: /date|month|period|quarter|year/i,
+      weight: 1,
+      kind: "date",
+    },
+  ]),
+  columnRoles: [
+    {
+      role: "profit",
+      patterns: [/profit|margin|net[\s_]*(income|earnings|loss)|^net$/i],
+      multiple: true,
+    },
+    {
+      role: "revenue",
+      required: true,
+      patterns: [/revenue|income|sales|earnings/i],
+      multiple: true,
+    },
+    {
+      role: "cost",
+      patterns: [/expense|cost|expenditure|spend/i],
+      multiple: true,
+    },
+  ],
+  sections: [
+    { key: "revenueAnalysis", title: "Revenue Analysis", sampled: true },
+    { key: "costAnalysis", title: "Cost Analysis", sampled: true },
+    { key: "profitLoss", title: "Profit & Loss" },
+    { key: "keyMetrics", title: "Key Metrics" },
+    { key: "budgetVariance", title: "Budget vs Actual", sampled: true },
+    { key: "riskFactors", title: "Risk Factors" },
+    { key: "recommendedActions", title: "Recommendations" },
+  ],
+  suggestions: (data, report) => [
+    ...(detectDateColumns(data).length === 0
+      ? ["Add date columns for time-series analysis"]
+      : []),
+    ...(report.budgetVariance ? [] : ["Include budget vs actual comparisons"]),
+  ],
+  generate: (data, sourceLabel, roles, totals) =>
+    FinancialReportGenerator.generate(data, sourceLabel, roles, totals),
+};
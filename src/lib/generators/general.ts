@@ -0,0 +1,133 @@
+import { FileSpreadsheet } from "lucide-react";
+import { countValue, percentValue } from "@/lib/reportValues";
+import type { ColumnStats, TableTotals } from "@/lib/aggregates";
+import { ColumnProfile, profileColumns } from "@/lib/columnProfile";
+import { buildColumnCharts } from "@/lib/generators/shared";
+import type { GeneratedReport, ReportGenerator } from "@/lib/generators/types";
+
+/* ----------   GENERATOR   ---------- */
+class GeneralReportGenerator {
+  static async generate(
+    data: Record<string, unknown>[],
+    fileName: string,
+    totals: TableTotals,
+    rowNumbers?: number[]
+  ): Promise<GeneratedReport> {
+    const columns = Object.keys(data[0] || {});
+    const stats = totals.stats();
+    const profile = profileColumns(data, rowNumbers);
+    const dataTypes = this.identifyDataTypes(profile);
+    const completeness = this.calculateCompleteness(columns, totals);
+
+    return {
+      executiveSummary: `General analysis of ${fileName} containing ${
+        totals.rowCount
+      } records across ${
+        columns.length
+      } columns. Data types include ${dataTypes.join(", ")}.`,
+
+      dataOverview: {
+        totalRecords: countValue(totals.rowCount),
+        totalColumns: countValue(columns.length),
+        dataTypes,
+        completeness: percentValue(completeness),
+      },
+
+      columnProfile: profile,
+
+      insights: this.generateGeneralInsights(
+        totals.rowCount,
+        columns.length,
+        completeness,
+        stats,
+        profile
+      ),
+
+      basicStats: stats,
+
+      charts: buildColumnCharts(data, stats, totals.rowCount > data.length),
+    };
+  }
+
+  // Column types in first-seen order, leaving out empty columns
+  private static identifyDataTypes(profile: ColumnProfile[]): string[] {
+    const types = profile
+      .filter((column) => column.type !== "empty")
+      .map((column) => column.type);
+    return Array.from(new Set(types));
+  }
+
+  // Share of non-empty cells over every row, as a ratio
+  private static calculateCompleteness(
+    columns: string[],
+    totals: TableTotals
+  ): number {
+    const totalCells = totals.rowCount * columns.length;
+    const filledCells = columns.reduce(
+      (sum, column) => sum + totals.filled(column),
+      0
+    );
+
+    return totalCells > 0 ? filledCells / totalCells : 0;
+  }
+
+  private static generateGeneralInsights(
+    rowCount: number,
+    columnCount: number,
+    completeness: number,
+    stats: Record<string, ColumnStats>,
+    profile: ColumnProfile[]
+  ): string[] {
+    const insights = [];
+
+    insights.push(
+      `Dataset contains ${rowCount} records with ${columnCount} attributes`
+    );
+
+    const numericColumns = Object.keys(stats);
+    if (numericColumns.length > 0) {
+      insights.push(
+        `${numericColumns.length} numeric columns identified for statistical analysis`
+      );
+    }
+
+    insights.push(`Data completeness: ${(completeness * 100).toFixed(1)}%`);
+
+    const withOutliers = profile.filter(
+      (column) => column.numeric && column.numeric.outliers.iqr.count > 0
+    );
+    if (withOutliers.length > 0) {
+      insights.push(
+        `Outliers outside the interquartile fences in ${withOutliers
+          .map(
+            (column) =>
+              `${column.column} (${column.numeric!.outliers.iqr.count})`
+          )
+          .join(", ")}`
+      );
+    }
+
+    return insights;
+  }
+}
+
+/* ----------   REGISTRATION   ---------- */
+export const generalGenerator: ReportGenerator = {
+  id: "general",
+  name: "General Analysis",
+  color: "gray",
+  icon: FileSpreadsheet,
+  columnRoles: [],
+  sections: [
+    { key: "dataOverview", title: "Data Overview" },
+    { key: "columnProfile", title: "Column Profile", sampled: true },
+    { key: "insights", title: "Insights", sampled: true },
+    { key: "recommendedActions", title: "Recommendations" },
+  ],
+  suggestions: () => [
+    "Consider adding metadata for better categorization",
+    "Implement data validation rules",
+  ],
+  generate: (data, sourceLabel, _roles, totals, rowNumbers) =>
+    GeneralReportGenerator.generate(data, sourceLabel, totals, rowNumbers),
+};
@@ -0,0 +1,52 @@
+import { customerGenerator } from "@/lib/generators/customer";
+import { financialGenerator } from "@/lib/generators/financial";
+import { generalGenerator } from "@/lib/generators/general";
+import { inventoryGenerator } from "@/lib/generators/inventory";
+import { marketingGenerator } from "@/lib/generators/marketing";
+import { operationalGenerator } from "@/lib/generators/operational";
+import { salesGenerator } from "@/lib/generators/sales";
+import type { ReportGenerator } from "@/lib/generators/types";
+
+export type {
+  ColumnSample,
+  DetectionMatch,
+  DetectionSample,
+  DetectionSignal,
+  GeneratedReport,
+  ReportGenerator,
+  SectionSchema,
+} from "@/lib/generators/types";
+
+/* ----------   REGISTRY   ---------- */
+// Detectable report types. Order breaks ties in detection, so broader types
+// that share keywords with narrower ones come first, as they always have.
+export const REPORT_GENERATORS: ReportGenerator[] = [
+  financialGenerator,
+  salesGenerator,
+  inventoryGenerator,
+  customerGenerator,
+  marketingGenerator,
+  operationalGenerator,
+];
+
+// Used when no other type matches, or when a type is unknown
+export const GENERAL_GENERATOR: ReportGenerator = generalGenerator;
+
+/* ----------   PUBLIC API   ---------- */
+export function getGenerator(type: string): ReportGenerator | undefined {
+  return [...REPORT_GENERATORS, GENERAL_GENERATOR].find(
+    (generator) => generator.id === type
+  );
+}
+
+/** The generator for a type, falling back to the general one. */
+export function generatorFor(type: string): ReportGenerator {
+  return getGenerator(type) || GENERAL_GENERATOR;
+}
+
+/** Every report type id, including the general fallback. */
+export function reportTypeIds(): string[] {
+  return [...REPORT_GENERATORS, GENERAL_GENERATOR].map(
+    (generator) => generator.id
+  );
+}
@@ -0,0 +1,436 @@
+import { Database } from "lucide-react";
+import {
+  countValue,
+  currencyValue,
+  numberValue,
+  ReportValue,
+} from "@/lib/reportValues";
+import type { ColumnAssignment } from "@/lib/columnRoles";
+import type { TableTotals } from "@/lib/aggregates";
+import {
+  amountText,
+  averageColumn,
+  buildColumnCharts,
+  groupTotals,
+  signalScorer,
+  toNumber,
+} from "@/lib/generators/shared";
+import type { GeneratedReport, ReportGenerator } from "@/lib/generators/types";
+
+interface ItemQuantity {
+  item: string;
+  onHand: ReportValue;
+  reorderLevel?: ReportValue;
+}
+
+/* ----------   GENERATOR   ---------- */
+class InventoryReportGenerator {
+  static async generate(
+    data: Record<string, unknown>[],
+    fileName: string,
+    roles: ColumnAssignment,
+    totals: TableTotals
+  ): Promise<GeneratedReport> {
+    const stats = totals.stats();
+
+    const itemColumn = roles.product?.[0];
+    const reorderColumn = roles.reorderLevel?.[0];
+    const soldColumn = roles.unitsSold?.[0];
+    const quantityColumn = roles.quantity?.[0];
+    const unitCostColumn = roles.unitCost?.[0];
+    const categoryColumn = roles.category?.[0];
+    const locationColumn = roles.location?.[0];
+    const lastMovementColumn = roles.lastMovement?.[0];
+
+    const totalItems = itemColumn
+      ? totals.distinct([itemColumn])
+      : totals.rowCount;
+    const totalUnits = totals.sum(quantityColumn);
+    // Stock value and stock-outs are read row by row, from the sampled rows
+    const stockValue = unitCostColumn
+      ? data.reduce((total, row) => {
+          const qty = toNumber(row[quantityColumn || ""]);
+          const cost = toNumber(row[unitCostColumn]);
+          return total + (isNaN(qty) || isNaN(cost) ? 0 : qty * cost);
+        }, 0)
+      : 0;
+    const outOfStock = quantityColumn
+      ? data.filter((row) => {
+          const qty = toNumber(row[quantityColumn]);
+          return !isNaN(qty) && qty <= 0;
+        }).length
+      : 0;
+    const unitsSold = totals.sum(soldColumn);
+    const turnoverRate =
+      totalUnits > 0 && soldColumn ? unitsSold / totalUnits : 0;
+
+    const reorderItems = this.findReorderItems(
+      data,
+      itemColumn,
+      quantityColumn,
+      reorderColumn
+    );
+    const deadStock = this.findDeadStock(
+      data,
+      itemColumn,
+      quantityColumn,
+      soldColumn,
+      lastMovementColumn,
+      unitCostColumn
+    );
+
+    return {
+      executiveSummary: `Inventory analysis of ${fileName} covers ${totalItems.toLocaleString()} items holding ${totalUnits.toLocaleString()} units${
+        stockValue > 0 ? ` valued at ${amountText(stockValue)}` : ""
+      }. ${outOfStock} item(s) are out of stock and ${
+        reorderItems.length
+      } item(s) are at or below their reorder level.`,
+
+      stockLevels: {
+        totalItems: countValue(totalItems),
+        totalUnits: countValue(totalUnits),
+        stockValue: stockValue > 0 ? currencyValue(stockValue) : null,
+        avgUnitsPerItem:
+          totalItems > 0 ? numberValue(totalUnits / totalItems) : null,
+        outOfStock: countValue(outOfStock),
+        byCategory: categoryColumn
+          ? this.summarizeGroups(data, categoryColumn, quantityColumn)
+          : "Category data not identified",
+        byLocation: locationColumn
+          ? this.summarizeGroups(data, locationColumn, quantityColumn)
+          : "Location data not identified",
+      },
+
+      turnoverAnalysis: soldColumn
+        ? {
+            unitsSold: countValue(unitsSold),
+            turnoverRate: numberValue(turnoverRate),
+            // Assumes the sold column holds monthly figures
+            daysOfSupply:
+              unitsSold > 0
+                ? countValue(Math.round((totalUnits / unitsSold) * 30))
+                : null,
+            fastestMoving: this.rankTurnover(
+              data,
+              itemColumn,
+              quantityColumn,
+              soldColumn,
+              "desc"
+            ),
+            slowestMoving: this.rankTurnover(
+              data,
+              itemColumn,
+              quantityColumn,
+              soldColumn,
+              "asc"
+            ),
+          }
+        : "Sales or usage data not identified; turnover cannot be calculated",
+
+      reorderPoints: {
+        basis: reorderColumn
+          ? `Quantity compared against ${reorderColumn}`
+          : "No reorder level column; items below 20% of average stock flagged",
+        itemsBelowReorderLevel: countValue(reorderItems.length),
+        items: reorderItems.slice(0, 10),
+      },
+
+      deadStock: {
+        basis: deadStock.basis,
+        deadStockItems: countValue(deadStock.items.length),
+        valueTiedUp:
+          deadStock.value > 0 ? currencyValue(deadStock.value) : null,
+        items: deadStock.items.slice(0, 10),
+      },
+
+      recommendations: this.generateInventoryRecommendations(
+        outOfStock,
+        reorderItems.length,
+        deadStock.items.length,
+        turnoverRate,
+        Boolean(soldColumn)
+      ),
+
+      basicStats: stats,
+
+      charts: buildColumnCharts(data, stats, totals.rowCount > data.length),
+    };
+  }
+
+  private static summarizeGroups(
+    data: Record<string, unknown>[],
+    groupColumn: string,
+    quantityColumn?: string
+  ): Record<string, ReportValue> {
+    // Units per group when quantities are known, item counts otherwise
+    const summary: Record<string, ReportValue> = {};
+    groupTotals(data, groupColumn, [quantityColumn])
+      .sort(
+        (a, b) =>
+          (b.totals[quantityColumn || ""] || b.rows) -
+          (a.totals[quantityColumn || ""] || a.rows)
+      )
+      .slice(0, 5)
+      .forEach((group) => {
+        summary[group.key] = countValue(
+          quantityColumn ? group.totals[quantityColumn] || 0 : group.rows
+        );
+      });
+    return summary;
+  }
+
+  private static findReorderItems(
+    data: Record<string, unknown>[],
+    itemColumn?: string,
+    quantityColumn?: string,
+    reorderColumn?: string
+  ): ItemQuantity[] {
+    if (!quantityColumn) return [];
+
+    const average = averageColumn(data, quantityColumn) || 0;
+    const fallbackLevel = average * 0.2;
+
+    return data
+      .map((row, index) => {
+        const qty = toNumber(row[quantityColumn]);
+        const level = reorderColumn
+          ? toNumber(row[reorderColumn])
+          : fallbackLevel;
+        return { row, index, qty, level };
+      })
+      .filter(({ qty, level }) => !isNaN(qty) && !isNaN(level) && qty <= level)
+      .sort((a, b) => a.qty - a.level - (b.qty - b.level))
+      .map(({ row, index, qty, level }) => ({
+        item: itemColumn ? String(row[itemColumn]) : `Row ${index + 2}`,
+        onHand: countValue(qty),
+        reorderLevel: countValue(Math.round(level)),
+      }));
+  }
+
+  private static findDeadStock(
+    data: Record<string, unknown>[],
+    itemColumn?: string,
+    quantityColumn?: string,
+    soldColumn?: string,
+    lastMovementColumn?: string,
+    unitCostColumn?: string
+  ): { basis: string; items: ItemQuantity[]; value: number } {
+    const cutoff = Date.now() - 180 * 24 * 60 * 60 * 1000;
+    let basis = "Sales and movement data not identified";
+    let isDead: (row: Record<string, unknown>) => boolean = () => false;
+
+    if (soldColumn) {
+      basis = `Items with stock on hand and no ${soldColumn}`;
+      isDead = (row) => {
+        const sold = toNumber(row[soldColumn]);
+        return isNaN(sold) || sold <= 0;
+      };
+    } else if (lastMovementColumn) {
+      basis = `Items with no movement in 180 days (${lastMovementColumn})`;
+      isDead = (row) => {
+        const time = Date.parse(String(row[lastMovementColumn]));
+        return !isNaN(time) && time < cutoff;
+      };
+    }
+
+    let value = 0;
+    const items = data
+      .map((row, index) => ({ row, index }))
+      .filter(({ row }) => {
+        const qty = quantityColumn ? toNumber(row[quantityColumn]) : 1;
+        return !isNaN(qty) && qty > 0 && isDead(row);
+      })
+      .map(({ row, index }) => {
+        const qty = quantityColumn ? toNumber(row[quantityColumn]) : 0;
+        const cost = unitCostColumn ? toNumber(row[unitCostColumn]) : NaN;
+        if (!isNaN(cost)) value += qty * cost;
+        return {
+          item: itemColumn ? String(row[itemColumn]) : `Row ${index + 2}`,
+          onHand: countValue(qty),
+        };
+      });
+
+    return { basis, items, value };
+  }
+
+  private static rankTurnover(
+    data: Record<string, unknown>[],
+    itemColumn: string | undefined,
+    quantityColumn: string | undefined,
+    soldColumn: string,
+    direction: "asc" | "desc"
+  ): Record<string, ReportValue> | string | null {
+    if (!itemColumn || !quantityColumn) return "Item data not identified";
+
+    const ranked = groupTotals(data, itemColumn, [quantityColumn, soldColumn])
+      .filter((group) => (group.totals[quantityColumn] || 0) > 0)
+      .map((group) => ({
+        key: group.key,
+        turnover:
+          (group.totals[soldColumn] || 0) / group.totals[quantityColumn],
+      }))
+      .sort((a, b) =>
+        direction === "desc" ? b.turnover - a.turnover : a.turnover - b.turnover
+      )
+      .slice(0, 3);
+
+    if (ranked.length === 0) return null;
+    const turnover: Record<string, ReportValue> = {};
+    ranked.forEach((item) => {
+      turnover[item.key] = numberValue(item.turnover);
+    });
+    return turnover;
+  }
+
+  private static generateInventoryRecommendations(
+    outOfStock: number,
+    belowReorder: number,
+    deadStock: number,
+    turnoverRate: number,
+    hasSalesData: boolean
+  ): string[] {
+    const recommendations = [];
+
+    if (outOfStock > 0) {
+      recommendations.push(
+        `Replenish ${outOfStock} out-of-stock item(s) to avoid lost sales`
+      );
+    }
+    if (belowReorder > 0) {
+      recommendations.push(
+        `Raise purchase orders for ${belowReorder} item(s) at or below reorder level`
+      );
+    }
+    if (deadStock > 0) {
+      recommendations.push(
+        `Clear or discount ${deadStock} dead-stock item(s) to free working capital`
+      );
+    }
+    if (hasSalesData && turnoverRate < 1) {
+      recommendations.push(
+        "Turnover is low relative to stock on hand; review order quantities"
+      );
+    }
+    if (!hasSalesData) {
+      recommendations.push(
+        "Add sales or usage quantities to enable turnover analysis"
+      );
+    }
+
+    recommendations.push("Review reorder levels against supplier lead times");
+
+    return recommendations;
+  }
+}
+
+/* ----------   REGISTRATION   ---------- */
+export const inventoryGenerator: ReportGenerator = {
+  id: "inventory",
+  name: "Inventory Analysis",
+  color: "purple",
+  icon: Database,
+  detect: signalScorer([
+    {
+      label: "stock on hand",
+      pattern: /on[\s_]*hand|in[\s_]*stock|stock|inventory|available/i,
+      weight: 3,
+      kind: "number",
+    },
+    {
+      label: "reorder level",
+      pattern:
+        /reorder|safety|min(imum)?[\s_]*(stock|level|qty)|par[\s_]*level/i,
+      weight: 3,
+      kind: "number",
+    },
+    {
+      label: "item",
+      pattern: /sku|item|part|product/i,
+      weight: 2,
+      cardinality: "high",
+    },
+    {
+      label: "warehouse",
+      pattern: /warehouse|location|bin|site|aisle/i,
+      weight: 2,
+      kind: "text",
+      cardinality: "low",
+    },
+    {
+      label: "supplier",
+      pattern: /supplier|vendor|manufacturer/i,
+      weight: 2,
+      kind: "text",
+    },
+    {
+      label: "unit cost",
+      pattern: /unit[\s_]*(cost|price)/i,
+      weight: 2,
+      kind: "number",
+    },
+    {
+      label: "units sold",
+      pattern: /sold|usage|consum|demand|issued/i,
+      weight: 1,
+      kind: "number",
+    },
+    {
+      label: "last movement",
+      pattern: /last[\s_]*(sold|sale|movement|received|count)/i,
+      weight: 1,
+      kind: "date",
+    },
+    {
+      label: "category",
+      pattern: /category|class|family/i,
+      weight: 1,
+      kind: "text",
+      cardinality: "low",
+    },
+  ]),
+  columnRoles: [
+    {
+      role: "product",
+      required: true,
+      patterns: [/sku|item|product|part|name/i],
+    },
+    {
+      role: "reorderLevel",
+      patterns: [/reorder|min(imum)?[\s_]*(stock|level|qty|quantity)|safety/i],
+    },
+    {
+      role: "lastMovement",
+      patterns: [/last[\s_]*(sold|sale|movement|activity|issue)|date/i],
+    },
+    {
+      role: "unitsSold",
+      patterns: [/sold|usage|consum|demand|issued|shipped|sales/i],
+    },
+    {
+      role: "quantity",
+      required: true,
+      patterns: [
+        /on[\s_]*hand|in[\s_]*stock|stock|quantity|qty|units|inventory|balance/i,
+      ],
+    },
+    { role: "unitCost", patterns: [/unit[\s_]*(cost|price)/i, /cost|price/i] },
+    {
+      role: "category",
+      patterns: [/category|group|class|department|family/i],
+    },
+    { role: "location", patterns: [/warehouse|location|site|bin/i] },
+  ],
+  sections: [
+    { key: "stockLevels", title: "Stock Levels", sampled: true },
+    { key: "turnoverAnalysis", title: "Turnover Analysis", sampled: true },
+    { key: "reorderPoints", title: "Reorder Points", sampled: true },
+    { key: "deadStock", title: "Dead Stock", sampled: true },
+    { key: "recommendations", title: "Recommendations", sampled: true },
+  ],
+  suggestions: () => [
+    "Include reorder levels for each item",
+    "Add units sold or last movement dates for turnover",
+  ],
+  generate: (data, sourceLabel, roles, totals) =>
+    InventoryReportGenerator.generate(data, sourceLabel, roles, totals),
+};
@@ -0,0 +1,350 @@
+import { Target } from "lucide-react";
+import {
+  countValue,
+  currencyValue,
+  percentValue,
+  ReportValue,
+} from "@/lib/reportValues";
+import type { ColumnAssignment } from "@/lib/columnRoles";
+import type { TableTotals } from "@/lib/aggregates";
+import {
+  amountText,
+  buildColumnCharts,
+  groupTotals,
+  signalScorer,
+} from "@/lib/generators/shared";
+import type { GeneratedReport, ReportGenerator } from "@/lib/generators/types";
+
+/* ----------   GENERATOR   ---------- */
+class MarketingReportGenerator {
+  static async generate(
+    data: Record<string, unknown>[],
+    fileName: string,
+    roles: ColumnAssignment,
+    totals: TableTotals
+  ): Promise<GeneratedReport> {
+    const stats = totals.stats();
+
+    const campaignColumn = roles.campaign?.[0];
+    const channelColumn = roles.channel?.[0];
+    const spendColumn = roles.cost?.[0];
+    const revenueColumn = roles.revenue?.[0];
+    const impressionsColumn = roles.impressions?.[0];
+    const clicksColumn = roles.clicks?.[0];
+    const conversionsColumn = roles.conversions?.[0];
+    const audienceColumn = roles.audience?.[0];
+
+    const totalSpend = totals.sum(spendColumn);
+    const totalRevenue = totals.sum(revenueColumn);
+    const totalImpressions = totals.sum(impressionsColumn);
+    const totalClicks = totals.sum(clicksColumn);
+    const totalConversions = totals.sum(conversionsColumn);
+    const metrics = this.calculateMetrics(
+      totalSpend,
+      totalRevenue,
+      totalImpressions,
+      totalClicks,
+      totalConversions
+    );
+    const metricColumns = {
+      spendColumn,
+      revenueColumn,
+      impressionsColumn,
+      clicksColumn,
+      conversionsColumn,
+    };
+
+    const campaigns = campaignColumn
+      ? this.analyzeGroups(data, campaignColumn, metricColumns)
+      : [];
+    const channels = channelColumn
+      ? this.analyzeGroups(data, channelColumn, metricColumns)
+      : [];
+
+    return {
+      executiveSummary: `Marketing analysis of ${fileName} covers ${
+        campaignColumn
+          ? `${totals.distinct([campaignColumn])} campaigns`
+          : `${totals.rowCount} records`
+      }${
+        channelColumn
+          ? ` across ${totals.distinct([channelColumn])} channels`
+          : ""
+      }, with ${
+        totalSpend > 0
+          ? `a spend of ${amountText(totalSpend)}`
+          : "no identified spend"
+      }${
+        totalImpressions > 0
+          ? `, ${totalImpressions.toLocaleString()} impressions`
+          : ""
+      }${
+        metrics.roi !== null
+          ? ` and an overall ROI of ${(metrics.roi * 100).toFixed(1)}%`
+          : ""
+      }.`,
+
+      campaignPerformance: campaignColumn
+        ? this.describeGroups(campaigns)
+        : "Campaign data not identified",
+
+      channelAnalysis: channelColumn
+        ? this.describeGroups(channels)
+        : "Channel data not identified",
+
+      roiAnalysis: {
+        totalSpend: totalSpend > 0 ? currencyValue(totalSpend) : null,
+        totalRevenue: totalRevenue > 0 ? currencyValue(totalRevenue) : null,
+        roi: metrics.roi !== null ? percentValue(metrics.roi) : null,
+        costPerAcquisition:
+          metrics.cpa !== null ? currencyValue(metrics.cpa) : null,
+        bestCampaign: this.pickByRoi(campaigns, "best"),
+        worstCampaign: this.pickByRoi(campaigns, "worst"),
+        negativeRoiCampaigns: countValue(
+          campaigns.filter(
+            (campaign) => campaign.roi !== null && campaign.roi < 0
+          ).length
+        ),
+      },
+
+      audienceInsights: audienceColumn
+        ? this.describeGroups(
+            this.analyzeGroups(data, audienceColumn, metricColumns)
+          )
+        : {
+            totalReach: countValue(totalImpressions),
+            clickThroughRate:
+              metrics.ctr !== null ? percentValue(metrics.ctr) : null,
+            conversionRate:
+              metrics.conversionRate !== null
+                ? percentValue(metrics.conversionRate)
+                : null,
+          },
+
+      optimization: this.generateOptimizations(campaigns, channels, metrics),
+
+      basicStats: stats,
+
+      charts: buildColumnCharts(data, stats, totals.rowCount > data.length),
+    };
+  }
+
+  private static calculateMetrics(
+    spend: number,
+    revenue: number,
+    impressions: number,
+    clicks: number,
+    conversions: number
+  ) {
+    return {
+      roi: spend > 0 && revenue > 0 ? (revenue - spend) / spend : null,
+      cpa: spend > 0 && conversions > 0 ? spend / conversions : null,
+      ctr: impressions > 0 && clicks > 0 ? clicks / impressions : null,
+      cpc: spend > 0 && clicks > 0 ? spend / clicks : null,
+      conversionRate:
+        clicks > 0 && conversions > 0 ? conversions / clicks : null,
+    };
+  }
+
+  private static analyzeGroups(
+    data: Record<string, unknown>[],
+    groupColumn: string,
+    columns: Record<string, string | undefined>
+  ) {
+    const {
+      spendColumn,
+      revenueColumn,
+      impressionsColumn,
+      clicksColumn,
+      conversionsColumn,
+    } = columns;
+
+    return groupTotals(data, groupColumn, Object.values(columns)).map(
+      (group) => {
+        const spend = group.totals[spendColumn || ""] || 0;
+        const revenue = group.totals[revenueColumn || ""] || 0;
+        const conversions = group.totals[conversionsColumn || ""] || 0;
+        return {
+          name: group.key,
+          spend,
+          revenue,
+          conversions,
+          ...this.calculateMetrics(
+            spend,
+            revenue,
+            group.totals[impressionsColumn || ""] || 0,
+            group.totals[clicksColumn || ""] || 0,
+            conversions
+          ),
+        };
+      }
+    );
+  }
+
+  private static describeGroups(
+    groups: ReturnType<typeof MarketingReportGenerator.analyzeGroups>
+  ): Record<string, Record<string, ReportValue>> {
+    const described: Record<string, Record<string, ReportValue>> = {};
+    [...groups]
+      .sort((a, b) => b.revenue - a.revenue || b.conversions - a.conversions)
+      .slice(0, 10)
+      .forEach((group) => {
+        // Only the metrics the data supports for this group
+        const metrics: Record<string, ReportValue> = {};
+        if (group.spend > 0) metrics.spend = currencyValue(group.spend);
+        if (group.revenue > 0) metrics.revenue = currencyValue(group.revenue);
+        if (group.conversions > 0)
+          metrics.conversions = countValue(group.conversions);
+        if (group.roi !== null) metrics.roi = percentValue(group.roi);
+        if (group.cpa !== null) metrics.cpa = currencyValue(group.cpa);
+        if (group.ctr !== null) metrics.ctr = percentValue(group.ctr);
+        described[group.name] = metrics;
+      });
+    return described;
+  }
+
+  private static pickByRoi(
+    campaigns: ReturnType<typeof MarketingReportGenerator.analyzeGroups>,
+    which: "best" | "worst"
+  ): { name: string; roi: ReportValue } | null {
+    const withRoi = campaigns.filter((campaign) => campaign.roi !== null);
+    if (withRoi.length === 0) return null;
+    const sorted = withRoi.sort((a, b) =>
+      which === "best" ? b.roi! - a.roi! : a.roi! - b.roi!
+    );
+    return { name: sorted[0].name, roi: percentValue(sorted[0].roi!) };
+  }
+
+  private static generateOptimizations(
+    campaigns: ReturnType<typeof MarketingReportGenerator.analyzeGroups>,
+    channels: ReturnType<typeof MarketingReportGenerator.analyzeGroups>,
+    metrics: ReturnType<typeof MarketingReportGenerator.calculateMetrics>
+  ): string[] {
+    const optimizations = [];
+
+    const losing = campaigns.filter((c) => c.roi !== null && c.roi < 0);
+    if (losing.length > 0) {
+      optimizations.push(
+        `Pause or rework ${
+          losing.length
+        } campaign(s) with negative ROI: ${losing
+          .slice(0, 3)
+          .map((c) => c.name)
+          .join(", ")}`
+      );
+    }
+
+    const channelsByCpa = channels
+      .filter((c) => c.cpa !== null)
+      .sort((a, b) => a.cpa! - b.cpa!);
+    if (channelsByCpa.length > 1) {
+      optimizations.push(
+        `Shift budget toward ${channelsByCpa[0].name} (lowest CPA ${amountText(
+          channelsByCpa[0].cpa!
+        )}) from ${channelsByCpa[channelsByCpa.length - 1].name}`
+      );
+    }
+    if (metrics.ctr !== null && metrics.ctr < 0.01) {
+      optimizations.push("Click-through rate is below 1%; refresh ad creative");
+    }
+    if (metrics.roi === null) {
+      optimizations.push("Track spend and revenue per campaign to measure ROI");
+    }
+
+    optimizations.push("A/B test messaging on the highest-reach audiences");
+
+    return optimizations;
+  }
+}
+
+/* ----------   REGISTRATION   ---------- */
+export const marketingGenerator: ReportGenerator = {
+  id: "marketing",
+  name: "Marketing Analytics",
+  color: "pink",
+  icon: Target,
+  detect: signalScorer([
+    {
+      label: "campaign",
+      pattern: /campaign|ad[\s_]*(group|set|name)|creative/i,
+      weight: 3,
+      kind: "text",
+    },
+    {
+      label: "channel",
+      pattern: /channel|source|medium|platform/i,
+      weight: 2,
+      kind: "text",
+      cardinality: "low",
+    },
+    {
+      label: "impressions",
+      pattern: /impression|reach|views/i,
+      weight: 3,
+      kind: "number",
+    },
+    { label: "clicks", pattern: /click|ctr/i, weight: 3, kind: "number" },
+    {
+      label: "conversions",
+      pattern: /conversion|signup|leads/i,
+      weight: 2,
+      kind: "number",
+    },
+    {
+      label: "spend",
+      pattern: /spend|cpc|cpm|cpa|ad[\s_]*cost|budget/i,
+      weight: 2,
+      kind: "number",
+    },
+    {
+      label: "return",
+      pattern: /roi|roas|revenue/i,
+      weight: 1,
+      kind: "number",
+    },
+    { label: "audience", pattern: /audience|engagement/i, weight: 1 },
+  ]),
+  columnRoles: [
+    {
+      role: "campaign",
+      patterns: [/campaign|ad[\s_]*(name|set|group)|creative/i],
+    },
+    {
+      role: "channel",
+      patterns: [/channel|source|medium|platform|network/i],
+    },
+    {
+      role: "cost",
+      required: true,
+      patterns: [/spend|cost|budget|investment/i],
+    },
+    { role: "revenue", patterns: [/revenue|sales|return|value|income/i] },
+    { role: "impressions", patterns: [/impression|reach|views/i] },
+    { role: "clicks", patterns: [/click/i] },
+    {
+      role: "conversions",
+      patterns: [/conversion|leads|signups|acquisitions|purchases|orders/i],
+    },
+    {
+      role: "audience",
+      patterns: [/audience|segment|demographic|age|gender|region|country/i],
+    },
+  ],
+  sections: [
+    {
+      key: "campaignPerformance",
+      title: "Campaign Performance",
+      sampled: true,
+    },
+    { key: "channelAnalysis", title: "Channel Analysis", sampled: true },
+    { key: "roiAnalysis", title: "ROI Analysis", sampled: true },
+    { key: "audienceInsights", title: "Audience Insights", sampled: true },
+    { key: "optimization", title: "Optimization", sampled: true },
+  ],
+  suggestions: () => [
+    "Track spend and revenue per campaign for ROI",
+    "Include conversions to calculate cost per acquisition",
+  ],
+  generate: (data, sourceLabel, roles, totals) =>
+    MarketingReportGenerator.generate(data, sourceLabel, roles, totals),
+};
@@ -0,0 +1,386 @@
+import { Activity } from "lucide-react";
+import {
+  countValue,
+  numberValue,
+  percentValue,
+  ReportValue,
+} from "@/lib/reportValues";
+import type { ColumnAssignment } from "@/lib/columnRoles";
+import type { TableTotals } from "@/lib/aggregates";
+import {
+  buildColumnCharts,
+  groupTotals,
+  signalScorer,
+} from "@/lib/generators/shared";
+import type { GeneratedReport, ReportGenerator } from "@/lib/generators/types";
+
+/* ----------   GENERATOR   ---------- */
+class OperationalReportGenerator {
+  static async generate(
+    data: Record<string, unknown>[],
+    fileName: string,
+    roles: ColumnAssignment,
+    totals: TableTotals
+  ): Promise<GeneratedReport> {
+    const stats = totals.stats();
+
+    const processColumn = roles.process?.[0];
+    const outputColumn = roles.output?.[0];
+    const targetColumn = roles.target?.[0];
+    const downtimeColumn = roles.downtime?.[0];
+    const hoursColumn = roles.hours?.[0];
+    const cycleTimeColumn = roles.cycleTime?.[0];
+    const errorsColumn = roles.errors?.[0];
+    const efficiencyColumn = roles.efficiency?.[0];
+    const uptimeColumn = roles.uptime?.[0];
+
+    const totalOutput = totals.sum(outputColumn);
+    const totalTarget = totals.sum(targetColumn);
+    const totalHours = totals.sum(hoursColumn);
+    const totalDowntime = totals.sum(downtimeColumn);
+    const totalErrors = totals.sum(errorsColumn);
+    const avgCycleTime = totals.average(cycleTimeColumn);
+
+    const throughput =
+      outputColumn && totalHours > 0 ? totalOutput / totalHours : null;
+    const errorRate =
+      errorsColumn && totalOutput > 0 ? totalErrors / totalOutput : null;
+    const efficiency =
+      totalTarget > 0
+        ? totalOutput / totalTarget
+        : this.normalizeRatio(totals.average(efficiencyColumn));
+    const uptime =
+      this.normalizeRatio(totals.average(uptimeColumn)) ??
+      (downtimeColumn && totalHours > 0
+        ? Math.max(0, 1 - totalDowntime / (totalHours + totalDowntime))
+        : null);
+
+    const groups = processColumn
+      ? this.analyzeProcesses(data, processColumn, {
+          outputColumn,
+          targetColumn,
+          hoursColumn,
+          errorsColumn,
+          downtimeColumn,
+          cycleTimeColumn,
+        })
+      : [];
+
+    return {
+      executiveSummary: `Operations analysis of ${fileName} covers ${
+        totals.rowCount
+      } records${
+        processColumn
+          ? ` across ${totals.distinct([
+              processColumn,
+            ])} ${processColumn} values`
+          : ""
+      }. ${
+        throughput !== null
+          ? `Throughput averaged ${throughput.toFixed(2)} units/hour`
+          : `Total output was ${totalOutput.toLocaleString()}`
+      }${
+        errorRate !== null
+          ? ` with an error rate of ${(errorRate * 100).toFixed(2)}%`
+          : ""
+      }.`,
+
+      efficiency: {
+        efficiency: efficiency !== null ? percentValue(efficiency) : null,
+        uptime: uptime !== null ? percentValue(uptime) : null,
+        totalDowntime: downtimeColumn ? numberValue(totalDowntime) : null,
+        basis:
+          totalTarget > 0
+            ? `Output compared against ${targetColumn}`
+            : efficiencyColumn
+            ? `Average of ${efficiencyColumn}`
+            : "No target or efficiency column identified",
+      },
+
+      productivity: {
+        totalOutput: countValue(totalOutput),
+        // Units per hour
+        throughput: throughput !== null ? numberValue(throughput) : null,
+        avgCycleTime: avgCycleTime !== null ? numberValue(avgCycleTime) : null,
+        byProcess: processColumn
+          ? this.rankProcesses(groups, "output")
+          : "Process data not identified",
+      },
+
+      quality: {
+        totalErrors: errorsColumn ? countValue(totalErrors) : null,
+        errorRate: errorRate !== null ? percentValue(errorRate) : null,
+        worstProcesses:
+          processColumn && errorsColumn
+            ? this.rankProcesses(groups, "errorRate")
+            : null,
+      },
+
+      bottlenecks: this.identifyBottlenecks(groups, processColumn),
+
+      improvements: this.generateImprovements(
+        efficiency,
+        uptime,
+        errorRate,
+        groups
+      ),
+
+      basicStats: stats,
+
+      charts: buildColumnCharts(data, stats, totals.rowCount > data.length),
+    };
+  }
+
+  // Top processes by output (units) or error rate (worst first)
+  private static rankProcesses(
+    groups: ReturnType<typeof OperationalReportGenerator.analyzeProcesses>,
+    metric: "output" | "errorRate"
+  ): Record<string, ReportValue> {
+    const ranked: Record<string, ReportValue> = {};
+    groups
+      .filter((group) => group[metric] !== null)
+      .sort((a, b) => b[metric]! - a[metric]!)
+      .slice(0, metric === "output" ? 5 : 3)
+      .forEach((group) => {
+        ranked[group.name] =
+          metric === "output"
+            ? countValue(group.output)
+            : percentValue(group.errorRate!);
+      });
+    return ranked;
+  }
+
+  // Efficiency and uptime columns come as either 0-1 ratios or 0-100 percents
+  private static normalizeRatio(value: number | null): number | null {
+    if (value === null) return null;
+    return value > 1 ? value / 100 : value;
+  }
+
+  private static analyzeProcesses(
+    data: Record<string, unknown>[],
+    processColumn: string,
+    columns: Record<string, string | undefined>
+  ) {
+    const {
+      outputColumn,
+      targetColumn,
+      hoursColumn,
+      errorsColumn,
+      downtimeColumn,
+      cycleTimeColumn,
+    } = columns;
+
+    return groupTotals(data, processColumn, Object.values(columns)).map(
+      (group) => {
+        const output = group.totals[outputColumn || ""] || 0;
+        const target = group.totals[targetColumn || ""] || 0;
+        const hours = group.totals[hoursColumn || ""] || 0;
+        const errors = group.totals[errorsColumn || ""] || 0;
+        return {
+          name: group.key,
+          output,
+          throughput: hours > 0 && outputColumn ? output / hours : null,
+          efficiency: target > 0 ? output / target : null,
+          errorRate: errorsColumn && output > 0 ? errors / output : null,
+          downtime: group.totals[downtimeColumn || ""] || 0,
+          avgCycleTime: cycleTimeColumn
+            ? (group.totals[cycleTimeColumn] || 0) / group.rows
+            : null,
+        };
+      }
+    );
+  }
+
+  private static identifyBottlenecks(
+    groups: ReturnType<typeof OperationalReportGenerator.analyzeProcesses>,
+    processColumn?: string
+  ): string[] {
+    if (!processColumn || groups.length < 2) {
+      return ["Process or stage data needed to identify bottlenecks"];
+    }
+
+    const bottlenecks = [];
+
+    const byThroughput = groups
+      .filter((g) => g.throughput !== null)
+      .sort((a, b) => a.throughput! - b.throughput!);
+    if (byThroughput.length > 1) {
+      bottlenecks.push(
+        `${
+          byThroughput[0].name
+        } has the lowest throughput (${byThroughput[0].throughput!.toFixed(
+          2
+        )} units/hour)`
+      );
+    }
+
+    const byCycleTime = groups
+      .filter((g) => g.avgCycleTime !== null)
+      .sort((a, b) => b.avgCycleTime! - a.avgCycleTime!);
+    if (byCycleTime.length > 1) {
+      bottlenecks.push(
+        `${
+          byCycleTime[0].name
+        } has the longest average cycle time (${byCycleTime[0].avgCycleTime!.toFixed(
+          2
+        )})`
+      );
+    }
+
+    const byEfficiency = groups
+      .filter((g) => g.efficiency !== null)
+      .sort((a, b) => a.efficiency! - b.efficiency!);
+    if (byEfficiency.length > 1) {
+      bottlenecks.push(
+        `${byEfficiency[0].name} runs at ${(
+          byEfficiency[0].efficiency! * 100
+        ).toFixed(1)}% of target`
+      );
+    }
+
+    const byDowntime = [...groups].sort((a, b) => b.downtime - a.downtime);
+    if (byDowntime[0].downtime > 0) {
+      bottlenecks.push(
+        `${
+          byDowntime[0].name
+        } accounts for the most downtime (${byDowntime[0].downtime.toLocaleString()})`
+      );
+    }
+
+    return bottlenecks.length > 0
+      ? bottlenecks
+      : ["No clear bottleneck identified from the available metrics"];
+  }
+
+  private static generateImprovements(
+    efficiency: number | null,
+    uptime: number | null,
+    errorRate: number | null,
+    groups: ReturnType<typeof OperationalReportGenerator.analyzeProcesses>
+  ): string[] {
+    const improvements = [];
+
+    if (efficiency !== null && efficiency < 0.85) {
+      improvements.push(
+        "Efficiency is below 85% of target; review staffing and changeovers"
+      );
+    }
+    if (uptime !== null && uptime < 0.9) {
+      improvements.push(
+        "Uptime is below 90%; prioritize preventive maintenance"
+      );
+    }
+    if (errorRate !== null && errorRate > 0.02) {
+      improvements.push(
+        "Error rate exceeds 2%; introduce root-cause analysis on defects"
+      );
+    }
+    if (groups.length === 0) {
+      improvements.push(
+        "Record the process or stage for each row to compare performance"
+      );
+    }
+
+    improvements.push("Track these metrics over time to confirm improvements");
+
+    return improvements;
+  }
+}
+
+/* ----------   REGISTRATION   ---------- */
+export const operationalGenerator: ReportGenerator = {
+  id: "operational",
+  name: "Operations Report",
+  color: "indigo",
+  icon: Activity,
+  detect: signalScorer([
+    {
+      label: "process",
+      pattern:
+        /process|machine|(^|[\s_])line($|[\s_])|station|shift|operator|stage|team/i,
+      weight: 3,
+      kind: "text",
+    },
+    {
+      label: "output",
+      pattern: /output|throughput|produced|processed|units/i,
+      weight: 3,
+      kind: "number",
+    },
+    {
+      label: "downtime",
+      pattern: /downtime|down[\s_]*time|outage|uptime|availability/i,
+      weight: 3,
+      kind: "number",
+    },
+    {
+      label: "defects",
+      pattern: /defect|error|reject|scrap|rework/i,
+      weight: 2,
+      kind: "number",
+    },
+    {
+      label: "efficiency",
+      pattern: /efficiency|utili[sz]ation|oee|productivity/i,
+      weight: 2,
+      kind: "number",
+    },
+    {
+      label: "cycle time",
+      pattern: /cycle|lead[\s_]*time|turnaround/i,
+      weight: 2,
+      kind: "number",
+    },
+    {
+      label: "target",
+      pattern: /target|capacity|planned|goal/i,
+      weight: 1,
+      kind: "number",
+    },
+    {
+      label: "hours",
+      pattern: /hours|runtime|duration/i,
+      weight: 1,
+      kind: "number",
+    },
+  ]),
+  columnRoles: [
+    {
+      role: "process",
+      required: true,
+      patterns: [
+        /process|stage|step|machine|line|station|department|team|shift|operator/i,
+      ],
+    },
+    {
+      role: "output",
+      required: true,
+      patterns: [
+        /output|produced|throughput|volume|processed|completed|units/i,
+      ],
+    },
+    { role: "target", patterns: [/target|capacity|planned|goal/i] },
+    { role: "downtime", patterns: [/downtime|down[\s_]*time|outage/i] },
+    { role: "uptime", patterns: [/uptime|availability/i] },
+    { role: "cycleTime", patterns: [/cycle|lead[\s_]*time|wait/i] },
+    { role: "hours", patterns: [/hours|time|duration|runtime/i] },
+    {
+      role: "errors",
+      patterns: [/error|defect|reject|failure|scrap|rework/i],
+    },
+    { role: "efficiency", patterns: [/efficiency|utili[sz]ation|oee/i] },
+  ],
+  sections: [
+    { key: "efficiency", title: "Efficiency" },
+    { key: "productivity", title: "Productivity", sampled: true },
+    { key: "quality", title: "Quality", sampled: true },
+    { key: "bottlenecks", title: "Bottlenecks", sampled: true },
+    { key: "improvements", title: "Improvements", sampled: true },
+  ],
+  suggestions: () => [
+    "Add targets or capacity to measure efficiency",
+    "Record hours and downtime per process",
+  ],
+  generate: (data, sourceLabel, roles, totals) =>
+    OperationalReportGenerator.generate(data, sourceLabel, roles, totals),
+};
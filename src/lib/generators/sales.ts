@@ -0,0 +1,403 @@
+import { TrendingUp } from "lucide-react";
+import {
+  countValue,
+  currencyValue,
+  numberValue,
+  percentValue,
+  ReportValue,
+} from "@/lib/reportValues";
+import { barChart, ChartSpec, timeSeriesChart } from "@/lib/reportCharts";
+import {
+  buildTimeSeries,
+  describeTrend,
+  TimeSeriesSection,
+} from "@/lib/timeSeries";
+import type { ColumnStats, TableTotals } from "@/lib/aggregates";
+import { analyzeCustomers, CustomerAnalytics } from "@/lib/customerAnalytics";
+import type { ColumnAssignment } from "@/lib/columnRoles";
+import {
+  amountText,
+  buildColumnCharts,
+  signalScorer,
+} from "@/lib/generators/shared";
+import type { GeneratedReport, ReportGenerator } from "@/lib/generators/types";
+
+const TOP_PRODUCTS_CHART_SIZE = 10;
+// Customers listed with their RFM scores, by revenue
+const TOP_RFM_CUSTOMERS = 50;
+
+/* ----------   GENERATOR   ---------- */
+class SalesReportGenerator {
+  static async generate(
+    data: Record<string, unknown>[],
+    fileName: string,
+    roles: ColumnAssignment,
+    totals: TableTotals
+  ): Promise<GeneratedReport> {
+    const stats = totals.stats();
+    const sampled = totals.rowCount > data.length;
+
+    const salesColumns = roles.revenue || [];
+    const quantityColumns = roles.quantity || [];
+    const customerColumns = roles.customer || [];
+    const productColumns = roles.product || [];
+
+    const transactions = totals.rowCount;
+    const totalSales = totals.sumOf(salesColumns);
+    const totalQuantity = totals.sumOf(quantityColumns);
+    const uniqueCustomers = totals.distinct(customerColumns);
+    const uniqueProducts = totals.distinct(productColumns);
+    const avgOrderValue =
+      totalSales > 0 && transactions > 0 ? totalSales / transactions : 0;
+    const timeSeries = buildTimeSeries(data, {
+      sales: salesColumns,
+      units: quantityColumns,
+    });
+    const customers = analyzeCustomers(data, {
+      customer: customerColumns,
+      revenue: salesColumns,
+    });
+
+    return {
+      executiveSummary: `Sales analysis of ${fileName} reveals ${transactions} transactions with total sales of ${amountText(
+        totalSales
+      )}, ${uniqueCustomers} unique customers, and ${uniqueProducts} unique products.`,
+
+      salesOverview: {
+        totalSales: currencyValue(totalSales),
+        totalTransactions: countValue(transactions),
+        avgOrderValue: currencyValue(avgOrderValue),
+        totalQuantity: countValue(totalQuantity),
+      },
+
+      customerAnalysis: {
+        uniqueCustomers: countValue(uniqueCustomers),
+        avgCustomerValue:
+          uniqueCustomers > 0
+            ? currencyValue(totalSales / uniqueCustomers)
+            : null,
+        repeatCustomerRate: this.calculateRepeatRate(data, customerColumns),
+      },
+
+      ...(customers ? this.customerSections(customers) : {}),
+
+      productAnalysis: {
+        uniqueProducts: countValue(uniqueProducts),
+        topProducts: this.getTopProducts(data, productColumns, salesColumns),
+        avgProductPrice:
+          uniqueProducts > 0 && totalQuantity > 0
+            ? currencyValue(totalSales / totalQuantity)
+            : null,
+      },
+
+      trends: this.analyzeSalesTrends(data, salesColumns, timeSeries),
+
+      ...(timeSeries ? { timeSeries } : {}),
+
+      basicStats: stats,
+
+      charts: this.buildCharts(
+        data,
+        stats,
+        productColumns,
+        salesColumns,
+        timeSeries,
+        sampled
+      ),
+    };
+  }
+
+  private static buildCharts(
+    data: Record<string, unknown>[],
+    stats: Record<string, ColumnStats>,
+    productColumns: string[],
+    salesColumns: string[],
+    timeSeries: TimeSeriesSection | null,
+    sampled: boolean
+  ): ChartSpec[] {
+    // Both charts are drawn from the sampled rows
+    const charts: ChartSpec[] = [];
+    const ranked = this.rankProducts(data, productColumns, salesColumns);
+    if (ranked.length > 0) {
+      charts.push(
+        barChart(
+          "Top Products by Sales",
+          ranked
+            .slice(0, TOP_PRODUCTS_CHART_SIZE)
+            .map(([label, value]) => ({ label, value })),
+          "currency",
+          "Sales"
+        )
+      );
+    }
+    if (timeSeries) {
+      charts.push(timeSeriesChart("Sales Over Time", timeSeries, "number"));
+    }
+    return [
+      ...(sampled ? charts.map((chart) => ({ ...chart, sampled })) : charts),
+      ...buildColumnCharts(data, stats, sampled),
+    ];
+  }
+
+  // Lifetime value, RFM segments and cohort retention, each a table
+  private static customerSections(
+    analytics: CustomerAnalytics
+  ): Record<string, unknown> {
+    const { lifetime } = analytics;
+    return {
+      customerLifetime: {
+        customers: countValue(lifetime.customers),
+        repeatCustomers: countValue(lifetime.repeatCustomers),
+        avgOrderFrequency: numberValue(lifetime.avgOrderFrequency),
+        avgDaysBetweenPurchases:
+          lifetime.avgDaysBetweenPurchases === null
+            ? null
+            : numberValue(lifetime.avgDaysBetweenPurchases),
+        avgOrderValue: currencyValue(lifetime.avgOrderValue),
+        avgLifespanMonths: numberValue(lifetime.avgLifespanMonths),
+        avgMonthlyValue: currencyValue(lifetime.avgMonthlyValue),
+        historicalClv: currencyValue(lifetime.historicalClv),
+        dateColumn: analytics.dateColumn,
+        asOf: analytics.asOf,
+      },
+
+      customerSegments: analytics.segments.map((segment) => ({
+        segment: segment.segment,
+        customers: countValue(segment.customers),
+        shareOfCustomers: percentValue(segment.customers / lifetime.customers),
+        revenue: currencyValue(segment.revenue),
+        shareOfRevenue:
+          lifetime.revenue > 0
+            ? percentValue(segment.revenue / lifetime.revenue)
+            : null,
+        avgRecencyDays: numberValue(segment.avgRecencyDays),
+        avgOrders: numberValue(segment.avgOrders),
+        action: segment.action,
+      })),
+
+      topCustomers: [...analytics.customers]
+        .sort((a, b) => b.monetary - a.monetary)
+        .slice(0, TOP_RFM_CUSTOMERS)
+        .map((score) => ({
+          customer: score.customer,
+          segment: score.segment,
+          rfmScore: `${score.recencyScore}${score.frequencyScore}${score.monetaryScore}`,
+          lastPurchase: score.lastPurchase,
+          recencyDays: countValue(score.recencyDays),
+          orders: countValue(score.frequency),
+          revenue: currencyValue(score.monetary),
+        })),
+
+      cohortRetention: analytics.cohorts.map((cohort) => ({
+        cohort: cohort.cohort,
+        customers: countValue(cohort.customers),
+        ...Object.fromEntries(
+          cohort.retention.map((share, offset) => [
+            `Month ${offset}`,
+            share === null ? null : percentValue(share),
+          ])
+        ),
+      })),
+    };
+  }
+
+  private static sumColumns(
+    data: Record<string, unknown>[],
+    columns: string[]
+  ): number {
+    return data.reduce((total, row) => {
+      return (
+        total +
+        columns.reduce((colSum, col) => {
+          const value = parseFloat(String(row[col]).replace(/[,$]/g, ""));
+          return colSum + (isNaN(value) ? 0 : value);
+        }, 0)
+      );
+    }, 0);
+  }
+
+  private static calculateRepeatRate(
+    data: Record<string, unknown>[],
+    customerColumns: string[]
+  ): ReportValue | null {
+    if (customerColumns.length === 0) return null;
+
+    const customerCounts = new Map();
+    data.forEach((row) => {
+      customerColumns.forEach((col) => {
+        if (row[col]) {
+          customerCounts.set(row[col], (customerCounts.get(row[col]) || 0) + 1);
+        }
+      });
+    });
+
+    const repeatCustomers = Array.from(customerCounts.values()).filter(
+      (count) => count > 1
+    ).length;
+    const totalCustomers = customerCounts.size;
+
+    return totalCustomers > 0
+      ? percentValue(repeatCustomers / totalCustomers)
+      : null;
+  }
+
+  private static getTopProducts(
+    data: Record<string, unknown>[],
+    productColumns: string[],
+    salesColumns: string[]
+  ): Record<string, ReportValue> | string {
+    if (productColumns.length === 0) return "Product data not identified";
+
+    const topProducts: Record<string, ReportValue> = {};
+    this.rankProducts(data, productColumns, salesColumns)
+      .slice(0, 3)
+      .forEach(([product, sales]) => {
+        topProducts[product] = currencyValue(sales);
+      });
+    return topProducts;
+  }
+
+  private static rankProducts(
+    data: Record<string, unknown>[],
+    productColumns: string[],
+    salesColumns: string[]
+  ): [string, number][] {
+    const productSales = new Map<string, number>();
+    data.forEach((row) => {
+      productColumns.forEach((productCol) => {
+        if (row[productCol]) {
+          const sales = salesColumns.reduce((sum, salesCol) => {
+            const value = parseFloat(
+              String(row[salesCol]).replace(/[,$]/g, "")
+            );
+            return sum + (isNaN(value) ? 0 : value);
+          }, 0);
+          const product = String(row[productCol]);
+          productSales.set(product, (productSales.get(product) || 0) + sales);
+        }
+      });
+    });
+
+    return Array.from(productSales.entries()).sort((a, b) => b[1] - a[1]);
+  }
+
+  private static analyzeSalesTrends(
+    data: Record<string, unknown>[],
+    salesColumns: string[],
+    timeSeries: TimeSeriesSection | null
+  ): string {
+    const measure = timeSeries?.series.find(
+      (series) => series.name === "sales"
+    );
+    if (timeSeries && measure) return describeTrend(timeSeries, measure);
+
+    // Without a date column, fall back to comparing halves in row order
+    const firstHalf = data.slice(0, Math.floor(data.length / 2));
+    const secondHalf = data.slice(Math.floor(data.length / 2));
+
+    const firstHalfSales = this.sumColumns(firstHalf, salesColumns);
+    const secondHalfSales = this.sumColumns(secondHalf, salesColumns);
+
+    if (secondHalfSales > firstHalfSales * 1.1) {
+      return "Strong upward sales trend observed";
+    } else if (secondHalfSales < firstHalfSales * 0.9) {
+      return "Declining sales trend requires attention";
+    } else {
+      return "Sales performance relatively stable";
+    }
+  }
+}
+
+/* ----------   REGISTRATION   ---------- */
+export const salesGenerator: ReportGenerator = {
+  id: "sales",
+  name: "Sales Performance",
+  color: "blue",
+  icon: TrendingUp,
+  detect: signalScorer([
+    {
+      label: "sales amount",
+      pattern: /sales|amount|total|revenue/i,
+      weight: 3,
+      kind: "number",
+    },
+    { label: "order date", pattern: /date/i, weight: 2, kind: "date" },
+    {
+      label: "order id",
+      pattern: /order[\s_]*(id|no|number|#)|invoice|transaction|receipt/i,
+      weight: 2,
+      cardinality: "high",
+    },
+    { label: "product", pattern: /product|item|sku/i, weight: 2, kind: "text" },
+    {
+      label: "customer",
+      pattern: /customer|client|buyer/i,
+      weight: 2,
+      kind: "text",
+    },
+    {
+      label: "quantity",
+      pattern: /qty|quantity|units/i,
+      weight: 2,
+      kind: "number",
+    },
+    { label: "price", pattern: /price|discount/i, weight: 1, kind: "number" },
+    {
+      label: "sales rep",
+      pattern: /(^|[\s_])rep($|[\s_])|salesperson|commission/i,
+      weight: 1,
+      kind: "text",
+    },
+    {
+      label: "region",
+      pattern: /region|territory|store/i,
+      weight: 1,
+      kind: "text",
+      cardinality: "low",
+    },
+  ]),
+  columnRoles: [
+    {
+      role: "customer",
+      patterns: [/customer|client|user|buyer/i],
+      multiple: true,
+    },
+    {
+      role: "product",
+      patterns: [/product|item|sku|name/i],
+      multiple: true,
+    },
+    {
+      role: "revenue",
+      required: true,
+      patterns: [/sales|revenue|amount|total|price/i],
+      multiple: true,
+    },
+    {
+      role: "quantity",
+      patterns: [/quantity|qty|units|count/i],
+      multiple: true,
+    },
+  ],
+  sections: [
+    { key: "salesOverview", title: "Sales Overview" },
+    { key: "customerAnalysis", title: "Customer Analysis", sampled: true },
+    {
+      key: "customerLifetime",
+      title: "Customer Lifetime Value",
+      sampled: true,
+    },
+    { key: "customerSegments", title: "RFM Segments", sampled: true },
+    { key: "topCustomers", title: "Top Customers by RFM", sampled: true },
+    { key: "cohortRetention", title: "Cohort Retention", sampled: true },
+    { key: "productAnalysis", title: "Product Analysis", sampled: true },
+    { key: "trends", title: "Trends", sampled: true },
+    { key: "recommendedActions", title: "Recommendations" },
+  ],
+  suggestions: () => [
+    "Include customer acquisition cost data",
+    "Add seasonal trend indicators",
+  ],
+  generate: (data, sourceLabel, roles, totals) =>
+    SalesReportGenerator.generate(data, sourceLabel, roles, totals),
+};
@@ -0,0 +1,210 @@
+import type {
+  ColumnSample,
+  DetectionMatch,
+  DetectionSample,
+  DetectionSignal,
+} from "@/lib/generators/types";
+import {
+  formatReportValue,
+  numberValue,
+  percentValue,
+  ReportValue,
+} from "@/lib/reportValues";
+import { barChart, ChartSpec, histogramChart } from "@/lib/reportCharts";
+import { detectDateColumns } from "@/lib/timeSeries";
+import type { ColumnStats } from "@/lib/aggregates";
+
+/* ----------   SHARED GENERATOR HELPERS   ---------- */
+const ID_COLUMN_PATTERN = /(^id$|_id$|\bid\b|^sku$|code$)/i;
+const MAX_HISTOGRAMS = 4;
+
+export interface GroupTotals {
+  key: string;
+  rows: number;
+  totals: Record<string, number>;
+}
+
+// A lenient reading of a cell: strips thousands separators and currency or
+// percent signs, then takes the leading number
+export function parseLooseNumber(value: unknown): number {
+  return parseFloat(
+    typeof value === "string" ? value.replace(/[,$%]/g, "") : String(value)
+  );
+}
+
+export function toNumber(value: unknown): number {
+  if (typeof value === "number") return isFinite(value) ? value : NaN;
+  if (typeof value === "string") {
+    const cleaned = value.replace(/[,$%\s]/g, "");
+    return cleaned === "" ? NaN : parseFloat(cleaned);
+  }
+  return NaN;
+}
+
+export function averageColumn(
+  data: Record<string, unknown>[],
+  column?: string
+): number | null {
+  if (!column) return null;
+  const values = data
+    .map((row) => toNumber(row[column]))
+    .filter((value) => !isNaN(value));
+  if (values.length === 0) return null;
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+export function groupTotals(
+  data: Record<string, unknown>[],
+  keyColumn: string,
+  valueColumns: (string | undefined)[]
+): GroupTotals[] {
+  const groups = new Map<string, GroupTotals>();
+  const columns = valueColumns.filter((col): col is string => Boolean(col));
+
+  data.forEach((row) => {
+    const raw = row[keyColumn];
+    if (raw === null || raw === undefined || raw === "") return;
+    const key = String(raw).trim();
+    const group = groups.get(key) || { key, rows: 0, totals: {} };
+    group.rows++;
+    columns.forEach((col) => {
+      const value = toNumber(row[col]);
+      group.totals[col] = (group.totals[col] || 0) + (isNaN(value) ? 0 : value);
+    });
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values());
+}
+
+export function countValues(
+  data: Record<string, unknown>[],
+  column: string
+): [string, number][] {
+  const counts = new Map<string, number>();
+  data.forEach((row) => {
+    const raw = row[column];
+    if (raw === null || raw === undefined || raw === "") return;
+    const key = String(raw).trim();
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+}
+
+// Amounts in summary text go without a currency symbol, since the currency
+// is only chosen when the report is viewed or exported
+export function amountText(value: number): string {
+  return formatReportValue(numberValue(value));
+}
+
+export function shareOf(part: number, whole: number): ReportValue | null {
+  return whole > 0 ? percentValue(part / whole) : null;
+}
+
+export function isTruthyFlag(value: unknown): boolean {
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value > 0;
+  if (typeof value !== "string") return false;
+  return /^(yes|y|true|1|churned|cancel(l)?ed|inactive|lost|closed)$/i.test(
+    value.trim()
+  );
+}
+
+// Values of a column that is predominantly numeric, or null when more than
+// one in five non-empty cells is not a number
+export function numericValues(
+  data: Record<string, unknown>[],
+  column: string
+): number[] | null {
+  const values: number[] = [];
+  let filled = 0;
+  data.forEach((row) => {
+    const raw = row[column];
+    if (raw === null || raw === undefined || raw === "") return;
+    filled++;
+    const value = toNumber(raw);
+    if (!isNaN(value)) values.push(value);
+  });
+  return filled > 0 && values.length / filled >= 0.8 ? values : null;
+}
+
+/**
+ * Column-level charts shared by every generator: per-column sums (when the
+ * generator has basic stats) and histograms of the first few numeric
+ * columns. Date and identifier columns are left out. The histograms are
+ * drawn from `data`, so they are flagged `sampled` when it holds only the
+ * first rows of the source.
+ */
+export function buildColumnCharts(
+  data: Record<string, unknown>[],
+  stats?: Record<string, ColumnStats>,
+  sampled = false
+): ChartSpec[] {
+  const dateColumns = detectDateColumns(data).map((info) => info.column);
+  const columns = Object.keys(data[0] || {}).filter(
+    (col) => !dateColumns.includes(col) && !ID_COLUMN_PATTERN.test(col)
+  );
+  const charts: ChartSpec[] = [];
+
+  if (stats) {
+    const sums = columns
+      .filter((col) => stats[col])
+      .map((col) => ({ label: col, value: stats[col].sum }));
+    if (sums.length > 0) {
+      charts.push(barChart("Column Totals", sums, "number", "Sum"));
+    }
+  }
+
+  columns
+    .map((col) => [col, numericValues(data, col)] as const)
+    .filter(([, values]) => values !== null)
+    .slice(0, MAX_HISTOGRAMS)
+    .forEach(([col, values]) => {
+      const chart = histogramChart(col, values || []);
+      if (chart) charts.push(sampled ? { ...chart, sampled } : chart);
+    });
+
+  return charts;
+}
+
+// Share of a signal's weight earned when a column's name matches but its
+// values are not the kind or cardinality the signal expects
+const MISMATCH_CREDIT = 0.4;
+
+function fitsSignal(column: ColumnSample, signal: DetectionSignal): boolean {
+  if (signal.kind && column.kind !== signal.kind) return false;
+  if (!signal.cardinality || column.cardinality === "unknown") return true;
+  return column.cardinality === signal.cardinality;
+}
+
+/**
+ * Detection scorer weighing signals against a sample's columns. Each column
+ * backs at most one signal, and the score is the share of the total weight
+ * earned, so it stays between 0 and 1 whatever the number of signals.
+ */
+export function signalScorer(
+  signals: DetectionSignal[]
+): (sample: DetectionSample) => DetectionMatch {
+  const totalWeight = signals.reduce((sum, signal) => sum + signal.weight, 0);
+  return (sample) => {
+    const used = new Set<string>();
+    const evidence: string[] = [];
+    let earned = 0;
+    signals.forEach((signal) => {
+      const named = sample.columns.filter(
+        (column) => !used.has(column.name) && signal.pattern.test(column.name)
+      );
+      if (named.length === 0) return;
+      const fitting = named.find((column) => fitsSignal(column, signal));
+      const column = fitting || named[0];
+      used.add(column.name);
+      earned += fitting ? signal.weight : signal.weight * MISMATCH_CREDIT;
+      evidence.push(
+        `${signal.label}: ${column.name}${
+          fitting ? "" : " (unexpected values)"
+        }`
+      );
+    });
+    return { score: totalWeight ? earned / totalWeight : 0, evidence };
+  };
+}
@@ -0,0 +1,92 @@
+import type { LucideIcon } from "lucide-react";
+import type { ColumnAssignment, RoleRule } from "@/lib/columnRoles";
+import type { ChartSpec } from "@/lib/reportCharts";
+import type { ValueKind } from "@/lib/columnProfile";
+import type { DetectionScore } from "@/lib/reportTypes";
+import type { TableTotals } from "@/lib/aggregates";
+
+/* ----------   TYPES   ---------- */
+/** What a generator returns: a summary, optional charts and named sections. */
+export interface GeneratedReport {
+  executiveSummary: string;
+  charts?: ChartSpec[];
+  [section: string]: unknown;
+}
+
+/** A section a generator emits, in display order, with its heading. */
+export interface SectionSchema {
+  key: string;
+  title: string;
+  // Computed row by row (rankings, segments, trends), so it only covers
+  // the sampled rows of a source longer than MAX_SAMPLE_ROWS
+  sampled?: boolean;
+}
+
+/** What detection knows about one column, from its name and sampled values. */
+export interface ColumnSample {
+  name: string;
+  // Most common kind among the non-empty sampled values
+  kind: ValueKind;
+  // Distinct non-empty values, and how many cells were non-empty
+  distinct: number;
+  filled: number;
+  // "low" for category-like columns, "high" for identifier-like ones;
+  // "unknown" when too few values were sampled to tell
+  cardinality: "low" | "medium" | "high" | "unknown";
+}
+
+/** The slice of a sheet detection looks at. */
+export interface DetectionSample {
+  columns: ColumnSample[];
+}
+
+/**
+ * One piece of evidence for a report type: a column whose name matches
+ * `pattern`, ideally holding `kind` values with the given cardinality.
+ */
+export interface DetectionSignal {
+  // How the evidence list names the signal, e.g. "stock on hand"
+  label: string;
+  pattern: RegExp;
+  weight: number;
+  kind?: ValueKind;
+  cardinality?: "low" | "high";
+}
+
+export type DetectionMatch = Omit<DetectionScore, "type">;
+
+/**
+ * A report type. Detection, confidence, column-role suggestions, the type
+ * list served by the API and the templates shown in the UI all come from
+ * the registered generators.
+ */
+export interface ReportGenerator {
+  id: string;
+  name: string;
+  // Tailwind color family used for the type's badge and template button
+  color: string;
+  icon: LucideIcon;
+  // Omitted by the fallback generator, which is never detected
+  detect?: (sample: DetectionSample) => DetectionMatch;
+  // Rules run in order and each column fills at most one role, so narrower
+  // roles come before broader ones (net income is profit, not revenue)
+  columnRoles: RoleRule[];
+  sections: SectionSchema[];
+  // Type-specific advice on what the data is missing, given the finished
+  // report (including any budget comparison)
+  suggestions: (
+    data: Record<string, unknown>[],
+    report: GeneratedReport
+  ) => string[];
+  // `data` holds at most the first MAX_SAMPLE_ROWS rows of the source;
+  // headline totals, counts and column stats come from `totals`, which
+  // cover every row
+  generate: (
+    data: Record<string, unknown>[],
+    sourceLabel: string,
+    roles: ColumnAssignment,
+    totals: TableTotals,
+    // Each row's number in its source sheet, for sections that cite rows
+    rowNumbers?: number[]
+  ) => Promise<GeneratedReport>;
+}
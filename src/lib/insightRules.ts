@@ -0,0 +1,556 @@
+import { isEmptyValue } from "@/lib/columnProfile";
+import { ColumnAssignment, isColumnRole } from "@/lib/columnRoles";
+import { parseLooseNumber } from "@/lib/generators/shared";
+import { isReportValue } from "@/lib/reportValues";
+import type { TimeSeriesSection } from "@/lib/timeSeries";
+
+/* ----------   TYPES   ---------- */
+export type InsightSeverity = "critical" | "warning" | "info";
+
+export type InsightOperator = "<" | "<=" | "=" | "!=" | ">=" | ">";
+
+interface RuleBase {
+  // Defaults to a description of the rule; a rule sharing the id of a
+  // built-in rule replaces it
+  id?: string;
+  severity?: InsightSeverity;
+  // Shown when the rule fires; defaults to advice for the rule type
+  recommendation?: string;
+}
+
+/**
+ * A condition checked against a generated report. Column fields take a
+ * column name or a role such as "product" or "customer"; a rule whose
+ * columns or metrics are missing from the report is skipped.
+ */
+export type InsightRule = RuleBase &
+  (
+    | {
+        // The top values of a column hold at least `threshold` of a
+        // measure: revenue by default, or "rows" for the row count
+        type: "concentration";
+        column: string;
+        top?: number;
+        measure?: string;
+        threshold: number;
+      }
+    // The last `periods` periods of a time-series measure all moved the
+    // same way by more than `minChange` percent
+    | {
+        type: "trend";
+        direction: "up" | "down";
+        measure?: string;
+        periods?: number;
+        minChange?: number;
+      }
+    // Profit over revenue, from a profit column or revenue minus cost, is
+    // below `threshold`
+    | { type: "margin"; threshold: number }
+    // Key columns (those given, else those with a role) are more than
+    // `threshold` empty
+    | { type: "nullRate"; columns?: string[]; threshold: number }
+    // Any number in the report by dotted path, e.g. "salesOverview.totalSales"
+    | {
+        type: "metric";
+        metric: string;
+        operator: InsightOperator;
+        value: number;
+      }
+  );
+
+export type InsightRuleType = InsightRule["type"];
+
+export interface Insight {
+  severity: InsightSeverity;
+  recommendation: string;
+  // The figures that made the rule fire
+  evidence: string;
+  rule: string;
+}
+
+export interface InsightContext {
+  rows: Record<string, unknown>[];
+  roles: ColumnAssignment;
+  // The report's sections, including the data-quality assessment
+  report: Record<string, unknown>;
+}
+
+export class InsightRuleError extends Error {}
+
+const RULE_TYPES: InsightRuleType[] = [
+  "concentration",
+  "trend",
+  "margin",
+  "nullRate",
+  "metric",
+];
+const SEVERITIES: InsightSeverity[] = ["critical", "warning", "info"];
+const OPERATORS: InsightOperator[] = ["<", "<=", "=", "!=", ">=", ">"];
+// A concentration measure counting rows instead of summing a column
+const ROW_COUNT_MEASURE = "rows";
+// Columns named in the evidence of a null-rate rule
+const MAX_EVIDENCE_COLUMNS = 5;
+
+const DEFAULT_SEVERITY: Record<InsightRuleType, InsightSeverity> = {
+  concentration: "warning",
+  trend: "warning",
+  margin: "warning",
+  nullRate: "warning",
+  metric: "info",
+};
+
+const DEFAULT_RECOMMENDATION: Record<InsightRuleType, string> = {
+  concentration: "Reduce dependence on a few values by broadening the mix",
+  trend: "Look into what is driving the recent change",
+  margin: "Review pricing and the costliest lines to protect margin",
+  nullRate: "Fill in missing values in key columns before relying on totals",
+  metric: "Review this metric",
+};
+
+// Checked for every report before the user's rules
+export const DEFAULT_INSIGHT_RULES: InsightRule[] = [
+  {
+    id: "product-concentration",
+    type: "concentration",
+    column: "product",
+    top: 3,
+    threshold: 0.5,
+    recommendation:
+      "Diversify the product mix; most revenue depends on a few products",
+  },
+  {
+    id: "customer-concentration",
+    type: "concentration",
+    column: "customer",
+    top: 5,
+    threshold: 0.5,
+    recommendation:
+      "Broaden the customer base to reduce reliance on the largest accounts",
+  },
+  {
+    id: "declining-trend",
+    type: "trend",
+    direction: "down",
+    periods: 3,
+    severity: "critical",
+    recommendation: "Investigate the causes of the sustained decline",
+  },
+  {
+    id: "growing-trend",
+    type: "trend",
+    direction: "up",
+    periods: 3,
+    severity: "info",
+    recommendation: "Build on the recent growth by investing in what drives it",
+  },
+  { id: "low-margin", type: "margin", threshold: 0.1 },
+  {
+    id: "operating-loss",
+    type: "metric",
+    metric: "profitLoss.netProfit",
+    operator: "<",
+    value: 0,
+    severity: "critical",
+    recommendation: "Review expense management; expenses exceed revenue",
+  },
+  { id: "missing-key-data", type: "nullRate", threshold: 0.1 },
+  {
+    id: "low-repeat-rate",
+    type: "metric",
+    metric: "customerAnalysis.repeatCustomerRate",
+    operator: "<",
+    value: 0.3,
+    recommendation: "Develop loyalty programs to increase repeat purchases",
+  },
+  {
+    id: "low-quality-score",
+    type: "metric",
+    metric: "dataQualityIssues.score",
+    operator: "<",
+    value: 0.85,
+    severity: "warning",
+    recommendation:
+      "Review the data-quality issues and add validation at the source",
+  },
+];
+
+/* ----------   VALIDATION   ---------- */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isName(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && isFinite(value);
+}
+
+function invalid(index: number, message: string): InsightRuleError {
+  return new InsightRuleError(`Rule ${index + 1}: ${message}`);
+}
+
+function parseRule(value: unknown, index: number): InsightRule {
+  if (!isRecord(value)) throw invalid(index, "must be an object");
+  const { type, id, severity, recommendation } = value;
+  if (!RULE_TYPES.includes(type as InsightRuleType)) {
+    throw invalid(index, `unknown type ${JSON.stringify(type)}`);
+  }
+  if (id !== undefined && !isName(id)) {
+    throw invalid(index, "id must be a non-empty string");
+  }
+  if (
+    severity !== undefined &&
+    !SEVERITIES.includes(severity as InsightSeverity)
+  ) {
+    throw invalid(index, `severity must be one of ${SEVERITIES.join(", ")}`);
+  }
+  if (recommendation !== undefined && !isName(recommendation)) {
+    throw invalid(index, "recommendation must be a non-empty string");
+  }
+
+  if (type === "concentration") {
+    if (!isName(value.column)) throw invalid(index, "column is required");
+    if (
+      value.top !== undefined &&
+      !(Number.isInteger(value.top) && (value.top as number) > 0)
+    ) {
+      throw invalid(index, "top must be a positive whole number");
+    }
+    if (value.measure !== undefined && !isName(value.measure)) {
+      throw invalid(index, "measure must be a column or role name");
+    }
+  }
+  if (type === "trend") {
+    if (value.direction !== "up" && value.direction !== "down") {
+      throw invalid(index, 'direction must be "up" or "down"');
+    }
+    if (value.measure !== undefined && !isName(value.measure)) {
+      throw invalid(index, "measure must be a series name");
+    }
+    if (
+      value.periods !== undefined &&
+      !(Number.isInteger(value.periods) && (value.periods as number) > 0)
+    ) {
+      throw invalid(index, "periods must be a positive whole number");
+    }
+    if (value.minChange !== undefined && !isNumber(value.minChange)) {
+      throw invalid(index, "minChange must be a number");
+    }
+  }
+  if (
+    (type === "concentration" || type === "margin" || type === "nullRate") &&
+    !isNumber(value.threshold)
+  ) {
+    throw invalid(index, "threshold must be a number");
+  }
+  if (
+    type === "nullRate" &&
+    value.columns !== undefined &&
+    (!Array.isArray(value.columns) || !value.columns.every(isName))
+  ) {
+    throw invalid(index, "columns must be a list of column names");
+  }
+  if (type === "metric") {
+    if (!isName(value.metric)) throw invalid(index, "metric is required");
+    if (!OPERATORS.includes(value.operator as InsightOperator)) {
+      throw invalid(index, `operator must be one of ${OPERATORS.join(" ")}`);
+    }
+    if (!isNumber(value.value)) throw invalid(index, "value must be a number");
+  }
+  return value as unknown as InsightRule;
+}
+
+/** Validates a list of rules, e.g. from a request or a saved profile. */
+export function parseInsightRules(value: unknown): InsightRule[] {
+  if (!Array.isArray(value)) {
+    throw new InsightRuleError("Insight rules must be a list");
+  }
+  return value.map(parseRule);
+}
+
+export function describeInsightRule(rule: InsightRule): string {
+  if (rule.id) return rule.id;
+  switch (rule.type) {
+    case "concentration":
+      return `Top ${rule.top || 1} ${rule.column} hold ${percent(
+        rule.threshold
+      )}+`;
+    case "trend":
+      return `${rule.measure || "Series"} ${rule.direction} ${
+        rule.periods || 2
+      } periods`;
+    case "margin":
+      return `Margin below ${percent(rule.threshold)}`;
+    case "nullRate":
+      return `Key columns over ${percent(rule.threshold)} empty`;
+    case "metric":
+      return `${rule.metric} ${rule.operator} ${rule.value}`;
+  }
+}
+
+/* ----------   HELPERS   ---------- */
+function percent(ratio: number): string {
+  return `${(ratio * 100).toFixed(1)}%`;
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+}
+
+// A column by exact or case-insensitive name, else the first column holding
+// the role of that name
+function resolveColumn(
+  name: string,
+  context: InsightContext
+): string | undefined {
+  const columns = Object.keys(context.rows[0] || {});
+  if (columns.includes(name)) return name;
+  const wanted = name.trim().toLowerCase();
+  const match = columns.find(
+    (column) => column.trim().toLowerCase() === wanted
+  );
+  if (match) return match;
+  return isColumnRole(name) ? context.roles[name]?.[0] : undefined;
+}
+
+function resolveColumns(name: string, context: InsightContext): string[] {
+  if (isColumnRole(name) && context.roles[name]?.length) {
+    return context.roles[name] || [];
+  }
+  const column = resolveColumn(name, context);
+  return column ? [column] : [];
+}
+
+function sumRow(row: Record<string, unknown>, columns: string[]): number {
+  return columns.reduce((sum, column) => {
+    const value = parseLooseNumber(row[column]);
+    return sum + (isNaN(value) ? 0 : value);
+  }, 0);
+}
+
+function compare(left: number, operator: InsightOperator, right: number) {
+  switch (operator) {
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+    case "=":
+      return left === right;
+    case "!=":
+      return left !== right;
+    case ">=":
+      return left >= right;
+    case ">":
+      return left > right;
+  }
+}
+
+// A number, or a ReportValue's number, at a dotted path in the report
+function metricAt(
+  report: Record<string, unknown>,
+  path: string
+): { value: number; isRatio: boolean } | null {
+  const found = path
+    .split(".")
+    .reduce<unknown>(
+      (node, key) => (isRecord(node) ? node[key] : undefined),
+      report
+    );
+  if (isReportValue(found)) {
+    return { value: found.value, isRatio: found.unit === "percent" };
+  }
+  return isNumber(found) ? { value: found, isRatio: false } : null;
+}
+
+/* ----------   CHECKS   ---------- */
+// Each returns the evidence when the rule fires, or null
+type Check<T extends InsightRuleType> = (
+  rule: Extract<InsightRule, { type: T }>,
+  context: InsightContext
+) => string | null;
+
+const checkConcentration: Check<"concentration"> = (rule, context) => {
+  const columns = resolveColumns(rule.column, context);
+  if (columns.length === 0) return null;
+  const countRows = rule.measure === ROW_COUNT_MEASURE;
+  const measureColumns = countRows
+    ? []
+    : resolveColumns(rule.measure || "revenue", context);
+  if (!countRows && measureColumns.length === 0) return null;
+
+  const totals = new Map<string, number>();
+  context.rows.forEach((row) => {
+    const column = columns.find((name) => !isEmptyValue(row[name]));
+    if (!column) return;
+    const key = String(row[column]).trim();
+    const amount = countRows ? 1 : sumRow(row, measureColumns);
+    totals.set(key, (totals.get(key) || 0) + amount);
+  });
+  const top = rule.top || 1;
+  // With only a handful of values, concentration says little
+  if (totals.size <= top) return null;
+
+  const ranked = Array.from(totals.entries()).sort((a, b) => b[1] - a[1]);
+  const total = ranked.reduce((sum, [, amount]) => sum + amount, 0);
+  if (total <= 0) return null;
+  const leaders = ranked.slice(0, top);
+  const share = leaders.reduce((sum, [, amount]) => sum + amount, 0) / total;
+  if (share < rule.threshold) return null;
+
+  const measure = countRows ? ROW_COUNT_MEASURE : measureColumns.join(" + ");
+  return `Top ${top} of ${totals.size} ${columns[0]} values (${leaders
+    .map(([key]) => key)
+    .join(", ")}) hold ${percent(share)} of ${measure}`;
+};
+
+const checkTrend: Check<"trend"> = (rule, context) => {
+  const section = context.report.timeSeries as TimeSeriesSection | undefined;
+  if (!section?.series?.length) return null;
+  const series = rule.measure
+    ? section.series.find((item) => item.name === rule.measure)
+    : section.series[0];
+  if (!series) return null;
+
+  const periods = rule.periods || 2;
+  const recent = series.points.slice(-periods);
+  if (recent.length < periods) return null;
+  const minChange = rule.minChange || 0;
+  const moved = recent.every(({ growth }) =>
+    growth === null
+      ? false
+      : rule.direction === "up"
+      ? growth > minChange
+      : growth < -minChange
+  );
+  if (!moved) return null;
+
+  const moves = rule.direction === "up" ? "rose" : "fell";
+  const span =
+    periods === 1
+      ? `in the last ${section.granularity}`
+      : `${periods} ${section.granularity}s running`;
+  return `${series.name} ${moves} ${span}: ${recent
+    .map(({ period, growth }) => `${period} ${growth?.toFixed(1)}%`)
+    .join(", ")}`;
+};
+
+const checkMargin: Check<"margin"> = (rule, context) => {
+  const { roles, rows } = context;
+  const revenueColumns = roles.revenue || [];
+  if (revenueColumns.length === 0) return null;
+  const revenue = rows.reduce(
+    (sum, row) => sum + sumRow(row, revenueColumns),
+    0
+  );
+  if (revenue <= 0) return null;
+
+  let profit: number;
+  if (roles.profit?.length) {
+    profit = rows.reduce(
+      (sum, row) => sum + sumRow(row, roles.profit || []),
+      0
+    );
+  } else if (roles.cost?.length) {
+    const cost = rows.reduce(
+      (sum, row) => sum + sumRow(row, roles.cost || []),
+      0
+    );
+    profit = revenue - cost;
+  } else {
+    return null;
+  }
+
+  const margin = profit / revenue;
+  if (margin >= rule.threshold) return null;
+  return `Margin is ${percent(margin)}: profit ${formatNumber(
+    profit
+  )} on revenue ${formatNumber(revenue)}`;
+};
+
+const checkNullRate: Check<"nullRate"> = (rule, context) => {
+  const { rows, roles } = context;
+  if (rows.length === 0) return null;
+  const columns = rule.columns
+    ? rule.columns.flatMap((name) => resolveColumns(name, context))
+    : Array.from(new Set(Object.values(roles).flat()));
+  if (columns.length === 0) return null;
+
+  const sparse = columns
+    .map((column) => ({
+      column,
+      rate:
+        rows.filter((row) => isEmptyValue(row[column])).length / rows.length,
+    }))
+    .filter(({ rate }) => rate > rule.threshold)
+    .sort((a, b) => b.rate - a.rate);
+  if (sparse.length === 0) return null;
+
+  const listed = sparse
+    .slice(0, MAX_EVIDENCE_COLUMNS)
+    .map(({ column, rate }) => `${column} ${percent(rate)} empty`);
+  if (sparse.length > MAX_EVIDENCE_COLUMNS) {
+    listed.push(`${sparse.length - MAX_EVIDENCE_COLUMNS} more`);
+  }
+  return listed.join(", ");
+};
+
+const checkMetric: Check<"metric"> = (rule, context) => {
+  const metric = metricAt(context.report, rule.metric);
+  if (!metric || !compare(metric.value, rule.operator, rule.value)) {
+    return null;
+  }
+  const format = metric.isRatio ? percent : formatNumber;
+  return `${rule.metric} is ${format(metric.value)} (${rule.operator} ${format(
+    rule.value
+  )})`;
+};
+
+function checkRule(rule: InsightRule, context: InsightContext): string | null {
+  switch (rule.type) {
+    case "concentration":
+      return checkConcentration(rule, context);
+    case "trend":
+      return checkTrend(rule, context);
+    case "margin":
+      return checkMargin(rule, context);
+    case "nullRate":
+      return checkNullRate(rule, context);
+    case "metric":
+      return checkMetric(rule, context);
+  }
+}
+
+/* ----------   PUBLIC API   ---------- */
+/**
+ * Checks the built-in rules and the user's rules against a report and
+ * returns a recommendation for each rule that fires, most severe first.
+ */
+export function evaluateInsights(
+  context: InsightContext,
+  rules: InsightRule[] = []
+): Insight[] {
+  const overridden = new Set(rules.map(describeInsightRule));
+  const active = [
+    ...DEFAULT_INSIGHT_RULES.filter(
+      (rule) => !overridden.has(describeInsightRule(rule))
+    ),
+    ...rules,
+  ];
+
+  const insights: Insight[] = [];
+  active.forEach((rule) => {
+    const evidence = checkRule(rule, context);
+    if (evidence === null) return;
+    insights.push({
+      severity: rule.severity || DEFAULT_SEVERITY[rule.type],
+      recommendation: rule.recommendation || DEFAULT_RECOMMENDATION[rule.type],
+      evidence,
+      rule: describeInsightRule(rule),
+    });
+  });
+  return insights.sort(
+    (a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity)
+  );
+}
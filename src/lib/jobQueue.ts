@@ -0,0 +1,218 @@
+import { EventEmitter } from "events";
+import { v4 as uuidv4 } from "uuid";
+import {
+  FileJobStatus,
+  FileProgress,
+  GenerateReportResponse,
+  JobStatus,
+  ProcessingMode,
+  ReportJob,
+} from "@/lib/reportTypes";
+
+/* ----------   TYPES   ---------- */
+export type FileUpdate = Partial<
+  Pick<FileProgress, "status" | "sheetsTotal" | "sheetsDone" | "error">
+>;
+
+/** Handed to a running task so it can report progress and notice cancellation. */
+export interface JobContext {
+  signal: AbortSignal;
+  updateFile(index: number, update: FileUpdate): void;
+}
+
+export type JobTask = (context: JobContext) => Promise<GenerateReportResponse>;
+
+interface JobEntry {
+  job: ReportJob;
+  task: JobTask;
+  controller: AbortController;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+// Finished jobs stay readable this long so clients can collect the result
+const JOB_RETENTION_MS = 30 * 60 * 1000;
+const FINISHED_STATUSES: JobStatus[] = ["completed", "failed", "cancelled"];
+// Where each stage starts on a file's progress bar; analysis fills the rest
+// sheet by sheet
+const STAGE_PROGRESS: Record<FileJobStatus, number> = {
+  queued: 0,
+  parsing: 0.1,
+  analyzing: 0.4,
+  done: 1,
+  failed: 1,
+  cancelled: 0,
+};
+
+/* ----------   HELPERS   ---------- */
+export function isJobFinished(status: JobStatus): boolean {
+  return FINISHED_STATUSES.includes(status);
+}
+
+function isFileFinished(status: FileJobStatus): boolean {
+  return status === "done" || status === "failed" || status === "cancelled";
+}
+
+function fileProgress(file: FileProgress): number {
+  if (file.status === "cancelled") return file.progress;
+  if (file.status === "analyzing" && file.sheetsTotal) {
+    const share = (file.sheetsDone || 0) / file.sheetsTotal;
+    return STAGE_PROGRESS.analyzing + (1 - STAGE_PROGRESS.analyzing) * share;
+  }
+  return STAGE_PROGRESS[file.status];
+}
+
+function snapshot(job: ReportJob): ReportJob {
+  return { ...job, files: job.files.map((file) => ({ ...file })) };
+}
+
+function parseConcurrency(value: string | undefined): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : DEFAULT_CONCURRENCY;
+}
+
+/* ----------   QUEUE   ---------- */
+// Runs report jobs inside the server process, at most `concurrency` at a
+// time. Listeners receive a copy of the job after every change.
+class ReportJobQueue {
+  private jobs = new Map<string, JobEntry>();
+  private waiting: JobEntry[] = [];
+  private running = 0;
+  private events = new EventEmitter();
+
+  constructor(private readonly concurrency: number) {
+    // One listener per open progress stream
+    this.events.setMaxListeners(0);
+  }
+
+  enqueue(fileNames: string[], mode: ProcessingMode, task: JobTask): ReportJob {
+    const job: ReportJob = {
+      id: uuidv4(),
+      status: "queued",
+      mode,
+      createdAt: new Date().toISOString(),
+      files: fileNames.map((fileName) => ({
+        fileName,
+        status: "queued",
+        progress: 0,
+      })),
+    };
+    const entry = { job, task, controller: new AbortController() };
+    this.jobs.set(job.id, entry);
+    this.waiting.push(entry);
+    this.pump();
+    return snapshot(job);
+  }
+
+  get(id: string): ReportJob | null {
+    const entry = this.jobs.get(id);
+    return entry ? snapshot(entry.job) : null;
+  }
+
+  /**
+   * Stops a job. A queued job is dropped straight away; a running one stops
+   * after the sheet in progress and keeps the reports already generated.
+   */
+  cancel(id: string): ReportJob | null {
+    const entry = this.jobs.get(id);
+    if (!entry) return null;
+    if (entry.job.status === "queued") {
+      this.waiting = this.waiting.filter((waiting) => waiting !== entry);
+      this.finish(entry.job, "cancelled");
+    } else if (entry.job.status === "running") {
+      entry.controller.abort();
+    }
+    return snapshot(entry.job);
+  }
+
+  /** Calls the listener on every change to the job; returns an unsubscribe. */
+  subscribe(id: string, listener: (job: ReportJob) => void): () => void {
+    this.events.on(id, listener);
+    return () => {
+      this.events.off(id, listener);
+    };
+  }
+
+  private pump(): void {
+    while (this.running < this.concurrency && this.waiting.length > 0) {
+      const entry = this.waiting.shift()!;
+      this.running++;
+      void this.run(entry).finally(() => {
+        this.running--;
+        this.pump();
+      });
+    }
+  }
+
+  private async run(entry: JobEntry): Promise<void> {
+    const { job, controller } = entry;
+    job.status = "running";
+    job.startedAt = new Date().toISOString();
+    this.publish(job);
+
+    const context: JobContext = {
+      signal: controller.signal,
+      updateFile: (index, update) => {
+        const file = job.files[index];
+        if (!file || isFileFinished(file.status)) return;
+        Object.assign(file, update);
+        file.progress = fileProgress(file);
+        this.publish(job);
+      },
+    };
+
+    try {
+      const result = await entry.task(context);
+      job.result = result;
+      if (controller.signal.aborted) {
+        this.finish(job, "cancelled");
+      } else if (!result.success) {
+        this.finish(job, "failed", result.error);
+      } else {
+        this.finish(job, "completed");
+      }
+    } catch (error) {
+      console.error(`Report job ${job.id} failed:`, error);
+      this.finish(
+        job,
+        "failed",
+        error instanceof Error ? error.message : "Unknown error"
+      );
+    }
+  }
+
+  private finish(job: ReportJob, status: JobStatus, error?: string): void {
+    job.status = status;
+    job.finishedAt = new Date().toISOString();
+    if (error) job.error = error;
+    job.files.forEach((file) => {
+      if (isFileFinished(file.status)) return;
+      file.status = status === "cancelled" ? "cancelled" : "failed";
+      file.progress = fileProgress(file);
+    });
+    this.publish(job);
+
+    const timer = setTimeout(() => this.jobs.delete(job.id), JOB_RETENTION_MS);
+    timer.unref?.();
+  }
+
+  private publish(job: ReportJob): void {
+    this.events.emit(job.id, snapshot(job));
+  }
+}
+
+/* ----------   PUBLIC API   ---------- */
+// Kept on globalThis so every route handler, and dev-mode module reloads,
+// share one queue
+const globalForJobs = globalThis as typeof globalThis & {
+  reportJobQueue?: ReportJobQueue;
+};
+
+/** The report job queue; REPORT_JOB_CONCURRENCY jobs run at once (default 2). */
+export function getJobQueue(): ReportJobQueue {
+  if (!globalForJobs.reportJobQueue) {
+    globalForJobs.reportJobQueue = new ReportJobQueue(
+      parseConcurrency(process.env.REPORT_JOB_CONCURRENCY)
+    );
+  }
+  return globalForJobs.reportJobQueue;
+}
@@ -0,0 +1,49 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/* ----------   JSON FILE HELPERS   ---------- */
+// Storage helpers for the file-backed repositories under ./data
+
+/** Parses a JSON file, or returns the fallback when it does not exist yet. */
+export async function readJsonFile<T>(
+  filePath: string,
+  fallback: T
+): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw error;
+  }
+}
+
+/**
+ * Writes through a temporary file and a rename, so a crash mid-write never
+ * leaves a truncated file behind. Creates missing parent directories.
+ * Indented for reading by hand unless `compact`, for large files like
+ * stored datasets.
+ */
+export async function writeJsonFile(
+  filePath: string,
+  value: unknown,
+  { compact = false }: { compact?: boolean } = {}
+): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(
+    tempPath,
+    compact ? JSON.stringify(value) : JSON.stringify(value, null, 2)
+  );
+  await fs.rename(tempPath, filePath);
+}
+
+/** Removes a file, returning false when it was already gone. */
+export async function removeFile(filePath: string): Promise<boolean> {
+  try {
+    await fs.unlink(filePath);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+    throw error;
+  }
+}
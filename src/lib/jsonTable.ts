@@ -0,0 +1,121 @@
+/* ----------   TYPES   ---------- */
+export interface JsonTable {
+  // Dotted path of the array in the document; "" for a top-level array
+  path: string;
+  rows: Record<string, unknown>[];
+  // Flattened keys, in the order they first appear
+  columns: string[];
+}
+
+// How far into nested objects to look for arrays of records
+const MAX_TABLE_DEPTH = 3;
+
+/* ----------   HELPERS   ---------- */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isRecordArray(value: unknown): value is unknown[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((item) => item === null || isPlainObject(item))
+  );
+}
+
+function isScalar(value: unknown): boolean {
+  return !isPlainObject(value) && !Array.isArray(value);
+}
+
+// Nested objects become dotted columns ("customer.address.city"). A list of
+// plain values stays readable in one cell; a list of records is kept as JSON
+// rather than spreading into one column per index.
+function flattenInto(
+  value: unknown,
+  prefix: string,
+  record: Record<string, unknown>
+): void {
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value);
+    if (entries.length === 0 && prefix) record[prefix] = "";
+    entries.forEach(([key, child]) =>
+      flattenInto(child, prefix ? `${prefix}.${key}` : key, record)
+    );
+  } else if (Array.isArray(value)) {
+    record[prefix] = value.every(isScalar)
+      ? value.map((item) => (item === null ? "" : String(item))).join(", ")
+      : JSON.stringify(value);
+  } else {
+    record[prefix] = value === null || value === undefined ? "" : value;
+  }
+}
+
+function flattenRecord(value: unknown): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  flattenInto(isPlainObject(value) ? value : { value }, "", record);
+  return record;
+}
+
+function toTable(path: string, items: unknown[]): JsonTable {
+  const rows = items.map(flattenRecord);
+  const columns = new Set<string>();
+  rows.forEach((row) => Object.keys(row).forEach((key) => columns.add(key)));
+  return { path, rows, columns: Array.from(columns) };
+}
+
+function collectTables(
+  value: Record<string, unknown>,
+  path: string,
+  depth: number,
+  tables: JsonTable[]
+): void {
+  Object.entries(value).forEach(([key, child]) => {
+    const childPath = path ? `${path}.${key}` : key;
+    if (isRecordArray(child)) {
+      tables.push(toTable(childPath, child));
+    } else if (isPlainObject(child) && depth < MAX_TABLE_DEPTH) {
+      collectTables(child, childPath, depth + 1, tables);
+    }
+  });
+}
+
+/* ----------   PUBLIC API   ---------- */
+/**
+ * Parses a JSON document, falling back to JSON Lines (one value per line)
+ * when the text as a whole is not valid JSON.
+ */
+export function parseJsonText(text: string): unknown {
+  const source = text.replace(/^\uFEFF/, "");
+  try {
+    return JSON.parse(source);
+  } catch (error) {
+    const lines = source.split(/\r?\n/).filter((line) => line.trim());
+    if (lines.length > 1) {
+      try {
+        return lines.map((line) => JSON.parse(line));
+      } catch {
+        // Not JSON Lines either; report the original error
+      }
+    }
+    throw new Error(
+      `Invalid JSON: ${error instanceof Error ? error.message : "parse error"}`
+    );
+  }
+}
+
+/**
+ * The tables in a JSON document. A top-level array is one table. In an
+ * object, every array of records (up to MAX_TABLE_DEPTH levels down) is a
+ * table named by its path, like the sheets of a workbook; an object with no
+ * such arrays becomes a single-row table.
+ */
+export function jsonTables(document: unknown): JsonTable[] {
+  if (Array.isArray(document)) {
+    return document.length > 0 ? [toTable("", document)] : [];
+  }
+  if (!isPlainObject(document)) return [toTable("", [document])];
+
+  const tables: JsonTable[] = [];
+  collectTables(document, "", 1, tables);
+  return tables.length > 0 ? tables : [toTable("", [document])];
+}
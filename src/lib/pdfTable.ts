@@ -0,0 +1,185 @@
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+
+/* ----------   TYPES   ---------- */
+interface TextChunk {
+  x: number;
+  end: number;
+  text: string;
+}
+
+interface TextLine {
+  page: number;
+  y: number;
+  // Font size of the line's first item, used to scale gap tolerances
+  size: number;
+  items: TextChunk[];
+}
+
+interface ColumnSpan {
+  start: number;
+  end: number;
+}
+
+// Lines at the top of later pages that repeat the first page's title or
+// header are continuation furniture, not data
+const REPEATED_HEADER_LINES = 10;
+// Horizontal gap, in font sizes, that separates two cells on a line
+const CELL_GAP = 0.8;
+// Gap, in font sizes, above which joined fragments get a space
+const WORD_GAP = 0.15;
+const PAGE_NUMBER_PATTERN = /^(page\s*)?\d+(\s*(of|\/)\s*\d+)?$/i;
+// Same plain-number rule Papa Parse's dynamic typing applies to CSV cells
+const NUMBER_PATTERN = /^\s*-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?\s*$/;
+
+/* ----------   HELPERS   ---------- */
+function isTextItem(item: object): item is TextItem {
+  return "str" in item;
+}
+
+function cellValue(text: string): unknown {
+  return NUMBER_PATTERN.test(text) ? Number(text) : text;
+}
+
+function lineKey(cells: unknown[]): string {
+  return cells.map((cell) => String(cell)).join("\u0000");
+}
+
+// Items on one baseline, left to right, joined into cells wherever the gap
+// between them is narrower than CELL_GAP
+function toChunks(line: TextLine): TextChunk[] {
+  const items = [...line.items].sort((a, b) => a.x - b.x);
+  const chunks: TextChunk[] = [];
+  items.forEach((item) => {
+    const last = chunks[chunks.length - 1];
+    const gap = last ? item.x - last.end : Infinity;
+    if (last && gap < line.size * CELL_GAP) {
+      last.text += (gap > line.size * WORD_GAP ? " " : "") + item.text;
+      last.end = Math.max(last.end, item.end);
+    } else {
+      chunks.push({ ...item });
+    }
+  });
+  return chunks;
+}
+
+// Column spans are the union of the cells' horizontal extents on lines with
+// at least two cells, so left-, right- and center-aligned columns all line
+// up; single-cell lines (titles, notes) would otherwise bridge columns
+function columnSpans(lines: TextChunk[][]): ColumnSpan[] {
+  const extents = lines
+    .filter((chunks) => chunks.length > 1)
+    .flat()
+    .map((chunk) => ({ start: chunk.x, end: chunk.end }))
+    .sort((a, b) => a.start - b.start);
+
+  const spans: ColumnSpan[] = [];
+  extents.forEach((extent) => {
+    const last = spans[spans.length - 1];
+    if (last && extent.start <= last.end) {
+      last.end = Math.max(last.end, extent.end);
+    } else {
+      spans.push({ ...extent });
+    }
+  });
+  return spans.length > 0 ? spans : [{ start: -Infinity, end: Infinity }];
+}
+
+function spanIndex(spans: ColumnSpan[], chunk: TextChunk): number {
+  const overlapping = spans.filter(
+    (span) => chunk.x < span.end && chunk.end > span.start
+  );
+  // A chunk wider than one column (a title) belongs where it starts
+  if (overlapping.length !== 1) {
+    const index = spans.findIndex((span) => chunk.x < span.end);
+    return index < 0 ? spans.length - 1 : index;
+  }
+  return spans.indexOf(overlapping[0]);
+}
+
+async function readTextLines(data: Uint8Array): Promise<TextLine[]> {
+  // Loaded on demand; pdf.js is large and only PDF uploads need it
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const document = await pdfjs.getDocument({
+    data,
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    verbosity: pdfjs.VerbosityLevel.ERRORS,
+  }).promise;
+
+  const lines: TextLine[] = [];
+  try {
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const pageLines: TextLine[] = [];
+      content.items.filter(isTextItem).forEach((item) => {
+        const [scaleX, skewY, skewX, scaleY, x, y] = item.transform;
+        // Rotated text and layout-only whitespace carry no cells
+        if (skewY !== 0 || skewX !== 0 || !item.str.trim()) return;
+        const size = item.height || Math.abs(scaleY) || Math.abs(scaleX);
+        let line = pageLines.find(
+          (candidate) => Math.abs(candidate.y - y) <= size / 2
+        );
+        if (!line) {
+          line = { page: pageNumber, y, size, items: [] };
+          pageLines.push(line);
+        }
+        line.items.push({ x, end: x + item.width, text: item.str.trim() });
+      });
+      // PDF y grows upwards, so the top line has the largest y
+      lines.push(...pageLines.sort((a, b) => b.y - a.y));
+      page.cleanup();
+    }
+  } finally {
+    await document.destroy();
+  }
+  return lines;
+}
+
+/* ----------   PUBLIC API   ---------- */
+/**
+ * Rebuilds the rows of a table from the text positions in a text-based PDF:
+ * text on one baseline forms a row, and cells are assigned to columns by
+ * their horizontal extent. Page numbers and the title or header lines
+ * repeated at the top of later pages are dropped, so a table spanning pages
+ * comes back as one. Scanned PDFs have no text layer and yield no rows.
+ */
+export async function readPdfRows(data: Uint8Array): Promise<unknown[][]> {
+  const lines = await readTextLines(data);
+  const chunked = lines.map(toChunks);
+  const spans = columnSpans(chunked);
+
+  const rows = lines.map((line, index) => {
+    const cells: string[] = spans.map(() => "");
+    chunked[index].forEach((chunk) => {
+      const column = spanIndex(spans, chunk);
+      cells[column] = cells[column]
+        ? `${cells[column]} ${chunk.text}`
+        : chunk.text;
+    });
+    return { page: line.page, cells };
+  });
+
+  const firstPageTop = new Set(
+    rows
+      .filter((row) => row.page === rows[0]?.page)
+      .slice(0, REPEATED_HEADER_LINES)
+      .map((row) => lineKey(row.cells))
+  );
+  const result: unknown[][] = [];
+  let page = rows[0]?.page;
+  let atPageTop = false;
+  rows.forEach((row) => {
+    const filled = row.cells.filter((cell) => cell);
+    if (filled.length === 1 && PAGE_NUMBER_PATTERN.test(filled[0])) return;
+    if (row.page !== page) {
+      page = row.page;
+      atPageTop = true;
+    }
+    if (atPageTop && firstPageTop.has(lineKey(row.cells))) return;
+    atPageTop = false;
+    result.push(row.cells.map(cellValue));
+  });
+  return result;
+}
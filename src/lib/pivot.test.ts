@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { buildPivot, flattenPivot } from "@/lib/pivot";
+
+const rows = [
+  { Region: "East", Year: "2023", Quarter: "Q1", Sales: 10 },
+  { Region: "East", Year: "2023", Quarter: "Q2", Sales: 20 },
+  { Region: "East", Year: "2024", Quarter: "Q1", Sales: 5 },
+  { Region: "West", Year: "2024", Quarter: "Q1", Sales: 7 },
+];
+
+describe("buildPivot", () => {
+  it("subtotals each group of a multi-level column dimension", () => {
+    const table = buildPivot(rows, {
+      rows: [{ column: "Region" }],
+      columns: [{ column: "Year" }, { column: "Quarter" }],
+      measures: [{ column: "Sales", aggregate: "sum" }],
+      filters: [],
+    });
+    const grid = flattenPivot(table);
+    expect(grid.headers).toEqual([
+      "Region",
+      "2023 / Q1",
+      "2023 / Q2",
+      "2023 total",
+      "2024 / Q1",
+      "2024 total",
+      "Total – Sum of Sales",
+    ]);
+    expect(grid.rows.map((row) => row.cells)).toEqual([
+      ["East", 10, 20, 30, 5, 5, 35],
+      ["West", null, null, null, 7, 7, 7],
+      ["Grand Total", 10, 20, 30, 12, 12, 42],
+    ]);
+  });
+});
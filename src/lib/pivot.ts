@@ -0,0 +1,495 @@
+import { isEmptyValue, valueKind } from "@/lib/columnProfile";
+import type { PreviewColumn, ReportDataset } from "@/lib/dataPreview";
+import {
+  DateColumnInfo,
+  detectDateColumns,
+  Granularity,
+  parseDateValue,
+  periodOf,
+} from "@/lib/timeSeries";
+
+/* ----------   TYPES   ---------- */
+export type PivotAggregate =
+  | "sum"
+  | "avg"
+  | "count"
+  | "distinct"
+  | "min"
+  | "max";
+
+export type DateGrouping = Granularity | "year";
+
+export interface PivotDimension {
+  column: string;
+  // Groups a date column by period instead of by day-exact value
+  dateGroup?: DateGrouping;
+}
+
+export interface PivotMeasure {
+  column: string;
+  aggregate: PivotAggregate;
+}
+
+// Keeps only rows whose cell text is one of the values
+export interface PivotFilter {
+  column: string;
+  values: string[];
+}
+
+export interface PivotSpec {
+  rows: PivotDimension[];
+  columns: PivotDimension[];
+  measures: PivotMeasure[];
+  filters: PivotFilter[];
+}
+
+export interface PivotRow {
+  // One key per row dimension; subtotal rows stop at their level
+  keys: string[];
+  subtotal: boolean;
+  // For each column key, one value per measure
+  values: (number | null)[][];
+  // One per measure, across every column
+  totals: (number | null)[];
+}
+
+export interface PivotTable {
+  spec: PivotSpec;
+  // One key per column dimension, in sorted order; with several column
+  // dimensions each group is followed by a shorter subtotal key
+  columnKeys: string[][];
+  // Groups in sorted order, each followed by its subtotal
+  rows: PivotRow[];
+  grandTotal: Omit<PivotRow, "keys" | "subtotal">;
+  // Rows left after filtering
+  sourceRows: number;
+}
+
+// A pivot kept with its report and exported as a workbook sheet
+export interface SavedPivot {
+  name: string;
+  createdAt: string;
+  table: PivotTable;
+}
+
+export interface PivotField extends PreviewColumn {
+  // The most frequent values, for filter pickers
+  values: string[];
+}
+
+// A flat view of the table for the UI and the workbook
+export interface PivotGrid {
+  headers: string[];
+  rows: {
+    kind: "detail" | "subtotal" | "total";
+    cells: (string | number | null)[];
+  }[];
+}
+
+// Thrown for specs that cannot be applied to the dataset
+export class PivotSpecError extends Error {}
+
+export const PIVOT_AGGREGATES: Record<PivotAggregate, string> = {
+  sum: "Sum",
+  avg: "Average",
+  count: "Count",
+  distinct: "Distinct count",
+  min: "Min",
+  max: "Max",
+};
+export const DATE_GROUPINGS: DateGrouping[] = [
+  "day",
+  "week",
+  "month",
+  "quarter",
+  "year",
+];
+// Bounds on the result, so a high-cardinality dimension cannot produce a
+// table too large to send or render
+const MAX_ROW_GROUPS = 5000;
+const MAX_COLUMN_KEYS = 200;
+const MAX_FIELD_VALUES = 50;
+const BLANK_KEY = "(blank)";
+
+/* ----------   VALIDATION   ---------- */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function listOf<T>(
+  value: unknown,
+  name: string,
+  parse: (item: unknown) => T
+): T[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    throw new PivotSpecError(`${name} must be a list`);
+  }
+  return value.map(parse);
+}
+
+function columnOf(value: Record<string, unknown>, columns: string[]): string {
+  const { column } = value;
+  if (typeof column !== "string" || !columns.includes(column)) {
+    throw new PivotSpecError(`Unknown column: ${String(column)}`);
+  }
+  return column;
+}
+
+/** Validates a pivot request against the dataset's columns. */
+export function parsePivotSpec(value: unknown, columns: string[]): PivotSpec {
+  if (!isRecord(value)) {
+    throw new PivotSpecError("Pivot must be a JSON object");
+  }
+  const dimension = (item: unknown): PivotDimension => {
+    if (typeof item === "string") {
+      return { column: columnOf({ column: item }, columns) };
+    }
+    if (!isRecord(item)) throw new PivotSpecError("Invalid dimension");
+    const { dateGroup } = item;
+    if (
+      dateGroup !== undefined &&
+      !DATE_GROUPINGS.includes(dateGroup as DateGrouping)
+    ) {
+      throw new PivotSpecError(`Unknown date grouping: ${String(dateGroup)}`);
+    }
+    return {
+      column: columnOf(item, columns),
+      ...(dateGroup ? { dateGroup: dateGroup as DateGrouping } : {}),
+    };
+  };
+
+  const spec: PivotSpec = {
+    rows: listOf(value.rows, "rows", dimension),
+    columns: listOf(value.columns, "columns", dimension),
+    measures: listOf(value.measures, "measures", (item) => {
+      if (!isRecord(item) || !(String(item.aggregate) in PIVOT_AGGREGATES)) {
+        throw new PivotSpecError(
+          `Measures need an aggregate of ${Object.keys(PIVOT_AGGREGATES).join(
+            ", "
+          )}`
+        );
+      }
+      return {
+        column: columnOf(item, columns),
+        aggregate: item.aggregate as PivotAggregate,
+      };
+    }),
+    filters: listOf(value.filters, "filters", (item) => {
+      if (
+        !isRecord(item) ||
+        !Array.isArray(item.values) ||
+        !item.values.every((entry) => typeof entry === "string")
+      ) {
+        throw new PivotSpecError("Filters need a list of values");
+      }
+      return { column: columnOf(item, columns), values: item.values };
+    }),
+  };
+  if (spec.measures.length === 0) {
+    throw new PivotSpecError("Add at least one measure");
+  }
+  return spec;
+}
+
+/* ----------   HELPERS   ---------- */
+class Accumulator {
+  private sum = 0;
+  private numbers = 0;
+  private filled = 0;
+  private min = Infinity;
+  private max = -Infinity;
+  private distinct = new Set<string>();
+
+  add(value: unknown): void {
+    if (isEmptyValue(value)) return;
+    this.filled++;
+    this.distinct.add(cellText(value));
+    const number = cellNumber(value);
+    if (!isFinite(number)) return;
+    this.numbers++;
+    this.sum += number;
+    if (number < this.min) this.min = number;
+    if (number > this.max) this.max = number;
+  }
+
+  result(aggregate: PivotAggregate): number | null {
+    switch (aggregate) {
+      case "count":
+        return this.filled;
+      case "distinct":
+        return this.distinct.size;
+      case "sum":
+        return this.numbers ? this.sum : null;
+      case "avg":
+        return this.numbers ? this.sum / this.numbers : null;
+      case "min":
+        return this.numbers ? this.min : null;
+      case "max":
+        return this.numbers ? this.max : null;
+    }
+  }
+}
+
+function cellText(value: unknown): string {
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value).trim();
+}
+
+function cellNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (valueKind(value) !== "number") return NaN;
+  return parseFloat(String(value).replace(/[,$€£¥%\s]/g, ""));
+}
+
+// Date columns are read the way time-series detection found them, so
+// day-first dates and Excel serials group correctly
+function dimensionKey(
+  value: unknown,
+  dimension: PivotDimension,
+  dateInfo?: DateColumnInfo
+): string {
+  if (isEmptyValue(value)) return BLANK_KEY;
+  if (dimension.dateGroup) {
+    const date = parseDateValue(value, {
+      allowSerial: dateInfo?.allowSerial,
+      dayFirst: dateInfo?.dayFirst,
+    });
+    if (!date) return cellText(value);
+    return dimension.dateGroup === "year"
+      ? String(date.getUTCFullYear())
+      : periodOf(date, dimension.dateGroup);
+  }
+  return cellText(value);
+}
+
+function compareKeys(a: string[], b: string[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] === b[i]) continue;
+    // Blanks sort last at every level
+    if (a[i] === BLANK_KEY) return 1;
+    if (b[i] === BLANK_KEY) return -1;
+    return a[i].localeCompare(b[i], undefined, { numeric: true });
+  }
+  return a.length - b.length;
+}
+
+export function measureLabel(measure: PivotMeasure): string {
+  return `${PIVOT_AGGREGATES[measure.aggregate]} of ${measure.column}`;
+}
+
+/* ----------   PUBLIC API   ---------- */
+/** Columns with their most frequent values, for building a pivot. */
+export function pivotFields(dataset: ReportDataset): PivotField[] {
+  return dataset.columns.map((column) => {
+    const counts = new Map<string, number>();
+    dataset.rows.forEach((row) => {
+      const key = dimensionKey(row[column.name], { column: column.name });
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+    return {
+      ...column,
+      values: Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1] || compareKeys([a[0]], [b[0]]))
+        .slice(0, MAX_FIELD_VALUES)
+        .map(([value]) => value),
+    };
+  });
+}
+
+/**
+ * Groups the rows by the row and column dimensions and aggregates every
+ * measure per cell. Subtotals and totals are aggregated from the rows
+ * themselves, so averages and distinct counts stay exact.
+ */
+export function buildPivot(
+  rows: Record<string, unknown>[],
+  spec: PivotSpec
+): PivotTable {
+  const filters = spec.filters.map((filter) => ({
+    column: filter.column,
+    values: new Set(filter.values),
+  }));
+  const included = rows.filter((row) =>
+    filters.every((filter) =>
+      filter.values.has(
+        dimensionKey(row[filter.column], { column: filter.column })
+      )
+    )
+  );
+
+  // Accumulators by row key prefix, then by column key ("" for all columns)
+  const groups = new Map<string, Map<string, Accumulator[]>>();
+  const rowKeys = new Map<string, string[]>();
+  const columnKeys = new Map<string, string[]>();
+  const accumulators = (rowPrefix: string[], columnKey: string) => {
+    const rowId = JSON.stringify(rowPrefix);
+    let byColumn = groups.get(rowId);
+    if (!byColumn) {
+      byColumn = new Map();
+      groups.set(rowId, byColumn);
+    }
+    let cell = byColumn.get(columnKey);
+    if (!cell) {
+      cell = spec.measures.map(() => new Accumulator());
+      byColumn.set(columnKey, cell);
+    }
+    return cell;
+  };
+
+  const dateColumns = new Map(
+    [...spec.rows, ...spec.columns].some((dimension) => dimension.dateGroup)
+      ? detectDateColumns(rows).map((info) => [info.column, info])
+      : []
+  );
+  const keysOf = (row: Record<string, unknown>, dimensions: PivotDimension[]) =>
+    dimensions.map((dimension) =>
+      dimensionKey(
+        row[dimension.column],
+        dimension,
+        dateColumns.get(dimension.column)
+      )
+    );
+
+  included.forEach((row) => {
+    const keys = keysOf(row, spec.rows);
+    const columnPath = keysOf(row, spec.columns);
+    const columnId = spec.columns.length ? JSON.stringify(columnPath) : "";
+    // The row's column and each of its column subtotals, then the row total
+    const columnIds = [
+      ...columnPath
+        .slice(0, -1)
+        .map((_, level) => JSON.stringify(columnPath.slice(0, level + 1))),
+      ...(columnId ? [columnId] : []),
+      "",
+    ];
+    rowKeys.set(JSON.stringify(keys), keys);
+    if (columnId) columnKeys.set(columnId, columnPath);
+    if (rowKeys.size > MAX_ROW_GROUPS) {
+      throw new PivotSpecError(
+        `More than ${MAX_ROW_GROUPS} row groups; add filters or fewer row fields`
+      );
+    }
+    if (columnKeys.size > MAX_COLUMN_KEYS) {
+      throw new PivotSpecError(
+        `More than ${MAX_COLUMN_KEYS} columns; add filters or fewer column fields`
+      );
+    }
+
+    for (let level = 0; level <= keys.length; level++) {
+      const prefix = keys.slice(0, level);
+      columnIds.forEach((id) => {
+        const cell = accumulators(prefix, id);
+        spec.measures.forEach((measure, index) =>
+          cell[index].add(row[measure.column])
+        );
+      });
+    }
+  });
+
+  // Each column group is followed by its subtotal, as rows are
+  const sortedColumns: string[][] = [];
+  const detailColumns = Array.from(columnKeys.values()).sort(compareKeys);
+  detailColumns.forEach((path, index) => {
+    sortedColumns.push(path);
+    const next = detailColumns[index + 1];
+    for (let level = path.length - 1; level >= 1; level--) {
+      const prefix = path.slice(0, level);
+      if (next && compareKeys(next.slice(0, level), prefix) === 0) break;
+      sortedColumns.push(prefix);
+    }
+  });
+  const rowFor = (prefix: string[]) => {
+    const byColumn = groups.get(JSON.stringify(prefix));
+    const resultOf = (columnId: string) =>
+      spec.measures.map((measure, index) => {
+        const cell = byColumn?.get(columnId);
+        return cell ? cell[index].result(measure.aggregate) : null;
+      });
+    return {
+      values: sortedColumns.map((path) => resultOf(JSON.stringify(path))),
+      totals: resultOf(""),
+    };
+  };
+
+  // Each group's detail rows come first, then its subtotal
+  const pivotRows: PivotRow[] = [];
+  const sortedRows = spec.rows.length
+    ? Array.from(rowKeys.values()).sort(compareKeys)
+    : [];
+  sortedRows.forEach((keys, index) => {
+    pivotRows.push({ keys, subtotal: false, ...rowFor(keys) });
+    const next = sortedRows[index + 1];
+    for (let level = keys.length - 1; level >= 1; level--) {
+      const prefix = keys.slice(0, level);
+      if (next && compareKeys(next.slice(0, level), prefix) === 0) break;
+      pivotRows.push({ keys: prefix, subtotal: true, ...rowFor(prefix) });
+    }
+  });
+
+  return {
+    spec,
+    columnKeys: sortedColumns,
+    rows: pivotRows,
+    grandTotal: rowFor([]),
+    sourceRows: included.length,
+  };
+}
+
+/**
+ * One header per row dimension, then a column per column key and measure
+ * (column subtotals headed "… total"), then the row totals. Subtotal rows
+ * are labelled in their last key cell and the grand total in the first.
+ */
+export function flattenPivot(table: PivotTable): PivotGrid {
+  const { spec } = table;
+  const measures = spec.measures.map(measureLabel);
+  const headers = [
+    ...spec.rows.map((dimension) =>
+      dimension.dateGroup
+        ? `${dimension.column} (${dimension.dateGroup})`
+        : dimension.column
+    ),
+    ...table.columnKeys.flatMap((path) => {
+      const name =
+        path.length < spec.columns.length
+          ? `${path.join(" / ")} total`
+          : path.join(" / ");
+      return measures.map((label) =>
+        measures.length > 1 ? `${name} – ${label}` : name
+      );
+    }),
+    ...measures.map((label) =>
+      table.columnKeys.length ? `Total – ${label}` : label
+    ),
+  ];
+  // Key cells padded to one per row dimension
+  const keyCells = (keys: string[]) =>
+    spec.rows.map((_, index) => (index < keys.length ? keys[index] : null));
+  const subtotalKeys = (keys: string[]) => [
+    ...keys.slice(0, -1),
+    `${keys[keys.length - 1]} total`,
+  ];
+
+  return {
+    headers,
+    rows: [
+      ...table.rows.map((row) => ({
+        kind: row.subtotal ? ("subtotal" as const) : ("detail" as const),
+        cells: [
+          ...keyCells(row.subtotal ? subtotalKeys(row.keys) : row.keys),
+          ...row.values.flat(),
+          ...row.totals,
+        ],
+      })),
+      {
+        kind: "total" as const,
+        cells: [
+          ...(spec.rows.length ? keyCells(["Grand Total"]) : []),
+          ...table.grandTotal.values.flat(),
+          ...table.grandTotal.totals,
+        ],
+      },
+    ],
+  };
+}
@@ -0,0 +1,232 @@
+import { createHash } from "crypto";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { ColumnMapping, isColumnRole } from "@/lib/columnRoles";
+import { readJsonFile, writeJsonFile } from "@/lib/jsonFile";
+import { parseQualityRules, QualityRuleError } from "@/lib/qualityRules";
+import { InsightRuleError, parseInsightRules } from "@/lib/insightRules";
+import { ReportProfile } from "@/lib/reportTypes";
+
+/* ----------   TYPES   ---------- */
+export type ProfileInput = Omit<
+  ReportProfile,
+  "id" | "fingerprint" | "createdAt" | "updatedAt"
+>;
+
+export interface ProfileRepository {
+  list(): Promise<ReportProfile[]>;
+  get(id: string): Promise<ReportProfile | null>;
+  findByFingerprint(fingerprint: string): Promise<ReportProfile | null>;
+  create(input: ProfileInput): Promise<ReportProfile>;
+  update(id: string, input: ProfileInput): Promise<ReportProfile | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+// Thrown for request bodies that do not describe a valid profile
+export class ProfileValidationError extends Error {}
+
+const DEFAULT_PROFILES_FILE = path.join(process.cwd(), "data", "profiles.json");
+
+/* ----------   HELPERS   ---------- */
+/**
+ * Identifies a file layout by its header set. Order, case and surrounding
+ * whitespace are ignored so a reordered export still matches.
+ */
+export function headerFingerprint(headers: string[]): string {
+  const normalized = Array.from(
+    new Set(headers.map((header) => header.trim().toLowerCase()))
+  ).sort();
+  return createHash("sha256").update(normalized.join("\n")).digest("hex");
+}
+
+function isStringList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+/** Validates a profile request body, filling defaults for optional fields. */
+export function parseProfileInput(value: unknown): ProfileInput {
+  if (!value || typeof value !== "object") {
+    throw new ProfileValidationError("Profile must be a JSON object");
+  }
+  const body = value as Record<string, unknown>;
+  const {
+    name,
+    headers,
+    reportType = "auto",
+    columnMapping = {},
+    sheets = [],
+    excludedColumns = [],
+    qualityRules = [],
+    insightRules = [],
+  } = body;
+
+  if (typeof name !== "string" || !name.trim()) {
+    throw new ProfileValidationError("Profile name is required");
+  }
+  if (!isStringList(headers) || headers.length === 0) {
+    throw new ProfileValidationError("Profile headers must be a list of names");
+  }
+  if (typeof reportType !== "string" || !reportType) {
+    throw new ProfileValidationError("Invalid report type");
+  }
+  if (
+    !columnMapping ||
+    typeof columnMapping !== "object" ||
+    Array.isArray(columnMapping) ||
+    !Object.values(columnMapping).every(
+      (role) => role === "none" || isColumnRole(role)
+    )
+  ) {
+    throw new ProfileValidationError("Invalid column mapping");
+  }
+  if (!isStringList(sheets)) {
+    throw new ProfileValidationError("Sheets must be a list of names");
+  }
+  if (!isStringList(excludedColumns)) {
+    throw new ProfileValidationError(
+      "Excluded columns must be a list of names"
+    );
+  }
+  let rules;
+  try {
+    rules = parseQualityRules(qualityRules);
+  } catch (err) {
+    throw new ProfileValidationError(
+      err instanceof QualityRuleError
+        ? `Invalid quality rules: ${err.message}`
+        : "Invalid quality rules"
+    );
+  }
+  let insights;
+  try {
+    insights = parseInsightRules(insightRules);
+  } catch (err) {
+    throw new ProfileValidationError(
+      err instanceof InsightRuleError
+        ? `Invalid insight rules: ${err.message}`
+        : "Invalid insight rules"
+    );
+  }
+
+  return {
+    name: name.trim(),
+    headers,
+    reportType,
+    columnMapping: columnMapping as ColumnMapping,
+    sheets,
+    excludedColumns,
+    qualityRules: rules,
+    insightRules: insights,
+  };
+}
+
+/* ----------   JSON FILE REPOSITORY   ---------- */
+// Keeps every profile in one JSON file. Writes are queued so concurrent
+// requests cannot interleave.
+class JsonFileProfileRepository implements ProfileRepository {
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  list(): Promise<ReportProfile[]> {
+    return readJsonFile<ReportProfile[]>(this.filePath, []);
+  }
+
+  async get(id: string): Promise<ReportProfile | null> {
+    const profiles = await this.list();
+    return profiles.find((profile) => profile.id === id) || null;
+  }
+
+  async findByFingerprint(fingerprint: string): Promise<ReportProfile | null> {
+    const profiles = await this.list();
+    return (
+      profiles.find((profile) => profile.fingerprint === fingerprint) || null
+    );
+  }
+
+  create(input: ProfileInput): Promise<ReportProfile> {
+    return this.mutate((profiles) => {
+      const now = new Date().toISOString();
+      const profile: ReportProfile = {
+        id: uuidv4(),
+        fingerprint: headerFingerprint(input.headers),
+        ...input,
+        createdAt: now,
+        updatedAt: now,
+      };
+      return { profiles: [...profiles, profile], result: profile };
+    });
+  }
+
+  update(id: string, input: ProfileInput): Promise<ReportProfile | null> {
+    return this.mutate((profiles) => {
+      const existing = profiles.find((profile) => profile.id === id);
+      if (!existing) return { profiles, result: null };
+      const profile: ReportProfile = {
+        ...existing,
+        ...input,
+        fingerprint: headerFingerprint(input.headers),
+        updatedAt: new Date().toISOString(),
+      };
+      return {
+        profiles: profiles.map((item) => (item.id === id ? profile : item)),
+        result: profile,
+      };
+    });
+  }
+
+  delete(id: string): Promise<boolean> {
+    return this.mutate((profiles) => {
+      const remaining = profiles.filter((profile) => profile.id !== id);
+      return {
+        profiles: remaining,
+        result: remaining.length !== profiles.length,
+      };
+    });
+  }
+
+  private mutate<T>(
+    change: (profiles: ReportProfile[]) => {
+      profiles: ReportProfile[];
+      result: T;
+    }
+  ): Promise<T> {
+    const run = this.writeQueue.then(async () => {
+      const { profiles, result } = change(await this.list());
+      await writeJsonFile(this.filePath, profiles);
+      return result;
+    });
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+/* ----------   PUBLIC API   ---------- */
+let repository: ProfileRepository | null = null;
+
+/** The profile store, a JSON file at PROFILES_FILE or ./data/profiles.json. */
+export function getProfileRepository(): ProfileRepository {
+  if (!repository) {
+    repository = new JsonFileProfileRepository(
+      process.env.PROFILES_FILE || DEFAULT_PROFILES_FILE
+    );
+  }
+  return repository;
+}
+
+/** The profile saved for the first header set that has one, if any. */
+export async function findMatchingProfile(
+  headerSets: string[][]
+): Promise<ReportProfile | null> {
+  const repository = getProfileRepository();
+  for (const headers of headerSets) {
+    if (headers.length === 0) continue;
+    const profile = await repository.findByFingerprint(
+      headerFingerprint(headers)
+    );
+    if (profile) return profile;
+  }
+  return null;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import * as XLSX from "xlsx";
+import { parseFile } from "@/lib/fileParser";
+import { assessQuality, inferQualityRules } from "@/lib/qualityRules";
+
+// A clean sheet as SheetJS writes it: the dates are Excel serial numbers
+function salesWorkbook(rows: number): File {
+  const cells: unknown[][] = [["Order Date", "Product", "Sales"]];
+  for (let i = 0; i < rows; i++) {
+    cells.push([45292 + i, `Product ${i % 5}`, 100 + i]);
+  }
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.aoa_to_sheet(cells),
+    "Sales"
+  );
+  const buffer: Uint8Array = XLSX.write(workbook, {
+    type: "array",
+    bookType: "xlsx",
+  });
+  return new File([buffer], "sales.xlsx");
+}
+
+describe("assessQuality", () => {
+  it("accepts Excel serial dates in an inferred date column", async () => {
+    const [sheet] = await parseFile(salesWorkbook(60));
+    expect(typeof sheet.rows[0]["Order Date"]).toBe("number");
+
+    const rules = inferQualityRules(sheet.rows);
+    expect(rules).toContainEqual({
+      type: "type",
+      column: "Order Date",
+      expected: "date",
+    });
+
+    const quality = assessQuality(sheet.rows);
+    expect(quality.issues).toEqual([]);
+    expect(quality.score).toBe(1);
+    expect(quality.grade).toBe("Excellent");
+  });
+
+  it("flags numbers that are not dates in a serial date column", () => {
+    const rows = Array.from({ length: 10 }, (_, index) => ({
+      "Order Date": index === 9 ? 12 : 45292 + index,
+      Sales: 10,
+    }));
+    const quality = assessQuality(rows, [
+      { type: "type", column: "Order Date", expected: "date" },
+    ]);
+    expect(quality.issues).toHaveLength(1);
+    expect(quality.issues[0]).toMatchObject({
+      row: 10,
+      value: 12,
+      message: "Not a date",
+    });
+  });
+
+  it("points issues at the rows of the source file", async () => {
+    const file = new File(
+      [
+        "Sales Report 2024\n\nOrder ID,Region,Sales\n" +
+          "1,East,100\n2,West,200\n\n1,East,100\n",
+      ],
+      "sales.csv"
+    );
+    const [sheet] = await parseFile(file);
+    const quality = assessQuality(sheet.rows, [], {
+      rowNumbers: sheet.rowNumbers,
+    });
+    expect(quality.issues).toHaveLength(1);
+    expect(quality.issues[0]).toMatchObject({
+      row: 3,
+      sourceRow: 7,
+      message: "Duplicate of row 4",
+    });
+  });
+});
@@ -0,0 +1,599 @@
+import {
+  isEmptyValue,
+  profileColumns,
+  ValueKind,
+  valueKind,
+} from "@/lib/columnProfile";
+import {
+  DateColumnInfo,
+  detectDateColumns,
+  parseDateValue,
+} from "@/lib/timeSeries";
+
+/* ----------   TYPES   ---------- */
+export type ExpectedType = Exclude<ValueKind, "empty">;
+
+export type CompareOperator = "<" | "<=" | "=" | "!=" | ">=" | ">";
+
+interface RuleBase {
+  // Defaults to a description of the rule, e.g. "Price is required"
+  id?: string;
+  // Share of the quality score, relative to the other rules (default 1)
+  weight?: number;
+}
+
+/**
+ * A validation rule. Column names match exactly, falling back to a match
+ * that ignores case and surrounding spaces.
+ */
+export type QualityRule = RuleBase &
+  (
+    | { type: "required"; column: string }
+    | { type: "type"; column: string; expected: ExpectedType }
+    | {
+        type: "allowedValues";
+        column: string;
+        values: (string | number)[];
+        caseSensitive?: boolean;
+      }
+    | { type: "pattern"; column: string; pattern: string; flags?: string }
+    | { type: "range"; column: string; min?: number; max?: number }
+    | { type: "unique"; columns: string[] }
+    // "cost <= price"; either side may be a column or a number
+    | { type: "compare"; expression: string }
+  );
+
+export type QualityRuleType = QualityRule["type"];
+
+export interface QualityIssue {
+  rule: string;
+  // Sheet, or source file for a consolidated report
+  sheet?: string;
+  // 1-based position among the analyzed rows; null for a missing column
+  row: number | null;
+  // Row number in the source sheet or file, as the user sees it there
+  sourceRow?: number;
+  column: string;
+  value?: string | number | boolean | null;
+  message: string;
+}
+
+export interface QualityRuleResult {
+  rule: string;
+  type: QualityRuleType;
+  weight: number;
+  // Cells or rows the rule applied to
+  checked: number;
+  violations: number;
+  passRate: number;
+}
+
+export type QualityGrade = "Excellent" | "Good" | "Fair" | "Poor";
+
+export interface QualityAssessment {
+  // Weighted mean of the rules' pass rates, 0 to 1
+  score: number;
+  grade: QualityGrade;
+  // True when no rules were configured and defaults were inferred
+  inferredRules: boolean;
+  rules: QualityRuleResult[];
+  issues: QualityIssue[];
+  // Before MAX_ISSUES truncation
+  totalIssues: number;
+}
+
+export interface AssessOptions {
+  sheet?: string;
+  // Column holding each row's source, used as its sheet (consolidated data)
+  sheetColumn?: string;
+  // Each row's number in its source sheet or file, from the parser
+  rowNumbers?: number[];
+}
+
+// Thrown for rule lists that cannot be applied
+export class QualityRuleError extends Error {}
+
+// Issues kept in a report; larger counts still affect the score
+const MAX_ISSUES = 5000;
+// Columns at least this full are treated as required by the inferred rules
+const INFERRED_REQUIRED_FILL = 0.9;
+// Share of values that must fit a type before the rest are flagged
+const INFERRED_TYPE_FIT = 0.8;
+const GRADES: [number, QualityGrade][] = [
+  [0.95, "Excellent"],
+  [0.85, "Good"],
+  [0.7, "Fair"],
+];
+const RULE_TYPES: QualityRuleType[] = [
+  "required",
+  "type",
+  "allowedValues",
+  "pattern",
+  "range",
+  "unique",
+  "compare",
+];
+const EXPECTED_TYPES: ExpectedType[] = ["number", "date", "boolean", "text"];
+const COMPARE_PATTERN = /^(.+?)\s*(<=|>=|!=|<|>|=)\s*(.+)$/;
+
+/* ----------   VALIDATION   ---------- */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isName(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+function invalid(index: number, message: string): QualityRuleError {
+  return new QualityRuleError(`Rule ${index + 1}: ${message}`);
+}
+
+function parseRule(value: unknown, index: number): QualityRule {
+  if (!isRecord(value)) throw invalid(index, "must be an object");
+  const { type, id, weight } = value;
+  if (!RULE_TYPES.includes(type as QualityRuleType)) {
+    throw invalid(index, `unknown type ${JSON.stringify(type)}`);
+  }
+  if (id !== undefined && !isName(id)) {
+    throw invalid(index, "id must be a non-empty string");
+  }
+  if (
+    weight !== undefined &&
+    (typeof weight !== "number" || !(weight >= 0) || !isFinite(weight))
+  ) {
+    throw invalid(index, "weight must be a non-negative number");
+  }
+  if (type === "unique") {
+    if (!Array.isArray(value.columns) || !value.columns.every(isName)) {
+      throw invalid(index, "columns must be a list of column names");
+    }
+    if (value.columns.length === 0) {
+      throw invalid(index, "columns must not be empty");
+    }
+  } else if (type === "compare") {
+    if (typeof value.expression !== "string") {
+      throw invalid(index, 'expression must look like "cost <= price"');
+    }
+    parseExpression(value.expression, index);
+  } else if (!isName(value.column)) {
+    throw invalid(index, "column is required");
+  }
+
+  if (type === "type" && !EXPECTED_TYPES.includes(value.expected as never)) {
+    throw invalid(
+      index,
+      `expected must be one of ${EXPECTED_TYPES.join(", ")}`
+    );
+  }
+  if (type === "allowedValues") {
+    const values = value.values;
+    if (
+      !Array.isArray(values) ||
+      !values.every((item) => ["string", "number"].includes(typeof item))
+    ) {
+      throw invalid(index, "values must be a list of strings or numbers");
+    }
+  }
+  if (type === "pattern") {
+    if (typeof value.pattern !== "string") {
+      throw invalid(index, "pattern is required");
+    }
+    if (value.flags !== undefined && typeof value.flags !== "string") {
+      throw invalid(index, "flags must be a string");
+    }
+    try {
+      new RegExp(value.pattern, (value.flags as string) || "");
+    } catch (err) {
+      throw invalid(
+        index,
+        err instanceof Error ? err.message : "invalid pattern"
+      );
+    }
+  }
+  if (type === "range") {
+    const { min, max } = value;
+    if (
+      (min !== undefined && typeof min !== "number") ||
+      (max !== undefined && typeof max !== "number") ||
+      (min === undefined && max === undefined)
+    ) {
+      throw invalid(index, "range needs a numeric min, max or both");
+    }
+  }
+  return value as unknown as QualityRule;
+}
+
+/** Validates a list of rules, e.g. from a request or a saved profile. */
+export function parseQualityRules(value: unknown): QualityRule[] {
+  if (!Array.isArray(value)) {
+    throw new QualityRuleError("Quality rules must be a list");
+  }
+  return value.map(parseRule);
+}
+
+/* ----------   HELPERS   ---------- */
+function parseExpression(
+  expression: string,
+  index = 0
+): { left: string; operator: CompareOperator; right: string } {
+  const match = expression.trim().match(COMPARE_PATTERN);
+  if (!match) {
+    throw invalid(index, `cannot read expression "${expression}"`);
+  }
+  return {
+    left: match[1].trim(),
+    operator: match[2] as CompareOperator,
+    right: match[3].trim(),
+  };
+}
+
+export function describeRule(rule: QualityRule): string {
+  if (rule.id) return rule.id;
+  switch (rule.type) {
+    case "required":
+      return `${rule.column} is required`;
+    case "type":
+      return `${rule.column} is a ${rule.expected}`;
+    case "allowedValues":
+      return `${rule.column} is one of ${rule.values.join(", ")}`;
+    case "pattern":
+      return `${rule.column} matches /${rule.pattern}/${rule.flags || ""}`;
+    case "range":
+      return rule.min !== undefined && rule.max !== undefined
+        ? `${rule.column} is between ${rule.min} and ${rule.max}`
+        : rule.min !== undefined
+        ? `${rule.column} is at least ${rule.min}`
+        : `${rule.column} is at most ${rule.max}`;
+    case "unique":
+      return `${rule.columns.join(" + ")} is unique`;
+    case "compare":
+      return rule.expression.trim();
+  }
+}
+
+function findColumn(columns: string[], name: string): string | undefined {
+  if (columns.includes(name)) return name;
+  const wanted = name.trim().toLowerCase();
+  return columns.find((column) => column.trim().toLowerCase() === wanted);
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (valueKind(value) !== "number") return NaN;
+  return parseFloat(String(value).replace(/[,$€£¥%\s]/g, ""));
+}
+
+function cellText(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value).trim();
+}
+
+function issueValue(value: unknown): QualityIssue["value"] {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === "number" || typeof value === "boolean"
+    ? value
+    : String(value);
+}
+
+// Dates are read as their column was detected, so a workbook's serial
+// numbers and dd/mm or mm/dd strings count as dates
+function fitsType(
+  value: unknown,
+  expected: ExpectedType,
+  dateInfo?: DateColumnInfo
+): boolean {
+  if (expected === "date") {
+    return parseDateValue(value, dateInfo) !== null;
+  }
+  const kind = valueKind(value);
+  // Date strings read as text, and text accepts anything but a bare number
+  return expected === "text" ? kind !== "number" : kind === expected;
+}
+
+function compareValues(
+  left: unknown,
+  right: unknown,
+  operator: CompareOperator
+): boolean | null {
+  let a: number | string = toNumber(left);
+  let b: number | string = toNumber(right);
+  if (isNaN(a) || isNaN(b)) {
+    const leftDate = parseDateValue(left);
+    const rightDate = parseDateValue(right);
+    if (leftDate && rightDate) {
+      a = leftDate.getTime();
+      b = rightDate.getTime();
+    } else if (operator === "=" || operator === "!=") {
+      a = cellText(left).toLowerCase();
+      b = cellText(right).toLowerCase();
+    } else {
+      return null;
+    }
+  }
+  switch (operator) {
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case "=":
+      return a === b;
+    case "!=":
+      return a !== b;
+    case ">=":
+      return a >= b;
+    case ">":
+      return a > b;
+  }
+}
+
+/* ----------   RULE CHECKS   ---------- */
+interface CheckContext {
+  rows: Record<string, unknown>[];
+  columns: string[];
+  dateColumns: Map<string, DateColumnInfo>;
+  // Source row number of the row at a 0-based index, for messages
+  sourceRow(index: number): number;
+  report(
+    row: number | null,
+    column: string,
+    value: unknown,
+    message: string
+  ): void;
+}
+
+// Runs one rule and returns how many cells or rows it checked
+function checkRule(rule: QualityRule, context: CheckContext): number {
+  const { rows, columns, dateColumns, sourceRow, report } = context;
+  const missing = (name: string) => {
+    report(null, name, undefined, `Column "${name}" not found`);
+    return 1;
+  };
+
+  if (rule.type === "unique") {
+    const keyColumns = rule.columns.map((name) => findColumn(columns, name));
+    const absent = rule.columns.find((_, index) => !keyColumns[index]);
+    if (absent) return missing(absent);
+    const seen = new Map<string, number>();
+    let checked = 0;
+    rows.forEach((row, index) => {
+      const cells = keyColumns.map((column) => row[column!]);
+      if (cells.every(isEmptyValue)) return;
+      checked++;
+      const key = JSON.stringify(cells.map(cellText));
+      const first = seen.get(key);
+      if (first === undefined) {
+        seen.set(key, sourceRow(index));
+      } else {
+        report(
+          index + 1,
+          rule.columns.join(", "),
+          cells.map(cellText).join(", "),
+          `Duplicate of row ${first}`
+        );
+      }
+    });
+    return checked;
+  }
+
+  if (rule.type === "compare") {
+    const { left, operator, right } = parseExpression(rule.expression);
+    const operand = (side: string) => {
+      const column = findColumn(columns, side);
+      if (column) return { column };
+      const number = Number(side);
+      return isNaN(number) ? null : { number };
+    };
+    const leftOperand = operand(left);
+    const rightOperand = operand(right);
+    if (!leftOperand) return missing(left);
+    if (!rightOperand) return missing(right);
+    const valueOf = (
+      row: Record<string, unknown>,
+      side: { column?: string; number?: number }
+    ) => (side.column !== undefined ? row[side.column] : side.number);
+    let checked = 0;
+    rows.forEach((row, index) => {
+      const a = valueOf(row, leftOperand);
+      const b = valueOf(row, rightOperand);
+      if (isEmptyValue(a) || isEmptyValue(b)) return;
+      checked++;
+      const result = compareValues(a, b, operator);
+      if (result === true) return;
+      report(
+        index + 1,
+        leftOperand.column || rightOperand.column || left,
+        a,
+        result === null
+          ? `Cannot compare ${cellText(a)} with ${cellText(b)}`
+          : `${cellText(a)} ${operator} ${cellText(b)} does not hold`
+      );
+    });
+    return checked;
+  }
+
+  const column = findColumn(columns, rule.column);
+  if (!column) return missing(rule.column);
+
+  if (rule.type === "required") {
+    rows.forEach((row, index) => {
+      if (isEmptyValue(row[column])) {
+        report(index + 1, column, row[column], "Missing value");
+      }
+    });
+    return rows.length;
+  }
+
+  const pattern =
+    rule.type === "pattern" ? new RegExp(rule.pattern, rule.flags || "") : null;
+  const allowed =
+    rule.type === "allowedValues"
+      ? new Set(
+          rule.values.map((item) =>
+            rule.caseSensitive ? String(item) : String(item).toLowerCase()
+          )
+        )
+      : null;
+  let checked = 0;
+  rows.forEach((row, index) => {
+    const value = row[column];
+    if (isEmptyValue(value)) return;
+    checked++;
+    const flag = (message: string) => report(index + 1, column, value, message);
+    const text = cellText(value);
+
+    switch (rule.type) {
+      case "type":
+        if (!fitsType(value, rule.expected, dateColumns.get(column))) {
+          flag(`Not a ${rule.expected}`);
+        }
+        break;
+      case "allowedValues":
+        if (!allowed!.has(rule.caseSensitive ? text : text.toLowerCase())) {
+          flag(`"${text}" is not an allowed value`);
+        }
+        break;
+      case "pattern":
+        pattern!.lastIndex = 0;
+        if (!pattern!.test(text)) flag(`"${text}" does not match the pattern`);
+        break;
+      case "range": {
+        const number = toNumber(value);
+        if (isNaN(number)) flag("Not a number");
+        else if (rule.min !== undefined && number < rule.min) {
+          flag(`Below the minimum of ${rule.min}`);
+        } else if (rule.max !== undefined && number > rule.max) {
+          flag(`Above the maximum of ${rule.max}`);
+        }
+        break;
+      }
+    }
+  });
+  return checked;
+}
+
+/* ----------   PUBLIC API   ---------- */
+/**
+ * Rules used when none are configured: columns that are nearly always
+ * filled are required, columns that are mostly numbers or dates must hold
+ * only those, and whole rows must not repeat.
+ */
+export function inferQualityRules(
+  rows: Record<string, unknown>[],
+  ignoredColumns: string[] = []
+): QualityRule[] {
+  const profile = profileColumns(rows).filter(
+    (column) => !ignoredColumns.includes(column.column)
+  );
+  const rules: QualityRule[] = [];
+  profile.forEach((column) => {
+    if (column.type === "empty") return;
+    if (1 - column.nullRate >= INFERRED_REQUIRED_FILL) {
+      rules.push({ type: "required", column: column.column });
+    }
+    if (
+      (column.type === "numeric" || column.type === "date") &&
+      column.typeConfidence >= INFERRED_TYPE_FIT
+    ) {
+      rules.push({
+        type: "type",
+        column: column.column,
+        expected: column.type === "numeric" ? "number" : "date",
+      });
+    }
+  });
+  if (profile.length > 0) {
+    rules.push({
+      id: "No duplicate rows",
+      type: "unique",
+      columns: profile.map((column) => column.column),
+    });
+  }
+  return rules;
+}
+
+export function qualityGrade(score: number): QualityGrade {
+  const grade = GRADES.find(([minimum]) => score >= minimum);
+  return grade ? grade[1] : "Poor";
+}
+
+/**
+ * Checks the rows against the rules, or against inferred rules when the
+ * list is empty. The score is the weighted mean of each rule's pass rate;
+ * a rule naming a missing column fails outright.
+ */
+export function assessQuality(
+  rows: Record<string, unknown>[],
+  configured: QualityRule[] = [],
+  options: AssessOptions = {}
+): QualityAssessment {
+  const { sheet, sheetColumn, rowNumbers } = options;
+  const columns = Object.keys(rows[0] || {}).filter(
+    (column) => column !== sheetColumn
+  );
+  const inferredRules = configured.length === 0;
+  const rules = inferredRules
+    ? inferQualityRules(rows, sheetColumn ? [sheetColumn] : [])
+    : configured;
+
+  const dateColumns = new Map(
+    detectDateColumns(rows).map((info) => [info.column, info])
+  );
+
+  const issues: QualityIssue[] = [];
+  let totalIssues = 0;
+  const results = rules.map((rule): QualityRuleResult => {
+    const name = describeRule(rule);
+    let violations = 0;
+    const checked = checkRule(rule, {
+      rows,
+      columns,
+      dateColumns,
+      sourceRow: (index) => rowNumbers?.[index] ?? index + 1,
+      report: (row, column, value, message) => {
+        violations++;
+        totalIssues++;
+        if (issues.length >= MAX_ISSUES) return;
+        const rowSheet =
+          sheetColumn && row !== null
+            ? String(rows[row - 1][sheetColumn] ?? "")
+            : sheet;
+        issues.push({
+          rule: name,
+          ...(rowSheet ? { sheet: rowSheet } : {}),
+          row,
+          ...(row !== null && rowNumbers?.[row - 1] !== undefined
+            ? { sourceRow: rowNumbers[row - 1] }
+            : {}),
+          column,
+          ...(value !== undefined ? { value: issueValue(value) } : {}),
+          message,
+        });
+      },
+    });
+    return {
+      rule: name,
+      type: rule.type,
+      weight: rule.weight ?? 1,
+      checked,
+      violations,
+      passRate: checked ? Math.max(0, 1 - violations / checked) : 1,
+    };
+  });
+
+  const totalWeight = results.reduce((sum, result) => sum + result.weight, 0);
+  const score = totalWeight
+    ? results.reduce(
+        (sum, result) => sum + result.weight * result.passRate,
+        0
+      ) / totalWeight
+    : 1;
+  return {
+    score,
+    grade: qualityGrade(score),
+    inferredRules,
+    rules: results,
+    issues,
+    totalIssues,
+  };
+}
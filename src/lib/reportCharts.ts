@@ -0,0 +1,180 @@
+import type { TimeSeriesSection } from "@/lib/timeSeries";
+
+/* ----------   TYPES   ---------- */
+export type ChartKind = "bar" | "line" | "pie" | "histogram";
+export type ChartValueFormat = "currency" | "number" | "percent";
+
+export interface ChartSeries {
+  key: string;
+  label: string;
+}
+
+// Chart-ready data: raw numbers keyed by series, never preformatted strings
+export interface ChartSpec {
+  id: string;
+  title: string;
+  kind: ChartKind;
+  xKey: string;
+  series: ChartSeries[];
+  data: Record<string, string | number | null>[];
+  valueFormat: ChartValueFormat;
+  // Drawn from the sampled rows of a source longer than MAX_SAMPLE_ROWS
+  sampled?: boolean;
+}
+
+export interface ChartPoint {
+  label: string;
+  value: number;
+}
+
+export interface HistogramBin {
+  // Display label, e.g. "10–20", or the value itself for discrete bins
+  bin: string;
+  start: number;
+  end: number;
+  count: number;
+}
+
+const MAX_HISTOGRAM_BINS = 10;
+
+/* ----------   HELPERS   ---------- */
+function chartId(...parts: string[]): string {
+  return parts
+    .join("-")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+function formatBinEdge(value: number): string {
+  return value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+}
+
+/* ----------   CHART BUILDERS   ---------- */
+export function barChart(
+  title: string,
+  points: ChartPoint[],
+  valueFormat: ChartValueFormat = "number",
+  seriesLabel = "Value"
+): ChartSpec {
+  return {
+    id: chartId("bar", title),
+    title,
+    kind: "bar",
+    xKey: "label",
+    series: [{ key: "value", label: seriesLabel }],
+    data: points.map((point) => ({ label: point.label, value: point.value })),
+    valueFormat,
+  };
+}
+
+/**
+ * Pie of the given slices. Slices must be positive to be drawn, so zero and
+ * negative values are dropped; returns null when fewer than two remain.
+ */
+export function pieChart(
+  title: string,
+  points: ChartPoint[],
+  valueFormat: ChartValueFormat = "number"
+): ChartSpec | null {
+  const slices = points.filter((point) => point.value > 0);
+  if (slices.length < 2) return null;
+  return {
+    id: chartId("pie", title),
+    title,
+    kind: "pie",
+    xKey: "label",
+    series: [{ key: "value", label: title }],
+    data: slices.map((point) => ({ label: point.label, value: point.value })),
+    valueFormat,
+  };
+}
+
+/** One line per time-series measure, one x-axis entry per period. */
+export function timeSeriesChart(
+  title: string,
+  section: TimeSeriesSection,
+  valueFormat: ChartValueFormat = "number"
+): ChartSpec {
+  const periods = section.series[0]?.points.map((point) => point.period) || [];
+  return {
+    id: chartId("line", title),
+    title,
+    kind: "line",
+    xKey: "period",
+    series: section.series.map((measure) => ({
+      key: measure.name,
+      label: measure.name,
+    })),
+    data: periods.map((period, index) => {
+      const row: Record<string, string | number | null> = { period };
+      section.series.forEach((measure) => {
+        row[measure.name] = measure.points[index]?.value ?? null;
+      });
+      return row;
+    }),
+    valueFormat,
+  };
+}
+
+/**
+ * Equal-width bins using Sturges' rule for the bin count, capped at
+ * MAX_HISTOGRAM_BINS. Small ranges of whole numbers (ratings, quantities)
+ * get one bin per value.
+ */
+export function histogramBins(values: number[]): HistogramBin[] {
+  if (values.length === 0) return [];
+
+  let min = Infinity;
+  let max = -Infinity;
+  values.forEach((value) => {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  });
+
+  const discrete =
+    values.every(Number.isInteger) && max - min < MAX_HISTOGRAM_BINS;
+  const binCount = discrete
+    ? max - min + 1
+    : min === max
+    ? 1
+    : Math.min(MAX_HISTOGRAM_BINS, Math.ceil(Math.log2(values.length) + 1));
+  const width = discrete ? 1 : (max - min) / binCount || 1;
+  const counts = new Array(binCount).fill(0);
+  values.forEach((value) => {
+    const index = Math.min(Math.floor((value - min) / width), binCount - 1);
+    counts[index]++;
+  });
+
+  return counts.map((count, index) => {
+    const start = min + index * width;
+    const end = index === binCount - 1 ? max : start + width;
+    return {
+      bin:
+        discrete || min === max
+          ? formatBinEdge(start)
+          : `${formatBinEdge(start)}–${formatBinEdge(end)}`,
+      start,
+      end,
+      count,
+    };
+  });
+}
+
+/** Histogram of `histogramBins`; null when there is nothing to bin. */
+export function histogramChart(
+  column: string,
+  values: number[]
+): ChartSpec | null {
+  if (values.length === 0) return null;
+
+  return {
+    id: chartId("histogram", column),
+    title: `${column} Distribution`,
+    kind: "histogram",
+    xKey: "bin",
+    series: [{ key: "count", label: "Rows" }],
+    data: histogramBins(values).map(({ bin, count }) => ({ bin, count })),
+    valueFormat: "number",
+  };
+}
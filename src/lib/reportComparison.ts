@@ -0,0 +1,332 @@
+import { v4 as uuidv4 } from "uuid";
+import { ColumnRole } from "@/lib/columnRoles";
+import {
+  ComparisonPeriod,
+  ComparisonReport,
+  DynamicReport,
+  EntityComparison,
+  MetricComparison,
+  SchemaDrift,
+} from "@/lib/reportTypes";
+import {
+  countValue,
+  isReportValue,
+  numberValue,
+  percentValue,
+  ReportValue,
+} from "@/lib/reportValues";
+
+/* ----------   TYPES   ---------- */
+export interface ComparisonInput {
+  report: DynamicReport;
+  // The rows the report was generated from, after column exclusions
+  rows: Record<string, unknown>[];
+}
+
+// Share of headers two sheets need in common before they are compared
+const MIN_SHARED_COLUMNS = 0.5;
+const STAT_KEYS = [
+  "sum",
+  "average",
+  "min",
+  "max",
+  "count",
+  "distinct",
+] as const;
+const ENTITY_ROLES: ColumnRole[] = ["product", "customer"];
+const MAX_LISTED_ENTITIES = 50;
+
+/* ----------   HELPERS   ---------- */
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase();
+}
+
+function columnsOf(input: ComparisonInput): string[] {
+  return Object.keys(input.rows[0] || {});
+}
+
+function periodLabel(report: DynamicReport): string {
+  return report.sheetName
+    ? `${report.fileName} (${report.sheetName})`
+    : report.fileName;
+}
+
+function dateRange(
+  report: DynamicReport
+): { start: string; end: string } | undefined {
+  const range = sectionOf(sectionOf(report.data, "timeSeries"), "range");
+  return typeof range.start === "string" && typeof range.end === "string"
+    ? { start: range.start, end: range.end }
+    : undefined;
+}
+
+/** Shared headers over all headers, ignoring case and surrounding spaces. */
+export function schemaSimilarity(a: string[], b: string[]): number {
+  const left = new Set(a.map(normalizeHeader));
+  const right = new Set(b.map(normalizeHeader));
+  const shared = Array.from(left).filter((header) => right.has(header));
+  const union = new Set([...Array.from(left), ...Array.from(right)]);
+  return union.size === 0 ? 0 : shared.length / union.size;
+}
+
+// Files are compared in date order when every report found dates, so
+// uploading "April" before "March" still reads March -> April
+function orderPeriods(inputs: ComparisonInput[]): ComparisonInput[] {
+  if (!inputs.every((input) => dateRange(input.report))) return inputs;
+  return [...inputs].sort((a, b) =>
+    dateRange(a.report)!.start.localeCompare(dateRange(b.report)!.start)
+  );
+}
+
+function difference(current: ReportValue, previous: ReportValue): ReportValue {
+  return {
+    ...current,
+    value: current.value - previous.value,
+  };
+}
+
+function buildMetric(
+  key: string,
+  group: string,
+  name: string,
+  values: (ReportValue | null)[]
+): MetricComparison {
+  const previousOf = (index: number) => (index > 0 ? values[index - 1] : null);
+  return {
+    key,
+    group,
+    name,
+    values,
+    changes: values.map((value, index) => {
+      const previous = previousOf(index);
+      return value && previous ? difference(value, previous) : null;
+    }),
+    percentChanges: values.map((value, index) => {
+      const previous = previousOf(index);
+      if (!value || !previous || previous.value === 0) return null;
+      return percentValue(
+        (value.value - previous.value) / Math.abs(previous.value)
+      );
+    }),
+  };
+}
+
+function isSection(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// The named section of a report or stats object, empty when missing
+function sectionOf(value: unknown, key: string): Record<string, unknown> {
+  const section = isSection(value) ? value[key] : undefined;
+  return isSection(section) ? section : {};
+}
+
+// Headline metrics are the ReportValue fields directly inside a report
+// section, such as salesOverview.totalSales; nested breakdowns like
+// topProducts are per-entity and left out
+function compareMetrics(reports: DynamicReport[]): MetricComparison[] {
+  const keys: { group: string; name: string }[] = [];
+  const seen = new Set<string>();
+  reports.forEach((report) => {
+    Object.entries(report.data).forEach(([group, section]) => {
+      if (group === "basicStats" || !isSection(section)) return;
+      Object.entries(section).forEach(([name, value]) => {
+        const key = `${group}.${name}`;
+        if (!isReportValue(value) || seen.has(key)) return;
+        seen.add(key);
+        keys.push({ group, name });
+      });
+    });
+  });
+
+  return keys.map(({ group, name }) =>
+    buildMetric(
+      `${group}.${name}`,
+      group,
+      name,
+      reports.map((report) => {
+        const value = sectionOf(report.data, group)[name];
+        return isReportValue(value) ? value : null;
+      })
+    )
+  );
+}
+
+function compareColumnStats(reports: DynamicReport[]): MetricComparison[] {
+  const columns: string[] = [];
+  reports.forEach((report) => {
+    Object.keys(sectionOf(report.data, "basicStats")).forEach((column) => {
+      if (!columns.includes(column)) columns.push(column);
+    });
+  });
+
+  return columns.flatMap((column) =>
+    STAT_KEYS.map((stat) =>
+      buildMetric(
+        `basicStats.${column}.${stat}`,
+        column,
+        stat,
+        reports.map((report) => {
+          const value = sectionOf(sectionOf(report.data, "basicStats"), column)[
+            stat
+          ];
+          if (typeof value !== "number") return null;
+          return stat === "count" || stat === "distinct"
+            ? countValue(value)
+            : numberValue(value);
+        })
+      )
+    )
+  );
+}
+
+function findColumn(columns: string[], name: string): string | undefined {
+  const wanted = normalizeHeader(name);
+  return columns.find((column) => normalizeHeader(column) === wanted);
+}
+
+function distinctValues(
+  rows: Record<string, unknown>[],
+  column: string | undefined
+): Set<string> {
+  const values = new Set<string>();
+  if (!column) return values;
+  rows.forEach((row) => {
+    const value = row[column];
+    if (value === null || value === undefined) return;
+    const text = String(value).trim();
+    if (text) values.add(text);
+  });
+  return values;
+}
+
+function missingFrom(source: Set<string>, other: Set<string>): string[] {
+  return Array.from(source)
+    .filter((value) => !other.has(value))
+    .sort((a, b) => a.localeCompare(b));
+}
+
+// Tracks the first column playing each entity role in the earliest period
+function compareEntities(
+  inputs: ComparisonInput[],
+  labels: string[]
+): EntityComparison[] {
+  const roles = inputs[0].report.metadata?.columnRoles || {};
+  return ENTITY_ROLES.flatMap((role) => {
+    const column = Object.keys(roles).find((col) => roles[col] === role);
+    if (!column) return [];
+    const sets = inputs.map((input) =>
+      distinctValues(input.rows, findColumn(columnsOf(input), column))
+    );
+    return [
+      {
+        role,
+        column,
+        counts: sets.map((set) => set.size),
+        changes: sets.slice(1).map((current, index) => {
+          const previous = sets[index];
+          const added = missingFrom(current, previous);
+          const removed = missingFrom(previous, current);
+          return {
+            from: labels[index],
+            to: labels[index + 1],
+            added: added.slice(0, MAX_LISTED_ENTITIES),
+            removed: removed.slice(0, MAX_LISTED_ENTITIES),
+            addedCount: added.length,
+            removedCount: removed.length,
+          };
+        }),
+      },
+    ];
+  });
+}
+
+function compareSchemas(
+  inputs: ComparisonInput[],
+  labels: string[]
+): SchemaDrift[] {
+  const schemas = inputs.map(columnsOf);
+  return schemas.slice(1).flatMap((current, index) => {
+    const previous = schemas[index];
+    const addedColumns = current.filter((col) => !findColumn(previous, col));
+    const removedColumns = previous.filter((col) => !findColumn(current, col));
+    if (addedColumns.length === 0 && removedColumns.length === 0) return [];
+    return [
+      {
+        from: labels[index],
+        to: labels[index + 1],
+        addedColumns,
+        removedColumns,
+      },
+    ];
+  });
+}
+
+/* ----------   PUBLIC API   ---------- */
+/**
+ * Compares reports generated from successive files, such as one export per
+ * month. The first input sets the baseline schema and report type; inputs
+ * that do not match it are listed under `excluded`. Returns null when fewer
+ * than two inputs remain.
+ */
+export function compareReports(
+  inputs: ComparisonInput[]
+): ComparisonReport | null {
+  const candidates = inputs.filter(
+    (input) => input.report.reportType !== "error"
+  );
+  if (candidates.length < 2) return null;
+
+  const [baseline] = candidates;
+  const excluded: ComparisonReport["excluded"] = [];
+  const compatible = candidates.filter((input) => {
+    if (input === baseline) return true;
+    const label = periodLabel(input.report);
+    if (input.report.reportType !== baseline.report.reportType) {
+      excluded.push({
+        label,
+        reason: `Analyzed as ${input.report.reportType}, not ${baseline.report.reportType}`,
+      });
+      return false;
+    }
+    const similarity = schemaSimilarity(columnsOf(baseline), columnsOf(input));
+    if (similarity < MIN_SHARED_COLUMNS) {
+      excluded.push({
+        label,
+        reason: `Only ${Math.round(
+          similarity * 100
+        )}% of columns match ${periodLabel(baseline.report)}`,
+      });
+      return false;
+    }
+    return true;
+  });
+  if (compatible.length < 2) return null;
+
+  const ordered = orderPeriods(compatible);
+  const reports = ordered.map((input) => input.report);
+  const labels = reports.map(periodLabel);
+  const periods: ComparisonPeriod[] = reports.map((report, index) => {
+    const range = dateRange(report);
+    return {
+      reportId: report.id,
+      label: labels[index],
+      fileName: report.fileName,
+      ...(report.sheetName ? { sheetName: report.sheetName } : {}),
+      rowsAnalyzed: report.dataInfo.rowsAnalyzed,
+      ...(range ? { range: { start: range.start, end: range.end } } : {}),
+    };
+  });
+
+  return {
+    id: uuidv4(),
+    generatedAt: new Date().toISOString(),
+    reportType: baseline.report.reportType,
+    periods,
+    metrics: compareMetrics(reports),
+    columnStats: compareColumnStats(reports),
+    entities: compareEntities(ordered, labels),
+    schemaDrift: compareSchemas(ordered, labels),
+    excluded,
+  };
+}
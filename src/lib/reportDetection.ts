@@ -0,0 +1,105 @@
+import { DetectionScore } from "@/lib/reportTypes";
+import { REPORT_GENERATORS } from "@/lib/generators";
+import type { ColumnSample, DetectionSample } from "@/lib/generators";
+import { isEmptyValue, ValueKind, valueKind } from "@/lib/columnProfile";
+import { detectDateColumns } from "@/lib/timeSeries";
+
+// Rows of the sheet the detectors see
+const SAMPLE_ROWS = 200;
+// The best match is only used at or above this score; weaker sheets are
+// analyzed as general data
+export const DETECTION_THRESHOLD = 0.25;
+// Fewer non-empty values than this say nothing about cardinality
+const MIN_CARDINALITY_VALUES = 10;
+const LOW_CARDINALITY_MAX = 20;
+
+/* ----------   HELPERS   ---------- */
+function cardinality(
+  distinct: number,
+  filled: number
+): ColumnSample["cardinality"] {
+  if (filled < MIN_CARDINALITY_VALUES) return "unknown";
+  const ratio = distinct / filled;
+  if (ratio >= 0.9) return "high";
+  if (distinct <= LOW_CARDINALITY_MAX && ratio <= 0.5) return "low";
+  return "medium";
+}
+
+// Date columns come from time-series detection, which also recognizes
+// Excel serial numbers under date-like headers
+function sampleColumn(
+  rows: Record<string, unknown>[],
+  column: string,
+  dateColumns: Set<string>
+): ColumnSample {
+  const values = rows.map((row) => row[column]).filter((v) => !isEmptyValue(v));
+  const distinct = new Set(values.map((value) => String(value).trim())).size;
+
+  let kind: ValueKind = "empty";
+  if (dateColumns.has(column)) {
+    kind = "date";
+  } else if (values.length > 0) {
+    const counts = new Map<ValueKind, number>();
+    values.forEach((value) => {
+      const valueType = valueKind(value);
+      counts.set(valueType, (counts.get(valueType) || 0) + 1);
+    });
+    kind = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+  }
+
+  return {
+    name: column,
+    kind,
+    distinct,
+    filled: values.length,
+    cardinality: cardinality(distinct, values.length),
+  };
+}
+
+/* ----------   REPORT TYPE DETECTION   ---------- */
+// Shared by report generation and file inspection, which suggests column
+// roles for the type a sheet is likely to be generated as. Each registered
+// generator weighs its own signals against the column names, value kinds
+// and cardinality; cell text plays no part.
+export class ReportTypeDetector {
+  static detectReportType(
+    data: Record<string, unknown>[],
+    columns: string[]
+  ): string {
+    return this.bestType(this.scoreReportTypes(data, columns));
+  }
+
+  // Every detectable type's score and evidence, best match first; ties keep
+  // registry order.
+  static scoreReportTypes(
+    data: Record<string, unknown>[],
+    columns: string[]
+  ): DetectionScore[] {
+    const sample = this.buildSample(data, columns);
+
+    return REPORT_GENERATORS.flatMap((generator) =>
+      generator.detect
+        ? [{ type: generator.id, ...generator.detect(sample) }]
+        : []
+    ).sort((a, b) => b.score - a.score);
+  }
+
+  /** The top-ranked type if it clears the threshold, else "general". */
+  static bestType(scores: DetectionScore[]): string {
+    const [best] = scores;
+    return best && best.score >= DETECTION_THRESHOLD ? best.type : "general";
+  }
+
+  private static buildSample(
+    data: Record<string, unknown>[],
+    columns: string[]
+  ): DetectionSample {
+    const rows = data.slice(0, SAMPLE_ROWS);
+    const dateColumns = new Set(
+      detectDateColumns(rows, SAMPLE_ROWS).map((info) => info.column)
+    );
+    return {
+      columns: columns.map((column) => sampleColumn(rows, column, dateColumns)),
+    };
+  }
+}
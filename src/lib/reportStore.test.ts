@@ -0,0 +1,94 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { DynamicReport } from "@/lib/reportTypes";
+import { getReportRepository } from "@/lib/reportStore";
+
+const directory = mkdtempSync(path.join(os.tmpdir(), "reports-"));
+process.env.REPORTS_DIR = directory;
+process.env.REPORTS_LIMIT = "3";
+afterAll(() => rmSync(directory, { recursive: true, force: true }));
+
+function report(id: string): DynamicReport {
+  return {
+    id,
+    fileName: "sales.csv",
+    generatedAt: new Date().toISOString(),
+    reportType: "sales",
+    data: {},
+    summary: {},
+    dataInfo: { rowsAnalyzed: 1, columnsAnalyzed: 1 },
+  };
+}
+
+const pivot = (name: string) => ({
+  name,
+  createdAt: new Date().toISOString(),
+  table: {
+    spec: { rows: [], columns: [], measures: [], filters: [] },
+    columnKeys: [],
+    rows: [],
+    grandTotal: { values: [], totals: [] },
+    sourceRows: 0,
+  },
+});
+
+describe("report repository update", () => {
+  it("keeps every concurrent update", async () => {
+    const repository = getReportRepository();
+    const id = "00000000-0000-4000-8000-000000000001";
+    await repository.save(report(id));
+    await Promise.all(
+      ["First", "Second"].map((name) =>
+        repository.update(id, (current) => ({
+          ...current,
+          pivots: [...(current.pivots || []), pivot(name)],
+        }))
+      )
+    );
+    const stored = await repository.get(id);
+    expect(stored?.pivots?.map((item) => item.name)).toEqual([
+      "First",
+      "Second",
+    ]);
+  });
+
+  it("does not bring back a report deleted before the update", async () => {
+    const repository = getReportRepository();
+    const id = "00000000-0000-4000-8000-000000000002";
+    await repository.save(report(id));
+    const [, updated] = await Promise.all([
+      repository.delete(id),
+      repository.update(id, (current) => ({ ...current, pivots: [] })),
+    ]);
+    expect(updated).toBeNull();
+    expect(await repository.get(id)).toBeNull();
+    expect(await repository.count()).toBe(1);
+  });
+});
+
+describe("report repository retention", () => {
+  it("prunes the oldest reports and their datasets past the limit", async () => {
+    const repository = getReportRepository();
+    const ids = [3, 4, 5, 6].map(
+      (n) => `00000000-0000-4000-8000-00000000001${n}`
+    );
+    for (const id of ids) {
+      await repository.save(report(id), {
+        columns: [{ name: "Sales", type: "numeric" }],
+        rows: [{ Sales: 1 }],
+      });
+    }
+    const kept = await repository.list();
+    expect(kept.map((summary) => summary.id)).toEqual(ids.slice(1).reverse());
+    expect(await repository.get(ids[0])).toBeNull();
+    expect(existsSync(path.join(directory, `${ids[0]}.rows.json`))).toBe(false);
+    // Datasets are written without indentation
+    const stored = readFileSync(
+      path.join(directory, `${ids[3]}.rows.json`),
+      "utf8"
+    );
+    expect(stored).not.toContain("\n");
+  });
+});
@@ -0,0 +1,214 @@
+import path from "path";
+import { readJsonFile, removeFile, writeJsonFile } from "@/lib/jsonFile";
+import { DynamicReport, ReportSummary } from "@/lib/reportTypes";
+import type { ReportDataset } from "@/lib/dataPreview";
+
+/* ----------   TYPES   ---------- */
+export interface ReportFilter {
+  // Case-insensitive match on file name, sheet name or report type
+  search?: string;
+  type?: string;
+  limit?: number;
+}
+
+export interface ReportRepository {
+  list(filter?: ReportFilter): Promise<ReportSummary[]>;
+  count(): Promise<number>;
+  get(id: string): Promise<DynamicReport | null>;
+  // The rows behind a report; null for reports saved without them
+  getDataset(id: string): Promise<ReportDataset | null>;
+  save(report: DynamicReport, dataset?: ReportDataset): Promise<void>;
+  // Reads, changes and writes a report as one step, so concurrent updates
+  // and deletes cannot undo each other; null when the report is gone
+  update(
+    id: string,
+    change: (report: DynamicReport) => DynamicReport
+  ): Promise<DynamicReport | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+const DEFAULT_REPORTS_DIR = path.join(process.cwd(), "data", "reports");
+const INDEX_FILE = "index.json";
+// Reports kept when REPORTS_LIMIT is unset; older ones are pruned on save
+const DEFAULT_REPORTS_LIMIT = 200;
+// Report ids are uuids; anything else never reaches the file system
+const REPORT_ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/* ----------   HELPERS   ---------- */
+export function isReportId(id: string): boolean {
+  return REPORT_ID_PATTERN.test(id);
+}
+
+export function summarizeReport(report: DynamicReport): ReportSummary {
+  return {
+    id: report.id,
+    fileName: report.fileName,
+    ...(report.sheetName ? { sheetName: report.sheetName } : {}),
+    reportType: report.reportType,
+    generatedAt: report.generatedAt,
+    rowsAnalyzed: report.dataInfo.rowsAnalyzed,
+    columnsAnalyzed: report.dataInfo.columnsAnalyzed,
+  };
+}
+
+function parseLimit(value: string | undefined): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0
+    ? parsed
+    : DEFAULT_REPORTS_LIMIT;
+}
+
+function matchesFilter(summary: ReportSummary, filter: ReportFilter): boolean {
+  if (
+    filter.type &&
+    filter.type !== "all" &&
+    summary.reportType !== filter.type
+  ) {
+    return false;
+  }
+  const search = filter.search?.trim().toLowerCase();
+  if (!search) return true;
+  return [summary.fileName, summary.sheetName || "", summary.reportType].some(
+    (text) => text.toLowerCase().includes(search)
+  );
+}
+
+/* ----------   JSON FILE REPOSITORY   ---------- */
+// One JSON file per report plus an index of summaries, newest first, so
+// listing never has to read whole reports. Index writes are queued so
+// concurrent requests cannot interleave. Only the newest `limit` reports
+// are kept.
+class JsonFileReportRepository implements ReportRepository {
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly directory: string,
+    private readonly limit: number
+  ) {}
+
+  async list(filter: ReportFilter = {}): Promise<ReportSummary[]> {
+    const summaries = (await this.readIndex()).filter((summary) =>
+      matchesFilter(summary, filter)
+    );
+    return filter.limit ? summaries.slice(0, filter.limit) : summaries;
+  }
+
+  async count(): Promise<number> {
+    return (await this.readIndex()).length;
+  }
+
+  get(id: string): Promise<DynamicReport | null> {
+    if (!isReportId(id)) return Promise.resolve(null);
+    return readJsonFile<DynamicReport | null>(this.reportPath(id), null);
+  }
+
+  getDataset(id: string): Promise<ReportDataset | null> {
+    if (!isReportId(id)) return Promise.resolve(null);
+    return readJsonFile<ReportDataset | null>(this.datasetPath(id), null);
+  }
+
+  save(report: DynamicReport, dataset?: ReportDataset): Promise<void> {
+    if (!isReportId(report.id)) {
+      return Promise.reject(new Error(`Invalid report id: ${report.id}`));
+    }
+    return this.mutateIndex(async (index) => {
+      if (dataset) {
+        await writeJsonFile(this.datasetPath(report.id), dataset, {
+          compact: true,
+        });
+      }
+      await writeJsonFile(this.reportPath(report.id), report);
+      const next = [
+        summarizeReport(report),
+        ...index.filter((summary) => summary.id !== report.id),
+      ];
+      for (const { id } of next.slice(this.limit)) await this.removeFiles(id);
+      return { index: next.slice(0, this.limit), result: undefined };
+    });
+  }
+
+  update(
+    id: string,
+    change: (report: DynamicReport) => DynamicReport
+  ): Promise<DynamicReport | null> {
+    if (!isReportId(id)) return Promise.resolve(null);
+    return this.mutateIndex(async (index) => {
+      const report = await this.get(id);
+      if (!report) return { index, result: null };
+      const updated = change(report);
+      await writeJsonFile(this.reportPath(id), updated);
+      return {
+        index: index.map((summary) =>
+          summary.id === id ? summarizeReport(updated) : summary
+        ),
+        result: updated,
+      };
+    });
+  }
+
+  delete(id: string): Promise<boolean> {
+    if (!isReportId(id)) return Promise.resolve(false);
+    return this.mutateIndex(async (index) => {
+      const removed = await this.removeFiles(id);
+      const remaining = index.filter((summary) => summary.id !== id);
+      return {
+        index: remaining,
+        result: removed || remaining.length !== index.length,
+      };
+    });
+  }
+
+  // Removes a report and its dataset, returning false when it was gone
+  private async removeFiles(id: string): Promise<boolean> {
+    const removed = await removeFile(this.reportPath(id));
+    await removeFile(this.datasetPath(id));
+    return removed;
+  }
+
+  private reportPath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private datasetPath(id: string): string {
+    return path.join(this.directory, `${id}.rows.json`);
+  }
+
+  private readIndex(): Promise<ReportSummary[]> {
+    return readJsonFile<ReportSummary[]>(
+      path.join(this.directory, INDEX_FILE),
+      []
+    );
+  }
+
+  private mutateIndex<T>(
+    change: (
+      index: ReportSummary[]
+    ) => Promise<{ index: ReportSummary[]; result: T }>
+  ): Promise<T> {
+    const run = this.writeQueue.then(async () => {
+      const { index, result } = await change(await this.readIndex());
+      await writeJsonFile(path.join(this.directory, INDEX_FILE), index);
+      return result;
+    });
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+/* ----------   PUBLIC API   ---------- */
+let repository: ReportRepository | null = null;
+
+/**
+ * The report history, stored under REPORTS_DIR or ./data/reports and
+ * limited to the newest REPORTS_LIMIT reports (default 200).
+ */
+export function getReportRepository(): ReportRepository {
+  if (!repository) {
+    repository = new JsonFileReportRepository(
+      process.env.REPORTS_DIR || DEFAULT_REPORTS_DIR,
+      parseLimit(process.env.REPORTS_LIMIT)
+    );
+  }
+  return repository;
+}
@@ -0,0 +1,261 @@
+import type { ChartSpec } from "@/lib/reportCharts";
+import type { ColumnMapping, ColumnRole } from "@/lib/columnRoles";
+import type { ReportValue } from "@/lib/reportValues";
+import type { QualityRule } from "@/lib/qualityRules";
+import type { InsightRule } from "@/lib/insightRules";
+import type { SavedPivot } from "@/lib/pivot";
+
+/* ----------   SHARED REPORT TYPES   ---------- */
+// Shared by the API routes and the LandingPage UI so both sides agree on
+// the shape of a generated report.
+
+export interface DetectionScore {
+  type: string;
+  score: number;
+  // Why the type scored: signals matched and the columns that matched them
+  evidence: string[];
+}
+
+export interface ReportDetection {
+  requestedType: string;
+  detectedType: string;
+  // Every detectable type, best match first
+  scores: DetectionScore[];
+  // Score the best match needs to be used; below it the sheet is general
+  threshold: number;
+}
+
+export interface SkippedRow {
+  // 1-based row number in the source sheet
+  row: number;
+  reason: "title" | "total" | "note";
+  text: string;
+}
+
+// Where the table was found inside the sheet and what was left out of it
+export interface TableLayout {
+  dataRange: string;
+  headerRows: number[];
+  blankRows: number;
+  skippedRows: SkippedRow[];
+  emptyColumns: string[];
+  mergedCells: number;
+}
+
+// Saved settings applied to uploads whose headers match `fingerprint`
+export interface ReportProfile {
+  id: string;
+  name: string;
+  fingerprint: string;
+  headers: string[];
+  // "auto" leaves the report type to detection
+  reportType: string;
+  columnMapping: ColumnMapping;
+  sheets: string[];
+  excludedColumns: string[];
+  // Missing from profiles saved before validation rules existed
+  qualityRules?: QualityRule[];
+  // Checked alongside the built-in recommendation rules
+  insightRules?: InsightRule[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AppliedProfile {
+  id: string;
+  name: string;
+}
+
+// A file or sheet merged into a consolidated report
+export interface ReportSource {
+  fileName: string;
+  sheetName?: string;
+  // Data rows in the source
+  rows: number;
+  // How many of them reached the row-level sections, when not all did
+  sampledRows?: number;
+}
+
+// Milliseconds spent on a report, by pipeline stage
+export interface ProcessingTime {
+  total: number;
+  // Reading the file and locating its tables; shared by a workbook's sheets
+  parse: number;
+  // Report type detection and column role assignment
+  detect: number;
+  generate: number;
+  // Confidence, data quality and suggestions
+  assess: number;
+}
+
+export interface ReportMetadata {
+  confidence: number;
+  // Plain milliseconds in reports stored before stages were timed
+  processingTime: ProcessingTime | number;
+  // Grade of the data-quality rule results
+  dataQuality: string;
+  // Weighted pass rate of the rules, 0 to 1
+  qualityScore?: number;
+  suggestions: string[];
+  detection?: ReportDetection;
+  layout?: TableLayout;
+  // Column name to the role it played in the report
+  columnRoles?: Record<string, ColumnRole>;
+  profile?: AppliedProfile;
+  // Set on consolidated reports, one entry per merged file or sheet
+  sources?: ReportSource[];
+}
+
+export interface DynamicReport {
+  id: string;
+  fileName: string;
+  sheetName?: string;
+  generatedAt: string;
+  reportType: string;
+  data: Record<string, unknown>;
+  charts?: ChartSpec[];
+  summary: Record<string, unknown>;
+  dataInfo: {
+    // Every data row of the source, which the totals and column stats cover
+    rowsAnalyzed: number;
+    columnsAnalyzed: number;
+    // Rows behind the row-level sections, set when the source holds more
+    // than MAX_SAMPLE_ROWS, with the keys of those sections
+    sampleRows?: number;
+    sampledSections?: string[];
+  };
+  metadata?: ReportMetadata;
+  // Pivot tables saved from the builder, exported as workbook sheets
+  pivots?: SavedPivot[];
+}
+
+// What the report history lists; the full report is fetched by id
+export interface ReportSummary {
+  id: string;
+  fileName: string;
+  sheetName?: string;
+  reportType: string;
+  generatedAt: string;
+  rowsAnalyzed: number;
+  columnsAnalyzed: number;
+}
+
+// How a multi-file upload is processed: one report per sheet, those
+// reports plus a period-over-period comparison, or one report on the
+// union of every sheet
+export type ProcessingMode = "separate" | "compare" | "consolidate";
+
+// One compared file or sheet, in period order
+export interface ComparisonPeriod {
+  reportId: string;
+  label: string;
+  fileName: string;
+  sheetName?: string;
+  rowsAnalyzed: number;
+  // Date range of the rows, when the report found a date column
+  range?: { start: string; end: string };
+}
+
+// A metric across periods; changes are against the previous period, so the
+// first entry of `changes` and `percentChanges` is always null
+export interface MetricComparison {
+  key: string;
+  group: string;
+  name: string;
+  values: (ReportValue | null)[];
+  changes: (ReportValue | null)[];
+  percentChanges: (ReportValue | null)[];
+}
+
+export interface EntityChange {
+  from: string;
+  to: string;
+  // Capped lists; the counts are exact
+  added: string[];
+  removed: string[];
+  addedCount: number;
+  removedCount: number;
+}
+
+// Distinct products or customers per period and how the set changed
+export interface EntityComparison {
+  role: ColumnRole;
+  column: string;
+  counts: number[];
+  changes: EntityChange[];
+}
+
+export interface SchemaDrift {
+  from: string;
+  to: string;
+  addedColumns: string[];
+  removedColumns: string[];
+}
+
+export interface ComparisonReport {
+  id: string;
+  generatedAt: string;
+  reportType: string;
+  periods: ComparisonPeriod[];
+  metrics: MetricComparison[];
+  // Per-column basicStats, grouped by column
+  columnStats: MetricComparison[];
+  entities: EntityComparison[];
+  schemaDrift: SchemaDrift[];
+  // Reports left out because their schema or type did not match
+  excluded: { label: string; reason: string }[];
+}
+
+export interface GenerateReportResponse {
+  success: boolean;
+  message?: string;
+  error?: string;
+  reports?: DynamicReport[];
+  comparison?: ComparisonReport;
+  metadata?: {
+    totalFiles: number;
+    successfulReports: number;
+    failedReports: number;
+    totalProcessingTime: number;
+    timestamp: string;
+  };
+}
+
+/* ----------   JOBS   ---------- */
+export type JobStatus =
+  | "queued"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export type FileJobStatus =
+  | "queued"
+  | "parsing"
+  | "analyzing"
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export interface FileProgress {
+  fileName: string;
+  status: FileJobStatus;
+  // 0 to 1; sheets analyzed so far count towards it
+  progress: number;
+  sheetsTotal?: number;
+  sheetsDone?: number;
+  error?: string;
+}
+
+export interface ReportJob {
+  id: string;
+  status: JobStatus;
+  mode: ProcessingMode;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  files: FileProgress[];
+  // Set once the job finishes; a cancelled job keeps the reports it completed
+  result?: GenerateReportResponse;
+  error?: string;
+}
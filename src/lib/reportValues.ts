@@ -0,0 +1,95 @@
+/* ----------   TYPES   ---------- */
+export type ValueUnit = "currency" | "percent" | "count" | "number";
+
+// A metric as a raw number plus how to display it. Percentages are stored
+// as ratios (0.123 for 12.3%). Currency amounts only carry an ISO code when
+// the source data states one; otherwise the viewer's currency applies.
+export interface ReportValue {
+  value: number;
+  unit: ValueUnit;
+  currency?: string;
+}
+
+export interface ValueFormatOptions {
+  locale?: string;
+  currency?: string;
+}
+
+export const DEFAULT_CURRENCY = "USD";
+
+/* ----------   CONSTRUCTORS   ---------- */
+export function currencyValue(value: number, currency?: string): ReportValue {
+  return currency
+    ? { value, unit: "currency", currency }
+    : { value, unit: "currency" };
+}
+
+export function percentValue(ratio: number): ReportValue {
+  return { value: ratio, unit: "percent" };
+}
+
+export function countValue(value: number): ReportValue {
+  return { value, unit: "count" };
+}
+
+export function numberValue(value: number): ReportValue {
+  return { value, unit: "number" };
+}
+
+export function isReportValue(value: unknown): value is ReportValue {
+  if (typeof value !== "object" || value === null) return false;
+  const candidate = value as Partial<ReportValue>;
+  return (
+    typeof candidate.value === "number" &&
+    (candidate.unit === "currency" ||
+      candidate.unit === "percent" ||
+      candidate.unit === "count" ||
+      candidate.unit === "number")
+  );
+}
+
+// Intl accepts any well-formed ISO 4217 code, known or not
+export function isCurrencyCode(code: string): boolean {
+  return /^[A-Z]{3}$/.test(code);
+}
+
+/* ----------   FORMATTING   ---------- */
+export function formatReportValue(
+  value: ReportValue,
+  options: ValueFormatOptions = {}
+): string {
+  const { locale, currency = DEFAULT_CURRENCY } = options;
+
+  switch (value.unit) {
+    case "currency":
+      return new Intl.NumberFormat(locale, {
+        style: "currency",
+        currency: value.currency || currency,
+      }).format(value.value);
+    case "percent":
+      return new Intl.NumberFormat(locale, {
+        style: "percent",
+        minimumFractionDigits: 1,
+        maximumFractionDigits: 2,
+      }).format(value.value);
+    case "count":
+      return new Intl.NumberFormat(locale, {
+        maximumFractionDigits: 0,
+      }).format(value.value);
+    default:
+      return new Intl.NumberFormat(locale, {
+        maximumFractionDigits: 2,
+      }).format(value.value);
+  }
+}
+
+/** The symbol a locale uses for a currency, e.g. "€" for EUR in en-US. */
+export function currencySymbol(currency: string, locale?: string): string {
+  const part = new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency,
+  })
+    .formatToParts(0)
+    .find((item) => item.type === "currency");
+  return part?.value || currency;
+}
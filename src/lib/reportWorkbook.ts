@@ -0,0 +1,741 @@
+// Exports are written with ExcelJS because the community build of SheetJS
+// (the `xlsx` package) cannot style cells: no header fills, fonts, number
+// formats or conditional formatting. Uploads are still read with SheetJS:
+// ExcelJS reads only .xlsx, not the .xls and .ods files users upload.
+import ExcelJS from "exceljs";
+import { DynamicReport } from "@/lib/reportTypes";
+import type { TimeSeriesSection } from "@/lib/timeSeries";
+import type { ColumnProfile } from "@/lib/columnProfile";
+import type { QualityAssessment } from "@/lib/qualityRules";
+import { flattenPivot, SavedPivot } from "@/lib/pivot";
+import type { BudgetVarianceSection } from "@/lib/budgetVariance";
+import {
+  currencySymbol,
+  DEFAULT_CURRENCY,
+  isReportValue,
+  ReportValue,
+} from "@/lib/reportValues";
+
+/* ----------   TYPES   ---------- */
+type CellFormat = "currency" | "percent" | "integer" | "decimal" | "text";
+
+interface FormattedCell {
+  value: ExcelJS.CellValue;
+  format: CellFormat;
+  // ISO code for currency cells
+  currency?: string;
+}
+
+// Currency formats are built per code by currencyNumberFormat
+const NUMBER_FORMATS: Record<CellFormat, string | undefined> = {
+  currency: undefined,
+  percent: "0.00%",
+  integer: "#,##0",
+  decimal: "#,##0.00",
+  text: undefined,
+};
+
+const HEADER_FILL: ExcelJS.Fill = {
+  type: "pattern",
+  pattern: "solid",
+  fgColor: { argb: "FF1D4ED8" },
+};
+
+export const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+const MIN_COLUMN_WIDTH = 10;
+const MAX_COLUMN_WIDTH = 60;
+const PROCESSING_STAGES = ["parse", "detect", "generate", "assess"] as const;
+
+/* ----------   VALUE CONVERSION   ---------- */
+const CURRENCY_PATTERN = /^(-)?\$(-)?([\d,]+(?:\.\d+)?)$/;
+const PERCENT_PATTERN = /^(-?[\d,]+(?:\.\d+)?)%$/;
+const GROUPED_NUMBER_PATTERN = /^-?\d{1,3}(?:,\d{3})+(?:\.\d+)?$/;
+
+// Excel applies its own digit grouping, so only the symbol and the
+// currency's usual decimal places come from Intl
+function currencyNumberFormat(currency: string): string {
+  const symbol = currencySymbol(currency, "en-US").replace(/"/g, "");
+  const decimals =
+    new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+    }).resolvedOptions().maximumFractionDigits ?? 2;
+  const digits = decimals > 0 ? `#,##0.${"0".repeat(decimals)}` : "#,##0";
+  return `"${symbol}"${digits};[Red]-"${symbol}"${digits}`;
+}
+
+const VALUE_CELL_FORMATS: Record<ReportValue["unit"], CellFormat> = {
+  currency: "currency",
+  percent: "percent",
+  count: "integer",
+  number: "decimal",
+};
+
+// Typed report values map straight onto number formats. Free-text fields may
+// still carry strings such as "$1,234" or "12.30%"; those are turned back
+// into numbers so Excel can sort and sum them.
+function toCell(value: unknown): FormattedCell {
+  if (value === null || value === undefined)
+    return { value: "", format: "text" };
+
+  if (isReportValue(value)) {
+    return {
+      value: value.value,
+      format: VALUE_CELL_FORMATS[value.unit],
+      ...(value.currency ? { currency: value.currency } : {}),
+    };
+  }
+
+  if (typeof value === "number") {
+    return {
+      value,
+      format: Number.isInteger(value) ? "integer" : "decimal",
+    };
+  }
+
+  if (typeof value === "boolean") return { value, format: "text" };
+
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+
+    const currency = trimmed.match(CURRENCY_PATTERN);
+    if (currency) {
+      const amount = parseFloat(currency[3].replace(/,/g, ""));
+      const negative = Boolean(currency[1] || currency[2]);
+      return {
+        value: negative ? -amount : amount,
+        format: "currency",
+        currency: "USD",
+      };
+    }
+
+    const percent = trimmed.match(PERCENT_PATTERN);
+    if (percent) {
+      return {
+        value: parseFloat(percent[1].replace(/,/g, "")) / 100,
+        format: "percent",
+      };
+    }
+
+    if (GROUPED_NUMBER_PATTERN.test(trimmed)) {
+      const parsed = parseFloat(trimmed.replace(/,/g, ""));
+      return {
+        value: parsed,
+        format: Number.isInteger(parsed) ? "integer" : "decimal",
+      };
+    }
+
+    return { value, format: "text" };
+  }
+
+  if (Array.isArray(value)) {
+    return {
+      value: value
+        .map((item) =>
+          typeof item === "object" && item !== null
+            ? JSON.stringify(item)
+            : String(item)
+        )
+        .join(", "),
+      format: "text",
+    };
+  }
+
+  return { value: JSON.stringify(value), format: "text" };
+}
+
+function humanize(key: string): string {
+  return key
+    .split(".")
+    .map((part) =>
+      part
+        .replace(/([A-Z])/g, " $1")
+        .replace(/[_-]+/g, " ")
+        .trim()
+        .replace(/^./, (str) => str.toUpperCase())
+    )
+    .join(" - ");
+}
+
+// Report values are leaves, not nested records
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !isReportValue(value)
+  );
+}
+
+// Gives currency values without an explicit code the export's currency
+function withCurrency(value: unknown, currency: string): unknown {
+  if (isReportValue(value)) {
+    return value.unit === "currency" && !value.currency
+      ? { ...value, currency }
+      : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => withCurrency(item, currency));
+  }
+  if (isPlainObject(value)) {
+    const result: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, item]) => {
+      result[key] = withCurrency(item, currency);
+    });
+    return result;
+  }
+  return value;
+}
+
+// Flattens nested objects into dotted keys so a record of records can be
+// laid out as a single table row.
+function flattenRecord(
+  record: Record<string, unknown>,
+  prefix = ""
+): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+  Object.entries(record).forEach(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value)) {
+      Object.assign(flat, flattenRecord(value, path));
+    } else {
+      flat[path] = value;
+    }
+  });
+  return flat;
+}
+
+/* ----------   SHEET HELPERS   ---------- */
+function sheetName(workbook: ExcelJS.Workbook, title: string): string {
+  // Excel limits sheet names to 31 characters and forbids []:*?/\
+  const base = title
+    .replace(/[[\]:*?/\\]/g, " ")
+    .slice(0, 31)
+    .trim();
+  let candidate = base || "Sheet";
+  let suffix = 2;
+  while (workbook.getWorksheet(candidate)) {
+    const tail = ` (${suffix++})`;
+    candidate = `${base.slice(0, 31 - tail.length)}${tail}`;
+  }
+  return candidate;
+}
+
+function writeTable(
+  workbook: ExcelJS.Workbook,
+  name: string,
+  headers: string[],
+  rows: unknown[][],
+  formats: (CellFormat | undefined)[] = [],
+  // False for names that are already titles, such as user-named pivots
+  humanizeName = true
+): ExcelJS.Worksheet {
+  const title = humanizeName ? humanize(name) : name;
+  const worksheet = workbook.addWorksheet(sheetName(workbook, title), {
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+
+  const headerRow = worksheet.addRow(headers);
+  headerRow.font = { bold: true, color: { argb: "FFFFFFFF" } };
+  headerRow.fill = HEADER_FILL;
+  headerRow.alignment = { vertical: "middle" };
+  headerRow.eachCell((cell) => {
+    cell.border = { bottom: { style: "thin", color: { argb: "FF1E3A8A" } } };
+  });
+
+  const widths = headers.map((header) => header.length);
+
+  rows.forEach((values) => {
+    const cells = values.map((value, index) => {
+      const cell = toCell(value);
+      const format = formats[index];
+      return format && typeof cell.value === "number"
+        ? { ...cell, format }
+        : cell;
+    });
+    const row = worksheet.addRow(cells.map((cell) => cell.value));
+    cells.forEach((cell, index) => {
+      const numFmt =
+        cell.format === "currency"
+          ? currencyNumberFormat(cell.currency || DEFAULT_CURRENCY)
+          : NUMBER_FORMATS[cell.format];
+      const target = row.getCell(index + 1);
+      if (numFmt) target.numFmt = numFmt;
+      if (cell.format === "text") target.alignment = { wrapText: true };
+      widths[index] = Math.max(widths[index] ?? 0, String(cell.value).length);
+    });
+  });
+
+  (worksheet.columns || []).forEach((column, index) => {
+    column.width = Math.min(
+      Math.max((widths[index] ?? 0) + 2, MIN_COLUMN_WIDTH),
+      MAX_COLUMN_WIDTH
+    );
+  });
+
+  return worksheet;
+}
+
+/* ----------   SHEET BUILDERS   ---------- */
+function addSummarySheet(
+  workbook: ExcelJS.Workbook,
+  report: DynamicReport,
+  textSections: [string, string][]
+): void {
+  const rows: unknown[][] = [
+    ["File", report.fileName],
+    ...(report.sheetName ? [["Sheet", report.sheetName]] : []),
+    ["Report Type", report.reportType],
+    ["Generated At", new Date(report.generatedAt).toLocaleString()],
+    ["Rows Analyzed", report.dataInfo.rowsAnalyzed],
+    // Sections built row by row only saw the sampled rows
+    ...(report.dataInfo.sampleRows
+      ? [
+          ["Rows Sampled", report.dataInfo.sampleRows],
+          [
+            "Sampled Sections",
+            (report.dataInfo.sampledSections || []).map(humanize).join(", "),
+          ],
+        ]
+      : []),
+    ["Columns Analyzed", report.dataInfo.columnsAnalyzed],
+  ];
+
+  Object.entries(report.summary).forEach(([key, value]) => {
+    if (key === "reportType") return;
+    rows.push([humanize(key), value]);
+  });
+
+  textSections.forEach(([key, text]) => rows.push([humanize(key), text]));
+
+  if (report.metadata) {
+    const {
+      confidence,
+      processingTime,
+      dataQuality,
+      qualityScore,
+      suggestions,
+    } = report.metadata;
+    if (confidence !== undefined) {
+      rows.push(["Confidence", `${(confidence * 100).toFixed(1)}%`]);
+    }
+    if (typeof processingTime === "number") {
+      rows.push(["Processing Time (ms)", processingTime]);
+    } else if (processingTime) {
+      rows.push(["Processing Time (ms)", processingTime.total]);
+      PROCESSING_STAGES.forEach((stage) =>
+        rows.push([`${humanize(stage)} (ms)`, processingTime[stage]])
+      );
+    }
+    if (dataQuality) rows.push(["Data Quality", dataQuality]);
+    if (qualityScore !== undefined) {
+      rows.push(["Quality Score", `${(qualityScore * 100).toFixed(1)}%`]);
+    }
+    suggestions?.forEach((suggestion, index) => {
+      rows.push([index === 0 ? "Suggestions" : "", suggestion]);
+    });
+
+    const { layout } = report.metadata;
+    if (layout) {
+      rows.push(["Data Range", layout.dataRange]);
+      rows.push(["Header Rows", layout.headerRows.join(", ")]);
+      layout.skippedRows.forEach((skipped, index) => {
+        rows.push([
+          index === 0 ? "Skipped Rows" : "",
+          `Row ${skipped.row} (${skipped.reason}): ${skipped.text}`,
+        ]);
+      });
+      if (layout.emptyColumns.length > 0) {
+        rows.push(["Empty Columns", layout.emptyColumns.join(", ")]);
+      }
+    }
+  }
+
+  const worksheet = writeTable(workbook, "Summary", ["Field", "Value"], rows);
+  worksheet.getColumn(1).font = { bold: true };
+  worksheet.getRow(1).font = { bold: true, color: { argb: "FFFFFFFF" } };
+}
+
+function addBasicStatsSheet(
+  workbook: ExcelJS.Workbook,
+  stats: Record<string, unknown>
+): void {
+  const rows = Object.entries(stats)
+    .filter(([, value]) => isPlainObject(value))
+    .map(([column, value]) => {
+      const stat = value as Record<string, unknown>;
+      return [
+        column,
+        stat.sum,
+        stat.average,
+        stat.min,
+        stat.max,
+        stat.count,
+        stat.distinct,
+      ];
+    });
+
+  writeTable(
+    workbook,
+    "basicStats",
+    ["Column", "Sum", "Average", "Min", "Max", "Count", "Distinct"],
+    rows
+  );
+}
+
+// One row per column, with the statistics that apply to its type
+function addColumnProfileSheet(
+  workbook: ExcelJS.Workbook,
+  profile: ColumnProfile[]
+): void {
+  const headers = [
+    "Column",
+    "Type",
+    "Type Confidence",
+    "Null Rate",
+    "Distinct",
+    "Min",
+    "Q1",
+    "Median",
+    "Q3",
+    "Max",
+    "Mean",
+    "Std Dev",
+    "IQR Outliers",
+    "Z-score Outliers",
+    "Top Values",
+    "Avg Length",
+    "First Date",
+    "Last Date",
+    "Gaps",
+  ];
+  const formats: (CellFormat | undefined)[] = [
+    undefined,
+    undefined,
+    "percent",
+    "percent",
+    "integer",
+    ...Array(7).fill("decimal"),
+    "integer",
+    "integer",
+    undefined,
+    "decimal",
+  ];
+  const rows = profile.map((column) => {
+    const { numeric, text, date } = column;
+    return [
+      column.column,
+      column.type,
+      column.typeConfidence,
+      column.nullRate,
+      column.distinct,
+      numeric?.min,
+      numeric?.q1,
+      numeric?.median,
+      numeric?.q3,
+      numeric?.max,
+      numeric?.mean,
+      numeric?.stdDev,
+      numeric?.outliers.iqr.count,
+      numeric?.outliers.zScore.count,
+      text?.topValues.map((item) => `${item.value} (${item.count})`).join(", "),
+      text?.length.average,
+      date?.min,
+      date?.max,
+      date?.gaps.map((gap) => `${gap.from} – ${gap.to}`).join(", "),
+    ];
+  });
+
+  writeTable(workbook, "columnProfile", headers, rows, formats);
+}
+
+// Every violation on an "Issues" sheet, and how each rule fared beside it
+function addQualitySheets(
+  workbook: ExcelJS.Workbook,
+  quality: QualityAssessment
+): void {
+  writeTable(
+    workbook,
+    "issues",
+    ["Sheet", "Row", "Column", "Rule", "Value", "Message"],
+    quality.issues.map((issue) => [
+      issue.sheet,
+      issue.sourceRow ?? issue.row,
+      issue.column,
+      issue.rule,
+      issue.value,
+      issue.message,
+    ]),
+    [undefined, "integer"]
+  );
+  writeTable(
+    workbook,
+    "qualityRules",
+    ["Rule", "Type", "Weight", "Checked", "Violations", "Pass Rate"],
+    quality.rules.map((rule) => [
+      rule.rule,
+      rule.type,
+      rule.weight,
+      rule.checked,
+      rule.violations,
+      rule.passRate,
+    ]),
+    [undefined, undefined, "decimal", "integer", "integer", "percent"]
+  );
+}
+
+// Subtotal and grand total rows in bold, as in an Excel pivot table
+function addPivotSheet(workbook: ExcelJS.Workbook, pivot: SavedPivot): void {
+  const grid = flattenPivot(pivot.table);
+  const keyColumns = pivot.table.spec.rows.length;
+  const worksheet = writeTable(
+    workbook,
+    `Pivot - ${pivot.name}`,
+    grid.headers,
+    grid.rows.map((row) => row.cells),
+    grid.headers.map((_, index) =>
+      index < keyColumns ? undefined : "decimal"
+    ),
+    false
+  );
+  grid.rows.forEach((row, index) => {
+    if (row.kind !== "detail")
+      worksheet.getRow(index + 2).font = { bold: true };
+  });
+}
+
+// Status fills for the variance lines, applied by Excel so they follow edits
+const VARIANCE_STYLES: [string, string, string][] = [
+  ["Unfavorable", "FFFEE2E2", "FF991B1B"],
+  ["Favorable", "FFDCFCE7", "FF166534"],
+];
+
+// The summary and totals as a section, then every line with its status
+// highlighted through conditional formatting
+function addBudgetVarianceSheets(
+  workbook: ExcelJS.Workbook,
+  variance: BudgetVarianceSection
+): void {
+  const { lines, ...summary } = variance;
+  addSectionSheet(workbook, "budgetVariance", summary);
+  if (lines.length === 0) return;
+
+  const keys = (["account", "period", "measure"] as const).filter((key) =>
+    lines.some((line) => line[key] !== undefined)
+  );
+  const headers = [
+    ...keys.map(humanize),
+    "Kind",
+    "Actual",
+    "Budget",
+    "Variance",
+    "Variance %",
+    "Status",
+  ];
+  const worksheet = writeTable(
+    workbook,
+    "budgetVariance.lines",
+    headers,
+    lines.map((line) => [
+      ...keys.map((key) => line[key]),
+      line.kind,
+      line.actual,
+      line.budget,
+      line.variance,
+      line.variancePercent,
+      line.status,
+    ])
+  );
+
+  const lastColumn = worksheet.getColumn(headers.length).letter;
+  worksheet.addConditionalFormatting({
+    ref: `A2:${lastColumn}${lines.length + 1}`,
+    rules: VARIANCE_STYLES.map(([status, fill, font], index) => ({
+      type: "expression",
+      priority: index + 1,
+      formulae: [`$${lastColumn}2="${status}"`],
+      style: {
+        fill: { type: "pattern", pattern: "solid", bgColor: { argb: fill } },
+        font: { color: { argb: font } },
+      },
+    })),
+  });
+}
+
+function addSectionSheet(
+  workbook: ExcelJS.Workbook,
+  key: string,
+  content: unknown
+): void {
+  if (Array.isArray(content)) {
+    if (content.every(isPlainObject)) {
+      const records = content.map((item) => flattenRecord(item));
+      const headers = Array.from(
+        new Set(records.flatMap((record) => Object.keys(record)))
+      );
+      writeTable(
+        workbook,
+        key,
+        headers.map(humanize),
+        records.map((record) => headers.map((header) => record[header]))
+      );
+      return;
+    }
+
+    writeTable(
+      workbook,
+      key,
+      ["#", humanize(key)],
+      content.map((item, index) => [index + 1, item])
+    );
+    return;
+  }
+
+  if (!isPlainObject(content)) {
+    writeTable(workbook, key, [humanize(key)], [[content]]);
+    return;
+  }
+
+  // A record of records (e.g. columnAnalysis keyed by column name) becomes
+  // one row per entry; anything else is a two-column field/value listing.
+  const entries = Object.entries(content);
+  if (
+    entries.length > 0 &&
+    entries.every(([, value]) => isPlainObject(value))
+  ) {
+    const records = entries.map(([name, value]) => ({
+      name,
+      fields: flattenRecord(value as Record<string, unknown>),
+    }));
+    const headers = Array.from(
+      new Set(records.flatMap((record) => Object.keys(record.fields)))
+    );
+    writeTable(
+      workbook,
+      key,
+      ["Name", ...headers.map(humanize)],
+      records.map((record) => [
+        record.name,
+        ...headers.map((header) => record.fields[header]),
+      ])
+    );
+    return;
+  }
+
+  // Tables nested in a section, like a consolidated report's bySource
+  // breakdown, get a sheet of their own after the field/value listing
+  const isTable = (value: unknown) =>
+    Array.isArray(value) && value.length > 0 && value.every(isPlainObject);
+  const flat = flattenRecord(
+    Object.fromEntries(entries.filter(([, value]) => !isTable(value)))
+  );
+  writeTable(
+    workbook,
+    key,
+    ["Field", "Value"],
+    Object.entries(flat).map(([field, value]) => [humanize(field), value])
+  );
+  entries
+    .filter(([, value]) => isTable(value))
+    .forEach(([field, value]) =>
+      addSectionSheet(workbook, `${key}.${field}`, value)
+    );
+}
+
+function addTimeSeriesSheet(
+  workbook: ExcelJS.Workbook,
+  section: TimeSeriesSection
+): void {
+  const headers = ["Period", "Start"];
+  const formats: (CellFormat | undefined)[] = [undefined, undefined];
+  section.series.forEach((series) => {
+    headers.push(
+      humanize(series.name),
+      `${humanize(series.name)} Growth`,
+      `${humanize(series.name)} Rolling Avg (${section.rollingWindow})`
+    );
+    formats.push("decimal", "percent", "decimal");
+  });
+
+  // Every series shares the same period buckets
+  const rows = (section.series[0]?.points || []).map((point, index) => [
+    point.period,
+    point.start,
+    ...section.series.flatMap((series) => {
+      const current = series.points[index];
+      return [
+        current?.value,
+        current?.growth === null || current?.growth === undefined
+          ? null
+          : current.growth / 100,
+        current?.rollingAverage,
+      ];
+    }),
+  ]);
+
+  writeTable(workbook, "timeSeries", headers, rows, formats);
+}
+
+/* ----------   PUBLIC API   ---------- */
+export async function buildReportWorkbook(
+  report: DynamicReport,
+  currency: string = DEFAULT_CURRENCY
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = "Dynamic Report Generator";
+  workbook.created = new Date(report.generatedAt);
+
+  // Plain-text sections (trend notes, etc.) read better on the Summary sheet
+  // than as single-cell sheets; executiveSummary is already there as keyInsights.
+  const textSections = Object.entries(report.data).filter(
+    (entry): entry is [string, string] =>
+      typeof entry[1] === "string" && entry[0] !== "executiveSummary"
+  );
+  addSummarySheet(workbook, report, textSections);
+
+  Object.entries(report.data).forEach(([key, content]) => {
+    if (content === null || content === undefined) return;
+    if (typeof content === "string") return;
+    if (Array.isArray(content) && content.length === 0) return;
+    if (isPlainObject(content) && Object.keys(content).length === 0) return;
+    if (key === "basicStats" && isPlainObject(content)) {
+      addBasicStatsSheet(workbook, content);
+      return;
+    }
+    if (key === "columnProfile" && Array.isArray(content)) {
+      addColumnProfileSheet(workbook, content as ColumnProfile[]);
+      return;
+    }
+    if (key === "dataQualityIssues" && isPlainObject(content)) {
+      addQualitySheets(workbook, content as unknown as QualityAssessment);
+      return;
+    }
+    if (key === "timeSeries" && isPlainObject(content)) {
+      addTimeSeriesSheet(workbook, content as unknown as TimeSeriesSection);
+      return;
+    }
+    if (key === "budgetVariance" && isPlainObject(content)) {
+      addBudgetVarianceSheets(
+        workbook,
+        withCurrency(content, currency) as BudgetVarianceSection
+      );
+      return;
+    }
+    addSectionSheet(workbook, key, withCurrency(content, currency));
+  });
+  report.pivots?.forEach((pivot) => addPivotSheet(workbook, pivot));
+
+  const output = await workbook.xlsx.writeBuffer();
+  return Buffer.from(output);
+}
+
+export function workbookFileName(report: DynamicReport): string {
+  const source = report.sheetName
+    ? `${report.fileName}_${report.sheetName}`
+    : report.fileName;
+  return `${source.replace(/[^a-z0-9]/gi, "_")}_${
+    report.reportType
+  }_report.xlsx`;
+}
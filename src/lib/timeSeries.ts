@@ -0,0 +1,558 @@
+/* ----------   TYPES   ---------- */
+export type Granularity = "day" | "week" | "month" | "quarter";
+
+export interface TimeSeriesPoint {
+  period: string;
+  start: string;
+  value: number;
+  count: number;
+  growth: number | null;
+  rollingAverage: number | null;
+}
+
+export interface PeriodDelta {
+  current: string;
+  previous: string;
+  currentValue: number;
+  previousValue: number;
+  change: number;
+  changePercent: number | null;
+}
+
+export interface TimeSeriesMeasure {
+  name: string;
+  columns: string[];
+  points: TimeSeriesPoint[];
+  total: number;
+  overallGrowth: number | null;
+  averagePeriodGrowth: number | null;
+  monthOverMonth: PeriodDelta | null;
+  yearOverYear: PeriodDelta | null;
+  bestPeriod: { period: string; value: number } | null;
+  worstPeriod: { period: string; value: number } | null;
+  trend: "upward" | "downward" | "stable";
+}
+
+export interface TimeSeriesSection {
+  dateColumn: string;
+  granularity: Granularity;
+  rollingWindow: number;
+  range: { start: string; end: string };
+  rowsWithDates: number;
+  rowsWithoutDates: number;
+  series: TimeSeriesMeasure[];
+}
+
+export interface TimeSeriesOptions {
+  granularity?: Granularity;
+  rollingWindow?: number;
+}
+
+/* ----------   DATE PARSING   ---------- */
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Excel's day zero is 1899-12-30 once the 1900 leap-year bug is accounted for
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+// Serials between 1954 and 2119; anything outside is almost certainly a
+// quantity rather than a date.
+const MIN_EXCEL_SERIAL = 20000;
+const MAX_EXCEL_SERIAL = 80000;
+
+const DATE_HEADER_PATTERN =
+  /date|time|period|month|day|week|year|quarter|created|updated|timestamp|^dt$/i;
+
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+function utcDate(year: number, month: number, day: number): Date | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Reject roll-overs such as 31/02
+  return date.getUTCMonth() === month - 1 ? date : null;
+}
+
+function expandYear(year: number): number {
+  if (year >= 100) return year;
+  return year < 50 ? 2000 + year : 1900 + year;
+}
+
+export function excelSerialToDate(serial: number): Date {
+  return new Date(EXCEL_EPOCH + Math.round(serial * DAY_MS));
+}
+
+/**
+ * Parses a single cell into a UTC date. Handles Date objects, Excel serial
+ * numbers (only when `allowSerial` is set, since plain numbers are usually
+ * amounts), ISO strings, dd/mm/yyyy (or mm/dd/yyyy when `dayFirst` is
+ * false), "2024-03" / "Mar 2024" month periods and "2024 Q1" quarters.
+ */
+export function parseDateValue(
+  value: unknown,
+  options: { allowSerial?: boolean; dayFirst?: boolean } = {}
+): Date | null {
+  const { allowSerial = false, dayFirst = true } = options;
+
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+
+  if (typeof value === "number") {
+    if (allowSerial && value >= MIN_EXCEL_SERIAL && value <= MAX_EXCEL_SERIAL) {
+      return excelSerialToDate(value);
+    }
+    return null;
+  }
+
+  if (typeof value !== "string") return null;
+  const text = value.trim();
+  if (!text) return null;
+
+  if (allowSerial && /^\d{5}(\.\d+)?$/.test(text)) {
+    return parseDateValue(parseFloat(text), options);
+  }
+
+  // ISO date or datetime: 2024-03-05, 2024-03-05T10:00:00Z
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/);
+  if (match) {
+    if (text.length > 10 && !isNaN(Date.parse(text))) {
+      const parsed = new Date(Date.parse(text));
+      return utcDate(
+        parsed.getUTCFullYear(),
+        parsed.getUTCMonth() + 1,
+        parsed.getUTCDate()
+      );
+    }
+    return utcDate(+match[1], +match[2], +match[3]);
+  }
+
+  // yyyy/mm/dd
+  match = text.match(/^(\d{4})[/.](\d{1,2})[/.](\d{1,2})$/);
+  if (match) return utcDate(+match[1], +match[2], +match[3]);
+
+  // dd/mm/yyyy, dd-mm-yy, dd.mm.yyyy (or month first)
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})(?:\s.*)?$/);
+  if (match) {
+    const first = +match[1];
+    const second = +match[2];
+    const year = expandYear(+match[3]);
+    return dayFirst
+      ? utcDate(year, second, first)
+      : utcDate(year, first, second);
+  }
+
+  // Month periods: 2024-03, 2024/03
+  match = text.match(/^(\d{4})[-/](\d{1,2})$/);
+  if (match) return utcDate(+match[1], +match[2], 1);
+
+  // Quarter periods: 2024 Q1, 2024-Q1, Q1 2024, Q1-24
+  match =
+    text.match(/^(\d{4})[\s-]*Q([1-4])$/i) ||
+    text.match(/^Q([1-4])[\s-]*(\d{2}|\d{4})$/i);
+  if (match) {
+    const [year, quarter] = /^\d{4}/.test(text)
+      ? [+match[1], +match[2]]
+      : [expandYear(+match[2]), +match[1]];
+    return utcDate(year, (quarter - 1) * 3 + 1, 1);
+  }
+
+  // Month name periods: Mar 2024, March-24
+  match = text.match(/^([a-z]{3,9})[\s-]+(\d{2}|\d{4})$/i);
+  if (match) {
+    const month = MONTHS.indexOf(match[1].slice(0, 3).toLowerCase());
+    if (month >= 0) return utcDate(expandYear(+match[2]), month + 1, 1);
+  }
+
+  // Anything else with a month name and a year, e.g. "March 5, 2024"
+  if (/[a-z]{3}/i.test(text) && /\d{4}/.test(text)) {
+    const parsed = Date.parse(text);
+    if (!isNaN(parsed)) {
+      const date = new Date(parsed);
+      return utcDate(date.getFullYear(), date.getMonth() + 1, date.getDate());
+    }
+  }
+
+  return null;
+}
+
+// A column is month-first only if some value has a "day" above 12 in the
+// second position (e.g. 03/25/2024); otherwise dd/mm/yyyy is assumed.
+function inferDayFirst(values: unknown[]): boolean {
+  let dayFirstEvidence = 0;
+  let monthFirstEvidence = 0;
+  values.forEach((value) => {
+    if (typeof value !== "string") return;
+    const match = value.trim().match(/^(\d{1,2})[/.-](\d{1,2})[/.-]\d{2,4}/);
+    if (!match) return;
+    if (+match[1] > 12) dayFirstEvidence++;
+    if (+match[2] > 12) monthFirstEvidence++;
+  });
+  return monthFirstEvidence <= dayFirstEvidence;
+}
+
+export interface DateColumnInfo {
+  column: string;
+  parseRate: number;
+  allowSerial: boolean;
+  dayFirst: boolean;
+}
+
+/**
+ * Finds columns whose values parse as dates. Numeric cells only count as
+ * Excel serials when the header itself looks like a date.
+ */
+export function detectDateColumns(
+  data: Record<string, unknown>[],
+  sampleSize = 200
+): DateColumnInfo[] {
+  const columns = Object.keys(data[0] || {});
+  const sample = data.slice(0, sampleSize);
+
+  return columns
+    .map((column) => {
+      const values = sample
+        .map((row) => row[column])
+        .filter(
+          (value) => value !== null && value !== undefined && value !== ""
+        );
+      if (values.length === 0) return null;
+
+      const allowSerial = DATE_HEADER_PATTERN.test(column);
+      const dayFirst = inferDayFirst(values);
+      const parsed = values.filter(
+        (value) => parseDateValue(value, { allowSerial, dayFirst }) !== null
+      ).length;
+      const parseRate = parsed / values.length;
+
+      const threshold = allowSerial ? 0.6 : 0.8;
+      return parseRate >= threshold
+        ? { column, parseRate, allowSerial, dayFirst }
+        : null;
+    })
+    .filter((info): info is DateColumnInfo => info !== null)
+    .sort(
+      (a, b) =>
+        Number(DATE_HEADER_PATTERN.test(b.column)) -
+          Number(DATE_HEADER_PATTERN.test(a.column)) ||
+        b.parseRate - a.parseRate
+    );
+}
+
+/* ----------   BUCKETING   ---------- */
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function periodStart(date: Date, granularity: Granularity): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (granularity) {
+    case "day":
+      return new Date(Date.UTC(year, month, date.getUTCDate()));
+    case "week": {
+      // ISO weeks start on Monday
+      const offset = (date.getUTCDay() + 6) % 7;
+      return new Date(Date.UTC(year, month, date.getUTCDate() - offset));
+    }
+    case "month":
+      return new Date(Date.UTC(year, month, 1));
+    case "quarter":
+      return new Date(Date.UTC(year, Math.floor(month / 3) * 3, 1));
+  }
+}
+
+function periodLabel(start: Date, granularity: Granularity): string {
+  const year = start.getUTCFullYear();
+  const month = String(start.getUTCMonth() + 1).padStart(2, "0");
+  switch (granularity) {
+    case "day":
+      return isoDay(start);
+    case "week":
+      return `Week of ${isoDay(start)}`;
+    case "month":
+      return `${year}-${month}`;
+    case "quarter":
+      return `${year}-Q${Math.floor(start.getUTCMonth() / 3) + 1}`;
+  }
+}
+
+/** The label of the period a date falls in, e.g. "2024-03" by month. */
+export function periodOf(date: Date, granularity: Granularity): string {
+  return periodLabel(periodStart(date, granularity), granularity);
+}
+
+function nextPeriod(start: Date, granularity: Granularity): Date {
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  switch (granularity) {
+    case "day":
+      return new Date(start.getTime() + DAY_MS);
+    case "week":
+      return new Date(start.getTime() + 7 * DAY_MS);
+    case "month":
+      return new Date(Date.UTC(year, month + 1, 1));
+    case "quarter":
+      return new Date(Date.UTC(year, month + 3, 1));
+  }
+}
+
+export function chooseGranularity(start: Date, end: Date): Granularity {
+  const spanDays = (end.getTime() - start.getTime()) / DAY_MS;
+  if (spanDays <= 45) return "day";
+  if (spanDays <= 190) return "week";
+  if (spanDays <= 3 * 366) return "month";
+  return "quarter";
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === "number") return isFinite(value) ? value : NaN;
+  if (typeof value === "string") {
+    const cleaned = value.replace(/[,$%\s]/g, "");
+    return cleaned === "" ? NaN : parseFloat(cleaned);
+  }
+  return NaN;
+}
+
+function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return ((current - previous) / Math.abs(previous)) * 100;
+}
+
+function buildDelta(
+  current: { label: string; value: number } | undefined,
+  previous: { label: string; value: number } | undefined
+): PeriodDelta | null {
+  if (!current || !previous) return null;
+  return {
+    current: current.label,
+    previous: previous.label,
+    currentValue: current.value,
+    previousValue: previous.value,
+    change: current.value - previous.value,
+    changePercent: percentChange(current.value, previous.value),
+  };
+}
+
+interface DatedRow {
+  date: Date;
+  row: Record<string, unknown>;
+}
+
+function buildMeasure(
+  rows: DatedRow[],
+  name: string,
+  columns: string[],
+  granularity: Granularity,
+  rollingWindow: number,
+  first: Date,
+  last: Date
+): TimeSeriesMeasure {
+  const rowValue = (row: Record<string, unknown>) =>
+    columns.reduce((sum, col) => {
+      const value = toNumber(row[col]);
+      return sum + (isNaN(value) ? 0 : value);
+    }, 0);
+
+  // Pre-fill every period in range so gaps show up as zero rather than
+  // being silently skipped by the growth calculations.
+  const buckets = new Map<
+    string,
+    { start: Date; value: number; count: number }
+  >();
+  for (
+    let cursor = periodStart(first, granularity);
+    cursor.getTime() <= last.getTime();
+    cursor = nextPeriod(cursor, granularity)
+  ) {
+    buckets.set(periodLabel(cursor, granularity), {
+      start: cursor,
+      value: 0,
+      count: 0,
+    });
+  }
+
+  const monthly = new Map<string, number>();
+  rows.forEach(({ date, row }) => {
+    const value = rowValue(row);
+    const start = periodStart(date, granularity);
+    const bucket = buckets.get(periodLabel(start, granularity));
+    if (bucket) {
+      bucket.value += value;
+      bucket.count++;
+    }
+    const monthKey = periodLabel(periodStart(date, "month"), "month");
+    monthly.set(monthKey, (monthly.get(monthKey) || 0) + value);
+  });
+
+  const ordered = Array.from(buckets.entries()).sort(
+    (a, b) => a[1].start.getTime() - b[1].start.getTime()
+  );
+  const points: TimeSeriesPoint[] = ordered.map(([period, bucket], index) => {
+    const previous = index > 0 ? ordered[index - 1][1].value : null;
+    const windowValues = ordered
+      .slice(Math.max(0, index - rollingWindow + 1), index + 1)
+      .map(([, b]) => b.value);
+    return {
+      period,
+      start: isoDay(bucket.start),
+      value: bucket.value,
+      count: bucket.count,
+      growth: previous === null ? null : percentChange(bucket.value, previous),
+      rollingAverage:
+        windowValues.length === rollingWindow
+          ? windowValues.reduce((a, b) => a + b, 0) / rollingWindow
+          : null,
+    };
+  });
+
+  const growths = points
+    .map((point) => point.growth)
+    .filter((growth): growth is number => growth !== null);
+  const populated = points.filter((point) => point.count > 0);
+  const byValue = [...populated].sort((a, b) => b.value - a.value);
+
+  const months = Array.from(monthly.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([label, value]) => ({ label, value }));
+  const latestMonth = months[months.length - 1];
+  const lastYearLabel = latestMonth
+    ? `${+latestMonth.label.slice(0, 4) - 1}${latestMonth.label.slice(4)}`
+    : "";
+
+  const firstPoint = populated[0];
+  const lastPoint = populated[populated.length - 1];
+  const overallGrowth =
+    firstPoint && lastPoint && firstPoint !== lastPoint
+      ? percentChange(lastPoint.value, firstPoint.value)
+      : null;
+
+  // Compare the latest rolling window to the one before it so a single
+  // noisy period does not flip the trend.
+  const recent = points.slice(-rollingWindow).reduce((s, p) => s + p.value, 0);
+  const prior = points
+    .slice(-2 * rollingWindow, -rollingWindow)
+    .reduce((s, p) => s + p.value, 0);
+  const trendChange =
+    points.length >= 2 * rollingWindow
+      ? percentChange(recent, prior)
+      : overallGrowth;
+
+  return {
+    name,
+    columns,
+    points,
+    total: points.reduce((sum, point) => sum + point.value, 0),
+    overallGrowth,
+    averagePeriodGrowth:
+      growths.length > 0
+        ? growths.reduce((a, b) => a + b, 0) / growths.length
+        : null,
+    monthOverMonth: buildDelta(
+      latestMonth,
+      months.length > 1 ? months[months.length - 2] : undefined
+    ),
+    yearOverYear: buildDelta(
+      latestMonth,
+      months.find((month) => month.label === lastYearLabel)
+    ),
+    bestPeriod: byValue[0]
+      ? { period: byValue[0].period, value: byValue[0].value }
+      : null,
+    worstPeriod:
+      byValue.length > 1
+        ? {
+            period: byValue[byValue.length - 1].period,
+            value: byValue[byValue.length - 1].value,
+          }
+        : null,
+    trend:
+      trendChange === null || Math.abs(trendChange) < 5
+        ? "stable"
+        : trendChange > 0
+        ? "upward"
+        : "downward",
+  };
+}
+
+/**
+ * Buckets rows by the first detected date column and returns one series per
+ * measure. Returns null when the data has no usable date column.
+ */
+export function buildTimeSeries(
+  data: Record<string, unknown>[],
+  measures: Record<string, string[]>,
+  options: TimeSeriesOptions = {}
+): TimeSeriesSection | null {
+  const dateColumn = detectDateColumns(data)[0];
+  const activeMeasures = Object.entries(measures).filter(
+    ([, columns]) => columns.length > 0
+  );
+  if (!dateColumn || activeMeasures.length === 0) return null;
+
+  const rows: DatedRow[] = [];
+  data.forEach((row) => {
+    const date = parseDateValue(row[dateColumn.column], dateColumn);
+    if (date) rows.push({ date, row });
+  });
+  if (rows.length < 2) return null;
+
+  const times = rows.map(({ date }) => date.getTime());
+  const first = new Date(times.reduce((a, b) => Math.min(a, b), Infinity));
+  const last = new Date(times.reduce((a, b) => Math.max(a, b), -Infinity));
+  if (first.getTime() === last.getTime()) return null;
+
+  const granularity = options.granularity || chooseGranularity(first, last);
+  const rollingWindow =
+    options.rollingWindow || (granularity === "day" ? 7 : 3);
+
+  return {
+    dateColumn: dateColumn.column,
+    granularity,
+    rollingWindow,
+    range: { start: isoDay(first), end: isoDay(last) },
+    rowsWithDates: rows.length,
+    rowsWithoutDates: data.length - rows.length,
+    series: activeMeasures.map(([name, columns]) =>
+      buildMeasure(rows, name, columns, granularity, rollingWindow, first, last)
+    ),
+  };
+}
+
+/**
+ * One-line description of a measure's trend, used by the generators'
+ * text sections.
+ */
+export function describeTrend(
+  section: TimeSeriesSection,
+  measure: TimeSeriesMeasure
+): string {
+  const parts = [
+    `${measure.name} ${
+      measure.trend === "stable"
+        ? "remaining relatively stable"
+        : `showing ${measure.trend} trend`
+    } across ${measure.points.length} ${section.granularity}s (${
+      section.range.start
+    } to ${section.range.end})`,
+  ];
+  if (measure.overallGrowth !== null) {
+    parts.push(
+      `${measure.overallGrowth.toFixed(1)}% change from first to last period`
+    );
+  }
+  if (measure.bestPeriod) {
+    parts.push(`best period ${measure.bestPeriod.period}`);
+  }
+  if (measure.worstPeriod) {
+    parts.push(`weakest period ${measure.worstPeriod.period}`);
+  }
+  return parts.join("; ");
+}